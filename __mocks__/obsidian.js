@@ -17,6 +17,37 @@ function stub() {
 
 module.exports = {
   App: function App() {},
+  EditorSuggest: class EditorSuggest {
+    constructor(app) {
+      this.app = app;
+      this.context = null;
+    }
+    close() {}
+  },
+  FuzzySuggestModal: class FuzzySuggestModal {
+    constructor(app) {
+      this.app = app;
+    }
+    setPlaceholder() {}
+    open() {}
+    close() {}
+  },
+  Menu: class Menu {
+    addItem() {
+      return this;
+    }
+    addSeparator() {
+      return this;
+    }
+    showAtMouseEvent() {}
+  },
+  Modal: class Modal {
+    constructor(app) {
+      this.app = app;
+    }
+    open() {}
+    close() {}
+  },
   Notice: function Notice() {},
   PluginSettingTab: class PluginSettingTab {
     constructor() {}
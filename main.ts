@@ -1,65 +1,174 @@
-import { Plugin, requestUrl } from 'obsidian';
+import { Notice, Plugin, requestUrl } from 'obsidian';
 import { DEFAULT_SETTINGS, getLLMModel, SettingsTab } from './src/settings';
 import type { PluginSettings } from './src/settings';
 import { registerOmniFocusIntegration } from './src/omnifocus-integration';
-import { runSyncFoldersAndNotify } from './src/sync-folders';
+import { parseProjectDescriptionIndex, parseProjectNoteIndex, runSyncFoldersAndNotify } from './src/sync-folders';
+import { previewFolderSync } from './src/sync-folders-preview';
+import type { ProjectDescriptionIndex, ProjectNoteIndex } from './src/sync-folders';
+import { createBackendFromSettings, setTaskBackend } from './src/omnifocus-backend';
+import { registerCheckboxSync } from './src/checkbox-sync';
+import { registerDailyNote } from './src/daily-note-sync';
+import { registerTasksImport } from './src/tasks-import';
+import { registerProjectReview } from './src/project-review-view';
+import { parseReviewSession } from './src/project-review';
+import type { ReviewSession } from './src/project-review';
+import { parseCheckboxSyncData } from './src/checkbox-sync-plan';
+import type { CheckboxSyncData } from './src/checkbox-sync-plan';
+import { createOfflineCache, parseOfflineData } from './src/omnifocus-offline';
+import type { OfflineCache, OfflineData } from './src/omnifocus-offline';
+import { omnifocusTaskStore } from './src/omnifocus-task-store';
+import { omnifocusUndoStack } from './src/omnifocus-undo';
 import type { LLMPluginContext } from './src/llm';
 import type { LLMProvider } from './src/llm';
 
 export default class ObsidianPlugin extends Plugin {
   settings!: PluginSettings;
+  offlineCache!: OfflineCache;
+  /** Stored next to the settings in data.json under `offlineCache`. */
+  private offlineData: OfflineData = parseOfflineData(null);
+  /** Stored next to the settings in data.json under `checkboxLinks`. */
+  private checkboxLinks: CheckboxSyncData = { links: {} };
+  /** Stored next to the settings in data.json under `projectReview`. */
+  private reviewSession: ReviewSession | null = null;
+  /** Stored next to the settings in data.json under `projectNotes`. */
+  private projectNotes: ProjectNoteIndex = {};
+  /** Stored next to the settings in data.json under `projectDescriptions`. */
+  private projectDescriptions: ProjectDescriptionIndex = {};
 
   async onload() {
     console.log('Loading Obsidian Plugin');
 
     await this.loadSettings();
+    await this.configureTaskBackend();
     this.addSettingTab(new SettingsTab(this.app, this));
 
     registerOmniFocusIntegration(this);
+    registerCheckboxSync(this);
+    registerTasksImport(this);
+    registerDailyNote(this);
+    registerProjectReview(this);
 
     this.addCommand({
       id: 'sync-folders',
       name: 'Sync folders from OmniFocus',
-      callback: () => {
-        const llmContext: LLMPluginContext = {
-          getConfig: () => ({
-            provider: (this.settings.llmProvider ?? 'openrouter') as LLMProvider,
-            apiKey: this.settings.llmApiKey ?? '',
-            baseUrl: this.settings.llmBaseUrl?.trim() || undefined,
-            model: getLLMModel(this.settings, 'syncFolders') || undefined,
-          }),
-          requestUrl: async (opts) => {
-            const res = await requestUrl({
-              url: opts.url,
-              method: opts.method ?? 'GET',
-              headers: opts.headers,
-              body: opts.body,
-              throw: opts.throw ?? false,
-            });
-            const resAny = res as { json: unknown };
-            const rawJson = resAny.json;
-            const json =
-              typeof rawJson === 'object' && rawJson !== null && typeof (rawJson as Promise<unknown>).then === 'function'
-                ? await (rawJson as Promise<unknown>)
-                : rawJson;
-            return { status: res.status, json: json ?? null };
-          },
-        };
-        runSyncFoldersAndNotify(this.app, this.settings, llmContext);
-      },
+      callback: () => void previewFolderSync(this.app, this.settings, this.syncFoldersLLMContext(), this),
+    });
+
+    this.addCommand({
+      id: 'sync-folders-now',
+      name: 'Sync folders from OmniFocus without preview',
+      callback: () => void runSyncFoldersAndNotify(this.app, this.settings, this.syncFoldersLLMContext(), this),
     });
   }
 
+  /** LLM context for project descriptions suggested during folder sync. */
+  private syncFoldersLLMContext(): LLMPluginContext {
+    return {
+      getConfig: () => ({
+        provider: (this.settings.llmProvider ?? 'openrouter') as LLMProvider,
+        apiKey: this.settings.llmApiKey ?? '',
+        baseUrl: this.settings.llmBaseUrl?.trim() || undefined,
+        model: getLLMModel(this.settings, 'syncFolders') || undefined,
+      }),
+      requestUrl: async (opts) => {
+        const res = await requestUrl({
+          url: opts.url,
+          method: opts.method ?? 'GET',
+          headers: opts.headers,
+          body: opts.body,
+          throw: opts.throw ?? false,
+        });
+        const resAny = res as { json: unknown };
+        const rawJson = resAny.json;
+        const json =
+          typeof rawJson === 'object' && rawJson !== null && typeof (rawJson as Promise<unknown>).then === 'function'
+            ? await (rawJson as Promise<unknown>)
+            : rawJson;
+        return { status: res.status, json: json ?? null };
+      },
+    };
+  }
+
   onunload() {
     console.log('Unloading Obsidian Plugin');
   }
 
   async loadSettings() {
-    const raw = await this.loadData();
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, raw ?? {});
+    const stored = ((await this.loadData()) ?? {}) as Record<string, unknown>;
+    const { offlineCache, checkboxLinks, projectReview, projectNotes, projectDescriptions, ...raw } = stored;
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, raw);
+    this.checkboxLinks = parseCheckboxSyncData(checkboxLinks);
+    this.reviewSession = parseReviewSession(projectReview);
+    this.projectNotes = parseProjectNoteIndex(projectNotes);
+    this.projectDescriptions = parseProjectDescriptionIndex(projectDescriptions);
+    this.offlineData = parseOfflineData(offlineCache);
+    this.offlineCache = createOfflineCache(this.offlineData, (data) => {
+      this.offlineData = data;
+      void this.saveSettings();
+    });
   }
 
   async saveSettings() {
-    await this.saveData(this.settings);
+    await this.saveData({
+      ...this.settings,
+      offlineCache: this.offlineData,
+      checkboxLinks: this.checkboxLinks,
+      projectReview: this.reviewSession,
+      projectNotes: this.projectNotes,
+      projectDescriptions: this.projectDescriptions,
+    });
+  }
+
+  loadCheckboxLinks(): CheckboxSyncData {
+    return this.checkboxLinks;
+  }
+
+  saveCheckboxLinks(data: CheckboxSyncData): void {
+    this.checkboxLinks = data;
+    void this.saveSettings();
+  }
+
+  loadReviewSession(): ReviewSession | null {
+    return this.reviewSession;
+  }
+
+  saveReviewSession(session: ReviewSession | null): void {
+    this.reviewSession = session;
+    void this.saveSettings();
+  }
+
+  loadProjectNoteIndex(): ProjectNoteIndex {
+    return this.projectNotes;
+  }
+
+  saveProjectNoteIndex(index: ProjectNoteIndex): void {
+    this.projectNotes = index;
+    void this.saveSettings();
+  }
+
+  loadProjectDescriptions(): ProjectDescriptionIndex {
+    return this.projectDescriptions;
+  }
+
+  saveProjectDescriptions(index: ProjectDescriptionIndex): void {
+    this.projectDescriptions = index;
+    void this.saveSettings();
+  }
+
+  /**
+   * Install the OmniFocus backend selected in settings; keeps the previous one on error.
+   * The undo history is cleared, since its entries belong to the previous backend,
+   * and open blocks reload their tasks from the new one.
+   */
+  async configureTaskBackend() {
+    try {
+      setTaskBackend(await createBackendFromSettings(this.app, this.settings));
+      omnifocusUndoStack.clear();
+      void omnifocusTaskStore.refreshAll();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      new Notice(`OmniFocus backend error: ${message}`);
+      console.error('[omnifocus-sync] configure backend failed:', err);
+    }
   }
 }
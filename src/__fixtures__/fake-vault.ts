@@ -0,0 +1,51 @@
+/**
+ * Vault double for folder sync tests: folders and files kept in maps, with
+ * the project id frontmatter read by regex instead of a metadata cache.
+ */
+
+import type { App } from 'obsidian';
+
+/** Minimal vault double: folders and files kept in maps. */
+export function createFakeApp(): { app: App; files: Map<string, string>; folders: Set<string> } {
+  const files = new Map<string, string>();
+  const folders = new Set<string>();
+  const vault = {
+    createFolder: async (path: string) => {
+      if (folders.has(path)) throw new Error('Folder already exists.');
+      folders.add(path);
+    },
+    getFileByPath: (path: string) => (files.has(path) ? { path } : null),
+    getFolderByPath: (path: string) => (folders.has(path) ? { path } : null),
+    getAbstractFileByPath: (path: string) => (files.has(path) || folders.has(path) ? { path } : null),
+    getMarkdownFiles: () => [...files.keys()].map((path) => ({ path })),
+    create: async (path: string, content: string) => void files.set(path, content),
+    read: async (file: { path: string }) => files.get(file.path) ?? '',
+    modify: async (file: { path: string }, content: string) => void files.set(file.path, content),
+    process: async (file: { path: string }, fn: (data: string) => string) => {
+      const content = fn(files.get(file.path) ?? '');
+      files.set(file.path, content);
+      return content;
+    },
+  };
+  const metadataCache = {
+    getFileCache: (file: { path: string }) => {
+      const id = /^omnifocus-id: (.+)$/m.exec(files.get(file.path) ?? '')?.[1];
+      return { frontmatter: id ? { 'omnifocus-id': id } : undefined };
+    },
+  };
+  /** Renames a file, or a folder together with everything inside it. */
+  const fileManager = {
+    renameFile: async (file: { path: string }, newPath: string) => {
+      const moved = (path: string) => (path === file.path || path.startsWith(`${file.path}/`) ? newPath + path.slice(file.path.length) : path);
+      for (const [path, content] of [...files]) {
+        files.delete(path);
+        files.set(moved(path), content);
+      }
+      for (const path of [...folders]) {
+        folders.delete(path);
+        folders.add(moved(path));
+      }
+    },
+  };
+  return { app: { vault, metadataCache, fileManager } as unknown as App, files, folders };
+}
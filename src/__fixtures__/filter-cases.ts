@@ -0,0 +1,98 @@
+/**
+ * Sample tasks and filters shared by the TypeScript evaluator tests and the
+ * JXA parity test, so both evaluators are held to the same expectations.
+ */
+
+import type { OmniFocusTask } from '../omnifocus';
+
+// Local times so day boundaries do not depend on the machine's time zone.
+export const FILTER_NOW = new Date(2026, 9, 19, 12, 0);
+const at = (day: number, hour = 9) => new Date(2026, 9, day, hour, 0).toISOString();
+
+/** Tasks around {@link FILTER_NOW}; only `garden` is completed. */
+export const FILTER_SAMPLE_TASKS: OmniFocusTask[] = [
+  {
+    id: 'invoice',
+    name: 'Send invoice',
+    note: 'Client: ACME',
+    completed: false,
+    dueDate: at(20),
+    deferDate: null,
+    flagged: true,
+    estimatedMinutes: 15,
+    tags: ['@Office', 'Finance'],
+    projectName: 'Billing',
+    folderPath: 'Work',
+    status: 'due-soon',
+  },
+  {
+    id: 'call',
+    name: 'Call mom',
+    note: '',
+    completed: false,
+    dueDate: at(19, 18),
+    deferDate: null,
+    flagged: false,
+    estimatedMinutes: null,
+    tags: ['@Phone'],
+    projectName: null,
+    folderPath: null,
+    status: 'due-soon',
+  },
+  {
+    id: 'report',
+    name: 'Quarterly report',
+    note: 'see receipt folder',
+    completed: false,
+    dueDate: at(15),
+    deferDate: at(10),
+    flagged: false,
+    estimatedMinutes: 120,
+    tags: ['@Office'],
+    projectName: 'Reporting',
+    folderPath: 'Work/Finance',
+    status: 'overdue',
+  },
+  {
+    id: 'garden',
+    name: 'Plant bulbs',
+    note: '',
+    completed: true,
+    dueDate: null,
+    deferDate: at(25),
+    flagged: false,
+    estimatedMinutes: 60,
+    tags: [],
+    projectName: 'Garden',
+    folderPath: null,
+    status: 'completed',
+  },
+];
+
+/** Filter expressions with the ids of the sample tasks they match, in order. */
+export const FILTER_CASES: [string, string[]][] = [
+  ['tag = @office and due < +3d and not flagged', ['report']],
+  ['text ~ /invoice|receipt/i', ['invoice', 'report']],
+  ['text ~ acme', ['invoice']],
+  ['name = "call mom"', ['call']],
+  ['project = none', ['call']],
+  ['project != billing', ['call', 'report', 'garden']],
+  ['folder ~ /^Work/', ['invoice', 'report']],
+  ['tag ~ /^@/ and tags != @Phone', ['invoice', 'report']],
+  ['tag = none', ['garden']],
+  ['due = today', ['call']],
+  ['due = tomorrow', ['invoice']],
+  ['due <= today', ['call', 'report']],
+  ['due > today', ['invoice']],
+  ['due < today', ['report']],
+  ['due >= 2026-10-20', ['invoice']],
+  ['due = none', ['garden']],
+  ['due != none and due < now', ['report']],
+  ['defer > now', ['garden']],
+  ['estimate >= 1h', ['report', 'garden']],
+  ['estimate < 30 or estimate = none', ['invoice', 'call']],
+  ['completed', ['garden']],
+  ['flagged = false and completed = false', ['call', 'report']],
+  ['status = overdue or status = completed', ['report', 'garden']],
+  ['not (flagged or completed)', ['call', 'report']],
+];
@@ -0,0 +1,132 @@
+import type { OmniFocusTask } from './omnifocus';
+import {
+  checkboxLinkComment,
+  parseCheckboxes,
+  parseCheckboxSyncData,
+  planCheckboxSync,
+  rewriteCheckbox,
+} from './checkbox-sync-plan';
+import type { CheckboxLink, CheckboxSyncData } from './checkbox-sync-plan';
+
+const task = (id: string, name: string, completed = false): OmniFocusTask => ({ id, name, note: '', completed });
+const note = (content: string) => ({ path: 'Daily.md', content });
+const linked = (links: Record<string, CheckboxLink>): CheckboxSyncData => ({ links });
+const link = (text: string, checked = false, name = text): CheckboxLink => ({ path: 'Daily.md', checked, text, name });
+
+describe('parseCheckboxes', () => {
+  it('reads linked and unlinked checkboxes and skips fenced code', () => {
+    const content = [
+      '- [ ] Call Bob <!-- of:kXy2 -->',
+      '  * [x] Done thing',
+      '```',
+      '- [ ] Not a task <!-- of:zzz -->',
+      '```',
+      '- [ ] ',
+      '+ [X] Shout <!--of:a.b-c -->',
+    ].join('\n');
+    expect(parseCheckboxes(content)).toEqual([
+      { line: 0, checked: false, text: 'Call Bob', taskId: 'kXy2' },
+      { line: 1, checked: true, text: 'Done thing', taskId: null },
+      { line: 6, checked: true, text: 'Shout', taskId: 'a.b-c' },
+    ]);
+  });
+});
+
+describe('rewriteCheckbox', () => {
+  it('changes the box, text or link of one line and keeps its indentation and marker', () => {
+    const content = 'Intro\n  * [ ] Call Bob <!-- of:k1 -->\n- [ ] Other';
+    expect(rewriteCheckbox(content, 1, { checked: true })).toBe('Intro\n  * [x] Call Bob <!-- of:k1 -->\n- [ ] Other');
+    expect(rewriteCheckbox(content, 1, { text: 'Call Ann' })).toBe('Intro\n  * [ ] Call Ann <!-- of:k1 -->\n- [ ] Other');
+    expect(rewriteCheckbox(content, 2, { taskId: 'k2' })).toBe(`Intro\n  * [ ] Call Bob <!-- of:k1 -->\n- [ ] Other ${checkboxLinkComment('k2')}`);
+    expect(rewriteCheckbox(content, 0, { checked: true })).toBe(content);
+  });
+});
+
+describe('parseCheckboxSyncData', () => {
+  it('keeps well-formed links and drops the rest', () => {
+    expect(parseCheckboxSyncData({ links: { a: link('A'), b: { path: 'x' } } })).toEqual(linked({ a: link('A') }));
+    expect(parseCheckboxSyncData(undefined)).toEqual(linked({}));
+  });
+});
+
+describe('planCheckboxSync - first sync', () => {
+  it('completes the task of a ticked box and ticks the box of a completed task', () => {
+    const plan = planCheckboxSync(
+      [note('- [x] A <!-- of:a -->\n- [ ] B <!-- of:b -->\n- [ ] C <!-- of:c -->')],
+      [task('a', 'A'), task('b', 'B', true), task('c', 'Renamed C')],
+      linked({}),
+      'omnifocus',
+    );
+    expect(plan.omnifocus).toEqual([{ kind: 'complete', taskId: 'a' }]);
+    expect(plan.notes).toEqual({ 'Daily.md': '- [x] A <!-- of:a -->\n- [x] B <!-- of:b -->\n- [ ] C <!-- of:c -->' });
+    expect(plan.links).toEqual({ a: link('A', true), b: link('B', true), c: link('C', false, 'Renamed C') });
+    expect(plan.conflicts).toEqual([]);
+  });
+});
+
+describe('planCheckboxSync - after a sync', () => {
+  it('sends changes made in the note to OmniFocus', () => {
+    const plan = planCheckboxSync(
+      [note('- [ ] A <!-- of:a -->\n- [ ] Buy milk <!-- of:b -->')],
+      [task('a', 'A', true), task('b', 'Buy bread')],
+      linked({ a: link('A', true), b: link('Buy bread') }),
+      'omnifocus',
+    );
+    expect(plan.omnifocus).toEqual([
+      { kind: 'uncomplete', taskId: 'a' },
+      { kind: 'rename', taskId: 'b', name: 'Buy milk' },
+    ]);
+    expect(plan.notes).toEqual({});
+    expect(plan.links).toEqual({ a: link('A'), b: link('Buy milk') });
+  });
+
+  it('updates the note with changes made in OmniFocus', () => {
+    const plan = planCheckboxSync(
+      [note('- [x] A <!-- of:a -->\n- [ ] B <!-- of:b -->')],
+      [task('a', 'A'), task('b', 'Bee', true)],
+      linked({ a: link('A', true), b: link('B') }),
+      'omnifocus',
+    );
+    expect(plan.omnifocus).toEqual([]);
+    expect(plan.notes['Daily.md']).toBe('- [ ] A <!-- of:a -->\n- [x] Bee <!-- of:b -->');
+    expect(plan.links).toEqual({ a: link('A'), b: link('Bee', true) });
+  });
+
+  it('leaves boxes that agree with their task alone', () => {
+    const plan = planCheckboxSync([note('- [x] A <!-- of:a -->')], [task('a', 'A', true)], linked({ a: link('A') }), 'note');
+    expect(plan).toEqual({ omnifocus: [], notes: {}, conflicts: [], missing: [], links: { a: link('A', true) } });
+  });
+});
+
+describe('planCheckboxSync - conflicts and missing tasks', () => {
+  const rename = (policy: 'omnifocus' | 'note') =>
+    planCheckboxSync([note('- [ ] Note text <!-- of:a -->')], [task('a', 'OmniFocus name')], linked({ a: link('Old') }), policy);
+
+  it('keeps the OmniFocus name when both sides renamed under the omnifocus policy', () => {
+    const plan = rename('omnifocus');
+    expect(plan.conflicts).toEqual([
+      { taskId: 'a', path: 'Daily.md', noteText: 'Note text', omnifocusName: 'OmniFocus name', kept: 'omnifocus' },
+    ]);
+    expect(plan.omnifocus).toEqual([]);
+    expect(plan.notes['Daily.md']).toBe('- [ ] OmniFocus name <!-- of:a -->');
+  });
+
+  it('keeps the note text when both sides renamed under the note policy', () => {
+    const plan = rename('note');
+    expect(plan.omnifocus).toEqual([{ kind: 'rename', taskId: 'a', name: 'Note text' }]);
+    expect(plan.notes).toEqual({});
+    expect(plan.links.a).toEqual(link('Note text'));
+  });
+
+  it('reports boxes whose task is gone and syncs each task only once', () => {
+    const plan = planCheckboxSync(
+      [note('- [x] A <!-- of:a -->\n- [ ] A again <!-- of:a -->\n- [ ] Gone <!-- of:g -->')],
+      [task('a', 'A')],
+      linked({ g: link('Gone') }),
+      'omnifocus',
+    );
+    expect(plan.omnifocus).toEqual([{ kind: 'complete', taskId: 'a' }]);
+    expect(plan.missing).toEqual([{ taskId: 'g', path: 'Daily.md', text: 'Gone' }]);
+    expect(Object.keys(plan.links)).toEqual(['a']);
+  });
+});
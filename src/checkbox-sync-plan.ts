@@ -0,0 +1,227 @@
+/**
+ * Two-way checkbox sync planning (no Obsidian dependency).
+ *
+ * A markdown checkbox is linked to an OmniFocus task by a trailing comment:
+ * `- [ ] Call Bob <!-- of:kXy2 -->`. For every linked checkbox the last state
+ * both sides agreed on is remembered (`CheckboxLink`). On sync, a side that
+ * changed since then wins: ticking the box completes the task, completing
+ * the task ticks the box, and editing the text renames the task (or the
+ * other way round). When both sides changed the text differently, the
+ * conflict policy decides.
+ */
+
+import type { OmniFocusTask } from './omnifocus';
+
+/** A checkbox line in a note. */
+export interface NoteCheckbox {
+  /** 0-based line number. */
+  line: number;
+  checked: boolean;
+  /** Text after the box, without the link comment. */
+  text: string;
+  /** Linked OmniFocus task id, or null for an unlinked checkbox. */
+  taskId: string | null;
+}
+
+/** State of a linked checkbox at the last sync, when both sides agreed. */
+export interface CheckboxLink {
+  path: string;
+  checked: boolean;
+  /** Checkbox text in the note. */
+  text: string;
+  /** Task name in OmniFocus. */
+  name: string;
+}
+
+/** What is stored in the plugin data, keyed by task id. */
+export interface CheckboxSyncData {
+  links: Record<string, CheckboxLink>;
+}
+
+/** Which side keeps its text when both changed it: OmniFocus or the note. */
+export type CheckboxConflictPolicy = 'omnifocus' | 'note';
+
+export type OmniFocusCheckboxChange =
+  | { kind: 'complete' | 'uncomplete'; taskId: string }
+  | { kind: 'rename'; taskId: string; name: string };
+
+export interface CheckboxConflict {
+  taskId: string;
+  path: string;
+  noteText: string;
+  omnifocusName: string;
+  kept: CheckboxConflictPolicy;
+}
+
+export interface CheckboxSyncPlan {
+  /** Changes to send to OmniFocus, in order. */
+  omnifocus: OmniFocusCheckboxChange[];
+  /** New content of the notes that change, by path. */
+  notes: Record<string, string>;
+  conflicts: CheckboxConflict[];
+  /** Linked checkboxes whose task no longer exists in OmniFocus; their links are dropped. */
+  missing: { taskId: string; path: string; text: string }[];
+  /** Links to store once the plan was applied. */
+  links: Record<string, CheckboxLink>;
+}
+
+/** A note as read from the vault. */
+export interface NoteContent {
+  path: string;
+  content: string;
+}
+
+const CHECKBOX_LINE = /^(\s*[-*+]\s+\[)([ xX])(\]\s+)(.*?)(?:\s*<!--\s*of:([A-Za-z0-9._-]+)\s*-->)?\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+
+/** Read stored checkbox links, dropping malformed entries (a fresh vault has none). */
+export function parseCheckboxSyncData(raw: unknown): CheckboxSyncData {
+  const links: Record<string, CheckboxLink> = {};
+  const stored = (raw as { links?: unknown } | null | undefined)?.links;
+  if (typeof stored !== 'object' || stored === null) return { links };
+  for (const id of Object.keys(stored)) {
+    const l = (stored as Record<string, Partial<CheckboxLink>>)[id];
+    if (l && typeof l.path === 'string' && typeof l.checked === 'boolean' && typeof l.text === 'string' && typeof l.name === 'string') {
+      links[id] = { path: l.path, checked: l.checked, text: l.text, name: l.name };
+    }
+  }
+  return { links };
+}
+
+/** The comment that links a checkbox to a task. */
+export function checkboxLinkComment(taskId: string): string {
+  return `<!-- of:${taskId} -->`;
+}
+
+/** Checkboxes in a note, skipping fenced code blocks. */
+export function parseCheckboxes(content: string): NoteCheckbox[] {
+  const out: NoteCheckbox[] = [];
+  let inFence = false;
+  content.split('\n').forEach((line, i) => {
+    if (FENCE.test(line)) inFence = !inFence;
+    if (inFence) return;
+    const m = line.match(CHECKBOX_LINE);
+    if (m && m[4].trim()) out.push({ line: i, checked: m[2] !== ' ', text: m[4].trim(), taskId: m[5] ?? null });
+  });
+  return out;
+}
+
+/**
+ * Rewrite one checkbox line of a note. Indentation and the list marker are
+ * kept; other lines are untouched.
+ */
+export function rewriteCheckbox(
+  content: string,
+  lineNumber: number,
+  change: { checked?: boolean; text?: string; taskId?: string },
+): string {
+  const lines = content.split('\n');
+  const m = lines[lineNumber]?.match(CHECKBOX_LINE);
+  if (!m) return content;
+  const checked = change.checked ?? m[2] !== ' ';
+  const taskId = change.taskId ?? m[5];
+  const text = change.text ?? m[4].trim();
+  lines[lineNumber] = `${m[1]}${checked ? 'x' : ' '}${m[3]}${text}${taskId ? ` ${checkboxLinkComment(taskId)}` : ''}`;
+  return lines.join('\n');
+}
+
+interface CheckboxDecision {
+  omnifocus: OmniFocusCheckboxChange[];
+  note: { checked?: boolean; text?: string };
+  conflict: CheckboxConflict | null;
+  link: CheckboxLink;
+}
+
+/** Reconcile the checked state; on the first sync whichever side is done wins. */
+function decideChecked(box: NoteCheckbox, task: OmniFocusTask, prev: CheckboxLink | undefined, out: CheckboxDecision): void {
+  const completed = task.completed === true;
+  if (box.checked === completed) return;
+  const boxChanged = prev ? box.checked !== prev.checked : box.checked;
+  const taskChanged = prev ? completed !== prev.checked : completed;
+  if (boxChanged && !taskChanged) {
+    out.omnifocus.push({ kind: box.checked ? 'complete' : 'uncomplete', taskId: task.id });
+  } else if (taskChanged && !boxChanged) {
+    out.note.checked = completed;
+    out.link.checked = completed;
+  }
+}
+
+/** Reconcile the text; on the first sync both texts are kept as they are. */
+function decideText(
+  box: NoteCheckbox,
+  task: OmniFocusTask,
+  prev: CheckboxLink | undefined,
+  policy: CheckboxConflictPolicy,
+  out: CheckboxDecision,
+): void {
+  if (!prev || box.text === task.name) return;
+  const textChanged = box.text !== prev.text;
+  const nameChanged = task.name !== prev.name;
+  if (textChanged && nameChanged) {
+    out.conflict = { taskId: task.id, path: out.link.path, noteText: box.text, omnifocusName: task.name, kept: policy };
+  }
+  const noteWins = out.conflict ? policy === 'note' : textChanged;
+  const omnifocusWins = out.conflict ? policy === 'omnifocus' : nameChanged;
+  if (noteWins) {
+    out.omnifocus.push({ kind: 'rename', taskId: task.id, name: box.text });
+    out.link.name = box.text;
+  } else if (omnifocusWins) {
+    out.note.text = task.name;
+    out.link.text = task.name;
+  }
+}
+
+/** Reconcile one linked checkbox with its task. */
+function decide(
+  path: string,
+  box: NoteCheckbox,
+  task: OmniFocusTask,
+  prev: CheckboxLink | undefined,
+  policy: CheckboxConflictPolicy,
+): CheckboxDecision {
+  const decision: CheckboxDecision = {
+    omnifocus: [],
+    note: {},
+    conflict: null,
+    link: { path, checked: box.checked, text: box.text, name: task.name },
+  };
+  decideChecked(box, task, prev, decision);
+  decideText(box, task, prev, policy, decision);
+  return decision;
+}
+
+/**
+ * Plan a sync of every linked checkbox in `notes` with the current state of
+ * their tasks. Unlinked checkboxes are left alone (see the push command).
+ *
+ * @param tasks - The linked tasks as fetched by id; a missing id means the task was deleted.
+ */
+export function planCheckboxSync(
+  notes: NoteContent[],
+  tasks: OmniFocusTask[],
+  data: CheckboxSyncData,
+  policy: CheckboxConflictPolicy,
+): CheckboxSyncPlan {
+  const byId = new Map(tasks.map((t) => [t.id, t] as [string, OmniFocusTask]));
+  const plan: CheckboxSyncPlan = { omnifocus: [], notes: {}, conflicts: [], missing: [], links: {} };
+  for (const { path, content } of notes) {
+    let updated = content;
+    for (const box of parseCheckboxes(content)) {
+      if (!box.taskId || plan.links[box.taskId]) continue;
+      const task = byId.get(box.taskId);
+      if (!task) {
+        plan.missing.push({ taskId: box.taskId, path, text: box.text });
+        continue;
+      }
+      const decision = decide(path, box, task, data.links[box.taskId], policy);
+      plan.omnifocus.push(...decision.omnifocus);
+      if (decision.conflict) plan.conflicts.push(decision.conflict);
+      if (decision.note.checked !== undefined || decision.note.text !== undefined) {
+        updated = rewriteCheckbox(updated, box.line, decision.note);
+      }
+      plan.links[box.taskId] = decision.link;
+    }
+    if (updated !== content) plan.notes[path] = updated;
+  }
+  return plan;
+}
@@ -0,0 +1,277 @@
+/**
+ * Two-way sync between markdown checkboxes and OmniFocus tasks.
+ *
+ * Linked checkboxes (`- [ ] Call Bob <!-- of:kXy2 -->`) are reconciled with
+ * their tasks by the "Sync checkboxes with OmniFocus" command, on the
+ * auto-refresh interval and shortly after a note with links is edited.
+ * Unlinked checkboxes of a note are sent to the inbox or a project with the
+ * "Send checkboxes in this note to OmniFocus" command, which links them to the new tasks.
+ * Planning lives in checkbox-sync-plan.ts.
+ */
+
+import { debounce, Notice, TFile } from 'obsidian';
+import type { App, Command, EventRef } from 'obsidian';
+import type { PluginSettings } from './settings';
+import { completeTask, createTask, errorMessage, fetchProjectNames, fetchTasksById, uncompleteTask, updateTask } from './omnifocus';
+import type { OmniFocusTask, TaskSource } from './omnifocus';
+import { parseCheckboxes, planCheckboxSync, rewriteCheckbox } from './checkbox-sync-plan';
+import type { CheckboxLink, CheckboxSyncData, NoteContent, OmniFocusCheckboxChange } from './checkbox-sync-plan';
+import { AUTO_REFRESH_TICK_MS, createAutoRefresh } from './omnifocus-auto-refresh';
+import { TaskSourceSuggestModal } from './task-source-suggest-modal';
+
+/** Plugin context required for checkbox sync. */
+export interface CheckboxSyncPluginContext {
+  app: App;
+  settings: PluginSettings;
+  loadCheckboxLinks(): CheckboxSyncData;
+  saveCheckboxLinks(data: CheckboxSyncData): void;
+  addCommand(command: Command): Command;
+  registerEvent(eventRef: EventRef): void;
+  registerInterval(id: number): number;
+}
+
+export interface CheckboxSyncResult {
+  /** Tasks completed, reopened or renamed in OmniFocus. */
+  sentToOmniFocus: number;
+  notesUpdated: number;
+  conflicts: number;
+  /** Linked checkboxes whose task was deleted in OmniFocus. */
+  missing: number;
+  failed: string[];
+}
+
+/** Marker every linked checkbox contains; notes without it are skipped cheaply. */
+const LINK_MARKER = '<!-- of:';
+
+/** Wait after the last edit of a note before syncing it. */
+const EDIT_SYNC_DELAY_MS = 2000;
+
+/** Notes this module just wrote, so their modify events don't trigger another sync. */
+const ownWrites = new Set<string>();
+
+async function readLinkedNotes(app: App, files: TFile[]): Promise<NoteContent[]> {
+  const notes: NoteContent[] = [];
+  for (const file of files) {
+    const content = await app.vault.cachedRead(file);
+    if (content.includes(LINK_MARKER)) notes.push({ path: file.path, content });
+  }
+  return notes;
+}
+
+function sendChange(change: OmniFocusCheckboxChange, task: OmniFocusTask): Promise<void> {
+  switch (change.kind) {
+    case 'complete':
+      return completeTask(change.taskId);
+    case 'uncomplete':
+      return uncompleteTask(change.taskId);
+    case 'rename':
+      return updateTask(change.taskId, change.name, task.note);
+  }
+}
+
+/** Replace a note's content unless it changed since it was read; returns whether it was written. */
+async function writeNote(app: App, path: string, before: string, after: string): Promise<boolean> {
+  const file = app.vault.getFileByPath(path);
+  if (!file) return false;
+  let written = false;
+  await app.vault.process(file, (current) => {
+    if (current !== before) return current;
+    written = true;
+    ownWrites.add(path);
+    return after;
+  });
+  return written;
+}
+
+/**
+ * Send planned changes to OmniFocus. A failed change keeps its previous
+ * link, so the next sync tries again.
+ *
+ * @returns The links to store.
+ */
+async function sendChanges(
+  changes: OmniFocusCheckboxChange[],
+  tasks: Map<string, OmniFocusTask>,
+  data: CheckboxSyncData,
+  planned: Record<string, CheckboxLink>,
+  result: CheckboxSyncResult,
+): Promise<Record<string, CheckboxLink>> {
+  const links = { ...planned };
+  for (const change of changes) {
+    try {
+      await sendChange(change, tasks.get(change.taskId) as OmniFocusTask);
+      result.sentToOmniFocus++;
+    } catch (err) {
+      result.failed.push(errorMessage(err));
+      if (data.links[change.taskId]) links[change.taskId] = data.links[change.taskId];
+      else delete links[change.taskId];
+    }
+  }
+  return links;
+}
+
+/** Stored links of notes outside `files`, which a partial sync did not look at. */
+function linksOfOtherNotes(data: CheckboxSyncData, files: TFile[], synced: Record<string, CheckboxLink>): Record<string, CheckboxLink> {
+  const paths = new Set(files.map((f) => f.path));
+  const kept: Record<string, CheckboxLink> = {};
+  for (const id of Object.keys(data.links)) {
+    if (!paths.has(data.links[id].path) && !(id in synced)) kept[id] = data.links[id];
+  }
+  return kept;
+}
+
+/**
+ * Sync linked checkboxes with OmniFocus.
+ *
+ * @param files - Notes to sync; all markdown files when omitted. Links of
+ *   other notes are kept.
+ */
+export async function syncCheckboxes(plugin: CheckboxSyncPluginContext, files?: TFile[]): Promise<CheckboxSyncResult> {
+  const { app } = plugin;
+  const notes = await readLinkedNotes(app, files ?? app.vault.getMarkdownFiles());
+  const data = plugin.loadCheckboxLinks();
+  const ids = new Set<string>();
+  notes.forEach((n) => parseCheckboxes(n.content).forEach((b) => b.taskId && ids.add(b.taskId)));
+  const tasks = await fetchTasksById(Array.from(ids));
+  const byId = new Map(tasks.map((t) => [t.id, t] as [string, OmniFocusTask]));
+  const plan = planCheckboxSync(notes, tasks, data, plugin.settings.checkboxSyncConflicts);
+  const result: CheckboxSyncResult = { sentToOmniFocus: 0, notesUpdated: 0, conflicts: plan.conflicts.length, missing: plan.missing.length, failed: [] };
+
+  const links = await sendChanges(plan.omnifocus, byId, data, plan.links, result);
+  for (const note of notes) {
+    const updated = plan.notes[note.path];
+    if (updated === undefined) continue;
+    if (await writeNote(app, note.path, note.content, updated)) {
+      result.notesUpdated++;
+      continue;
+    }
+    // The note was not updated, so its previous links still describe it.
+    result.failed.push(`${note.path} changed during the sync`);
+    for (const id of Object.keys(links)) {
+      if (links[id].path !== note.path) continue;
+      if (data.links[id]) links[id] = data.links[id];
+      else delete links[id];
+    }
+  }
+
+  const next = { links: files ? { ...linksOfOtherNotes(data, files, links), ...links } : links };
+  if (JSON.stringify(next) !== JSON.stringify(data)) plugin.saveCheckboxLinks(next);
+  return result;
+}
+
+/** Run a full checkbox sync and report changes (or errors) in a notice. */
+export async function runCheckboxSyncAndNotify(plugin: CheckboxSyncPluginContext, quiet = false): Promise<void> {
+  try {
+    const r = await syncCheckboxes(plugin);
+    const parts: string[] = [];
+    if (r.sentToOmniFocus > 0) parts.push(`${r.sentToOmniFocus} OmniFocus change(s)`);
+    if (r.notesUpdated > 0) parts.push(`${r.notesUpdated} note(s) updated`);
+    if (r.conflicts > 0) parts.push(`${r.conflicts} conflict(s) resolved in favour of ${plugin.settings.checkboxSyncConflicts === 'note' ? 'the note' : 'OmniFocus'}`);
+    if (r.missing > 0) parts.push(`${r.missing} linked task(s) no longer in OmniFocus`);
+    if (r.failed.length > 0) parts.push(`${r.failed.length} failed: ${r.failed[0]}`);
+    if (parts.length > 0) new Notice(`Checkbox sync: ${parts.join(', ')}.`);
+    else if (!quiet) new Notice('Checkbox sync: everything is up to date.');
+  } catch (err) {
+    if (!quiet) new Notice(`Checkbox sync error: ${errorMessage(err)}`);
+    console.error('[omnifocus-sync] checkbox sync failed:', err);
+  }
+}
+
+/** Add the ids of newly created tasks to their checkboxes and remember the links. */
+async function linkCreatedTasks(
+  plugin: CheckboxSyncPluginContext,
+  file: TFile,
+  created: { text: string; taskId: string }[],
+): Promise<void> {
+  await plugin.app.vault.process(file, (current) => {
+    let updated = current;
+    for (const { text, taskId } of created) {
+      const box = parseCheckboxes(updated).find((b) => !b.taskId && b.text === text);
+      if (box) updated = rewriteCheckbox(updated, box.line, { taskId });
+    }
+    return updated;
+  });
+  const data = plugin.loadCheckboxLinks();
+  const links = { ...data.links };
+  for (const { text, taskId } of created) links[taskId] = { path: file.path, checked: false, text, name: text };
+  plugin.saveCheckboxLinks({ links });
+}
+
+/**
+ * Create a task for every unchecked, unlinked checkbox of a note and link
+ * the checkboxes to them. When creating a task fails, the tasks created
+ * before it are still linked, so sending again does not duplicate them.
+ *
+ * @returns How many tasks were created.
+ */
+export async function pushUnlinkedCheckboxes(plugin: CheckboxSyncPluginContext, file: TFile, source: TaskSource): Promise<number> {
+  const content = await plugin.app.vault.read(file);
+  const created: { text: string; taskId: string }[] = [];
+  try {
+    for (const box of parseCheckboxes(content)) {
+      if (box.taskId || box.checked) continue;
+      created.push({ text: box.text, taskId: await createTask(source, box.text) });
+    }
+  } finally {
+    if (created.length > 0) await linkCreatedTasks(plugin, file, created);
+  }
+  return created.length;
+}
+
+async function chooseTargetAndPush(plugin: CheckboxSyncPluginContext, file: TFile): Promise<void> {
+  let projects: string[];
+  try {
+    projects = await fetchProjectNames();
+  } catch (err) {
+    new Notice(`Failed to load projects: ${errorMessage(err)}`);
+    return;
+  }
+  new TaskSourceSuggestModal(plugin.app, projects, (source) => {
+    pushUnlinkedCheckboxes(plugin, file, source)
+      .then((count) => new Notice(count > 0 ? `Sent ${count} checkbox(es) to OmniFocus.` : 'No unlinked open checkboxes in this note.'))
+      .catch((err) => new Notice(`Failed to send checkboxes: ${errorMessage(err)}`));
+  }).open();
+}
+
+/**
+ * Register the checkbox sync commands, the sync after edits to notes with
+ * links and the full sync on the auto-refresh interval.
+ */
+export function registerCheckboxSync(plugin: CheckboxSyncPluginContext): void {
+  plugin.addCommand({
+    id: 'sync-checkboxes',
+    name: 'Sync checkboxes with OmniFocus',
+    callback: () => void runCheckboxSyncAndNotify(plugin),
+  });
+  plugin.addCommand({
+    id: 'push-checkboxes',
+    name: 'Send checkboxes in this note to OmniFocus',
+    checkCallback: (checking) => {
+      const file = plugin.app.workspace.getActiveFile();
+      if (!file || file.extension !== 'md') return false;
+      if (!checking) void chooseTargetAndPush(plugin, file);
+      return true;
+    },
+  });
+
+  const autoSync = createAutoRefresh({
+    getIntervalMinutes: () => (plugin.settings.checkboxSync ? plugin.settings.autoRefreshMinutes : 0),
+    refresh: () => void runCheckboxSyncAndNotify(plugin, true),
+  });
+  plugin.registerInterval(window.setInterval(() => autoSync.tick(), AUTO_REFRESH_TICK_MS));
+
+  const pending = new Map<string, TFile>();
+  const syncEdited = debounce(() => {
+    const files = Array.from(pending.values());
+    pending.clear();
+    syncCheckboxes(plugin, files).catch((err) => console.error('[omnifocus-sync] checkbox sync failed:', err));
+  }, EDIT_SYNC_DELAY_MS, true);
+  plugin.registerEvent(
+    plugin.app.vault.on('modify', (file) => {
+      if (!(file instanceof TFile) || file.extension !== 'md' || !plugin.settings.checkboxSync) return;
+      if (ownWrites.delete(file.path)) return;
+      pending.set(file.path, file);
+      syncEdited();
+    }),
+  );
+}
@@ -0,0 +1,43 @@
+/**
+ * Modal asking the user to confirm a change that cannot be fully undone,
+ * such as deleting a task.
+ */
+
+import { App, Modal, Setting } from 'obsidian';
+
+export class ConfirmModal extends Modal {
+  /**
+   * @param confirmText - Text of the (warning-styled) confirm button.
+   * @param onConfirm - Called when the user confirms; closing the modal cancels.
+   */
+  constructor(
+    app: App,
+    private readonly title: string,
+    private readonly message: string,
+    private readonly confirmText: string,
+    private readonly onConfirm: () => void,
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.createEl('h2', { text: this.title });
+    contentEl.createEl('p', { text: this.message });
+    new Setting(contentEl)
+      .addButton((btn) => btn.setButtonText('Cancel').onClick(() => this.close()))
+      .addButton((btn) =>
+        btn
+          .setButtonText(this.confirmText)
+          .setWarning()
+          .onClick(() => {
+            this.close();
+            this.onConfirm();
+          }),
+      );
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Writes the OmniFocus "Today" and "Completed" sections (see daily-note.ts)
+ * into the daily note, with the folder, date format and template of
+ * Obsidian's Daily notes plugin. Runs from a command and, when enabled in
+ * settings, whenever today's note is opened and on the auto-refresh interval
+ * (unless the note is in the active editor).
+ */
+
+import { moment, normalizePath, Notice, TFile } from 'obsidian';
+import type { App, Command, EventRef } from 'obsidian';
+import type { PluginSettings } from './settings';
+import { fetchCompletedTasks, fetchTasks } from './omnifocus';
+import { buildSection, dayRange, formatCompletedSection, formatTodaySection, replaceSection } from './daily-note';
+import { AUTO_REFRESH_TICK_MS, createAutoRefresh } from './omnifocus-auto-refresh';
+
+/** Plugin context required for daily note updates. */
+export interface DailyNotePluginContext {
+  app: App;
+  settings: PluginSettings;
+  addCommand(command: Command): Command;
+  registerEvent(eventRef: EventRef): void;
+  registerInterval(id: number): number;
+}
+
+/** Options of Obsidian's core Daily notes plugin (all optional, as stored by Obsidian). */
+interface DailyNotesOptions {
+  folder?: string;
+  format?: string;
+  template?: string;
+}
+
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+
+/** `moment(day).format(format)`; obsidian's `moment` export is typed as a namespace, so call it through a cast. */
+function formatDay(day: Date, format: string): string {
+  return (moment as unknown as (d: Date) => { format(f: string): string })(day).format(format);
+}
+
+/** The Daily notes plugin's options; not part of Obsidian's public API, so read defensively. */
+function dailyNotesOptions(app: App): DailyNotesOptions {
+  const internal = (app as unknown as {
+    internalPlugins?: { getPluginById(id: string): { instance?: { options?: DailyNotesOptions } } | null };
+  }).internalPlugins;
+  return internal?.getPluginById('daily-notes')?.instance?.options ?? {};
+}
+
+/** Vault path of the daily note for `day`. */
+export function dailyNotePath(app: App, day: Date): string {
+  const { folder, format } = dailyNotesOptions(app);
+  const name = formatDay(day, format?.trim() || DEFAULT_DATE_FORMAT);
+  return normalizePath(`${folder?.trim() ? `${folder.trim()}/` : ''}${name}.md`);
+}
+
+/** Template contents with the `{{date}}`, `{{time}}` and `{{title}}` placeholders the Daily notes plugin fills. */
+async function dailyTemplate(app: App, day: Date, title: string): Promise<string> {
+  const { template, format } = dailyNotesOptions(app);
+  if (!template?.trim()) return '';
+  const file = app.vault.getFileByPath(normalizePath(template.trim().replace(/\.md$/, '') + '.md'));
+  if (!file) return '';
+  return (await app.vault.read(file))
+    .replace(/{{\s*date\s*(?::([^}]+))?}}/gi, (_, f?: string) => formatDay(day, f?.trim() || format?.trim() || DEFAULT_DATE_FORMAT))
+    .replace(/{{\s*time\s*(?::([^}]+))?}}/gi, (_, f?: string) => formatDay(day, f?.trim() || 'HH:mm'))
+    .replace(/{{\s*title\s*}}/gi, title);
+}
+
+/** Today's daily note, created (from the Daily notes template) when missing. */
+async function openOrCreateDailyNote(app: App, day: Date): Promise<TFile> {
+  const path = dailyNotePath(app, day);
+  const existing = app.vault.getFileByPath(path);
+  if (existing) return existing;
+  const folder = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+  if (folder && !app.vault.getFolderByPath(folder)) await app.vault.createFolder(folder);
+  const title = path.slice(path.lastIndexOf('/') + 1).replace(/\.md$/, '');
+  return app.vault.create(path, await dailyTemplate(app, day, title));
+}
+
+/** Both sections for `day`, fetched from OmniFocus. */
+async function buildDailySections(now: Date): Promise<{ today: string; completed: string }> {
+  const { since, until } = dayRange(now);
+  const [forecast, flagged, completed] = await Promise.all([
+    fetchTasks({ kind: 'forecast' }),
+    fetchTasks({ kind: 'flagged' }),
+    fetchCompletedTasks(since, until),
+  ]);
+  return {
+    today: buildSection('today', formatTodaySection([...forecast, ...flagged], now)),
+    completed: buildSection('completed', formatCompletedSection(completed)),
+  };
+}
+
+/**
+ * Write the sections into a daily note, replacing the ones a previous run
+ * wrote. The note is not written at all when the sections are unchanged.
+ *
+ * @returns Whether the note changed.
+ */
+export async function updateDailyNote(app: App, file: TFile, now = new Date()): Promise<boolean> {
+  const sections = await buildDailySections(now);
+  const withSections = (content: string) =>
+    replaceSection(replaceSection(content, 'today', sections.today), 'completed', sections.completed);
+  const current = await app.vault.read(file);
+  if (withSections(current) === current) return false;
+  let changed = false;
+  await app.vault.process(file, (content) => {
+    const updated = withSections(content);
+    changed = updated !== content;
+    return updated;
+  });
+  return changed;
+}
+
+async function runDailyNoteUpdate(app: App): Promise<void> {
+  try {
+    const file = await openOrCreateDailyNote(app, new Date());
+    await updateDailyNote(app, file);
+    new Notice(`Updated OmniFocus sections in ${file.basename}.`);
+  } catch (err) {
+    new Notice(`Failed to update the daily note: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * Update today's note if it exists, without notices (for the automatic
+ * updates). Timer updates skip the note while it is in the active editor,
+ * where the user may be typing.
+ */
+async function updateExistingDailyNote(app: App, fromTimer = false): Promise<void> {
+  const file = app.vault.getFileByPath(dailyNotePath(app, new Date()));
+  if (!file || (fromTimer && app.workspace.getActiveFile()?.path === file.path)) return;
+  try {
+    await updateDailyNote(app, file);
+  } catch (err) {
+    console.error('[omnifocus-sync] daily note update failed:', err);
+  }
+}
+
+/**
+ * Register the daily note command, and the updates when today's note is
+ * opened and on the auto-refresh interval (when enabled in settings).
+ */
+export function registerDailyNote(plugin: DailyNotePluginContext): void {
+  plugin.addCommand({
+    id: 'update-daily-note',
+    name: "Update today's daily note with OmniFocus tasks",
+    callback: () => void runDailyNoteUpdate(plugin.app),
+  });
+
+  plugin.registerEvent(
+    plugin.app.workspace.on('file-open', (file) => {
+      if (!plugin.settings.dailyNoteAutoUpdate || !(file instanceof TFile)) return;
+      if (file.path === dailyNotePath(plugin.app, new Date())) void updateExistingDailyNote(plugin.app);
+    }),
+  );
+  const autoUpdate = createAutoRefresh({
+    getIntervalMinutes: () => (plugin.settings.dailyNoteAutoUpdate ? plugin.settings.autoRefreshMinutes : 0),
+    refresh: () => void updateExistingDailyNote(plugin.app, true),
+  });
+  plugin.registerInterval(window.setInterval(() => autoUpdate.tick(), AUTO_REFRESH_TICK_MS));
+}
@@ -0,0 +1,77 @@
+import type { OmniFocusTask } from './omnifocus';
+import {
+  buildSection,
+  dayRange,
+  formatCompletedSection,
+  formatTodaySection,
+  omnifocusTaskLink,
+  replaceSection,
+} from './daily-note';
+
+/** ISO timestamp of a local date and time in October 2026. */
+const oct = (day: number, hour = 12, minute = 0) => new Date(2026, 9, day, hour, minute).toISOString();
+const task = (id: string, fields: Partial<OmniFocusTask> = {}): OmniFocusTask => ({ id, name: id, note: '', ...fields });
+
+describe('dayRange', () => {
+  it('spans the local day containing the date', () => {
+    expect(dayRange(new Date(2026, 9, 19, 15, 30))).toEqual({ since: oct(19, 0), until: oct(20, 0) });
+  });
+});
+
+describe('omnifocusTaskLink', () => {
+  it('links to the task and escapes brackets in its name', () => {
+    expect(omnifocusTaskLink(task('kXy2', { name: 'Read [draft]\nnotes' }))).toBe(
+      '[Read \\[draft\\] notes](omnifocus:///task/kXy2)',
+    );
+  });
+});
+
+describe('formatTodaySection', () => {
+  const now = new Date(2026, 9, 19, 12);
+
+  it('lists each task once, earliest due first, with flag and project', () => {
+    const later = task('b', { name: 'Later', dueDate: oct(21, 17), projectName: 'Website' });
+    const soon = task('a', { name: 'Soon', dueDate: oct(19, 17), flagged: true });
+    const lines = formatTodaySection([later, soon, later], now);
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatch(/^- \[Soon\]\(omnifocus:\/\/\/task\/a\) — due .+ · flagged$/);
+    expect(lines[1]).toMatch(/^- \[Later\]\(omnifocus:\/\/\/task\/b\) — due .+ · Website$/);
+  });
+
+  it('marks overdue tasks and leaves out missing details', () => {
+    const [late, plain] = formatTodaySection([task('a', { dueDate: oct(17, 17) }), task('b')], now);
+    expect(late).toMatch(/^- \[a\]\(omnifocus:\/\/\/task\/a\) — overdue \(.+\)$/);
+    expect(plain).toBe('- [b](omnifocus:///task/b)');
+  });
+});
+
+describe('formatCompletedSection', () => {
+  it('lists tasks in completion order with their completion time and project', () => {
+    const lines = formatCompletedSection([
+      task('b', { completed: true, completionDate: oct(19, 14, 5) }),
+      task('a', { completed: true, completionDate: oct(19, 9, 30), projectName: 'Garden' }),
+    ]);
+    expect(lines).toEqual(['- 09:30 [a](omnifocus:///task/a) — Garden', '- 14:05 [b](omnifocus:///task/b)']);
+  });
+});
+
+describe('buildSection and replaceSection', () => {
+  const today = buildSection('today', ['- [a](omnifocus:///task/a)']);
+
+  it('wraps the body in markers and falls back to an empty-state line', () => {
+    expect(today).toBe('<!-- omnifocus:today -->\n## Today\n\n- [a](omnifocus:///task/a)\n<!-- /omnifocus:today -->');
+    expect(buildSection('completed', [])).toContain('_No tasks completed yet._');
+  });
+
+  it('appends a missing section after the note content', () => {
+    expect(replaceSection('# Journal\n\n', 'today', today)).toBe(`# Journal\n\n${today}\n`);
+    expect(replaceSection('', 'today', today)).toBe(`${today}\n`);
+  });
+
+  it('replaces the section written by a previous run and keeps the rest', () => {
+    const note = `# Journal\n\n${buildSection('today', [])}\n\nThoughts`;
+    const updated = replaceSection(note, 'today', today);
+    expect(updated).toBe(`# Journal\n\n${today}\n\nThoughts`);
+    expect(replaceSection(updated, 'today', today)).toBe(updated);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Daily note sections (no Obsidian dependency): a "Today" agenda of due,
+ * flagged and forecast tasks and a "Completed" log of the tasks completed
+ * that day, each linking to `omnifocus:///task/<id>`.
+ *
+ * Each section is wrapped in marker comments
+ * (`<!-- omnifocus:today -->` … `<!-- /omnifocus:today -->`) so a re-run
+ * replaces it instead of adding another copy; the rest of the note is kept.
+ */
+
+import type { OmniFocusTask } from './omnifocus';
+import { describeDate, pad2, startOfDay } from './omnifocus-task-meta';
+import { sortTasks } from './omnifocus-task-order';
+
+export type DailyNoteSectionKey = 'today' | 'completed';
+
+const SECTION_HEADINGS: Record<DailyNoteSectionKey, string> = {
+  today: 'Today',
+  completed: 'Completed',
+};
+
+const EMPTY_SECTION: Record<DailyNoteSectionKey, string> = {
+  today: '_Nothing due, flagged or in the forecast._',
+  completed: '_No tasks completed yet._',
+};
+
+function startMarker(key: DailyNoteSectionKey): string {
+  return `<!-- omnifocus:${key} -->`;
+}
+
+function endMarker(key: DailyNoteSectionKey): string {
+  return `<!-- /omnifocus:${key} -->`;
+}
+
+/** Local start of the day containing `day` and of the next one, as ISO timestamps. */
+export function dayRange(day: Date): { since: string; until: string } {
+  const start = new Date(startOfDay(day));
+  const next = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1);
+  return { since: start.toISOString(), until: next.toISOString() };
+}
+
+/** A markdown link to the task in OmniFocus. */
+export function omnifocusTaskLink(task: OmniFocusTask): string {
+  const text = task.name.replace(/\s*\n\s*/g, ' ').replace(/([[\]\\])/g, '\\$1').trim();
+  return `[${text}](omnifocus:///task/${task.id})`;
+}
+
+/** Due date, flag and project of an agenda entry, e.g. "due Today · flagged · Website". */
+function agendaDetails(task: OmniFocusTask, now: Date): string {
+  const details: string[] = [];
+  const due = describeDate(task.dueDate, now);
+  if (due) details.push(due.tone === 'overdue' ? `overdue (${due.label})` : `due ${due.label}`);
+  if (task.flagged) details.push('flagged');
+  if (task.projectName) details.push(task.projectName);
+  return details.length > 0 ? ` — ${details.join(' · ')}` : '';
+}
+
+/**
+ * Body of the "Today" section: each task once, earliest due first, with its
+ * due date, flag and project.
+ */
+export function formatTodaySection(tasks: OmniFocusTask[], now: Date): string[] {
+  const byId = new Map<string, OmniFocusTask>();
+  for (const task of tasks) if (!byId.has(task.id)) byId.set(task.id, task);
+  return sortTasks(Array.from(byId.values()), 'due').map((t) => `- ${omnifocusTaskLink(t)}${agendaDetails(t, now)}`);
+}
+
+/** Body of the "Completed" section: tasks in completion order with their completion time. */
+export function formatCompletedSection(tasks: OmniFocusTask[]): string[] {
+  const time = (t: OmniFocusTask) => (t.completionDate ? Date.parse(t.completionDate) : 0);
+  return tasks
+    .slice()
+    .sort((a, b) => time(a) - time(b))
+    .map((t) => {
+      const at = t.completionDate ? new Date(t.completionDate) : null;
+      const stamp = at ? `${pad2(at.getHours())}:${pad2(at.getMinutes())} ` : '';
+      return `- ${stamp}${omnifocusTaskLink(t)}${t.projectName ? ` — ${t.projectName}` : ''}`;
+    });
+}
+
+/** A whole section with its markers and heading. */
+export function buildSection(key: DailyNoteSectionKey, lines: string[]): string {
+  const body = lines.length > 0 ? lines : [EMPTY_SECTION[key]];
+  return [startMarker(key), `## ${SECTION_HEADINGS[key]}`, '', ...body, endMarker(key)].join('\n');
+}
+
+/**
+ * Replace a section in a note, or append it (after a blank line) when the
+ * note does not have it yet.
+ */
+export function replaceSection(content: string, key: DailyNoteSectionKey, section: string): string {
+  const start = content.indexOf(startMarker(key));
+  const end = start >= 0 ? content.indexOf(endMarker(key), start) : -1;
+  if (start >= 0 && end >= 0) {
+    return content.slice(0, start) + section + content.slice(end + endMarker(key).length);
+  }
+  const trimmed = content.replace(/\s+$/, '');
+  return trimmed ? `${trimmed}\n\n${section}\n` : `${section}\n`;
+}
@@ -0,0 +1,76 @@
+/**
+ * LLM request adapter backed by Obsidian's `requestUrl`, used by Smart Sort
+ * in OmniFocus blocks.
+ */
+
+import { requestUrl } from 'obsidian';
+import type { LLMRequestAdapter } from './llm';
+
+async function normalizeRequestUrlResponse(res: {
+  status: number;
+  text?: string | Promise<string>;
+  json?: unknown;
+}): Promise<{ status: number; json: unknown }> {
+  const rawText = res.text;
+  let text: string;
+  if (
+    rawText !== undefined &&
+    rawText !== null &&
+    typeof (rawText as Promise<string>).then === 'function'
+  ) {
+    text = await (rawText as Promise<string>);
+  } else {
+    text = typeof rawText === 'string' ? rawText : String(rawText ?? '');
+  }
+  let json: unknown;
+  if (text) {
+    try {
+      json = JSON.parse(text);
+    } catch {
+      json = null;
+    }
+  } else {
+    const rawJson = res.json;
+    if (typeof rawJson === 'function') {
+      json = await (rawJson as () => Promise<unknown>)();
+    } else if (
+      rawJson &&
+      typeof (rawJson as Promise<unknown>).then === 'function'
+    ) {
+      json = await (rawJson as Promise<unknown>);
+    } else {
+      json = rawJson;
+    }
+  }
+  return { status: res.status, json: json ?? null };
+}
+
+/** Returns an LLMRequestAdapter that uses Obsidian's requestUrl. */
+export function createObsidianRequestAdapter(): LLMRequestAdapter {
+  return async (opts) => {
+    const res = await requestUrl({
+      url: opts.url,
+      method: opts.method ?? 'GET',
+      headers: opts.headers,
+      body: opts.body,
+      throw: opts.throw ?? false,
+    });
+    const out = await normalizeRequestUrlResponse(res as Parameters<typeof normalizeRequestUrlResponse>[0]);
+    if (opts.url?.includes('/chat/completions') && out.json) {
+      const obj = out.json as Record<string, unknown>;
+      const choices = obj?.choices as Array<{ message?: { content?: unknown } }> | undefined;
+      const content = choices?.[0]?.message?.content;
+      console.log(
+        '[omnifocus-sync] LLM response: status=',
+        res.status,
+        'choices=',
+        choices?.length,
+        'contentType=',
+        typeof content,
+        'contentLength=',
+        typeof content === 'string' ? content.length : 0,
+      );
+    }
+    return out;
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * Project review, status and metadata operations of the AppleScript backend.
+ * Dates cross the osascript boundary as seconds from now (see
+ * `parseProjectReviewOutput`). Spread into `appleScriptBackend` by
+ * omnifocus-applescript.ts, which passes in its script runner.
+ */
+
+import type { OmniFocusProjectMetadata, OmniFocusProjectReview, ProjectStatus } from './omnifocus';
+import { parseProjectMetadataOutput, parseProjectReviewOutput } from './omnifocus';
+import type { TaskBackend } from './omnifocus-backend';
+
+/** Runs an AppleScript with arguments; rejects with `errorPrefix` and stderr. */
+export type AppleScriptRunner = (script: string, args: string[], errorPrefix: string) => Promise<string>;
+
+export type AppleScriptProjectOperations = Pick<
+  TaskBackend,
+  'fetchProjectReviews' | 'fetchProjectMetadata' | 'markProjectReviewed' | 'setProjectStatus'
+>;
+
+const SCRIPT_FETCH_PROJECT_REVIEWS = `on run\n  set sep to character id 31\n  set out to {}\n  set nowDate to current date\n  tell application "OmniFocus"\n    tell default document\n      repeat with p in every flattened project\n        set pathText to name of p\n        set c to container of p\n        repeat while class of c is folder\n          set pathText to (name of c) & "/" & pathText\n          set c to container of c\n        end repeat\n        set lastText to ""\n        if last review date of p is not missing value then set lastText to ((last review date of p) - nowDate) as text\n        set nextText to ""\n        if next review date of p is not missing value then set nextText to ((next review date of p) - nowDate) as text\n        set end of out to (id of p) & sep & (name of p) & sep & pathText & sep & (status of p as text) & sep & lastText & sep & nextText\n      end repeat\n    end tell\n  end tell\n  set AppleScript's text item delimiters to character id 10\n  return out as text\nend run\n`;
+
+const SCRIPT_FETCH_PROJECT_METADATA = `on run\n  set sep to character id 31\n  set out to {}\n  set nowDate to current date\n  tell application "OmniFocus"\n    tell default document\n      repeat with p in every flattened project\n        set dueText to ""\n        if due date of p is not missing value then set dueText to ((due date of p) - nowDate) as text\n        set deferText to ""\n        if defer date of p is not missing value then set deferText to ((defer date of p) - nowDate) as text\n        set lastText to ""\n        if last review date of p is not missing value then set lastText to ((last review date of p) - nowDate) as text\n        set remaining to count of (flattened tasks of p whose completed is false and dropped is false)\n        set done to count of (flattened tasks of p whose completed is true)\n        set AppleScript's text item delimiters to character id 30\n        set tagText to (name of every tag of p) as text\n        set end of out to (id of p) & sep & dueText & sep & deferText & sep & (flagged of p as text) & sep & remaining & sep & done & sep & lastText & sep & tagText\n      end repeat\n    end tell\n  end tell\n  set AppleScript's text item delimiters to character id 10\n  return out as text\nend run\n`;
+
+const SCRIPT_MARK_PROJECT_REVIEWED = `on run argv\n  tell application "OmniFocus"\n    tell default document\n      set proj to first flattened project whose id is (item 1 of argv)\n      set reviewDate to current date\n      set n to steps of (review interval of proj)\n      set u to unit of (review interval of proj)\n      set nextDate to reviewDate + n * weeks\n      if u is day then set nextDate to reviewDate + n * days\n      if u is month then set nextDate to reviewDate + n * 30 * days\n      if u is year then set nextDate to reviewDate + n * 365 * days\n      set last review date of proj to reviewDate\n      set next review date of proj to nextDate\n    end tell\n  end tell\nend run\n`;
+
+const SCRIPT_SET_PROJECT_STATUS = `on run argv\n  tell application "OmniFocus"\n    tell default document\n      set proj to first flattened project whose id is (item 1 of argv)\n      set s to item 2 of argv\n      if s is "on-hold" then\n        set status of proj to on hold status\n      else if s is "completed" then\n        set status of proj to done status\n      else if s is "dropped" then\n        set status of proj to dropped status\n      else\n        set status of proj to active status\n      end if\n    end tell\n  end tell\nend run\n`;
+
+export function createAppleScriptProjectOperations(
+  runScript: AppleScriptRunner,
+): AppleScriptProjectOperations {
+  return {
+    fetchProjectReviews: async (): Promise<OmniFocusProjectReview[]> => {
+      const stdout = await runScript(SCRIPT_FETCH_PROJECT_REVIEWS, [], 'Failed to fetch OmniFocus project reviews: ');
+      return parseProjectReviewOutput(stdout, new Date());
+    },
+
+    fetchProjectMetadata: async (): Promise<OmniFocusProjectMetadata[]> => {
+      const stdout = await runScript(SCRIPT_FETCH_PROJECT_METADATA, [], 'Failed to fetch OmniFocus project metadata: ');
+      return parseProjectMetadataOutput(stdout, new Date());
+    },
+
+    markProjectReviewed: async (projectId) => {
+      await runScript(SCRIPT_MARK_PROJECT_REVIEWED, [projectId], 'Failed to mark OmniFocus project reviewed: ');
+    },
+
+    setProjectStatus: async (projectId: string, status: ProjectStatus) => {
+      await runScript(SCRIPT_SET_PROJECT_STATUS, [projectId, status], 'Failed to set OmniFocus project status: ');
+    },
+  };
+}
@@ -0,0 +1,62 @@
+import { execFile } from 'child_process';
+import { AppleScriptTransportError, completeTask, fetchTasks } from './omnifocus-applescript';
+import { parseFilter } from './omnifocus-filter';
+
+jest.mock('child_process', () => ({ execFile: jest.fn() }));
+
+type ExecCallback = (err: Error | null, stdout: string, stderr: string) => void;
+
+const execFileMock = execFile as unknown as jest.Mock;
+
+/** Answer every osascript call with `stdout`. */
+function osascriptReturns(stdout: string): void {
+  execFileMock.mockImplementation((_cmd: string, _args: string[], cb: ExecCallback) => {
+    cb(null, stdout, '');
+  });
+}
+
+afterEach(() => execFileMock.mockReset());
+
+describe('AppleScript fetchTasks filters', () => {
+  it('filters the delimited output by name, note and completion', async () => {
+    osascriptReturns('Call Bob\x1ft1\x1fabout taxes\nBuy milk\x1ft2\x1f\n');
+    const tasks = await fetchTasks({ kind: 'inbox' }, { filter: parseFilter('text ~ taxes and not completed') });
+    expect(tasks.map((t) => t.id)).toEqual(['t1']);
+  });
+
+  it('rejects filters on fields the output does not carry, before running a script', async () => {
+    osascriptReturns('Call Bob\x1ft1\x1f\n');
+    await expect(
+      fetchTasks({ kind: 'inbox' }, { filter: parseFilter('name ~ Bob or (flagged and due < +3d)') }),
+    ).rejects.toThrow(
+      'The AppleScript transport cannot filter by flagged, due. Switch "OmniFocus transport" to JXA',
+    );
+    expect(execFileMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('AppleScript transport errors', () => {
+  function osascriptFails(stderr: string): void {
+    execFileMock.mockImplementation((_cmd: string, _args: string[], cb: ExecCallback) => {
+      cb(new Error('Command failed: osascript'), '', stderr);
+    });
+  }
+
+  it('reports OmniFocus not answering as a transport error', async () => {
+    osascriptFails('execution error: OmniFocus got an error: AppleEvent timed out. (-1712)\n');
+    const err = await fetchTasks({ kind: 'inbox' }).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(AppleScriptTransportError);
+    expect((err as Error).message).toBe(
+      'Failed to fetch OmniFocus inbox tasks: execution error: OmniFocus got an error: AppleEvent timed out. (-1712)\n',
+    );
+    osascriptFails('');
+    await expect(completeTask('t1')).rejects.toBeInstanceOf(AppleScriptTransportError);
+  });
+
+  it('reports errors from a script that ran as plain errors', async () => {
+    osascriptFails('execution error: OmniFocus got an error: Can’t get flattened task id "t1". (-1728)\n');
+    const err = await completeTask('t1').catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(Error);
+    expect(err).not.toBeInstanceOf(AppleScriptTransportError);
+  });
+});
@@ -1,6 +1,8 @@
 /**
  * OmniFocus AppleScript execution and script building.
- * Script strings live in omnifocus-script-constants.ts; types/parsing in omnifocus.ts.
+ * Script strings live in omnifocus-script-constants.ts; types/parsing in omnifocus.ts;
+ * project review, status and metadata operations in omnifocus-applescript-projects.ts.
+ * Exposed to the rest of the plugin as `appleScriptBackend` (see omnifocus-backend.ts).
  */
 
 import { execFile } from 'child_process';
@@ -10,11 +12,17 @@ import type {
   OmniFocusProjectWithNote,
   ProjectPathWithNote,
 } from './omnifocus';
+import type { FetchTasksOptions, TaskBackend, TaskDateField } from './omnifocus-backend';
+import { createAppleScriptProjectOperations } from './omnifocus-applescript-projects';
+import { filterTasks } from './omnifocus-filter-eval';
+import { filterFields } from './omnifocus-filter';
+import type { FilterField, TaskFilter } from './omnifocus-filter';
 import {
   sanitizeProjectPath,
   resolveName,
   sourceLabel,
   parseTaskOutput,
+  projectStatusFromAppleScript,
 } from './omnifocus';
 import {
   SCRIPT_FETCH_PROJECT_PATHS,
@@ -25,10 +33,18 @@ import {
   TASK_LOOP_WITH_COMPLETED,
   TASK_LOOP_WITHOUT_COMPLETED,
   SCRIPT_COMPLETE_TASK,
+  SCRIPT_UNCOMPLETE_TASK,
+  SCRIPT_DROP_TASK,
+  SCRIPT_DELETE_TASK,
   SCRIPT_UPDATE_TASK,
+  SCRIPT_SET_TASK_DATE,
+  SCRIPT_SET_TASK_FLAGGED,
+  SCRIPT_ADD_TASK_TAG,
+  SCRIPT_REMOVE_TASK_TAG,
   SCRIPT_CREATE_PROJECT,
   SCRIPT_UPDATE_PROJECT_NOTE,
   SCRIPT_MOVE_TASK,
+  SCRIPT_MOVE_TASK_TO_INBOX,
   SCRIPT_CREATE_INBOX_TASK,
   SCRIPT_CREATE_PROJECT_TASK,
   SCRIPT_CREATE_TAG_TASK,
@@ -42,18 +58,44 @@ interface ScriptCommand {
   args: string[];
 }
 
+/** Sources the delimited AppleScript transport can fetch; newer ones need JXA. */
+type AppleScriptSource = Extract<TaskSource, { kind: 'inbox' | 'project' | 'tag' }>;
+
+function assertAppleScriptSource(source: TaskSource): asserts source is AppleScriptSource {
+  if (source.kind !== 'inbox' && source.kind !== 'project' && source.kind !== 'tag') {
+    throw new Error(
+      `The AppleScript transport does not support ${sourceLabel(source)} blocks. ` +
+      'Switch "OmniFocus transport" to JXA in the plugin settings.',
+    );
+  }
+}
+
+/** Filter fields the delimited task output carries (name, id, note, completed). */
+const APPLESCRIPT_FILTER_FIELDS: FilterField[] = ['name', 'note', 'text', 'completed'];
+
+function assertAppleScriptFilter(filter: TaskFilter | undefined): void {
+  if (!filter) return;
+  const unsupported = filterFields(filter).filter((f) => APPLESCRIPT_FILTER_FIELDS.indexOf(f) === -1);
+  if (unsupported.length > 0) {
+    throw new Error(
+      `The AppleScript transport cannot filter by ${unsupported.join(', ')}. ` +
+      'Switch "OmniFocus transport" to JXA in the plugin settings.',
+    );
+  }
+}
+
 function buildFetchTasksScript(
-  source: TaskSource,
+  source: AppleScriptSource,
   includeCompleted: boolean,
 ): ScriptCommand {
   const taskLoop = includeCompleted ? TASK_LOOP_WITH_COMPLETED : TASK_LOOP_WITHOUT_COMPLETED;
-  const inboxFilter = includeCompleted ? 'every inbox task' : 'every inbox task whose completed is false';
+  const inboxFilter = includeCompleted ? 'every inbox task' : 'every inbox task whose completed is false and dropped is false';
   const projectFilter = includeCompleted
     ? 'every flattened task of proj'
-    : 'every flattened task of proj whose completed is false';
+    : 'every flattened task of proj whose completed is false and dropped is false';
   const tagFilter = includeCompleted
     ? 'every flattened task whose (name of every tag contains tagName)'
-    : 'every flattened task whose (name of every tag contains tagName) and completed is false';
+    : 'every flattened task whose (name of every tag contains tagName) and completed is false and dropped is false';
 
   if (source.kind === 'inbox') {
     return {
@@ -73,6 +115,21 @@ function buildFetchTasksScript(
   };
 }
 
+/**
+ * osascript could not reach OmniFocus (not running, not answering or not
+ * permitted), as opposed to an error reported by a script that did run.
+ */
+export class AppleScriptTransportError extends Error {}
+
+/** Apple event errors for not running, connection lost, timed out and not permitted. */
+const TRANSPORT_ERROR_NUMBERS = ['-600', '-609', '-1712', '-1743'];
+
+/** osascript failures end with an error number; none means osascript itself did not run. */
+function isTransportFailure(stderr: string): boolean {
+  const num = stderr.trim().match(/\((-?\d+)\)$/);
+  return !num || TRANSPORT_ERROR_NUMBERS.indexOf(num[1]) !== -1;
+}
+
 function runScript(
   script: string,
   args: string[] = [],
@@ -81,8 +138,8 @@ function runScript(
   return new Promise((resolve, reject) => {
     execFile('osascript', ['-e', script, ...args], (error, stdout, stderr) => {
       if (error) {
-        const msg = stderr || error.message;
-        reject(new Error(errorPrefix ? `${errorPrefix}${msg}` : msg));
+        const msg = `${errorPrefix}${stderr || error.message}`;
+        reject(isTransportFailure(stderr ?? '') ? new AppleScriptTransportError(msg) : new Error(msg));
         return;
       }
       resolve(stdout);
@@ -120,7 +177,7 @@ export function fetchProjectPathsWithNotes(): Promise<ProjectPathWithNote[]> {
       if (parts.length >= 1) {
         const path = sanitizeProjectPath((parts[0] ?? '').trim());
         const note = (parts[1] ?? '').replace(/\\n/g, LF);
-        if (path) result.push({ path, note });
+        if (path) result.push({ path, note, id: (parts[2] ?? '').trim(), status: projectStatusFromAppleScript(parts[3] ?? '') });
       }
     }
     return result;
@@ -173,9 +230,11 @@ export function fetchTagNames(): Promise<string[]> {
 
 export async function fetchTasks(
   source: TaskSource,
-  options?: { includeCompleted?: boolean },
+  options?: FetchTasksOptions,
 ): Promise<OmniFocusTask[]> {
-  let resolvedSource = source;
+  assertAppleScriptSource(source);
+  assertAppleScriptFilter(options?.filter);
+  let resolvedSource: AppleScriptSource = source;
   if (source.kind === 'project') {
     const projects = await fetchProjectNames();
     resolvedSource = { kind: 'project', name: resolveName(source.name, projects, 'project') };
@@ -187,15 +246,33 @@ export async function fetchTasks(
   const { script, args } = buildFetchTasksScript(resolvedSource, includeCompleted);
   const prefix = `Failed to fetch OmniFocus ${sourceLabel(resolvedSource)} tasks: `;
   const stdout = await runScript(script, args, prefix);
-  return parseTaskOutput(stdout);
+  // No metadata in the delimited output, so filters run here on names, notes and completion.
+  return filterTasks(parseTaskOutput(stdout), options?.filter, new Date());
+}
+
+export async function fetchTasksById(taskIds: string[]): Promise<OmniFocusTask[]> {
+  if (taskIds.length === 0) return [];
+  // Ids OmniFocus does not know are skipped by the try block.
+  const script = `on run argv\n  tell application "OmniFocus"\n    tell default document\n      set taskList to {}\n      repeat with taskId in argv\n        try\n          set end of taskList to first flattened task whose id is (taskId as text)\n        end try\n      end repeat${TASK_LOOP_WITH_COMPLETED}\n    end tell\n  end tell\nend run\n`;
+  return parseTaskOutput(await runScript(script, taskIds, 'Failed to fetch OmniFocus tasks by id: '));
+}
+
+/** AppleScript dates are local and locale-formatted, so the range is passed as seconds before now. */
+export async function fetchCompletedTasks(since: string, until: string): Promise<OmniFocusTask[]> {
+  const secondsAgo = (iso: string) => String(Math.round((Date.now() - Date.parse(iso)) / 1000));
+  const script = `on run argv\n  set sinceDate to (current date) - (item 1 of argv as integer)\n  set untilDate to (current date) - (item 2 of argv as integer)\n  tell application "OmniFocus"\n    tell default document\n      set taskList to every flattened task whose completed is true and completion date ≥ sinceDate and completion date < untilDate${TASK_LOOP_WITH_COMPLETED}\n    end tell\n  end tell\nend run\n`;
+  return parseTaskOutput(
+    await runScript(script, [secondsAgo(since), secondsAgo(until)], 'Failed to fetch completed OmniFocus tasks: '),
+  );
 }
 
 export async function createTask(
   source: TaskSource,
   taskName: string,
   taskNote = '',
-): Promise<void> {
-  let resolvedSource = source;
+): Promise<string> {
+  assertAppleScriptSource(source);
+  let resolvedSource: AppleScriptSource = source;
   if (source.kind === 'project') {
     const projects = await fetchProjectNames();
     resolvedSource = { kind: 'project', name: resolveName(source.name, projects, 'project') };
@@ -214,7 +291,7 @@ export async function createTask(
       ? [taskName, taskNote]
       : [resolvedSource.name, taskName, taskNote];
   const prefix = `Failed to create OmniFocus ${sourceLabel(resolvedSource)} task: `;
-  await runScript(script, args, prefix);
+  return (await runScript(script, args, prefix)).trim();
 }
 
 export function completeTask(taskId: string): Promise<void> {
@@ -225,6 +302,30 @@ export function completeTask(taskId: string): Promise<void> {
   ).then(() => undefined);
 }
 
+export function uncompleteTask(taskId: string): Promise<void> {
+  return runScript(
+    SCRIPT_UNCOMPLETE_TASK,
+    [taskId],
+    'Failed to mark OmniFocus task incomplete: ',
+  ).then(() => undefined);
+}
+
+export function dropTask(taskId: string): Promise<void> {
+  return runScript(
+    SCRIPT_DROP_TASK,
+    [taskId],
+    'Failed to drop OmniFocus task: ',
+  ).then(() => undefined);
+}
+
+export function deleteTask(taskId: string): Promise<void> {
+  return runScript(
+    SCRIPT_DELETE_TASK,
+    [taskId],
+    'Failed to delete OmniFocus task: ',
+  ).then(() => undefined);
+}
+
 export function updateTask(
   taskId: string,
   name: string,
@@ -237,6 +338,55 @@ export function updateTask(
   ).then(() => undefined);
 }
 
+/** Local date parts for SCRIPT_SET_TASK_DATE; none (clear the date) for null. */
+function dateArgs(iso: string | null): string[] {
+  if (!iso) return [];
+  const d = new Date(iso);
+  if (isNaN(d.getTime())) throw new Error(`Invalid date: ${iso}`);
+  const seconds = d.getHours() * 3600 + d.getMinutes() * 60 + d.getSeconds();
+  return [d.getFullYear(), d.getMonth() + 1, d.getDate(), seconds].map(String);
+}
+
+export async function setTaskDate(
+  taskId: string,
+  field: TaskDateField,
+  date: string | null,
+): Promise<void> {
+  await runScript(
+    SCRIPT_SET_TASK_DATE,
+    [taskId, field, ...dateArgs(date)],
+    `Failed to set ${field} date of OmniFocus task: `,
+  );
+}
+
+export function setTaskFlagged(taskId: string, flagged: boolean): Promise<void> {
+  return runScript(
+    SCRIPT_SET_TASK_FLAGGED,
+    [taskId, String(flagged)],
+    'Failed to flag OmniFocus task: ',
+  ).then(() => undefined);
+}
+
+export async function addTagToTask(taskId: string, tagName: string): Promise<void> {
+  const tags = await fetchTagNames();
+  const resolved = resolveName(tagName, tags, 'tag');
+  await runScript(
+    SCRIPT_ADD_TASK_TAG,
+    [taskId, resolved],
+    'Failed to tag OmniFocus task: ',
+  );
+}
+
+export async function removeTagFromTask(taskId: string, tagName: string): Promise<void> {
+  const tags = await fetchTagNames();
+  const resolved = resolveName(tagName, tags, 'tag');
+  await runScript(
+    SCRIPT_REMOVE_TASK_TAG,
+    [taskId, resolved],
+    'Failed to untag OmniFocus task: ',
+  );
+}
+
 export function createProject(projectName: string): Promise<void> {
   return runScript(
     SCRIPT_CREATE_PROJECT,
@@ -246,14 +396,12 @@ export function createProject(projectName: string): Promise<void> {
 }
 
 export async function updateProjectNote(
-  projectName: string,
+  projectId: string,
   note: string,
 ): Promise<void> {
-  const projects = await fetchProjectNames();
-  const resolved = resolveName(projectName, projects, 'project');
   await runScript(
     SCRIPT_UPDATE_PROJECT_NOTE,
-    [resolved, note],
+    [projectId, note],
     'Failed to update OmniFocus project note: ',
   );
 }
@@ -270,3 +418,38 @@ export async function moveTaskToProject(
     'Failed to move OmniFocus task: ',
   );
 }
+
+export function moveTaskToInbox(taskId: string): Promise<void> {
+  return runScript(
+    SCRIPT_MOVE_TASK_TO_INBOX,
+    [taskId],
+    'Failed to move OmniFocus task to the inbox: ',
+  ).then(() => undefined);
+}
+
+/** Backend that drives OmniFocus 4 through osascript. */
+export const appleScriptBackend: TaskBackend = {
+  fetchProjectPaths,
+  fetchProjectPathsWithNotes,
+  fetchProjectNames,
+  fetchProjectsWithNotes,
+  fetchTagNames,
+  fetchTasks,
+  fetchTasksById,
+  fetchCompletedTasks,
+  createTask,
+  completeTask,
+  uncompleteTask,
+  dropTask,
+  deleteTask,
+  updateTask,
+  setTaskDate,
+  setTaskFlagged,
+  addTagToTask,
+  removeTagFromTask,
+  createProject,
+  updateProjectNote,
+  ...createAppleScriptProjectOperations(runScript),
+  moveTaskToProject,
+  moveTaskToInbox,
+};
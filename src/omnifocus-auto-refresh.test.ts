@@ -0,0 +1,43 @@
+import { createAutoRefresh } from './omnifocus-auto-refresh';
+
+describe('createAutoRefresh', () => {
+  it('refreshes once the interval has passed since the last refresh', () => {
+    let time = 0;
+    let refreshes = 0;
+    const auto = createAutoRefresh({ getIntervalMinutes: () => 5, refresh: () => refreshes++, now: () => time });
+    time = 4 * 60 * 1000;
+    auto.tick();
+    expect(refreshes).toBe(0);
+    time = 5 * 60 * 1000;
+    auto.tick();
+    auto.tick();
+    expect(refreshes).toBe(1);
+  });
+
+  it('restarts the interval after a refresh on focus', () => {
+    let time = 0;
+    let refreshes = 0;
+    const auto = createAutoRefresh({ getIntervalMinutes: () => 5, refresh: () => refreshes++, now: () => time });
+    time = 4 * 60 * 1000;
+    auto.refreshNow();
+    time = 6 * 60 * 1000;
+    auto.tick();
+    expect(refreshes).toBe(1);
+    time = 9 * 60 * 1000;
+    auto.tick();
+    expect(refreshes).toBe(2);
+  });
+
+  it('reads the interval on every tick and treats 0 as off', () => {
+    let time = 0;
+    let minutes = 0;
+    let refreshes = 0;
+    const auto = createAutoRefresh({ getIntervalMinutes: () => minutes, refresh: () => refreshes++, now: () => time });
+    time = 60 * 60 * 1000;
+    auto.tick();
+    expect(refreshes).toBe(0);
+    minutes = 1;
+    auto.tick();
+    expect(refreshes).toBe(1);
+  });
+});
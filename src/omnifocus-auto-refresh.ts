@@ -0,0 +1,60 @@
+/**
+ * Auto-refresh of OmniFocus blocks: the polling timer driven by the
+ * "Auto-refresh interval" setting, and visibility tracking so blocks
+ * scrolled out of view are not polled. No lit or Obsidian dependency.
+ */
+
+/** How often the timer checks whether a refresh is due; interval changes apply within this delay. */
+export const AUTO_REFRESH_TICK_MS = 30 * 1000;
+
+export interface AutoRefresh {
+  /** Called by a timer every {@link AUTO_REFRESH_TICK_MS}; refreshes when the interval has passed. */
+  tick(): void;
+  /** Refresh now (e.g. when the window regains focus) and restart the interval. */
+  refreshNow(): void;
+}
+
+/**
+ * Create the auto-refresh schedule. The interval is read on every tick, so a
+ * changed setting needs no restart; 0 or less turns polling off.
+ *
+ * @param options.getIntervalMinutes - Current interval setting.
+ * @param options.refresh - Refetches the blocks' tasks.
+ * @param options.now - Clock in epoch milliseconds (for tests).
+ */
+export function createAutoRefresh(options: {
+  getIntervalMinutes: () => number;
+  refresh: () => void;
+  now?: () => number;
+}): AutoRefresh {
+  const now = options.now ?? (() => Date.now());
+  let lastRefresh = now();
+  const refreshNow = () => {
+    lastRefresh = now();
+    options.refresh();
+  };
+  return {
+    tick: () => {
+      const minutes = options.getIntervalMinutes();
+      if (!(minutes > 0)) return;
+      if (now() - lastRefresh >= minutes * 60 * 1000) refreshNow();
+    },
+    refreshNow,
+  };
+}
+
+/**
+ * Call `onChange` whenever `el` scrolls into or out of view.
+ *
+ * @returns A function that stops watching. Without IntersectionObserver the
+ *   element counts as always visible and `onChange` is never called.
+ */
+export function watchVisibility(el: HTMLElement, onChange: (visible: boolean) => void): () => void {
+  if (typeof IntersectionObserver === 'undefined') return () => {};
+  const observer = new IntersectionObserver((entries) => {
+    const entry = entries[entries.length - 1];
+    if (entry) onChange(entry.isIntersecting);
+  });
+  observer.observe(el);
+  return () => observer.disconnect();
+}
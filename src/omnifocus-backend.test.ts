@@ -0,0 +1,27 @@
+import { withAppleScriptFallback } from './omnifocus-backend';
+import { JxaTransportError } from './omnifocus-jxa';
+import { createMemoryBackend, emptyMemoryDatabase } from './omnifocus-memory-backend';
+
+describe('withAppleScriptFallback', () => {
+  const fallback = createMemoryBackend({ ...emptyMemoryDatabase(), tags: [{ id: 'g1', name: 'Errand' }] });
+
+  it('retries calls JXA could not run on the fallback', async () => {
+    const primary = {
+      ...createMemoryBackend(emptyMemoryDatabase()),
+      fetchTagNames: () => Promise.reject(new JxaTransportError('osascript: no JXA')),
+    };
+    expect(await withAppleScriptFallback(primary, fallback).fetchTagNames()).toEqual(['Errand']);
+  });
+
+  it('passes on errors from scripts that ran, and the JXA error when the fallback fails too', async () => {
+    const scriptError = new Error('Task not found');
+    const primary = {
+      ...createMemoryBackend(emptyMemoryDatabase()),
+      completeTask: () => Promise.reject(scriptError),
+      dropTask: () => Promise.reject(new JxaTransportError('osascript: no JXA')),
+    };
+    const backend = withAppleScriptFallback(primary, fallback);
+    await expect(backend.completeTask('t1')).rejects.toBe(scriptError);
+    await expect(backend.dropTask('missing')).rejects.toThrow('osascript: no JXA');
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Pluggable OmniFocus backend.
+ *
+ * Every read and mutation the plugin performs goes through a `TaskBackend`.
+ * The JXA backend talks to OmniFocus via Omni Automation and JSON, falling
+ * back to the AppleScript backend when JXA cannot run; the memory
+ * backend (optionally persisted to a JSON file in the vault) lets the block
+ * UI, folder sync and Smart Sort run anywhere. The functions below delegate
+ * to the active backend and are re-exported from omnifocus.ts.
+ */
+
+import type { App } from 'obsidian';
+import type {
+  TaskSource,
+  OmniFocusTask,
+  OmniFocusProjectWithNote,
+  OmniFocusProjectMetadata,
+  OmniFocusProjectReview,
+  ProjectPathWithNote,
+  ProjectStatus,
+} from './omnifocus';
+import type { TaskFilter } from './omnifocus-filter';
+import { appleScriptBackend } from './omnifocus-applescript';
+import { jxaBackend, JxaTransportError } from './omnifocus-jxa';
+import {
+  createMemoryBackend,
+  emptyMemoryDatabase,
+  parseMemoryDatabase,
+} from './omnifocus-memory-backend';
+
+/** Options for `fetchTasks`. */
+export interface FetchTasksOptions {
+  includeCompleted?: boolean;
+  /** Only return matching tasks; backends evaluate it as close to the data as they can. */
+  filter?: TaskFilter;
+}
+
+/** Task dates that can be set from a block: due or defer. */
+export type TaskDateField = 'due' | 'defer';
+
+/** Operations every OmniFocus backend must implement. */
+export interface TaskBackend {
+  fetchProjectPaths(): Promise<string[]>;
+  fetchProjectPathsWithNotes(): Promise<ProjectPathWithNote[]>;
+  fetchProjectNames(): Promise<string[]>;
+  fetchProjectsWithNotes(): Promise<OmniFocusProjectWithNote[]>;
+  fetchTagNames(): Promise<string[]>;
+  fetchTasks(
+    source: TaskSource,
+    options?: FetchTasksOptions,
+  ): Promise<OmniFocusTask[]>;
+  /** Tasks with these ids, completed and dropped ones included; unknown ids are left out. */
+  fetchTasksById(taskIds: string[]): Promise<OmniFocusTask[]>;
+  /** Tasks completed at or after `since` and before `until` (ISO timestamps), from every project and the inbox. */
+  fetchCompletedTasks(since: string, until: string): Promise<OmniFocusTask[]>;
+  /** @returns The new task's id. */
+  createTask(source: TaskSource, taskName: string, taskNote?: string): Promise<string>;
+  completeTask(taskId: string): Promise<void>;
+  /** Mark a completed or dropped task incomplete again. */
+  uncompleteTask(taskId: string): Promise<void>;
+  dropTask(taskId: string): Promise<void>;
+  /** Delete a task and its subtasks. */
+  deleteTask(taskId: string): Promise<void>;
+  updateTask(taskId: string, name: string, note: string): Promise<void>;
+  /** Set (ISO timestamp) or clear (null) a task's due or defer date. */
+  setTaskDate(taskId: string, field: TaskDateField, date: string | null): Promise<void>;
+  setTaskFlagged(taskId: string, flagged: boolean): Promise<void>;
+  addTagToTask(taskId: string, tagName: string): Promise<void>;
+  removeTagFromTask(taskId: string, tagName: string): Promise<void>;
+  createProject(projectName: string): Promise<void>;
+  updateProjectNote(projectId: string, note: string): Promise<void>;
+  /** Review state and status of every project. */
+  fetchProjectReviews(): Promise<OmniFocusProjectReview[]>;
+  /** Dates, flag, tags and task counts of every project. */
+  fetchProjectMetadata(): Promise<OmniFocusProjectMetadata[]>;
+  /** Set the last review date to now and schedule the next review by the project's review interval. */
+  markProjectReviewed(projectId: string): Promise<void>;
+  setProjectStatus(projectId: string, status: ProjectStatus): Promise<void>;
+  moveTaskToProject(taskId: string, projectName: string): Promise<void>;
+  moveTaskToInbox(taskId: string): Promise<void>;
+}
+
+/** Backend kinds selectable in settings. */
+export type TaskBackendKind = 'omnifocus' | 'memory' | 'json-file';
+
+/** How the `omnifocus` backend talks to OmniFocus: JSON via JXA, or legacy delimited AppleScript. */
+export type OmniFocusTransport = 'jxa' | 'applescript';
+
+/** Null until a backend is installed; falls back to JXA (resolved lazily to survive import cycles). */
+let activeBackend: TaskBackend | null = null;
+
+/** Returns the backend all OmniFocus calls currently go through. */
+export function getTaskBackend(): TaskBackend {
+  return activeBackend ?? jxaBackend;
+}
+
+/** Replace the active backend (used on plugin load, on settings change and in tests). */
+export function setTaskBackend(backend: TaskBackend): void {
+  activeBackend = backend;
+}
+
+/**
+ * A backend that runs every call on `primary` and retries it on `fallback`
+ * when JXA could not run it at all (`JxaTransportError`). Errors reported by a
+ * script that did run, such as an unknown task id, are passed on without a
+ * retry, so no change is applied twice. When the fallback fails as well, the
+ * primary's error is thrown.
+ */
+export function withAppleScriptFallback(primary: TaskBackend, fallback: TaskBackend): TaskBackend {
+  const backend = {} as Record<keyof TaskBackend, (...args: unknown[]) => Promise<unknown>>;
+  for (const key of Object.keys(primary) as (keyof TaskBackend)[]) {
+    const call = (target: TaskBackend, args: unknown[]) =>
+      (target[key] as (...args: unknown[]) => Promise<unknown>).apply(target, args);
+    backend[key] = async (...args) => {
+      try {
+        return await call(primary, args);
+      } catch (err) {
+        if (!(err instanceof JxaTransportError)) throw err;
+        console.warn(`[omnifocus-sync] JXA failed, retrying ${key} over AppleScript:`, err.message);
+        return call(fallback, args).catch(() => Promise.reject(err));
+      }
+    };
+  }
+  return backend as unknown as TaskBackend;
+}
+
+/**
+ * Build the backend selected in settings.
+ *
+ * - `omnifocus` → OmniFocus via osascript (macOS only), using `omnifocusTransport`;
+ *   JXA falls back to AppleScript for calls JXA cannot run
+ * - `memory` → empty in-memory database, discarded on reload
+ * - `json-file` → in-memory database loaded from and saved to a vault file
+ *
+ * @throws If the JSON file exists but is not a valid database.
+ */
+export async function createBackendFromSettings(
+  app: App,
+  settings: {
+    taskBackend: TaskBackendKind;
+    taskBackendJsonPath: string;
+    omnifocusTransport: OmniFocusTransport;
+  },
+): Promise<TaskBackend> {
+  if (settings.taskBackend === 'memory') {
+    return createMemoryBackend(emptyMemoryDatabase());
+  }
+  if (settings.taskBackend === 'json-file') {
+    const path = settings.taskBackendJsonPath.trim();
+    if (!path) {
+      throw new Error('JSON file backend requires a file path. Set it in plugin settings.');
+    }
+    const adapter = app.vault.adapter;
+    const db = (await adapter.exists(path))
+      ? parseMemoryDatabase(await adapter.read(path))
+      : emptyMemoryDatabase();
+    return createMemoryBackend(db, {
+      onChange: (next) => adapter.write(path, JSON.stringify(next, null, 2)),
+    });
+  }
+  if (settings.omnifocusTransport === 'applescript') return appleScriptBackend;
+  return withAppleScriptFallback(jxaBackend, appleScriptBackend);
+}
+
+export function fetchProjectPaths(): Promise<string[]> {
+  return getTaskBackend().fetchProjectPaths();
+}
+
+export function fetchProjectPathsWithNotes(): Promise<ProjectPathWithNote[]> {
+  return getTaskBackend().fetchProjectPathsWithNotes();
+}
+
+export function fetchProjectNames(): Promise<string[]> {
+  return getTaskBackend().fetchProjectNames();
+}
+
+export function fetchProjectsWithNotes(): Promise<OmniFocusProjectWithNote[]> {
+  return getTaskBackend().fetchProjectsWithNotes();
+}
+
+export function fetchTagNames(): Promise<string[]> {
+  return getTaskBackend().fetchTagNames();
+}
+
+export function fetchTasks(
+  source: TaskSource,
+  options?: FetchTasksOptions,
+): Promise<OmniFocusTask[]> {
+  return getTaskBackend().fetchTasks(source, options);
+}
+
+export function fetchTasksById(taskIds: string[]): Promise<OmniFocusTask[]> {
+  return getTaskBackend().fetchTasksById(taskIds);
+}
+
+export function fetchCompletedTasks(since: string, until: string): Promise<OmniFocusTask[]> {
+  return getTaskBackend().fetchCompletedTasks(since, until);
+}
+
+export function createTask(
+  source: TaskSource,
+  taskName: string,
+  taskNote = '',
+): Promise<string> {
+  return getTaskBackend().createTask(source, taskName, taskNote);
+}
+
+export function completeTask(taskId: string): Promise<void> {
+  return getTaskBackend().completeTask(taskId);
+}
+
+export function uncompleteTask(taskId: string): Promise<void> {
+  return getTaskBackend().uncompleteTask(taskId);
+}
+
+export function dropTask(taskId: string): Promise<void> {
+  return getTaskBackend().dropTask(taskId);
+}
+
+export function deleteTask(taskId: string): Promise<void> {
+  return getTaskBackend().deleteTask(taskId);
+}
+
+export function updateTask(taskId: string, name: string, note: string): Promise<void> {
+  return getTaskBackend().updateTask(taskId, name, note);
+}
+
+export function setTaskDate(taskId: string, field: TaskDateField, date: string | null): Promise<void> {
+  return getTaskBackend().setTaskDate(taskId, field, date);
+}
+
+export function setTaskFlagged(taskId: string, flagged: boolean): Promise<void> {
+  return getTaskBackend().setTaskFlagged(taskId, flagged);
+}
+
+export function addTagToTask(taskId: string, tagName: string): Promise<void> {
+  return getTaskBackend().addTagToTask(taskId, tagName);
+}
+
+export function removeTagFromTask(taskId: string, tagName: string): Promise<void> {
+  return getTaskBackend().removeTagFromTask(taskId, tagName);
+}
+
+export function createProject(projectName: string): Promise<void> {
+  return getTaskBackend().createProject(projectName);
+}
+
+export function updateProjectNote(projectId: string, note: string): Promise<void> {
+  return getTaskBackend().updateProjectNote(projectId, note);
+}
+
+export function fetchProjectReviews(): Promise<OmniFocusProjectReview[]> {
+  return getTaskBackend().fetchProjectReviews();
+}
+
+export function fetchProjectMetadata(): Promise<OmniFocusProjectMetadata[]> {
+  return getTaskBackend().fetchProjectMetadata();
+}
+
+export function markProjectReviewed(projectId: string): Promise<void> {
+  return getTaskBackend().markProjectReviewed(projectId);
+}
+
+export function setProjectStatus(projectId: string, status: ProjectStatus): Promise<void> {
+  return getTaskBackend().setProjectStatus(projectId, status);
+}
+
+export function moveTaskToProject(taskId: string, projectName: string): Promise<void> {
+  return getTaskBackend().moveTaskToProject(taskId, projectName);
+}
+
+export function moveTaskToInbox(taskId: string): Promise<void> {
+  return getTaskBackend().moveTaskToInbox(taskId);
+}
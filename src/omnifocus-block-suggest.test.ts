@@ -0,0 +1,61 @@
+import { blockSuggestions, findBlockSuggestTarget } from './omnifocus-block-suggest';
+import type { BlockSuggestTarget } from './omnifocus-block-suggest';
+
+/** Target at the end of `line` in a note. */
+const targetAt = (lines: string[], line: number) => findBlockSuggestTarget(lines, line, lines[line].length);
+
+describe('findBlockSuggestTarget', () => {
+  const note = ['# Tasks', '```omnifocus', 'source: inbox', 'so', 'tag: "@Of', '```', 'so', '```js', 'so', '```'];
+
+  it('completes keys and values inside omnifocus fences only', () => {
+    expect(targetAt(note, 3)).toEqual({ key: null, query: 'so', start: 0, quote: '', yaml: true });
+    expect(targetAt(note, 4)).toEqual({ key: 'tag', query: '@Of', start: 6, quote: '"', yaml: true });
+    expect(targetAt(note, 6)).toBeNull();
+    expect(targetAt(note, 8)).toBeNull();
+    expect(targetAt(note, 1)).toBeNull();
+  });
+
+  it('recognises legacy bodies and ignores unknown keys', () => {
+    const legacy = ['```omnifocus', 'project: Web', 'showCompleted', 'wheer: x'];
+    expect(targetAt(legacy, 1)).toEqual({ key: 'project', query: 'Web', start: 9, quote: '', yaml: false });
+    expect(targetAt(legacy, 3)).toBeNull();
+  });
+
+  it('uses the cursor column, not the end of the line', () => {
+    expect(findBlockSuggestTarget(['```omnifocus', 'sort: name'], 1, 7)).toMatchObject({ key: 'sort', query: 'n', start: 6 });
+  });
+});
+
+describe('blockSuggestions', () => {
+  const names = { projects: ['Website', 'Hiring'], tags: ['@Office', 'Finance'] };
+  const target = (extra: Partial<BlockSuggestTarget>): BlockSuggestTarget => ({
+    key: null,
+    query: '',
+    start: 0,
+    quote: '',
+    yaml: true,
+    ...extra,
+  });
+
+  it('suggests keys by prefix with a description', () => {
+    expect(blockSuggestions(target({ query: 'S' }), names).map((s) => s.insert)).toEqual([
+      'source: ',
+      'showCompleted: ',
+      'search: ',
+      'sort: ',
+    ]);
+    expect(blockSuggestions(target({ query: 'lim' }), names)[0].detail).toBe('a positive whole number');
+  });
+
+  it('suggests fixed values and OmniFocus names by substring', () => {
+    expect(blockSuggestions(target({ key: 'group', query: 'd' }), names).map((s) => s.label)).toEqual(['folder', 'due-bucket']);
+    expect(blockSuggestions(target({ key: 'project', query: 'ir' }), names).map((s) => s.label)).toEqual(['Hiring']);
+    expect(blockSuggestions(target({ key: 'where', query: '' }), names)).toEqual([]);
+  });
+
+  it('quotes names YAML cannot hold unquoted, and closes an opened quote', () => {
+    expect(blockSuggestions(target({ key: 'tag' }), names).map((s) => s.insert)).toEqual(['"@Office"', 'Finance']);
+    expect(blockSuggestions(target({ key: 'tag', yaml: false }), names)[0].insert).toBe('@Office');
+    expect(blockSuggestions(target({ key: 'tag', quote: "'" }), names)[0].insert).toBe("@Office'");
+  });
+});
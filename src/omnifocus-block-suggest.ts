@@ -0,0 +1,168 @@
+/**
+ * Autocompletion inside ```omnifocus fences: block keys, fixed values
+ * (sort keys, due windows, …) and OmniFocus project and tag names.
+ *
+ * `findBlockSuggestTarget` and `blockSuggestions` are pure; the
+ * `EditorSuggest` at the bottom wires them to the editor.
+ */
+
+import { EditorSuggest } from 'obsidian';
+import type { App, Editor, EditorPosition, EditorSuggestTriggerInfo } from 'obsidian';
+import { DUE_WINDOWS, fetchProjectNames, fetchTagNames } from './omnifocus';
+import { BLOCK_CONFIG_KEYS, looksLikeYamlConfig } from './omnifocus-block-yaml';
+import { TASK_GROUP_KEYS, TASK_LIST_FORMATS, TASK_SORT_KEYS } from './omnifocus-task-order';
+
+/** What is being typed at the cursor inside an omnifocus block. */
+export interface BlockSuggestTarget {
+  /** Key whose value is being typed, or null while typing a key. */
+  key: string | null;
+  /** Text typed so far (after an opening quote, if any). */
+  query: string;
+  /** Column where `query` starts. */
+  start: number;
+  /** Quote character the value was opened with, if any. */
+  quote: string;
+  /** Whether the block body is YAML, so names that need it get quoted. */
+  yaml: boolean;
+}
+
+/** A completion: what to show and what to insert in place of the query. */
+export interface BlockSuggestion {
+  label: string;
+  insert: string;
+  detail?: string;
+}
+
+const FENCE = /^\s*(`{3,}|~{3,})\s*([\w-]*)/;
+
+/** Index of the omnifocus fence enclosing `line`, or -1. */
+function openingFenceLine(lines: string[], line: number): number {
+  let open: { index: number; marker: string; lang: string } | null = null;
+  for (let i = 0; i < line; i++) {
+    const m = lines[i].match(FENCE);
+    if (!m) continue;
+    if (!open) open = { index: i, marker: m[1], lang: m[2].toLowerCase() };
+    else if (m[1][0] === open.marker[0] && m[1].length >= open.marker.length && !m[2]) open = null;
+  }
+  return open && open.lang === 'omnifocus' && !FENCE.test(lines[line]) ? open.index : -1;
+}
+
+/** Lines of the block body around the cursor line, up to the closing fence. */
+function blockBody(lines: string[], opening: number): string {
+  const body: string[] = [];
+  for (let i = opening + 1; i < lines.length && !FENCE.test(lines[i]); i++) body.push(lines[i]);
+  return body.join('\n');
+}
+
+/**
+ * Find what to complete at `line`/`ch`: a key being typed at the start of a
+ * line, or the value after `key:`. Null outside ```omnifocus fences and
+ * while typing a value for a key with no known values.
+ */
+export function findBlockSuggestTarget(lines: string[], line: number, ch: number): BlockSuggestTarget | null {
+  const opening = openingFenceLine(lines, line);
+  if (opening < 0) return null;
+  const yaml = looksLikeYamlConfig(blockBody(lines, opening));
+  const before = lines[line].slice(0, ch);
+  const keyMatch = before.match(/^\s*([A-Za-z-]+)$/);
+  if (keyMatch) return { key: null, query: keyMatch[1], start: ch - keyMatch[1].length, quote: '', yaml };
+  const valueMatch = before.match(/^\s*([A-Za-z-]+):\s*(["']?)([^"']*)$/);
+  if (!valueMatch) return null;
+  const lower = valueMatch[1].toLowerCase();
+  const key = lower === 'show-completed' ? 'showCompleted' : Object.keys(BLOCK_CONFIG_KEYS).find((k) => k.toLowerCase() === lower);
+  if (!key) return null;
+  return { key, query: valueMatch[3], start: ch - valueMatch[3].length, quote: valueMatch[2], yaml };
+}
+
+/** Fixed values per key; project and tag names come from OmniFocus. */
+const KEY_VALUES: Record<string, readonly string[]> = {
+  source: ['inbox', 'flagged', 'forecast'],
+  due: DUE_WINDOWS,
+  showCompleted: ['true', 'false'],
+  flat: ['true', 'false'],
+  sort: TASK_SORT_KEYS,
+  group: TASK_GROUP_KEYS,
+  format: TASK_LIST_FORMATS,
+};
+
+/** True when a plain YAML scalar could not hold the name (indicator first, or `: `/` #` inside). */
+function needsQuotes(name: string): boolean {
+  return /^[@`!&*|>%'"#[\]{},?:-]/.test(name) || /: | #|:$/.test(name);
+}
+
+/**
+ * Completions for a target, matching the query case-insensitively: keys by
+ * prefix, values anywhere in the text.
+ */
+export function blockSuggestions(
+  target: BlockSuggestTarget,
+  names: { projects: string[]; tags: string[] },
+): BlockSuggestion[] {
+  const query = target.query.toLowerCase();
+  if (target.key === null) {
+    return Object.keys(BLOCK_CONFIG_KEYS)
+      .filter((key) => key.toLowerCase().startsWith(query))
+      .map((key) => ({ label: key, insert: `${key}: `, detail: BLOCK_CONFIG_KEYS[key] }));
+  }
+  const values = target.key === 'project' ? names.projects : target.key === 'tag' ? names.tags : KEY_VALUES[target.key] ?? [];
+  return values
+    .filter((value) => value.toLowerCase().includes(query))
+    .map((value) => {
+      if (target.quote) return { label: value, insert: `${value}${target.quote}` };
+      return { label: value, insert: target.yaml && needsQuotes(value) ? JSON.stringify(value) : value };
+    });
+}
+
+/** How long fetched project and tag names are reused while typing. */
+const NAMES_TTL_MS = 30 * 1000;
+
+/** Editor autocompletion for ```omnifocus blocks. */
+export class OmniFocusBlockSuggest extends EditorSuggest<BlockSuggestion> {
+  private names: { projects: string[]; tags: string[]; at: number } | null = null;
+  /** Target found by the last `onTrigger`. */
+  private target: BlockSuggestTarget | null = null;
+
+  constructor(app: App) {
+    super(app);
+  }
+
+  onTrigger(cursor: EditorPosition, editor: Editor): EditorSuggestTriggerInfo | null {
+    const lines: string[] = [];
+    for (let i = 0; i <= Math.min(editor.lastLine(), cursor.line + 200); i++) lines.push(editor.getLine(i));
+    const target = findBlockSuggestTarget(lines, cursor.line, cursor.ch);
+    this.target = target && (target.key !== null || target.query !== '') ? target : null;
+    if (!this.target) return null;
+    return { start: { line: cursor.line, ch: this.target.start }, end: cursor, query: this.target.query };
+  }
+
+  async getSuggestions(): Promise<BlockSuggestion[]> {
+    const target = this.target;
+    if (!target) return [];
+    const needsNames = target.key === 'project' || target.key === 'tag';
+    return blockSuggestions(target, needsNames ? await this.fetchNames() : { projects: [], tags: [] });
+  }
+
+  renderSuggestion(value: BlockSuggestion, el: HTMLElement): void {
+    el.createDiv({ text: value.label });
+    if (value.detail) el.createEl('small', { text: value.detail, cls: 'omnifocus-suggest-detail' });
+  }
+
+  selectSuggestion(value: BlockSuggestion): void {
+    if (!this.context) return;
+    this.context.editor.replaceRange(value.insert, this.context.start, this.context.end);
+    this.close();
+  }
+
+  /** Project and tag names, cached briefly; empty lists when OmniFocus is unreachable. */
+  private async fetchNames(): Promise<{ projects: string[]; tags: string[] }> {
+    if (this.names && Date.now() - this.names.at < NAMES_TTL_MS) return this.names;
+    try {
+      const [projects, tags] = await Promise.all([fetchProjectNames(), fetchTagNames()]);
+      this.names = { projects, tags, at: Date.now() };
+      return this.names;
+    } catch (err) {
+      console.error('[omnifocus-sync] autocomplete names failed:', err);
+      return { projects: [], tags: [] };
+    }
+  }
+}
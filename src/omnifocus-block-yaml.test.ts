@@ -0,0 +1,111 @@
+import { parseBlockConfig } from './omnifocus';
+import { looksLikeYamlConfig, parseYamlBlockConfig } from './omnifocus-block-yaml';
+
+const error = (input: string): string => {
+  try {
+    parseBlockConfig(input);
+  } catch (err) {
+    return (err as Error).message;
+  }
+  throw new Error(`expected "${input}" to fail`);
+};
+
+describe('parseYamlBlockConfig - valid bodies', () => {
+  it('parses every option', () => {
+    const body = [
+      'source: inbox',
+      'showCompleted: true',
+      'flat: true',
+      'where:',
+      '  - flagged',
+      '  - due < +3d',
+      'search: invoice',
+      'sort: Due',
+      'group: due-bucket',
+      'limit: 10',
+      'format: tasks',
+    ].join('\n');
+    expect(parseYamlBlockConfig(body)).toMatchObject({
+      source: { kind: 'inbox' },
+      showCompleted: true,
+      flat: true,
+      filter: { op: 'and', args: [{ op: 'and', args: [{ field: 'flagged' }, { field: 'due' }] }, { field: 'text' }] },
+      sort: 'due',
+      group: 'due-bucket',
+      limit: 10,
+      format: 'tasks',
+    });
+  });
+
+  it('accepts source keys, quoted names and legacy sources under source:', () => {
+    expect(parseYamlBlockConfig('tag: "@Office"\nshow-completed: false')).toEqual({
+      source: { kind: 'tag', name: '@Office' },
+      showCompleted: false,
+    });
+    expect(parseYamlBlockConfig('source: "project: Website"')?.source).toEqual({ kind: 'project', name: 'Website' });
+    expect(parseYamlBlockConfig('Due: overdue')?.source).toEqual({ kind: 'due', when: 'overdue' });
+    expect(parseYamlBlockConfig('# comment\nperspective: Today')?.source).toEqual({ kind: 'perspective', name: 'Today' });
+  });
+
+  it('leaves legacy bodies to the line-oriented parser', () => {
+    expect(parseYamlBlockConfig('inbox\nshowCompleted')).toBeUndefined();
+    expect(parseYamlBlockConfig('tag: @Work\nflat')).toBeUndefined();
+    expect(parseYamlBlockConfig('project: Bar\nwhere: flagged\nwhere: completed')).toBeUndefined();
+    expect(parseBlockConfig('tag: @Work\nflat')).toEqual({ source: { kind: 'tag', name: '@Work' }, showCompleted: false, flat: true });
+  });
+
+  it('keeps names as written instead of reading them as numbers or null', () => {
+    expect(parseYamlBlockConfig('project: 2024.10\nsort: name')?.source).toEqual({ kind: 'project', name: '2024.10' });
+    expect(parseYamlBlockConfig('tag: 0x10\nflat: true')?.source).toEqual({ kind: 'tag', name: '0x10' });
+    expect(parseYamlBlockConfig('project: null\nlimit: 5')).toMatchObject({ source: { kind: 'project', name: 'null' }, limit: 5 });
+  });
+
+  it('leaves legacy bodies with " #" in a value to the line-oriented parser', () => {
+    expect(parseYamlBlockConfig('project: Q3 #taxes\nsort: name')).toBeUndefined();
+    expect(parseBlockConfig('project: Q3 #taxes\nsort: name')?.source).toEqual({ kind: 'project', name: 'Q3 #taxes' });
+    expect(parseYamlBlockConfig('project: "Q3 #taxes"\nshowCompleted: true')?.source).toEqual({
+      kind: 'project',
+      name: 'Q3 #taxes',
+    });
+  });
+
+  it('treats key: value legacy bodies the same way', () => {
+    expect(parseBlockConfig('project: Foo\nsort: name')).toEqual(parseYamlBlockConfig('project: Foo\nsort: name'));
+  });
+});
+
+describe('parseYamlBlockConfig - problems', () => {
+  it('reports unknown keys with a suggestion', () => {
+    expect(error('source: inbox\nshowcomplete: true')).toBe(
+      'Line 2: Unknown key "showcomplete". Did you mean "showCompleted"? Keys: source, project, tag, folder, perspective, due, showCompleted, flat, where, search, sort, group, limit, format',
+    );
+  });
+
+  it('reports every bad value on its own line', () => {
+    expect(error('source: inbox\nshowCompleted: yes\n\nsort: priority\nlimit: 0\nflat: 1').split('\n')).toEqual([
+      'Line 2: showCompleted must be true or false',
+      'Line 4: Unknown sort: "priority". Use: sort: due, sort: defer, sort: name, sort: added, sort: flagged',
+      'Line 5: limit must be a positive whole number, e.g. limit: 10',
+      'Line 6: flat must be true or false',
+    ]);
+  });
+
+  it('points filter errors at their line and column', () => {
+    expect(error('source: inbox\nwhere: due <')).toBe('Line 2: Invalid filter at column 13: expected a value after "<"');
+    expect(error('source: inbox\nwhere:\n  - flagged\n  - "due <"')).toBe(
+      'Line 4: Invalid filter at column 11: expected a value after "<"',
+    );
+  });
+
+  it('reports missing, empty and competing sources', () => {
+    expect(error('showCompleted: true')).toMatch(/^Line 1: Missing source\. Add "source: inbox" or one of project:, tag:/);
+    expect(error('project:')).toBe('Line 1: project needs a project name');
+    expect(error('source: inbox\ntag: x')).toBe('Line 2: Only one source is allowed, found "source", "tag"');
+    expect(error('source: someday')).toMatch(/^Line 1: Unknown source: "someday"/);
+  });
+
+  it('reports YAML syntax errors once the body is clearly YAML', () => {
+    expect(looksLikeYamlConfig('tag: @Office\nshowCompleted: true')).toBe(true);
+    expect(error('tag: @Office\nshowCompleted: true')).toMatch(/^Line 1: Plain value cannot start with reserved character @/);
+  });
+});
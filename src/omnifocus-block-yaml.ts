@@ -0,0 +1,240 @@
+/**
+ * YAML block bodies (no lit or Obsidian dependency):
+ *
+ * ```yaml
+ * source: inbox        # or project: / tag: / folder: / perspective: / due:
+ * showCompleted: true
+ * where: due < +3d
+ * sort: due
+ * ```
+ *
+ * Validated against {@link BLOCK_CONFIG_KEYS}; every problem is reported
+ * with its line in the block. Bodies that are not a YAML mapping fall back to
+ * the line-oriented format in `parseBlockConfig`.
+ */
+
+import { isMap, isScalar, isSeq, LineCounter, parseDocument } from 'yaml';
+import type { Node, Pair, YAMLMap } from 'yaml';
+import { parseSource } from './omnifocus';
+import type { BlockConfig, TaskSource } from './omnifocus';
+import { combineFilters, parseFilter, searchFilter } from './omnifocus-filter';
+import type { TaskFilter } from './omnifocus-filter';
+import { parseGroupKey, parseLimit, parseListFormat, parseSortKey } from './omnifocus-task-order';
+
+/** Keys of a YAML block body with a description of the values they take. */
+export const BLOCK_CONFIG_KEYS: Record<string, string> = {
+  source: 'inbox, flagged, forecast or a source like "project: Website"',
+  project: 'a project name',
+  tag: 'a tag name (quote names starting with @)',
+  folder: 'a folder name',
+  perspective: 'a custom perspective name',
+  due: 'today, overdue or soon',
+  showCompleted: 'true or false',
+  flat: 'true or false',
+  where: 'a filter expression, or a list of them',
+  search: 'text to look for, or a list of texts',
+  sort: 'due, defer, name, added or flagged',
+  group: 'project, tag, folder or due-bucket',
+  limit: 'a positive whole number',
+  format: 'list or tasks (Obsidian Tasks markdown)',
+};
+
+/** Keys that choose the block's source; exactly one is required. */
+const SOURCE_KEYS = ['source', 'project', 'tag', 'folder', 'perspective', 'due'];
+
+const KEY_ALIASES: Record<string, string> = { 'show-completed': 'showCompleted' };
+
+/**
+ * True when a body is meant as YAML even if it does not parse: it has a key
+ * the line-oriented format does not use with a colon.
+ */
+export function looksLikeYamlConfig(input: string): boolean {
+  return /^\s*(source|showCompleted|show-completed|flat)\s*:/im.test(input);
+}
+
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/** Canonical key for a (case-insensitive) key, or null when unknown. */
+function canonicalKey(key: string): string | null {
+  const lower = key.toLowerCase();
+  if (KEY_ALIASES[lower]) return KEY_ALIASES[lower];
+  return Object.keys(BLOCK_CONFIG_KEYS).find((k) => k.toLowerCase() === lower) ?? null;
+}
+
+function unknownKeyMessage(key: string): string {
+  const lower = key.toLowerCase();
+  const keys = Object.keys(BLOCK_CONFIG_KEYS);
+  const close = keys.find((k) => k.toLowerCase().startsWith(lower) || editDistance(k.toLowerCase(), lower) <= 2);
+  const hint = close ? ` Did you mean "${close}"?` : '';
+  return `Unknown key "${key}".${hint} Keys: ${keys.join(', ')}`;
+}
+
+/** Collects problems, each prefixed with the line of the node it is about. */
+class Problems {
+  readonly messages: string[] = [];
+
+  constructor(private readonly lineCounter: LineCounter) {}
+
+  lineOf(node: Node | null | undefined): number {
+    return node?.range ? this.lineCounter.linePos(node.range[0]).line : 1;
+  }
+
+  /** 0-based column where a scalar's text starts, inside any quotes. */
+  columnOf(node: Node): number {
+    if (!node.range) return 0;
+    const quoted = isScalar(node) && (node.type === 'QUOTE_DOUBLE' || node.type === 'QUOTE_SINGLE');
+    return this.lineCounter.linePos(node.range[0]).col - 1 + (quoted ? 1 : 0);
+  }
+
+  add(node: Node | null | undefined, message: string): void {
+    this.messages.push(`Line ${this.lineOf(node)}: ${message}`);
+  }
+
+  /** Run `parse`, recording its error against `node`; undefined on error. */
+  guard<T>(node: Node | null | undefined, parse: () => T): T | undefined {
+    try {
+      return parse();
+    } catch (err) {
+      this.add(node, err instanceof Error ? err.message : String(err));
+      return undefined;
+    }
+  }
+}
+
+/**
+ * The text of a scalar value as written, so `2024.10`, `0x10` and `null` stay
+ * names rather than numbers; throws for missing values, lists and mappings.
+ */
+function scalarText(key: string, node: unknown): string {
+  const text = isScalar(node) ? (node.type === 'PLAIN' ? node.source : String(node.value ?? '')) : '';
+  if (!text?.trim()) throw new Error(`${key} needs ${BLOCK_CONFIG_KEYS[key]}`);
+  return text.trim();
+}
+
+/**
+ * True when a plain value is followed by ` #…` on its line. YAML reads that as a
+ * comment, while the line-oriented format keeps it in the name (`project: Q3 #taxes`).
+ */
+function hasTrailingComment(body: YAMLMap): boolean {
+  return body.items.some((pair) => isScalar(pair.value) && pair.value.type === 'PLAIN' && pair.value.comment !== undefined);
+}
+
+/** Scalar items of a value that may be a single scalar or a list. */
+function listItems(node: unknown): unknown[] {
+  return isSeq(node) ? node.items : [node];
+}
+
+function parseSourceValue(key: string, node: unknown): TaskSource {
+  const text = scalarText(key, node);
+  if (key === 'source') return parseSource(text)!;
+  if (key === 'due') return parseSource(`due: ${text}`)!;
+  return { kind: key as 'project' | 'tag' | 'folder' | 'perspective', name: text };
+}
+
+function parseBoolean(key: string, node: unknown): boolean {
+  if (!isScalar(node) || typeof node.value !== 'boolean') throw new Error(`${key} must be true or false`);
+  return node.value;
+}
+
+function parseFilters(key: 'where' | 'search', node: Node | null, problems: Problems): TaskFilter[] {
+  const filters: TaskFilter[] = [];
+  for (const item of listItems(node)) {
+    const itemNode = (item ?? node) as Node;
+    const filter = problems.guard(itemNode, () => {
+      const text = scalarText(key, item);
+      return key === 'where' ? parseFilter(text, problems.columnOf(itemNode)) : searchFilter(text);
+    });
+    if (filter) filters.push(filter);
+  }
+  return filters;
+}
+
+/** Parsers for options that take a single value, returning the config fields they set. */
+const OPTION_PARSERS: Record<string, (key: string, node: Node | null) => Partial<BlockConfig>> = {
+  showCompleted: (key, node) => ({ showCompleted: parseBoolean(key, node) }),
+  flat: (key, node) => (parseBoolean(key, node) ? { flat: true } : {}),
+  sort: (key, node) => ({ sort: parseSortKey(scalarText(key, node)) }),
+  group: (key, node) => ({ group: parseGroupKey(scalarText(key, node)) }),
+  limit: (key, node) => ({ limit: parseLimit(scalarText(key, node)) }),
+  format: (key, node) => ({ format: parseListFormat(scalarText(key, node)) }),
+};
+
+/** Apply one option to the config; source keys are handled by the caller. */
+function applyOption(config: BlockConfig, key: string, value: Node | null, problems: Problems): void {
+  if (key === 'where' || key === 'search') {
+    const filter = combineFilters([...(config.filter ? [config.filter] : []), ...parseFilters(key, value, problems)]);
+    if (filter) config.filter = filter;
+    return;
+  }
+  Object.assign(config, problems.guard(value, () => OPTION_PARSERS[key](key, value)));
+}
+
+/** The block's source from its source keys; reports missing or competing sources. */
+function resolveSource(pairs: Pair<Node, Node | null>[], problems: Problems, body: Node): TaskSource | undefined {
+  if (pairs.length === 0) {
+    problems.add(body, `Missing source. Add "source: inbox" or one of ${SOURCE_KEYS.slice(1).join(':, ')}:`);
+    return undefined;
+  }
+  if (pairs.length > 1) {
+    const keys = pairs.map((p) => `"${String((p.key as { value?: unknown }).value)}"`).join(', ');
+    problems.add(pairs[1].key, `Only one source is allowed, found ${keys}`);
+  }
+  const [pair] = pairs;
+  const key = canonicalKey(String((pair.key as { value?: unknown }).value))!;
+  return problems.guard(pair.value ?? pair.key, () => parseSourceValue(key, pair.value));
+}
+
+/** The body's top-level mapping; undefined when the body is for the line-oriented format. */
+function parseYamlBody(input: string, lineCounter: LineCounter): YAMLMap | undefined {
+  const doc = parseDocument(input, { lineCounter, prettyErrors: false, uniqueKeys: true });
+  if (doc.errors.length > 0) {
+    if (!looksLikeYamlConfig(input)) return undefined;
+    throw new Error(
+      doc.errors.map((e) => `Line ${lineCounter.linePos(e.pos[0]).line}: ${e.message.split('\n')[0]}`).join('\n'),
+    );
+  }
+  const body = doc.contents;
+  if (!isMap(body) || (!looksLikeYamlConfig(input) && hasTrailingComment(body))) return undefined;
+  return body;
+}
+
+/**
+ * Parse a YAML block body into a {@link BlockConfig}.
+ *
+ * @returns `undefined` when the body is not YAML, or is a legacy body with a
+ *   ` #` in a value (use the line-oriented format), `null` when it is an empty mapping.
+ * @throws With one "Line N: …" entry per problem, joined by newlines, for
+ *   syntax errors, unknown keys, bad values and a missing source.
+ */
+export function parseYamlBlockConfig(input: string): BlockConfig | null | undefined {
+  const lineCounter = new LineCounter();
+  const body = parseYamlBody(input, lineCounter);
+  if (!body) return undefined;
+  if (body.items.length === 0) return null;
+
+  const problems = new Problems(lineCounter);
+  const sourcePairs: Pair<Node, Node | null>[] = [];
+  const optionPairs: [string, Pair<Node, Node | null>][] = [];
+  for (const pair of body.items as Pair<Node, Node | null>[]) {
+    const name = isScalar(pair.key) ? String(pair.key.value) : '';
+    const key = canonicalKey(name);
+    if (!key) problems.add(pair.key, unknownKeyMessage(name));
+    else if (SOURCE_KEYS.includes(key)) sourcePairs.push(pair);
+    else optionPairs.push([key, pair]);
+  }
+  const source = resolveSource(sourcePairs, problems, body);
+  const config: BlockConfig = { source: source ?? { kind: 'inbox' }, showCompleted: false };
+  for (const [key, pair] of optionPairs) applyOption(config, key, pair.value, problems);
+  if (problems.messages.length > 0) throw new Error(problems.messages.join('\n'));
+  return config;
+}
@@ -4,24 +4,38 @@
  */
 
 import { html, render } from 'lit';
-import { Notice, requestUrl } from 'obsidian';
-import type { App } from 'obsidian';
+import { Notice } from 'obsidian';
+import type { App, Command, EditorSuggest, MarkdownPostProcessorContext } from 'obsidian';
 import { getLLMModel } from './settings';
 import type { PluginSettings } from './settings';
 import {
-  completeTask,
   createTask,
   createProject,
   fetchProjectNames,
-  fetchTasks,
-  moveTaskToProject,
+  sourceAcceptsNewTasks,
   sourceLabel,
 } from './omnifocus';
-import type { OmniFocusTask, TaskSource } from './omnifocus';
+import type { BlockConfig, OmniFocusTask, TaskSource } from './omnifocus';
 import { AddTaskModal } from './add-task-modal';
+import { createActionHandlers } from './omnifocus-task-actions';
+import type { TaskActionHandlers } from './omnifocus-task-actions';
+import { createEditHandlers } from './omnifocus-task-edit';
+import type { TaskEdit, TaskEditHandlers } from './omnifocus-task-edit';
+import { QUEUED_TASK_ID_PREFIX } from './omnifocus-offline';
+import type { OfflineCache } from './omnifocus-offline';
+import { formatFullDate } from './omnifocus-task-meta';
+import { renderTaskList, renderTasksMarkdown } from './omnifocus-task-list';
+import { openDescendantIds } from './omnifocus-task-tree';
+import { hashTasks, omnifocusTaskStore } from './omnifocus-task-store';
+import type { TaskQuerySnapshot } from './omnifocus-task-store';
+import { watchVisibility } from './omnifocus-auto-refresh';
+import { completeTaskWithUndo, moveTaskWithUndo, uncompleteTaskWithUndo } from './omnifocus-undo';
+import type { UndoEntry } from './omnifocus-undo';
+import { noticeWithUndo } from './undo-notice';
+import { createObsidianRequestAdapter } from './obsidian-request';
 import { smartSort } from './smart-sort';
 import type { SmartSortItem } from './smart-sort';
-import type { LLMPluginContext, LLMRequestAdapter } from './llm';
+import type { LLMPluginContext } from './llm';
 import type { LLMProvider } from './llm';
 
 /** Plugin context required for OmniFocus block (app, settings, processor registration). */
@@ -30,98 +44,50 @@ export interface OmnifocusPluginContext {
   settings: PluginSettings;
   registerMarkdownCodeBlockProcessor(
     language: string,
-    processor: (source: string, el: HTMLElement) => void | Promise<void>,
+    processor: (source: string, el: HTMLElement, ctx: MarkdownPostProcessorContext) => void | Promise<void>,
   ): void;
+  register(cb: () => void): void;
+  registerInterval(id: number): number;
+  registerDomEvent<K extends keyof WindowEventMap>(el: Window, type: K, callback: (ev: WindowEventMap[K]) => unknown): void;
+  registerEditorSuggest(editorSuggest: EditorSuggest<unknown>): void;
+  addCommand(command: Command): Command;
+  /** Last fetched tasks per block query and changes queued while OmniFocus is unavailable. */
+  offlineCache: OfflineCache;
 }
 
 export type OmnifocusBlockState = {
   status: 'loading' | 'ready';
   label: string;
-  config: { source: TaskSource; showCompleted: boolean };
+  config: BlockConfig;
   syncing: boolean;
   smartSorting: boolean;
   tasks?: OmniFocusTask[];
   error?: string;
+  /** Set while `tasks` are cached ones shown because OmniFocus is unavailable. */
+  staleSince?: string;
   smartSortResults: SmartSortItem[] | null;
   smartSortError?: string;
+  /** Action groups the user collapsed; kept across refreshes. */
+  collapsedIds: string[];
+  /** Keys of `group:` sections the user collapsed. */
+  collapsedGroups: string[];
+  /** Rows revealed by "Show more", per group key (`''` when ungrouped). */
+  shownRows: Record<string, number>;
+  /** Task name or note being edited inline. */
+  editing: TaskEdit | null;
 };
 
-async function normalizeRequestUrlResponse(res: {
-  status: number;
-  text?: string | Promise<string>;
-  json?: unknown;
-}): Promise<{ status: number; json: unknown }> {
-  const rawText = res.text;
-  let text: string;
-  if (
-    rawText !== undefined &&
-    rawText !== null &&
-    typeof (rawText as Promise<string>).then === 'function'
-  ) {
-    text = await (rawText as Promise<string>);
-  } else {
-    text = typeof rawText === 'string' ? rawText : String(rawText ?? '');
-  }
-  let json: unknown;
-  if (text) {
-    try {
-      json = JSON.parse(text);
-    } catch {
-      json = null;
-    }
-  } else {
-    const rawJson = res.json;
-    if (typeof rawJson === 'function') {
-      json = await (rawJson as () => Promise<unknown>)();
-    } else if (
-      rawJson &&
-      typeof (rawJson as Promise<unknown>).then === 'function'
-    ) {
-      json = await (rawJson as Promise<unknown>);
-    } else {
-      json = rawJson;
-    }
-  }
-  return { status: res.status, json: json ?? null };
-}
-
-/** Returns an LLMRequestAdapter that uses Obsidian's requestUrl. */
-export function createObsidianRequestAdapter(): LLMRequestAdapter {
-  return async (opts) => {
-    const res = await requestUrl({
-      url: opts.url,
-      method: opts.method ?? 'GET',
-      headers: opts.headers,
-      body: opts.body,
-      throw: opts.throw ?? false,
-    });
-    const out = await normalizeRequestUrlResponse(res as Parameters<typeof normalizeRequestUrlResponse>[0]);
-    if (opts.url?.includes('/chat/completions') && out.json) {
-      const obj = out.json as Record<string, unknown>;
-      const choices = obj?.choices as Array<{ message?: { content?: unknown } }> | undefined;
-      const content = choices?.[0]?.message?.content;
-      console.log(
-        '[omnifocus-sync] LLM response: status=',
-        res.status,
-        'choices=',
-        choices?.length,
-        'contentType=',
-        typeof content,
-        'contentLength=',
-        typeof content === 'string' ? content.length : 0,
-      );
-    }
-    return out;
-  };
-}
-
-type BlockHandlers = {
+type BlockHandlers = TaskEditHandlers & TaskActionHandlers & {
   onNoteToggle: (e: Event) => void;
   onOmniFocusLinkClick: (taskId: string) => (e: Event) => void;
   onSyncClick: () => void;
   onSmartSortClick: () => Promise<void>;
   onAddClick: () => void;
   onCheckboxChange: (task: OmniFocusTask) => (e: Event) => Promise<void>;
+  onChildrenToggle: (taskId: string) => () => void;
+  onGroupToggle: (key: string) => () => void;
+  onShowMore: (key: string) => () => void;
+  onCopyMarkdown: (markdown: string) => () => void;
   onAccept: (item: SmartSortItem) => () => Promise<void>;
   onDecline: (item: SmartSortItem) => () => void;
 };
@@ -157,6 +123,7 @@ function createSyncHandlers(
   setState: (s: OmnifocusBlockState) => void,
   triggerRender: () => void,
   triggerFetch: () => void,
+  triggerSync: () => void,
 ): Pick<BlockHandlers, 'onSyncClick' | 'onSmartSortClick' | 'onAddClick'> {
   const buildLLMContext = (): LLMPluginContext => ({
     getConfig: () => ({
@@ -168,7 +135,7 @@ function createSyncHandlers(
     requestUrl: createObsidianRequestAdapter(),
   });
   return {
-    onSyncClick: triggerFetch,
+    onSyncClick: triggerSync,
     onSmartSortClick: async () => {
       setState({ ...getState(), smartSorting: true, smartSortError: undefined });
       triggerRender();
@@ -186,6 +153,12 @@ function createSyncHandlers(
     },
     onAddClick: () => {
       new AddTaskModal(plugin.app, taskSource, async (title, note) => {
+        if (getState().staleSince) {
+          plugin.offlineCache.enqueue({ kind: 'create', source: taskSource, name: title, note });
+          new Notice('OmniFocus is unavailable. The task will be created when it is reachable again.');
+          triggerFetch();
+          return;
+        }
         await createTask(taskSource, title, note);
         new Notice(`Created task in ${getState().label}.`);
         triggerFetch();
@@ -194,7 +167,21 @@ function createSyncHandlers(
   };
 }
 
+/** Checkbox change while cached tasks are shown: queue completions, refuse the rest. */
+function queueOfflineCheck(plugin: OmnifocusPluginContext, task: OmniFocusTask, checkbox: HTMLInputElement, triggerFetch: () => void): void {
+  if (!checkbox.checked || task.id.startsWith(QUEUED_TASK_ID_PREFIX)) {
+    new Notice('OmniFocus is unavailable. Only completing existing tasks can be queued until it is reachable again.');
+    checkbox.checked = !checkbox.checked;
+    return;
+  }
+  checkbox.disabled = true;
+  plugin.offlineCache.enqueue({ kind: 'complete', taskId: task.id, taskName: task.name });
+  new Notice('OmniFocus is unavailable. The task will be completed when it is reachable again.');
+  triggerFetch();
+}
+
 function createTaskHandlers(
+  plugin: OmnifocusPluginContext,
   getState: () => OmnifocusBlockState,
   setState: (s: OmnifocusBlockState) => void,
   triggerRender: () => void,
@@ -203,31 +190,36 @@ function createTaskHandlers(
   return {
     onCheckboxChange: (task: OmniFocusTask) => async (e: Event) => {
       const checkbox = e.target as HTMLInputElement;
+      if (getState().staleSince) return queueOfflineCheck(plugin, task, checkbox, triggerFetch);
+      const completing = checkbox.checked;
       checkbox.disabled = true;
       try {
-        await completeTask(task.id);
-        new Notice('Task completed.');
+        const entry = completing
+          ? await completeTaskWithUndo(task, openDescendantIds(getState().tasks ?? [], task.id))
+          : await uncompleteTaskWithUndo(task);
+        noticeWithUndo(completing ? 'Task completed.' : 'Task marked incomplete.', entry);
         triggerFetch();
       } catch (err) {
         new Notice(`OmniFocus error: ${err instanceof Error ? err.message : String(err)}`);
-        checkbox.checked = false;
+        checkbox.checked = !completing;
         checkbox.disabled = false;
       }
     },
     onAccept: (item: SmartSortItem) => async () => {
+      // Smart Sort only suggests inbox tasks, so undo moves the task back to the inbox.
+      const move = () => moveTaskWithUndo({ id: item.taskId, name: item.taskName }, item.projectName, null);
       try {
-        if (item.type !== 'existing') {
-          try {
-            await moveTaskToProject(item.taskId, item.projectName);
-          } catch {
-            const projects = await fetchProjectNames();
-            if (!projects.some((p) => p.toLowerCase() === item.projectName.toLowerCase())) await createProject(item.projectName);
-            await moveTaskToProject(item.taskId, item.projectName);
-          }
-        } else {
-          await moveTaskToProject(item.taskId, item.projectName);
+        let entry: UndoEntry;
+        try {
+          entry = await move();
+        } catch (err) {
+          // A new project may not exist yet: create it and try once more.
+          if (item.type === 'existing') throw err;
+          const projects = await fetchProjectNames();
+          if (!projects.some((p) => p.toLowerCase() === item.projectName.toLowerCase())) await createProject(item.projectName);
+          entry = await move();
         }
-        new Notice('Task moved to project.');
+        noticeWithUndo('Task moved to project.', entry);
         const s = getState();
         setState({ ...s, smartSortResults: (s.smartSortResults ?? []).filter((x) => x.taskId !== item.taskId) });
         if ((getState().smartSortResults?.length ?? 0) === 0) setState({ ...getState(), smartSortResults: null });
@@ -246,41 +238,84 @@ function createTaskHandlers(
   };
 }
 
+function toggled(ids: string[], id: string): string[] {
+  return ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id];
+}
+
+function createListHandlers(
+  getState: () => OmnifocusBlockState,
+  setState: (s: OmnifocusBlockState) => void,
+  triggerRender: () => void,
+): Pick<BlockHandlers, 'onChildrenToggle' | 'onGroupToggle' | 'onShowMore' | 'onCopyMarkdown'> {
+  return {
+    onChildrenToggle: (taskId: string) => () => {
+      const s = getState();
+      setState({ ...s, collapsedIds: toggled(s.collapsedIds, taskId) });
+      triggerRender();
+    },
+    onGroupToggle: (key: string) => () => {
+      const s = getState();
+      setState({ ...s, collapsedGroups: toggled(s.collapsedGroups, key) });
+      triggerRender();
+    },
+    onShowMore: (key: string) => () => {
+      const s = getState();
+      const limit = s.config.limit ?? 0;
+      setState({ ...s, shownRows: { ...s.shownRows, [key]: (s.shownRows[key] ?? limit) + limit } });
+      triggerRender();
+    },
+    onCopyMarkdown: (markdown: string) => () => {
+      navigator.clipboard.writeText(markdown).then(
+        () => new Notice('Copied the tasks as Tasks markdown.'),
+        (err) => new Notice(`Failed to copy: ${err instanceof Error ? err.message : String(err)}`),
+      );
+    },
+  };
+}
+
 function createBlockHandlers(
   plugin: OmnifocusPluginContext,
   taskSource: TaskSource,
   getState: () => OmnifocusBlockState,
   setState: (s: OmnifocusBlockState) => void,
   triggerRender: () => void,
-  triggerFetch: () => void,
+  triggerSync: () => void,
 ): BlockHandlers {
+  // Mutations can change what any block shows, so they refresh every mounted block.
+  const triggerFetch = () => void omnifocusTaskStore.refreshAll();
   return {
     ...createNoteAndLinkHandlers(),
-    ...createSyncHandlers(plugin, taskSource, getState, setState, triggerRender, triggerFetch),
-    ...createTaskHandlers(getState, setState, triggerRender, triggerFetch),
+    ...createSyncHandlers(plugin, taskSource, getState, setState, triggerRender, triggerFetch, triggerSync),
+    ...createTaskHandlers(plugin, getState, setState, triggerRender, triggerFetch),
+    ...createListHandlers(getState, setState, triggerRender),
+    ...createEditHandlers(getState, setState, triggerRender),
+    ...createActionHandlers(plugin.app, getState, setState, triggerRender, triggerFetch),
   };
 }
 
+function renderStaleBanner(s: OmnifocusBlockState): ReturnType<typeof html> | string {
+  if (!s.staleSince) return '';
+  return html`<p class="omnifocus-stale-banner" title=${s.error ?? ''}>Stale since ${formatFullDate(new Date(s.staleSince))}: OmniFocus is unavailable. Completions and new tasks are queued until it is reachable again.</p>`;
+}
+
 function renderTaskListTemplate(s: OmnifocusBlockState, handlers: BlockHandlers): ReturnType<typeof html> {
-  if (s.error) {
+  if (s.error && !s.staleSince) {
     return html`<ul class="omnifocus-task-list"><li class="omnifocus-error">${s.error}</li></ul>`;
   }
   const tasks = s.tasks ?? [];
-  const sorted =
-    tasks.length > 0 ? [...tasks].sort((a, b) => (a.completed ? 1 : 0) - (b.completed ? 1 : 0)) : [];
-  if (sorted.length === 0) {
-    return html`<p class="omnifocus-empty">No tasks in ${s.label}.</p>`;
+  if (tasks.length === 0) {
+    return html`<p class="omnifocus-empty">No tasks in ${s.label}${s.config.filter ? ' match the filter' : ''}.</p>`;
   }
-  return html`<ul class="omnifocus-task-list">
-    ${sorted.map((task) =>
-      html`<li class=${task.completed ? 'omnifocus-task-item omnifocus-task-item--completed' : 'omnifocus-task-item'}>
-        ${task.completed ? html`<span class="omnifocus-task-completed-marker" title="Completed">☑</span>` : html`<input type="checkbox" class="omnifocus-task-checkbox" title="Mark complete" @change=${handlers.onCheckboxChange(task)} />`}
-        <span class="omnifocus-task-name">${task.name}</span>
-        <a class="omnifocus-task-link" href="omnifocus:///task/${task.id}" title="Open in OmniFocus" @click=${handlers.onOmniFocusLinkClick(task.id)}>↗</a>
-        ${task.note ? html`<span class="omnifocus-task-note-toggle" @click=${handlers.onNoteToggle}>[+]</span><div class="omnifocus-task-note" style="display:none">${task.note}</div>` : ''}
-      </li>`,
-    )}
-  </ul>`;
+  if (s.config.format === 'tasks') return renderTasksMarkdown(tasks, s.config, handlers.onCopyMarkdown);
+  return renderTaskList(tasks, s.config, handlers, {
+    showProject: s.config.source.kind !== 'project' && s.config.group !== 'project',
+    now: new Date(),
+    collapsedIds: new Set(s.collapsedIds),
+    collapsedGroups: new Set(s.collapsedGroups),
+    editing: s.editing,
+    shownRows: s.shownRows,
+    readOnly: s.staleSince !== undefined,
+  });
 }
 
 function renderSmartSortSection(s: OmnifocusBlockState, handlers: BlockHandlers): ReturnType<typeof html> | string {
@@ -308,23 +343,31 @@ function buildBlockTemplate(
   const smartSortSection = renderSmartSortSection(s, handlers);
   return html`
     <div class="omnifocus-btn-row">
-      <button class="omnifocus-add-btn" ?disabled=${buttonsDisabled} @click=${handlers.onAddClick}>Add task</button>
+      ${sourceAcceptsNewTasks(taskSource) ? html`<button class="omnifocus-add-btn" ?disabled=${buttonsDisabled} @click=${handlers.onAddClick}>Add task</button>` : ''}
       <button class="omnifocus-sync-btn" ?disabled=${buttonsDisabled} @click=${handlers.onSyncClick}>${btnLabel}</button>
       ${isInbox ? html`<button class="omnifocus-smartsort-btn" ?disabled=${buttonsDisabled} @click=${handlers.onSmartSortClick}>${smartSortLabel}</button>` : ''}
     </div>
+    ${renderStaleBanner(s)}
     <div class="omnifocus-list-wrapper">${taskListTemplate}</div>
     ${smartSortSection}
   `;
 }
 
-/** Create and run an OmniFocus block: state, render, doFetch. Returns { doFetch }. */
+/**
+ * Create and run an OmniFocus block. Its tasks come from the shared
+ * {@link omnifocusTaskStore}, so every block showing a task stays in step.
+ *
+ * @returns `doFetch` to load the tasks (from the store's cache unless `force`)
+ *   and `unload` to stop receiving updates once the block is gone.
+ */
 export function createOmnifocusBlock(
   container: HTMLElement,
-  config: { source: TaskSource; showCompleted: boolean },
+  config: BlockConfig,
   plugin: OmnifocusPluginContext,
-): { doFetch: () => void } {
+): { doFetch: (options?: { force?: boolean }) => void; unload: () => void } {
   const taskSource = config.source;
   const label = sourceLabel(taskSource);
+  const query = { source: taskSource, includeCompleted: config.showCompleted, filter: config.filter };
   let state: OmnifocusBlockState = {
     status: 'loading',
     label,
@@ -332,41 +375,53 @@ export function createOmnifocusBlock(
     syncing: false,
     smartSorting: false,
     smartSortResults: null,
+    collapsedIds: [],
+    collapsedGroups: [],
+    shownRows: {},
+    editing: null,
   };
   const setState = (s: OmnifocusBlockState) => {
+    const previous = state.tasks;
     state = s;
+    // Inline edits and action-menu changes replace task objects; share them with the other blocks.
+    if (s.tasks && s.tasks !== previous) omnifocusTaskStore.publishTasks(s.tasks.filter((t) => !previous?.includes(t)));
   };
   const getState = () => state;
 
-  let renderBlock: () => void = () => {};
-  let doFetch: () => void = () => {};
-
-  const handlers = createBlockHandlers(
-    plugin,
-    taskSource,
-    getState,
-    setState,
-    () => renderBlock(),
-    () => doFetch(),
-  );
+  const renderBlock = () => {
+    render(buildBlockTemplate(getState(), taskSource, handlers), container);
+  };
+  // Background refreshes (timer, focus, other blocks' changes) don't show "Syncing...".
+  let syncRequested = false;
+  const doFetch = (options: { force?: boolean } = {}) => {
+    state = { ...state, smartSorting: false };
+    if (options.force) syncRequested = true;
+    void omnifocusTaskStore.fetch(query, options);
+  };
+  const handlers = createBlockHandlers(plugin, taskSource, getState, setState, renderBlock, () => doFetch({ force: true }));
 
-  doFetch = () => {
-    setState({ ...getState(), status: 'loading', label, config, syncing: true, smartSorting: false });
+  let renderedSnapshot = '';
+  const applySnapshot = (snapshot: TaskQuerySnapshot) => {
+    const status = snapshot.tasks || snapshot.error ? 'ready' : 'loading';
+    const syncing = snapshot.loading && (syncRequested || !snapshot.tasks);
+    if (!snapshot.loading) syncRequested = false;
+    const { tasks, error, staleSince } = snapshot;
+    state = { ...state, status, syncing, tasks, error, staleSince, editing: staleSince ? null : state.editing };
+    // Only re-render when something visible changed, so polling doesn't flicker the list.
+    const key = [status, syncing, error ?? '', staleSince ?? '', hashTasks(tasks)].join('|');
+    if (key === renderedSnapshot) return;
+    renderedSnapshot = key;
     renderBlock();
-    fetchTasks(taskSource, { includeCompleted: config.showCompleted })
-      .then((tasks) => {
-        setState({ ...getState(), status: 'ready', label, config, syncing: false, smartSorting: false, tasks });
-        renderBlock();
-      })
-      .catch((err) => {
-        setState({ ...getState(), status: 'ready', label, config, syncing: false, smartSorting: false, error: err instanceof Error ? err.message : String(err) });
-        renderBlock();
-      });
   };
-
-  renderBlock = () => {
-    render(buildBlockTemplate(getState(), taskSource, handlers), container);
+  const unsubscribe = omnifocusTaskStore.subscribe(query, applySnapshot);
+  const stopWatching = watchVisibility(container, (visible) => {
+    omnifocusTaskStore.setPaused(applySnapshot, !visible);
+    if (visible) doFetch();
+  });
+  const unload = () => {
+    stopWatching();
+    unsubscribe();
   };
 
-  return { doFetch };
+  return { doFetch, unload };
 }
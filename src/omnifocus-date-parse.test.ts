@@ -0,0 +1,47 @@
+import { parseNaturalDate } from './omnifocus-date-parse';
+
+// Monday, Oct 19 2026, 12:00 local time.
+const now = new Date(2026, 9, 19, 12, 0);
+const local = (month: number, day: number, hour = 0, minute = 0, year = 2026) =>
+  new Date(year, month - 1, day, hour, minute);
+
+describe('parseNaturalDate', () => {
+  it.each([
+    ['today', local(10, 19)],
+    ['Tomorrow', local(10, 20)],
+    ['yesterday', local(10, 18)],
+    ['+3d', local(10, 22)],
+    ['-1w', local(10, 12)],
+    ['in 2 weeks', local(11, 2)],
+    ['in 1 month', local(11, 19)],
+    ['next week', local(10, 26)],
+    ['fri', local(10, 23)],
+    ['next fri', local(10, 23)],
+    ['monday', local(10, 26)],
+    ['this monday', local(10, 19)],
+    ['2026-12-01', local(12, 1)],
+    ['oct 23', local(10, 23)],
+    ['23rd October', local(10, 23)],
+    ['jan 5', local(1, 5, 0, 0, 2027)],
+    ['Oct 1, 2025', local(10, 1, 0, 0, 2025)],
+  ])('parses %s', (input, expected) => {
+    expect(parseNaturalDate(input, now)).toEqual(expected);
+  });
+
+  it('uses the default hour without a time and the typed time otherwise', () => {
+    expect(parseNaturalDate('tomorrow', now, 17)).toEqual(local(10, 20, 17));
+    expect(parseNaturalDate('tomorrow 9am', now, 17)).toEqual(local(10, 20, 9));
+    expect(parseNaturalDate('next fri at 12pm', now)).toEqual(local(10, 23, 12));
+    expect(parseNaturalDate('oct 23 14:30', now)).toEqual(local(10, 23, 14, 30));
+    expect(parseNaturalDate('2026-12-01 at 8', now)).toEqual(local(12, 1, 8));
+    expect(parseNaturalDate('12am', now)).toEqual(local(10, 19, 0));
+    expect(parseNaturalDate('5:15pm', now)).toEqual(local(10, 19, 17, 15));
+  });
+
+  it.each(['', '  ', 'someday', 'feb 30', '2026-13-01', 'tomorrow 25:00', 'fri 13pm', 'mo'])(
+    'returns null for %p',
+    (input) => {
+      expect(parseNaturalDate(input, now)).toBeNull();
+    },
+  );
+});
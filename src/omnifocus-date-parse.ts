@@ -0,0 +1,149 @@
+/**
+ * Natural-language dates typed in the task action menu: "next fri",
+ * "tomorrow 9am", "+3d", "in 2 weeks", "oct 23", "2026-10-23 14:30".
+ * No lit or Obsidian dependency.
+ */
+
+import type { TaskDateField } from './omnifocus-backend';
+
+/** Hour used when no time is typed, matching OmniFocus' defaults (5pm due, midnight defer). */
+export const DEFAULT_DATE_HOURS: Record<TaskDateField, number> = { due: 17, defer: 0 };
+
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+const RELATIVE_DAYS: Record<string, number> = {
+  today: 0,
+  tod: 0,
+  tomorrow: 1,
+  tom: 1,
+  tmrw: 1,
+  yesterday: -1,
+};
+
+/** Index of a weekday or month given in full or by its first three or more letters; -1 otherwise. */
+function nameIndex(word: string, names: string[]): number {
+  if (word.length < 3) return -1;
+  return names.findIndex((name) => name.startsWith(word));
+}
+
+/** The day `days` after `day` (local midnight). */
+function addDays(day: Date, days: number): Date {
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate() + days);
+}
+
+/** Local midnight of year/month (0-based)/day, or null when the day does not exist (Feb 30). */
+function calendarDay(year: number, month: number, day: number): Date | null {
+  const d = new Date(year, month, day);
+  return d.getFullYear() === year && d.getMonth() === month && d.getDate() === day ? d : null;
+}
+
+function unitOffset(day: Date, amount: number, unit: string): Date {
+  switch (unit[0]) {
+    case 'w':
+      return addDays(day, amount * 7);
+    case 'm':
+      return new Date(day.getFullYear(), day.getMonth() + amount, day.getDate());
+    case 'y':
+      return new Date(day.getFullYear() + amount, day.getMonth(), day.getDate());
+    default:
+      return addDays(day, amount);
+  }
+}
+
+/** "+3d", "-1w", "in 2 weeks", "next month". */
+function parseOffset(text: string, today: Date): Date | null {
+  const next = text.match(/^next\s+(week|month|year)$/);
+  if (next) return unitOffset(today, 1, next[1]);
+  const m = text.match(/^(?:in\s+)?([+-]?)(\d+)\s*(d|days?|w|wks?|weeks?|m|mos?|months?|y|yrs?|years?)$/);
+  if (!m) return null;
+  return unitOffset(today, (m[1] === '-' ? -1 : 1) * Number(m[2]), m[3]);
+}
+
+/** "fri", "next friday" (the next one after today) or "this fri" (today counts). */
+function parseWeekday(text: string, today: Date): Date | null {
+  const m = text.match(/^(?:(next|this)\s+)?([a-z]+)$/);
+  const index = m ? nameIndex(m[2], WEEKDAY_NAMES) : -1;
+  if (!m || index < 0) return null;
+  const ahead = (index - today.getDay() + 7) % 7;
+  return addDays(today, ahead === 0 && m[1] !== 'this' ? 7 : ahead);
+}
+
+/** "2026-10-23". */
+function parseIsoDay(text: string): Date | null {
+  const m = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  return m ? calendarDay(Number(m[1]), Number(m[2]) - 1, Number(m[3])) : null;
+}
+
+/** "oct 23", "23 october", "oct 23, 2027"; without a year, a day already past means next year. */
+function parseMonthDay(text: string, today: Date): Date | null {
+  const monthFirst = text.match(/^([a-z]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?(?:,?\s+(\d{4}))?$/);
+  const dayFirst = text.match(/^(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]+)\.?(?:,?\s+(\d{4}))?$/);
+  const [monthName, day, year] = monthFirst
+    ? [monthFirst[1], monthFirst[2], monthFirst[3]]
+    : dayFirst
+      ? [dayFirst[2], dayFirst[1], dayFirst[3]]
+      : [];
+  const month = monthName ? nameIndex(monthName, MONTH_NAMES) : -1;
+  if (month < 0) return null;
+  if (year) return calendarDay(Number(year), month, Number(day));
+  const thisYear = calendarDay(today.getFullYear(), month, Number(day));
+  if (thisYear && thisYear.getTime() < today.getTime()) return calendarDay(today.getFullYear() + 1, month, Number(day));
+  return thisYear;
+}
+
+const DAY_PARSERS: ((text: string, today: Date) => Date | null)[] = [
+  (text, today) => (text in RELATIVE_DAYS ? addDays(today, RELATIVE_DAYS[text]) : null),
+  parseOffset,
+  parseWeekday,
+  parseIsoDay,
+  parseMonthDay,
+];
+
+/**
+ * Split a trailing time ("5pm", "9:30", "at 17") off the text.
+ *
+ * @returns The text before the time and the time as [hours, minutes]
+ *   (null when none was typed), or null for an impossible time like "25:00".
+ */
+function splitTime(text: string): { rest: string; time: [number, number] | null } | null {
+  const m = text.match(/^(.*?)(?:^|\s+)(at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!m || !(m[2] || m[4] || m[5])) return { rest: text, time: null };
+  let hours = Number(m[3]);
+  const minutes = m[4] ? Number(m[4]) : 0;
+  if (m[5]) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (m[5] === 'pm' ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) return null;
+  return { rest: m[1].trim(), time: [hours, minutes] };
+}
+
+/**
+ * Parse a date typed in natural language, in local time relative to `now`.
+ *
+ * Days: today/tomorrow/yesterday, weekdays ("fri", "next friday"), offsets
+ * ("+3d", "-1w", "in 2 months", "next week"), "2026-10-23" and "oct 23".
+ * An optional time follows ("5pm", "17:30", "at 9"); a time alone means
+ * today. Without a time the date is at `defaultHour`:00.
+ *
+ * @returns null when the text is empty or not understood.
+ */
+export function parseNaturalDate(input: string, now: Date, defaultHour = 0): Date | null {
+  const text = input.trim().toLowerCase().replace(/\s+/g, ' ');
+  if (!text) return null;
+  const split = splitTime(text);
+  if (!split) return null;
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  let day: Date | null = split.rest === '' ? today : null;
+  for (const parse of DAY_PARSERS) {
+    if (day) break;
+    day = parse(split.rest, today);
+  }
+  if (!day) return null;
+  const [hours, minutes] = split.time ?? [defaultHour, 0];
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes);
+}
@@ -0,0 +1,217 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  decodeJxaResponse,
+  decodeProjectPathsWithNotes,
+  decodeProjectMetadata,
+  decodeProjectReviews,
+  decodeProjectsWithNotes,
+  decodeId,
+  decodeStringList,
+  decodeTasks,
+} from './omnifocus-decode';
+
+/** Raw osascript stdout recorded from the JXA transport. */
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, '__fixtures__', 'jxa', name), 'utf8');
+}
+
+describe('decodeJxaResponse', () => {
+  it('returns the result of a success envelope', () => {
+    expect(decodeJxaResponse('{"result":[1,2]}\n')).toEqual([1, 2]);
+  });
+
+  it('returns null results', () => {
+    expect(decodeJxaResponse('{"result":null}')).toBeNull();
+  });
+
+  it('throws the script error from an error envelope', () => {
+    expect(() => decodeJxaResponse(fixture('error.json'))).toThrow('No project named "Nope"');
+  });
+
+  it('throws for non-JSON output', () => {
+    expect(() => decodeJxaResponse('execution error: OmniFocus got an error')).toThrow(
+      'Invalid OmniFocus response: not JSON',
+    );
+  });
+
+  it('throws for an envelope without result', () => {
+    expect(() => decodeJxaResponse('{}')).toThrow('missing "result"');
+  });
+});
+
+describe('decodeTasks', () => {
+  it('decodes recorded tasks, keeping newlines, literal \\n and separators intact', () => {
+    const tasks = decodeTasks(decodeJxaResponse(fixture('tasks.json')));
+    expect(tasks.map((t) => [t.name, t.note])).toEqual([
+      ['Call dentist', ''],
+      ['Review\nmulti-line name', 'First line\nSecond line'],
+      ['Literal \\n stays literal', ''],
+      ['Separator \x1f inside', 'tab\tand \x1f too'],
+    ]);
+  });
+
+  it('decodes all task metadata', () => {
+    const [call, review, , done] = decodeTasks(decodeJxaResponse(fixture('tasks.json')));
+    expect(call).toEqual({
+      name: 'Call dentist',
+      id: 'kPqL3xZ1a2b',
+      note: '',
+      completed: false,
+      dueDate: '2026-10-20T15:00:00.000Z',
+      deferDate: null,
+      flagged: true,
+      estimatedMinutes: 15,
+      tags: ['@Phone'],
+      projectName: null,
+      folderPath: null,
+      parentId: null,
+      addedDate: '2026-10-01T08:15:00.000Z',
+      modifiedDate: '2026-10-02T09:00:00.000Z',
+      completionDate: null,
+      status: 'due-soon',
+    });
+    expect(review).toMatchObject({
+      deferDate: '2026-11-01T07:00:00.000Z',
+      tags: ['@Office', 'Waiting'],
+      projectName: 'Website relaunch',
+      folderPath: 'Work/Clients',
+      status: 'blocked',
+    });
+    expect(done).toMatchObject({
+      completed: true,
+      completionDate: '2026-10-03T18:30:00.000Z',
+      status: 'completed',
+      parentId: 'kPqL3xZ1a2b',
+    });
+  });
+
+});
+
+describe('decodeTasks - validation', () => {
+  it('names the offending field for invalid tasks', () => {
+    expect(() => decodeTasks(decodeJxaResponse(fixture('tasks-invalid.json')))).toThrow(
+      'Invalid OmniFocus response: result[1].name must be a string (got number)',
+    );
+  });
+
+  it('rejects a non-array result', () => {
+    expect(() => decodeTasks({})).toThrow('result must be an array (got object)');
+  });
+
+  it('requires completed to be a boolean', () => {
+    expect(() => decodeTasks([{ id: 'a', name: 'A', note: '', completed: 'yes' }])).toThrow(
+      'result[0].completed must be a boolean (got string)',
+    );
+  });
+
+  it('validates dates, tags and status', () => {
+    const [valid] = JSON.parse(fixture('tasks.json')).result;
+    expect(() => decodeTasks([{ ...valid, dueDate: 'next week' }])).toThrow(
+      'result[0].dueDate must be an ISO date or null (got string)',
+    );
+    expect(() => decodeTasks([{ ...valid, tags: ['ok', 3] }])).toThrow('result[0].tags[1] must be a string');
+    expect(() => decodeTasks([{ ...valid, status: 'maybe' }])).toThrow('result[0].status must be one of available');
+    expect(() => decodeTasks([{ ...valid, estimatedMinutes: 'ten' }])).toThrow(
+      'result[0].estimatedMinutes must be a number or null',
+    );
+  });
+});
+
+describe('decodeProjectPathsWithNotes', () => {
+  it('decodes and sanitizes recorded project paths', () => {
+    expect(decodeProjectPathsWithNotes(decodeJxaResponse(fixture('project-paths-with-notes.json')))).toEqual([
+      { path: 'Work/Clients/Website relaunch', note: 'Ship by Q3\nOwner: me', id: 'pWeb1', status: 'active' },
+      { path: 'Work/Hiring- backend', note: '', id: 'pHire2', status: 'on-hold' },
+      { path: 'Personal/Home/Fix a/c', note: '', id: 'pFix3', status: 'completed' },
+      { path: 'Garden', note: 'Tulips', id: 'pGarden4', status: 'dropped' },
+    ]);
+  });
+
+  it('skips entries whose path is empty', () => {
+    expect(decodeProjectPathsWithNotes([{ path: '  ', note: '', id: 'p1', status: 'active' }])).toEqual([]);
+  });
+});
+
+describe('decodeProjectsWithNotes and decodeStringList', () => {
+  it('decodes recorded projects with notes', () => {
+    expect(decodeProjectsWithNotes(decodeJxaResponse(fixture('projects-with-notes.json')))).toEqual([
+      { name: 'Website relaunch', note: 'Ship by Q3\nOwner: me' },
+      { name: 'Garden', note: '' },
+    ]);
+  });
+
+  it('decodes recorded tag names', () => {
+    expect(decodeStringList(decodeJxaResponse(fixture('tag-names.json')))).toEqual([
+      '@Office',
+      '@Home',
+      'Waiting\x1fFor',
+    ]);
+  });
+
+  it('names the offending index for invalid names', () => {
+    expect(() => decodeStringList(['a', null])).toThrow('result[1] must be a string (got null)');
+  });
+});
+
+describe('decodeProjectReviews', () => {
+  it('decodes recorded review states and sanitizes their paths', () => {
+    expect(decodeProjectReviews(decodeJxaResponse(fixture('project-reviews.json')))).toEqual([
+      {
+        id: 'pWeb1',
+        name: 'Website relaunch',
+        path: 'Work/Clients/Website relaunch',
+        status: 'active',
+        lastReviewDate: '2026-10-12T09:00:00.000Z',
+        nextReviewDate: '2026-10-19T09:00:00.000Z',
+      },
+      { id: 'pFix2', name: 'Fix a/c', path: 'Personal/Home/Fix a/c', status: 'on-hold', lastReviewDate: null, nextReviewDate: null },
+    ]);
+  });
+
+  it('rejects unknown project statuses', () => {
+    const valid = { id: 'p', name: 'P', path: 'P', status: 'active', lastReviewDate: null, nextReviewDate: null };
+    expect(() => decodeProjectReviews([{ ...valid, status: 'paused' }])).toThrow('result[0].status must be one of active');
+  });
+});
+
+describe('decodeProjectMetadata', () => {
+  it('decodes recorded project metadata', () => {
+    expect(decodeProjectMetadata(decodeJxaResponse(fixture('project-metadata.json')))).toEqual([
+      {
+        id: 'pWeb1',
+        dueDate: '2026-11-01T17:00:00.000Z',
+        deferDate: null,
+        flagged: true,
+        tags: ['Work', 'Waiting For'],
+        remainingTasks: 7,
+        completedTasks: 12,
+        lastReviewDate: '2026-10-12T09:00:00.000Z',
+      },
+      {
+        id: 'pFix2',
+        dueDate: null,
+        deferDate: '2026-10-25T08:00:00.000Z',
+        flagged: false,
+        tags: [],
+        remainingTasks: 0,
+        completedTasks: 0,
+        lastReviewDate: null,
+      },
+    ]);
+  });
+
+  it('rejects negative task counts', () => {
+    const valid = { id: 'p', dueDate: null, deferDate: null, flagged: false, tags: [], remainingTasks: 0, completedTasks: 0, lastReviewDate: null };
+    expect(() => decodeProjectMetadata([{ ...valid, remainingTasks: -1 }])).toThrow(
+      'result[0].remainingTasks must be a non-negative number (got number)',
+    );
+  });
+});
+
+describe('decodeId', () => {
+  it('decodes the id of a created object', () => {
+    expect(decodeId('kXy2')).toBe('kXy2');
+    expect(() => decodeId(3)).toThrow('result must be a string (got number)');
+  });
+});
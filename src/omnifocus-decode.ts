@@ -0,0 +1,224 @@
+/**
+ * Typed decoders for the JSON returned by the JXA transport.
+ *
+ * Every fetch validates the shape it receives and throws an error naming the
+ * offending location (e.g. `result[2].name`) instead of passing malformed data
+ * on to the UI. No Obsidian or osascript dependency, so the decoders can be
+ * tested against recorded fixtures.
+ */
+
+import type {
+  OmniFocusTask,
+  OmniFocusProjectWithNote,
+  OmniFocusProjectMetadata,
+  OmniFocusProjectReview,
+  ProjectPathWithNote,
+  ProjectStatus,
+  TaskStatus,
+} from './omnifocus';
+import { PROJECT_STATUSES, sanitizeProjectPath, TASK_STATUSES } from './omnifocus';
+
+const INVALID = 'Invalid OmniFocus response: ';
+
+function typeName(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function fail(path: string, expected: string, value: unknown): never {
+  throw new Error(`${INVALID}${path} must be ${expected} (got ${typeName(value)})`);
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) fail(path, 'an array', value);
+  return value;
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    fail(path, 'an object', value);
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string') fail(path, 'a string', value);
+  return value;
+}
+
+function expectBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== 'boolean') fail(path, 'a boolean', value);
+  return value;
+}
+
+function nullableString(value: unknown, path: string): string | null {
+  if (value === null) return null;
+  return expectString(value, path);
+}
+
+/** ISO 8601 date string or null. */
+function nullableDate(value: unknown, path: string): string | null {
+  if (value === null) return null;
+  const text = expectString(value, path);
+  if (isNaN(Date.parse(text))) fail(path, 'an ISO date or null', value);
+  return text;
+}
+
+function expectCount(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !isFinite(value) || value < 0) fail(path, 'a non-negative number', value);
+  return value;
+}
+
+function nullableNumber(value: unknown, path: string): number | null {
+  if (value === null) return null;
+  if (typeof value !== 'number' || !isFinite(value)) fail(path, 'a number or null', value);
+  return value;
+}
+
+function expectStatus(value: unknown, path: string): TaskStatus {
+  const text = expectString(value, path);
+  if (!(TASK_STATUSES as readonly string[]).includes(text)) {
+    fail(path, `one of ${TASK_STATUSES.join(', ')}`, value);
+  }
+  return text as TaskStatus;
+}
+
+function expectProjectStatus(value: unknown, path: string): ProjectStatus {
+  const text = expectString(value, path);
+  if (!(PROJECT_STATUSES as readonly string[]).includes(text)) {
+    fail(path, `one of ${PROJECT_STATUSES.join(', ')}`, value);
+  }
+  return text as ProjectStatus;
+}
+
+/** A string field that OmniFocus may report as null/absent (notes). */
+function optionalText(value: unknown, path: string): string {
+  if (value === undefined || value === null) return '';
+  return expectString(value, path);
+}
+
+/**
+ * Parse the envelope written by `buildOmniScript`: `{"result": ...}` or
+ * `{"error": "..."}`.
+ *
+ * @returns The `result` value, still untyped.
+ * @throws With the script's error message, or if stdout is not a valid envelope.
+ */
+export function decodeJxaResponse(stdout: string): unknown {
+  const trimmed = stdout.trim();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(trimmed);
+  } catch {
+    throw new Error(`${INVALID}not JSON: ${trimmed.slice(0, 200)}`);
+  }
+  const envelope = expectObject(parsed, 'response');
+  if (envelope.error !== undefined) {
+    throw new Error(expectString(envelope.error, 'error'));
+  }
+  if (!('result' in envelope)) {
+    throw new Error(`${INVALID}missing "result"`);
+  }
+  return envelope.result;
+}
+
+/** Decode a list of names (projects, tags). */
+export function decodeStringList(value: unknown): string[] {
+  return expectArray(value, 'result').map((v, i) => expectString(v, `result[${i}]`));
+}
+
+/** Decode the id returned by a create script. */
+export function decodeId(value: unknown): string {
+  return expectString(value, 'result');
+}
+
+/** Decode one task object with all metadata fields (see `taskJson` in the Omni scripts). */
+function decodeTask(v: unknown, path: string): OmniFocusTask {
+  const obj = expectObject(v, path);
+  const at = (key: string) => `${path}.${key}`;
+  return {
+    name: expectString(obj.name, at('name')),
+    id: expectString(obj.id, at('id')),
+    note: optionalText(obj.note, at('note')),
+    completed: expectBoolean(obj.completed, at('completed')),
+    dueDate: nullableDate(obj.dueDate, at('dueDate')),
+    deferDate: nullableDate(obj.deferDate, at('deferDate')),
+    flagged: expectBoolean(obj.flagged, at('flagged')),
+    estimatedMinutes: nullableNumber(obj.estimatedMinutes, at('estimatedMinutes')),
+    tags: expectArray(obj.tags, at('tags')).map((t, j) => expectString(t, `${at('tags')}[${j}]`)),
+    projectName: nullableString(obj.projectName, at('projectName')),
+    folderPath: nullableString(obj.folderPath, at('folderPath')),
+    parentId: nullableString(obj.parentId, at('parentId')),
+    addedDate: nullableDate(obj.addedDate, at('addedDate')),
+    modifiedDate: nullableDate(obj.modifiedDate, at('modifiedDate')),
+    completionDate: nullableDate(obj.completionDate, at('completionDate')),
+    status: expectStatus(obj.status, at('status')),
+  };
+}
+
+/** Decode tasks: `[{ id, name, note, completed, dueDate, …, status }]`. */
+export function decodeTasks(value: unknown): OmniFocusTask[] {
+  return expectArray(value, 'result').map((v, i) => decodeTask(v, `result[${i}]`));
+}
+
+/** Decode project paths with notes, ids and statuses; paths are sanitized like the AppleScript backend's. */
+export function decodeProjectPathsWithNotes(value: unknown): ProjectPathWithNote[] {
+  const out: ProjectPathWithNote[] = [];
+  expectArray(value, 'result').forEach((v, i) => {
+    const path = `result[${i}]`;
+    const obj = expectObject(v, path);
+    const rawPath = expectString(obj.path, `${path}.path`).trim();
+    const note = optionalText(obj.note, `${path}.note`);
+    const id = expectString(obj.id, `${path}.id`);
+    const status = expectProjectStatus(obj.status, `${path}.status`);
+    if (rawPath) out.push({ path: sanitizeProjectPath(rawPath), note, id, status });
+  });
+  return out;
+}
+
+/** Decode projects with notes: `[{ name, note }]`. */
+export function decodeProjectsWithNotes(value: unknown): OmniFocusProjectWithNote[] {
+  return expectArray(value, 'result').map((v, i) => {
+    const path = `result[${i}]`;
+    const obj = expectObject(v, path);
+    return {
+      name: expectString(obj.name, `${path}.name`),
+      note: optionalText(obj.note, `${path}.note`),
+    };
+  });
+}
+
+/** Decode project review states: `[{ id, name, path, status, lastReviewDate, nextReviewDate }]`. */
+export function decodeProjectReviews(value: unknown): OmniFocusProjectReview[] {
+  return expectArray(value, 'result').map((v, i) => {
+    const path = `result[${i}]`;
+    const obj = expectObject(v, path);
+    return {
+      id: expectString(obj.id, `${path}.id`),
+      name: expectString(obj.name, `${path}.name`),
+      path: sanitizeProjectPath(expectString(obj.path, `${path}.path`)),
+      status: expectProjectStatus(obj.status, `${path}.status`),
+      lastReviewDate: nullableDate(obj.lastReviewDate, `${path}.lastReviewDate`),
+      nextReviewDate: nullableDate(obj.nextReviewDate, `${path}.nextReviewDate`),
+    };
+  });
+}
+
+/** Decode project metadata: `[{ id, dueDate, deferDate, flagged, tags, remainingTasks, completedTasks, lastReviewDate }]`. */
+export function decodeProjectMetadata(value: unknown): OmniFocusProjectMetadata[] {
+  return expectArray(value, 'result').map((v, i) => {
+    const path = `result[${i}]`;
+    const obj = expectObject(v, path);
+    return {
+      id: expectString(obj.id, `${path}.id`),
+      dueDate: nullableDate(obj.dueDate, `${path}.dueDate`),
+      deferDate: nullableDate(obj.deferDate, `${path}.deferDate`),
+      flagged: expectBoolean(obj.flagged, `${path}.flagged`),
+      tags: expectArray(obj.tags, `${path}.tags`).map((t, j) => expectString(t, `${path}.tags[${j}]`)),
+      remainingTasks: expectCount(obj.remainingTasks, `${path}.remainingTasks`),
+      completedTasks: expectCount(obj.completedTasks, `${path}.completedTasks`),
+      lastReviewDate: nullableDate(obj.lastReviewDate, `${path}.lastReviewDate`),
+    };
+  });
+}
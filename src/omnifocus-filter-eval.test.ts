@@ -0,0 +1,21 @@
+import type { OmniFocusTask } from './omnifocus';
+import { FILTER_CASES, FILTER_NOW, FILTER_SAMPLE_TASKS } from './__fixtures__/filter-cases';
+import { parseFilter } from './omnifocus-filter';
+import { filterTasks } from './omnifocus-filter-eval';
+
+describe('filterTasks', () => {
+  it.each(FILTER_CASES)('%s', (expression, ids) => {
+    const matched = filterTasks(FILTER_SAMPLE_TASKS, parseFilter(expression), FILTER_NOW);
+    expect(matched.map((t) => t.id)).toEqual(ids);
+  });
+
+  it('returns every task when there is no filter', () => {
+    expect(filterTasks(FILTER_SAMPLE_TASKS, undefined, FILTER_NOW)).toBe(FILTER_SAMPLE_TASKS);
+  });
+
+  it('treats metadata the backend did not report as unset', () => {
+    const bare: OmniFocusTask[] = [{ id: 'x', name: 'Legacy task', note: '' }];
+    expect(filterTasks(bare, parseFilter('name ~ legacy and due = none and not flagged'), FILTER_NOW)).toHaveLength(1);
+    expect(filterTasks(bare, parseFilter('tag = @Office'), FILTER_NOW)).toHaveLength(0);
+  });
+});
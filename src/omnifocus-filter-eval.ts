@@ -0,0 +1,176 @@
+/**
+ * Evaluate a {@link TaskFilter} against tasks (no lit or Obsidian dependency).
+ * Used by the memory backend and, after fetching, by the AppleScript
+ * transport. The JXA transport evaluates the same filter inside OmniFocus
+ * with `FILTER_HELPERS` in omnifocus-jxa-scripts.ts; keep the two in step.
+ */
+
+import type { OmniFocusTask } from './omnifocus';
+import type { FilterComparator, FilterField, FilterValue, TaskFilter } from './omnifocus-filter';
+
+/** The fields a filter reads, with dates as epoch milliseconds. */
+export interface FilterRecord {
+  name: string;
+  note: string;
+  project: string | null;
+  folder: string | null;
+  status: string | null;
+  tags: string[];
+  due: number | null;
+  defer: number | null;
+  added: number | null;
+  modified: number | null;
+  completion: number | null;
+  estimate: number | null;
+  flagged: boolean;
+  completed: boolean;
+}
+
+function time(iso: string | null | undefined): number | null {
+  if (!iso) return null;
+  const ms = Date.parse(iso);
+  return isNaN(ms) ? null : ms;
+}
+
+/** Filter view of a task; metadata the backend did not report reads as unset. */
+export function filterRecordOf(task: OmniFocusTask): FilterRecord {
+  return {
+    name: task.name,
+    note: task.note,
+    project: task.projectName ?? null,
+    folder: task.folderPath ?? null,
+    status: task.status ?? null,
+    tags: task.tags ?? [],
+    due: time(task.dueDate),
+    defer: time(task.deferDate),
+    added: time(task.addedDate),
+    modified: time(task.modifiedDate),
+    completion: time(task.completionDate),
+    estimate: task.estimatedMinutes ?? null,
+    flagged: task.flagged ?? false,
+    completed: task.completed ?? false,
+  };
+}
+
+/** Start of the local day containing `ms`, moved by `days`. */
+function dayStart(ms: number, days = 0): number {
+  const d = new Date(ms);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + days).getTime();
+}
+
+/**
+ * The time range a date value stands for: a whole local day for day values,
+ * a single instant for offsets. `=`/`!=` always compare whole days.
+ */
+function dateRange(value: FilterValue, cmp: FilterComparator, now: number): { start: number; end: number } | null {
+  let start: number;
+  if (value.type === 'day') {
+    const [y, m, d] = value.date.split('-').map(Number);
+    start = new Date(y, m - 1, d).getTime();
+  } else if (value.type === 'relative-day') {
+    start = dayStart(now, value.days);
+  } else if (value.type === 'offset') {
+    const at = now + value.ms;
+    if (cmp !== '=' && cmp !== '!=') return { start: at, end: at + 1 };
+    start = dayStart(at);
+  } else {
+    return null;
+  }
+  return { start, end: dayStart(start, 1) };
+}
+
+function compareOrdered(x: number, cmp: FilterComparator, range: { start: number; end: number }): boolean {
+  switch (cmp) {
+    case '<': return x < range.start;
+    case '<=': return x < range.end;
+    case '>': return x >= range.end;
+    case '>=': return x >= range.start;
+    case '=': return x >= range.start && x < range.end;
+    default: return !(x >= range.start && x < range.end);
+  }
+}
+
+function matchesText(text: string, value: FilterValue): boolean {
+  if (value.type === 'regex') return new RegExp(value.source, value.flags).test(text);
+  return value.type === 'string' && text.toLowerCase().includes(value.value.toLowerCase());
+}
+
+function equalsText(text: string, value: FilterValue): boolean {
+  return value.type === 'string' && text.toLowerCase() === value.value.toLowerCase();
+}
+
+function compareText(text: string | null, cmp: FilterComparator, value: FilterValue): boolean {
+  if (value.type === 'none') return (text === null || text === '') === (cmp === '=');
+  if (text === null) return cmp === '!=';
+  if (cmp === '~') return matchesText(text, value);
+  return equalsText(text, value) === (cmp === '=');
+}
+
+function compareTags(tags: string[], cmp: FilterComparator, value: FilterValue): boolean {
+  if (value.type === 'none') return (tags.length === 0) === (cmp === '=');
+  if (cmp === '~') return tags.some((tag) => matchesText(tag, value));
+  return tags.some((tag) => equalsText(tag, value)) === (cmp === '=');
+}
+
+function compareNumber(x: number | null, cmp: FilterComparator, value: FilterValue, now: number, isDate: boolean): boolean {
+  if (value.type === 'none') return (x === null) === (cmp === '=');
+  if (x === null) return cmp === '!=';
+  if (isDate) {
+    const range = dateRange(value, cmp, now);
+    return range !== null && compareOrdered(x, cmp, range);
+  }
+  if (value.type !== 'number') return false;
+  switch (cmp) {
+    case '<': return x < value.value;
+    case '<=': return x <= value.value;
+    case '>': return x > value.value;
+    case '>=': return x >= value.value;
+    case '=': return x === value.value;
+    default: return x !== value.value;
+  }
+}
+
+function fieldValue(record: FilterRecord, field: FilterField): string | null {
+  if (field === 'text') return `${record.name}\n${record.note}`;
+  return record[field as 'name' | 'note' | 'project' | 'folder' | 'status'];
+}
+
+function compare(record: FilterRecord, field: FilterField, cmp: FilterComparator, value: FilterValue, now: number): boolean {
+  switch (field) {
+    case 'tag':
+      return compareTags(record.tags, cmp, value);
+    case 'due':
+    case 'defer':
+    case 'added':
+    case 'modified':
+    case 'completion':
+      return compareNumber(record[field], cmp, value, now, true);
+    case 'estimate':
+      return compareNumber(record.estimate, cmp, value, now, false);
+    case 'flagged':
+    case 'completed':
+      return value.type === 'boolean' && (record[field] === value.value) === (cmp === '=');
+    default:
+      return compareText(fieldValue(record, field), cmp, value);
+  }
+}
+
+/** Evaluate a filter against a record; `now` anchors relative dates. */
+export function matchesFilter(filter: TaskFilter, record: FilterRecord, now: Date): boolean {
+  switch (filter.op) {
+    case 'and':
+      return filter.args.every((arg) => matchesFilter(arg, record, now));
+    case 'or':
+      return filter.args.some((arg) => matchesFilter(arg, record, now));
+    case 'not':
+      return !matchesFilter(filter.arg, record, now);
+    case 'compare':
+      return compare(record, filter.field, filter.cmp, filter.value, now.getTime());
+  }
+}
+
+/** Keep the tasks that match; all tasks when there is no filter. */
+export function filterTasks(tasks: OmniFocusTask[], filter: TaskFilter | undefined, now: Date): OmniFocusTask[] {
+  if (!filter) return tasks;
+  return tasks.filter((task) => matchesFilter(filter, filterRecordOf(task), now));
+}
@@ -0,0 +1,147 @@
+import { combineFilters, filterFields, parseFilter, searchFilter } from './omnifocus-filter';
+
+describe('parseFilter - expressions', () => {
+  it('parses the documented example', () => {
+    expect(parseFilter('tag = @Office and due < +3d and not flagged')).toEqual({
+      op: 'and',
+      args: [
+        { op: 'compare', field: 'tag', cmp: '=', value: { type: 'string', value: '@Office' } },
+        { op: 'compare', field: 'due', cmp: '<', value: { type: 'offset', ms: 3 * 24 * 60 * 60 * 1000 } },
+        { op: 'not', arg: { op: 'compare', field: 'flagged', cmp: '=', value: { type: 'boolean', value: true } } },
+      ],
+    });
+  });
+
+  it('binds and tighter than or, with parentheses overriding', () => {
+    const flat = parseFilter('flagged or completed and name = a');
+    expect(flat).toMatchObject({ op: 'or', args: [{ field: 'flagged' }, { op: 'and' }] });
+    const grouped = parseFilter('(flagged or completed) and name = a');
+    expect(grouped).toMatchObject({ op: 'and', args: [{ op: 'or' }, { field: 'name' }] });
+  });
+
+  it('parses regexes, quoted strings and keywords case-insensitively', () => {
+    expect(parseFilter('Text ~ /in\\/voice|receipt/i')).toEqual({
+      op: 'compare',
+      field: 'text',
+      cmp: '~',
+      value: { type: 'regex', source: 'in/voice|receipt', flags: 'i' },
+    });
+    expect(parseFilter('project = "Q3 \\"Taxes\\"" OR tags != none')).toEqual({
+      op: 'or',
+      args: [
+        { op: 'compare', field: 'project', cmp: '=', value: { type: 'string', value: 'Q3 "Taxes"' } },
+        { op: 'compare', field: 'tag', cmp: '!=', value: { type: 'none' } },
+      ],
+    });
+  });
+
+  it('reads slashes inside bare words as part of the word', () => {
+    expect(parseFilter('folder = Work/Clients and name ~ /a/')).toEqual({
+      op: 'and',
+      args: [
+        { op: 'compare', field: 'folder', cmp: '=', value: { type: 'string', value: 'Work/Clients' } },
+        { op: 'compare', field: 'name', cmp: '~', value: { type: 'regex', source: 'a', flags: '' } },
+      ],
+    });
+  });
+
+  it('parses date, estimate, boolean and status values', () => {
+    const value = (input: string) => (parseFilter(input) as { value: unknown }).value;
+    expect(value('due <= today')).toEqual({ type: 'relative-day', days: 0 });
+    expect(value('defer > tomorrow')).toEqual({ type: 'relative-day', days: 1 });
+    expect(value('added >= -2w')).toEqual({ type: 'offset', ms: -14 * 24 * 60 * 60 * 1000 });
+    expect(value('due < +4h')).toEqual({ type: 'offset', ms: 4 * 60 * 60 * 1000 });
+    expect(value('due = 2026-10-20')).toEqual({ type: 'day', date: '2026-10-20' });
+    expect(value('estimate <= 1.5h')).toEqual({ type: 'number', value: 90 });
+    expect(value('estimate > 30m')).toEqual({ type: 'number', value: 30 });
+    expect(value('flagged = false')).toEqual({ type: 'boolean', value: false });
+    expect(value('status = Overdue')).toEqual({ type: 'string', value: 'overdue' });
+  });
+});
+
+describe('parseFilter - errors', () => {
+  const error = (input: string, offset?: number) => {
+    try {
+      parseFilter(input, offset);
+    } catch (err) {
+      return (err as Error).message;
+    }
+    throw new Error(`expected "${input}" to fail`);
+  };
+
+  it('reports missing values with the column', () => {
+    expect(error('tag = @Office and due <')).toBe('Invalid filter at column 24: expected a value after "<"');
+  });
+
+  it('offsets columns by the position of the expression in its line', () => {
+    expect(error('due <', 7)).toBe('Invalid filter at column 13: expected a value after "<"');
+  });
+
+  it('reports unknown fields and lists the valid ones', () => {
+    expect(error('priority = high')).toMatch(/^Invalid filter at column 1: unknown field "priority". Fields: name, note/);
+  });
+
+  it('reports operators that do not fit the field', () => {
+    expect(error('due ~ today')).toBe('Invalid filter at column 5: "~" cannot be used with due; use "=", "!=", "<", "<=", ">", ">="');
+    expect(error('name < b')).toContain('"<" cannot be used with name');
+  });
+
+  it('reports values of the wrong type', () => {
+    expect(error('due < someday')).toBe(
+      'Invalid filter at column 7: expected a date (today, tomorrow, yesterday, now, +3d, -2w, +4h, 2026-10-20) or none for due but found "someday"',
+    );
+    expect(error('due = 2026-02-30')).toContain('expected a date');
+    expect(error('estimate > soon')).toContain('expected a number of minutes');
+    expect(error('status = later')).toContain('unknown status "later". Statuses: available, next');
+  });
+
+  it('reports regexes used without ~ and invalid regexes', () => {
+    expect(error('name = /a/')).toBe('Invalid filter at column 8: regular expressions need "~", not "="');
+    expect(error('name ~ /(/')).toMatch(/^Invalid filter at column 8: invalid regular expression/);
+    expect(error('name ~ /abc')).toBe('Invalid filter at column 8: unterminated regular expression');
+  });
+
+  it('reports structural errors', () => {
+    expect(error('')).toBe('Invalid filter at column 1: expected a filter expression');
+    expect(error('(flagged or completed')).toBe(
+      'Invalid filter at column 22: expected ")" to close "(" at column 1',
+    );
+    expect(error('flagged completed')).toBe(
+      'Invalid filter at column 9: unexpected "completed"; expected "and", "or" or end of line',
+    );
+    expect(error('name "x"')).toBe('Invalid filter at column 6: expected an operator after "name" but found "x"');
+    expect(error('and flagged')).toContain('unknown field "and"');
+    expect(error('name = "open')).toBe('Invalid filter at column 8: unterminated string');
+    expect(error('due < none')).toBe('Invalid filter at column 7: "none" can only be compared with "=" or "!="');
+  });
+});
+
+describe('searchFilter and combineFilters', () => {
+  it('searches name and note by substring', () => {
+    expect(searchFilter('invoice')).toEqual({
+      op: 'compare',
+      field: 'text',
+      cmp: '~',
+      value: { type: 'string', value: 'invoice' },
+    });
+  });
+
+  it('combines filters with and', () => {
+    const a = searchFilter('a');
+    const b = searchFilter('b');
+    expect(combineFilters([])).toBeUndefined();
+    expect(combineFilters([a])).toBe(a);
+    expect(combineFilters([a, b])).toEqual({ op: 'and', args: [a, b] });
+  });
+});
+
+describe('filterFields', () => {
+  it('lists each compared field once, in order of first use', () => {
+    expect(filterFields(parseFilter('not (flagged or due < today) and tag = a and flagged'))).toEqual([
+      'flagged',
+      'due',
+      'tag',
+    ]);
+    expect(filterFields(searchFilter('invoice'))).toEqual(['text']);
+  });
+});
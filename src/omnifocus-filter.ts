@@ -0,0 +1,403 @@
+/**
+ * Filter query language for OmniFocus blocks (no lit or Obsidian dependency).
+ *
+ * Block bodies may add `where: <expression>` and `search: <text>` lines after
+ * the source. Expressions combine comparisons with `and`, `or`, `not` and
+ * parentheses:
+ *
+ *     where: tag = @Office and due < +3d and not flagged
+ *     where: text ~ /invoice|receipt/i or project = "Q3 Taxes"
+ *
+ * The parsed {@link TaskFilter} is plain JSON so it can be sent to the JXA
+ * fetch script and evaluated inside OmniFocus; relative dates are resolved
+ * when the filter is evaluated (see omnifocus-filter-eval.ts).
+ */
+
+import { TASK_STATUSES } from './omnifocus';
+
+/** Task fields a filter can test. */
+export type FilterField =
+  | 'name'
+  | 'note'
+  | 'text'
+  | 'project'
+  | 'folder'
+  | 'status'
+  | 'tag'
+  | 'due'
+  | 'defer'
+  | 'added'
+  | 'modified'
+  | 'completion'
+  | 'estimate'
+  | 'flagged'
+  | 'completed';
+
+export type FilterComparator = '=' | '!=' | '<' | '<=' | '>' | '>=' | '~';
+
+/**
+ * Right-hand side of a comparison. Dates are `day` (a calendar date,
+ * YYYY-MM-DD), `relative-day` (today = 0, tomorrow = 1, …) or `offset`
+ * (milliseconds from now, e.g. `+3d`); `none` matches unset fields.
+ */
+export type FilterValue =
+  | { type: 'string'; value: string }
+  | { type: 'regex'; source: string; flags: string }
+  | { type: 'number'; value: number }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'day'; date: string }
+  | { type: 'relative-day'; days: number }
+  | { type: 'offset'; ms: number }
+  | { type: 'none' };
+
+/** Parsed filter expression. */
+export type TaskFilter =
+  | { op: 'and'; args: TaskFilter[] }
+  | { op: 'or'; args: TaskFilter[] }
+  | { op: 'not'; arg: TaskFilter }
+  | { op: 'compare'; field: FilterField; cmp: FilterComparator; value: FilterValue };
+
+type FieldKind = 'text' | 'list' | 'date' | 'number' | 'boolean';
+
+const FIELD_KINDS: Record<FilterField, FieldKind> = {
+  name: 'text',
+  note: 'text',
+  text: 'text',
+  project: 'text',
+  folder: 'text',
+  status: 'text',
+  tag: 'list',
+  due: 'date',
+  defer: 'date',
+  added: 'date',
+  modified: 'date',
+  completion: 'date',
+  estimate: 'number',
+  flagged: 'boolean',
+  completed: 'boolean',
+};
+
+const FIELD_ALIASES: Record<string, FilterField> = { tags: 'tag' };
+
+const COMPARATORS_BY_KIND: Record<FieldKind, FilterComparator[]> = {
+  text: ['=', '!=', '~'],
+  list: ['=', '!=', '~'],
+  date: ['=', '!=', '<', '<=', '>', '>='],
+  number: ['=', '!=', '<', '<=', '>', '>='],
+  boolean: ['=', '!='],
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const UNIT_MS: Record<string, number> = { h: HOUR_MS, d: 24 * HOUR_MS, w: 7 * 24 * HOUR_MS };
+const RELATIVE_DAYS: Record<string, number> = { yesterday: -1, today: 0, tomorrow: 1 };
+
+type TokenType = 'word' | 'string' | 'regex' | 'op' | '(' | ')' | 'end';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  /** 0-based index into the expression. */
+  pos: number;
+  /** Regex flags (regex tokens only). */
+  flags?: string;
+}
+
+/** Error with the 1-based column of the offending token in the block line. */
+function filterError(message: string, pos: number, offset: number): Error {
+  return new Error(`Invalid filter at column ${pos + offset + 1}: ${message}`);
+}
+
+function describeToken(token: Token): string {
+  return token.type === 'end' ? 'end of line' : `"${token.text}"`;
+}
+
+/** A `/` only opens a regex at the start of a token, so `Work/Clients` stays one word. */
+function isWordChar(input: string, i: number): boolean {
+  const c = input[i];
+  if (/[\s()"=<>~]/.test(c)) return false;
+  return !(c === '!' && input[i + 1] === '=');
+}
+
+/** Read a quoted string starting at `start` (the opening quote); `\"` and `\\` escape. */
+function readString(input: string, start: number, offset: number): { token: Token; next: number } {
+  let text = '';
+  for (let i = start + 1; i < input.length; i++) {
+    if (input[i] === '\\' && i + 1 < input.length) {
+      text += input[++i];
+    } else if (input[i] === '"') {
+      return { token: { type: 'string', text, pos: start }, next: i + 1 };
+    } else {
+      text += input[i];
+    }
+  }
+  throw filterError('unterminated string', start, offset);
+}
+
+/** Read a `/regex/flags` literal starting at `start`; `\/` escapes the delimiter. */
+function readRegex(input: string, start: number, offset: number): { token: Token; next: number } {
+  let source = '';
+  for (let i = start + 1; i < input.length; i++) {
+    if (input[i] === '\\' && i + 1 < input.length) {
+      source += input[i + 1] === '/' ? '/' : input[i] + input[i + 1];
+      i++;
+    } else if (input[i] === '/') {
+      let end = i + 1;
+      while (end < input.length && /[a-z]/i.test(input[end])) end++;
+      const flags = input.slice(i + 1, end);
+      try {
+        new RegExp(source, flags);
+      } catch (err) {
+        throw filterError(`invalid regular expression: ${err instanceof Error ? err.message : String(err)}`, start, offset);
+      }
+      return { token: { type: 'regex', text: source, flags, pos: start }, next: end };
+    } else {
+      source += input[i];
+    }
+  }
+  throw filterError('unterminated regular expression', start, offset);
+}
+
+function tokenize(input: string, offset: number): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const c = input[i];
+    if (/\s/.test(c)) {
+      i++;
+    } else if (c === '(' || c === ')') {
+      tokens.push({ type: c, text: c, pos: i++ });
+    } else if (c === '"' || c === '/') {
+      const { token, next } = c === '"' ? readString(input, i, offset) : readRegex(input, i, offset);
+      tokens.push(token);
+      i = next;
+    } else {
+      const op = input.slice(i).match(/^(!=|<=|>=|=|<|>|~)/);
+      if (op) {
+        tokens.push({ type: 'op', text: op[1], pos: i });
+        i += op[1].length;
+      } else {
+        const start = i;
+        while (i < input.length && isWordChar(input, i)) i++;
+        if (i === start) throw filterError(`unexpected character "${c}"`, i, offset);
+        tokens.push({ type: 'word', text: input.slice(start, i), pos: start });
+      }
+    }
+  }
+  tokens.push({ type: 'end', text: '', pos: input.length });
+  return tokens;
+}
+
+function parseDateValue(token: Token): FilterValue | null {
+  const word = token.text.toLowerCase();
+  if (word === 'now') return { type: 'offset', ms: 0 };
+  if (word in RELATIVE_DAYS) return { type: 'relative-day', days: RELATIVE_DAYS[word] };
+  const offset = word.match(/^([+-])(\d+)([hdw])$/);
+  if (offset) {
+    const ms = Number(offset[2]) * UNIT_MS[offset[3]];
+    return { type: 'offset', ms: offset[1] === '-' ? -ms : ms };
+  }
+  const day = word.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (day) {
+    const d = new Date(Number(day[1]), Number(day[2]) - 1, Number(day[3]));
+    if (d.getMonth() === Number(day[2]) - 1 && d.getDate() === Number(day[3])) return { type: 'day', date: word };
+  }
+  return null;
+}
+
+function parseNumberValue(token: Token): FilterValue | null {
+  const match = token.text.toLowerCase().match(/^(\d+(?:\.\d+)?)(m|h)?$/);
+  if (!match) return null;
+  return { type: 'number', value: Number(match[1]) * (match[2] === 'h' ? 60 : 1) };
+}
+
+function parseBooleanValue(token: Token): FilterValue | null {
+  const word = token.text.toLowerCase();
+  if (word === 'true' || word === 'yes') return { type: 'boolean', value: true };
+  if (word === 'false' || word === 'no') return { type: 'boolean', value: false };
+  return null;
+}
+
+const VALUE_HINTS: Record<FieldKind, string> = {
+  text: 'text, a "quoted string", a /regex/ or none',
+  list: 'a tag name, a "quoted string", a /regex/ or none',
+  date: 'a date (today, tomorrow, yesterday, now, +3d, -2w, +4h, 2026-10-20) or none',
+  number: 'a number of minutes (30, 30m, 1.5h) or none',
+  boolean: 'true or false',
+};
+
+/** Parsers for kinds whose values are bare words (dates, minutes, booleans). */
+const WORD_VALUE_PARSERS: Record<'date' | 'number' | 'boolean', (token: Token) => FilterValue | null> = {
+  date: parseDateValue,
+  number: parseNumberValue,
+  boolean: parseBooleanValue,
+};
+
+/** Recursive-descent parser over the token list. */
+class FilterParser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[], private readonly offset: number) {}
+
+  parse(): TaskFilter {
+    if (this.peek().type === 'end') throw this.error('expected a filter expression', this.peek());
+    const filter = this.parseOr();
+    const rest = this.peek();
+    if (rest.type !== 'end') {
+      throw this.error(`unexpected ${describeToken(rest)}; expected "and", "or" or end of line`, rest);
+    }
+    return filter;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token.type === 'word' && token.text.toLowerCase() === keyword;
+  }
+
+  private error(message: string, token: Token): Error {
+    return filterError(message, token.pos, this.offset);
+  }
+
+  private parseOr(): TaskFilter {
+    const args = [this.parseAnd()];
+    while (this.isKeyword('or')) {
+      this.next();
+      args.push(this.parseAnd());
+    }
+    return args.length === 1 ? args[0] : { op: 'or', args };
+  }
+
+  private parseAnd(): TaskFilter {
+    const args = [this.parseUnary()];
+    while (this.isKeyword('and')) {
+      this.next();
+      args.push(this.parseUnary());
+    }
+    return args.length === 1 ? args[0] : { op: 'and', args };
+  }
+
+  private parseUnary(): TaskFilter {
+    if (this.isKeyword('not')) {
+      this.next();
+      return { op: 'not', arg: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): TaskFilter {
+    const token = this.next();
+    if (token.type === '(') {
+      const inner = this.parseOr();
+      const close = this.next();
+      if (close.type !== ')') throw this.error(`expected ")" to close "(" at column ${token.pos + this.offset + 1}`, close);
+      return inner;
+    }
+    if (token.type !== 'word') {
+      throw this.error(`expected a field name, "not" or "(" but found ${describeToken(token)}`, token);
+    }
+    return this.parseComparison(token);
+  }
+
+  private parseField(token: Token): FilterField {
+    const name = token.text.toLowerCase();
+    const field = (name in FIELD_KINDS ? name : FIELD_ALIASES[name]) as FilterField | undefined;
+    if (!field) {
+      throw this.error(`unknown field "${token.text}". Fields: ${Object.keys(FIELD_KINDS).join(', ')}`, token);
+    }
+    return field;
+  }
+
+  private parseComparison(fieldToken: Token): TaskFilter {
+    const field = this.parseField(fieldToken);
+    const kind = FIELD_KINDS[field];
+    const opToken = this.peek();
+    if (opToken.type !== 'op') {
+      if (kind === 'boolean') return { op: 'compare', field, cmp: '=', value: { type: 'boolean', value: true } };
+      throw this.error(`expected an operator after "${fieldToken.text}" but found ${describeToken(opToken)}`, opToken);
+    }
+    this.next();
+    const cmp = opToken.text as FilterComparator;
+    if (!COMPARATORS_BY_KIND[kind].includes(cmp)) {
+      throw this.error(
+        `"${cmp}" cannot be used with ${field}; use ${COMPARATORS_BY_KIND[kind].map((c) => `"${c}"`).join(', ')}`,
+        opToken,
+      );
+    }
+    const valueToken = this.next();
+    if (valueToken.type === 'end') throw this.error(`expected a value after "${cmp}"`, valueToken);
+    return { op: 'compare', field, cmp, value: this.parseValue(field, kind, cmp, valueToken) };
+  }
+
+  private parseValue(field: FilterField, kind: FieldKind, cmp: FilterComparator, token: Token): FilterValue {
+    if (token.type === 'word' && token.text.toLowerCase() === 'none' && kind !== 'boolean') {
+      if (cmp !== '=' && cmp !== '!=') throw this.error(`"none" can only be compared with "=" or "!="`, token);
+      return { type: 'none' };
+    }
+    const value = this.parseTypedValue(kind, cmp, token);
+    if (!value) throw this.error(`expected ${VALUE_HINTS[kind]} for ${field} but found ${describeToken(token)}`, token);
+    if (field === 'status' && value.type === 'string' && cmp !== '~') {
+      const status = value.value.toLowerCase();
+      if (!(TASK_STATUSES as readonly string[]).includes(status)) {
+        throw this.error(`unknown status "${value.value}". Statuses: ${TASK_STATUSES.join(', ')}`, token);
+      }
+      return { type: 'string', value: status };
+    }
+    return value;
+  }
+
+  private parseTypedValue(kind: FieldKind, cmp: FilterComparator, token: Token): FilterValue | null {
+    if (token.type === 'regex') {
+      if (cmp !== '~') throw this.error(`regular expressions need "~", not "${cmp}"`, token);
+      return kind === 'text' || kind === 'list' ? { type: 'regex', source: token.text, flags: token.flags ?? '' } : null;
+    }
+    if (token.type !== 'word' && token.type !== 'string') return null;
+    if (kind === 'text' || kind === 'list') return { type: 'string', value: token.text };
+    return token.type === 'word' ? WORD_VALUE_PARSERS[kind](token) : null;
+  }
+}
+
+/**
+ * Parse a `where:` expression.
+ *
+ * @param input - The expression (text after `where:`).
+ * @param offset - Column of the expression within its line, so errors point
+ *   at the right place in the block.
+ * @throws With "Invalid filter at column N: …" for syntax and type errors.
+ */
+export function parseFilter(input: string, offset = 0): TaskFilter {
+  return new FilterParser(tokenize(input, offset), offset).parse();
+}
+
+/** Filter for a `search:` line: case-insensitive substring of name or note. */
+export function searchFilter(text: string): TaskFilter {
+  return { op: 'compare', field: 'text', cmp: '~', value: { type: 'string', value: text } };
+}
+
+/** Combine filters with `and`; undefined when there are none. */
+export function combineFilters(filters: TaskFilter[]): TaskFilter | undefined {
+  if (filters.length === 0) return undefined;
+  return filters.length === 1 ? filters[0] : { op: 'and', args: filters };
+}
+
+/** Fields a filter compares, each listed once in first-use order. */
+export function filterFields(filter: TaskFilter): FilterField[] {
+  const fields: FilterField[] = [];
+  const visit = (node: TaskFilter): void => {
+    if (node.op === 'compare') {
+      if (fields.indexOf(node.field) === -1) fields.push(node.field);
+    } else if (node.op === 'not') {
+      visit(node.arg);
+    } else {
+      node.args.forEach(visit);
+    }
+  };
+  visit(filter);
+  return fields;
+}
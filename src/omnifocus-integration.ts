@@ -2,24 +2,73 @@
  * OmniFocus Obsidian integration.
  *
  * Registers the omnifocus code block processor, command, ribbon icon,
- * and auto-sync interval.
+ * auto-refresh interval, and autocompletion inside omnifocus blocks.
  */
 
 import { html, render } from 'lit';
+import { MarkdownRenderChild, Notice } from 'obsidian';
 import { parseBlockConfig } from './omnifocus';
+import type { BlockConfig } from './omnifocus';
 import { createOmnifocusBlock } from './omnifocus-block';
+import { OmniFocusBlockSuggest } from './omnifocus-block-suggest';
 import type { OmnifocusPluginContext } from './omnifocus-block';
+import { AUTO_REFRESH_TICK_MS, createAutoRefresh } from './omnifocus-auto-refresh';
+import { describeQueuedChange } from './omnifocus-offline';
+import { omnifocusTaskStore } from './omnifocus-task-store';
+import { omnifocusUndoStack } from './omnifocus-undo';
+import { undoLastOmniFocusChange } from './undo-notice';
 
 export type { OmnifocusPluginContext } from './omnifocus-block';
 
+/** Poll visible blocks on the configured interval and when Obsidian regains focus. */
+function registerAutoRefresh(plugin: OmnifocusPluginContext): void {
+  const autoRefresh = createAutoRefresh({
+    getIntervalMinutes: () => plugin.settings.autoRefreshMinutes,
+    refresh: () => void omnifocusTaskStore.poll(),
+  });
+  plugin.registerInterval(window.setInterval(() => autoRefresh.tick(), AUTO_REFRESH_TICK_MS));
+  plugin.registerDomEvent(window, 'focus', () => {
+    if (plugin.settings.refreshOnFocus) autoRefresh.refreshNow();
+  });
+}
+
+/** Let blocks fall back to cached tasks, and refresh them once queued changes were sent. */
+function registerOfflineCache(plugin: OmnifocusPluginContext): void {
+  omnifocusTaskStore.useOfflineCache(plugin.offlineCache);
+  plugin.register(() => omnifocusTaskStore.useOfflineCache(null));
+  plugin.register(
+    plugin.offlineCache.onReplayed(({ sent, dropped }) => {
+      if (sent > 0) new Notice(`Sent ${sent} queued OmniFocus change${sent === 1 ? '' : 's'}.`);
+      for (const { change, error } of dropped) {
+        new Notice(`OmniFocus rejected a queued change, which was removed: ${describeQueuedChange(change)} (${error})`, 0);
+      }
+      void omnifocusTaskStore.refreshAll();
+    }),
+  );
+}
+
 /**
- * Register OmniFocus integration: code block processor for omnifocus blocks.
+ * Register OmniFocus integration: code block processor for omnifocus blocks,
+ * the editor autocompletion for their bodies and the undo command. Blocks
+ * share their tasks through the task store, which is refreshed after undos,
+ * on the auto-refresh interval and when the window regains focus, and falls
+ * back to the offline cache when OmniFocus is unavailable.
  */
 export function registerOmniFocusIntegration(plugin: OmnifocusPluginContext): void {
-  plugin.registerMarkdownCodeBlockProcessor('omnifocus', (source, el) => {
+  plugin.registerEditorSuggest(new OmniFocusBlockSuggest(plugin.app));
+  plugin.addCommand({
+    id: 'undo-last-omnifocus-change',
+    name: 'Undo last OmniFocus change',
+    callback: () => void undoLastOmniFocusChange(),
+  });
+  // An undo can change what any block shows.
+  plugin.register(omnifocusUndoStack.onUndo(() => void omnifocusTaskStore.refreshAll()));
+  registerAutoRefresh(plugin);
+  registerOfflineCache(plugin);
+  plugin.registerMarkdownCodeBlockProcessor('omnifocus', (source, el, ctx) => {
     const container = el.createDiv({ cls: 'omnifocus-container' });
 
-    let config: { source: import('./omnifocus').TaskSource; showCompleted: boolean } | null;
+    let config: BlockConfig | null;
     try {
       config = parseBlockConfig(source);
     } catch (err) {
@@ -37,8 +86,17 @@ export function registerOmniFocusIntegration(plugin: OmnifocusPluginContext): vo
               <li>inbox</li>
               <li>project: &lt;name&gt;</li>
               <li>tag: &lt;name&gt;</li>
+              <li>folder: &lt;name&gt;</li>
+              <li>flagged</li>
+              <li>due: today | overdue | soon</li>
+              <li>forecast</li>
+              <li>perspective: &lt;name&gt;</li>
             </ul>
             <p>Add "showCompleted" on a second line to include completed tasks.</p>
+            <p>Add "flat" to list subtasks without nesting them under their action groups.</p>
+            <p>Filter with "where: tag = @Office and due &lt; +3d and not flagged", "search: invoice" or "where: text ~ /regex/".</p>
+            <p>Or write the options as YAML, e.g. "source: inbox", "showCompleted: true", "sort: due".</p>
+            <p>Order and page with "sort: due|defer|name|added|flagged", "group: project|tag|folder|due-bucket" and "limit: 10".</p>
           </div>
         `,
         container,
@@ -47,6 +105,10 @@ export function registerOmniFocusIntegration(plugin: OmnifocusPluginContext): vo
     }
 
     const block = createOmnifocusBlock(container, config, plugin);
+    // Stop receiving store updates when the block leaves the rendered note.
+    const child = new MarkdownRenderChild(container);
+    child.register(block.unload);
+    ctx.addChild(child);
     block.doFetch();
   });
 }
@@ -0,0 +1,94 @@
+/**
+ * Omni Automation helper that lists the tasks of a custom perspective for
+ * `OMNI_FETCH_TASKS` (see omnifocus-jxa-scripts.ts).
+ */
+
+/**
+ * Tasks a custom perspective shows, worked out from its filter rules
+ * (`archivedFilterRules`, OmniFocus 4.2 and later) so no window changes.
+ * Rules the plugin cannot evaluate raise an error naming the rule.
+ */
+export const PERSPECTIVE_HELPERS = `
+      const perspectiveTasks = (name) => {
+        const perspective = Perspective.Custom.byName(name);
+        if (!perspective) throw new Error('No perspective named "' + name + '"');
+        const rules = perspective.archivedFilterRules;
+        if (!rules) throw new Error('Reading perspective "' + name + '" needs OmniFocus 4.2 or later');
+        const S = Task.Status;
+        const dayOffset = (d, days) => {
+          if (!d) return false;
+          const start = new Date();
+          start.setHours(0, 0, 0, 0);
+          start.setDate(start.getDate() + days);
+          const end = new Date(start.getTime());
+          end.setDate(end.getDate() + 1);
+          return d >= start && d < end;
+        };
+        const dateOf = (t, field) => {
+          switch (field) {
+            case 'due': return t.effectiveDueDate || t.dueDate;
+            case 'defer': return t.effectiveDeferDate || t.deferDate;
+            case 'completed': return t.completionDate;
+            case 'added': return t.added;
+            case 'changed': return t.modified;
+            default: throw new Error('Perspective "' + name + '" uses an unsupported date field: ' + field);
+          }
+        };
+        const availability = (t, value) => {
+          switch (value) {
+            case 'remaining': return t.taskStatus !== S.Completed && t.taskStatus !== S.Dropped;
+            case 'available': return [S.Available, S.Next, S.DueSoon, S.Overdue].includes(t.taskStatus);
+            case 'firstAvailable': return t.taskStatus === S.Next;
+            case 'completed': return t.taskStatus === S.Completed;
+            case 'dropped': return t.taskStatus === S.Dropped;
+            case 'all': return true;
+            default: throw new Error('Perspective "' + name + '" uses an unsupported availability: ' + value);
+          }
+        };
+        const inFocus = (t, ids) => {
+          const project = t.containingProject;
+          if (project && ids.includes(project.id.primaryKey)) return true;
+          for (let f = project ? project.parentFolder : null; f; f = f.parent) if (ids.includes(f.id.primaryKey)) return true;
+          return false;
+        };
+        const tagIds = (t) => t.tags.map((g) => g.id.primaryKey);
+        const matches = (rule, t) => {
+          if (rule.disabledRule) return true;
+          if (rule.aggregateType) return aggregate(rule.aggregateType, rule.aggregateRules || [], t);
+          if (rule.actionDateField) {
+            const d = dateOf(t, rule.actionDateField);
+            if (rule.actionDateIsToday) return dayOffset(d, 0);
+            if (rule.actionDateIsYesterday) return dayOffset(d, -1);
+            if (rule.actionDateIsTomorrow) return dayOffset(d, 1);
+            throw new Error('Perspective "' + name + '" uses an unsupported date rule');
+          }
+          const key = Object.keys(rule)[0];
+          const value = rule[key];
+          switch (key) {
+            case 'actionAvailability': return availability(t, value);
+            case 'actionStatus': return value === 'flagged' ? t.flagged : t.taskStatus === S.Overdue || t.taskStatus === S.DueSoon;
+            case 'actionHasAnyOfTags': return tagIds(t).some((id) => value.includes(id));
+            case 'actionHasAllOfTags': return value.every((id) => tagIds(t).includes(id));
+            case 'actionIsUntagged': return (t.tags.length === 0) === value;
+            case 'actionWithinFocus': return inFocus(t, value);
+            case 'actionHasNoProject': return !t.containingProject === value;
+            case 'actionIsLeaf': return !t.hasChildren === value;
+            case 'actionIsProjectOrGroup': return t.hasChildren === value;
+            case 'actionHasDueDate': return !!t.dueDate === value;
+            case 'actionHasDeferDate': return !!t.deferDate === value;
+            case 'actionRepeats': return !!t.repetitionRule === value;
+            case 'actionMatchingSearch': {
+              const text = (t.name + ' ' + (t.note || '')).toLowerCase();
+              return value.every((term) => text.includes(String(term).toLowerCase()));
+            }
+            default: throw new Error('Perspective "' + name + '" uses a filter rule the plugin cannot read: ' + key);
+          }
+        };
+        const aggregate = (type, list, t) => {
+          if (type === 'any') return list.some((rule) => matches(rule, t));
+          if (type === 'none') return !list.some((rule) => matches(rule, t));
+          return list.every((rule) => matches(rule, t));
+        };
+        const top = perspective.archivedTopLevelFilterAggregation || 'all';
+        return flattenedTasks.filter((t) => aggregate(top, rules, t));
+      };`;
@@ -0,0 +1,320 @@
+import {
+  buildOmniScript,
+  OMNI_FETCH_PROJECT_PATHS_WITH_NOTES,
+  OMNI_FETCH_TASKS,
+  OMNI_FETCH_TASKS_BY_ID,
+  OMNI_CREATE_TASK,
+  OMNI_SET_TASK_DATE,
+  OMNI_SET_TASK_FLAGGED,
+  OMNI_FETCH_PROJECT_REVIEWS,
+  OMNI_MARK_PROJECT_REVIEWED,
+  OMNI_SET_PROJECT_STATUS,
+  OMNI_UPDATE_PROJECT_NOTE,
+} from './omnifocus-jxa-scripts';
+import type { OmniFocusTask } from './omnifocus';
+import { FILTER_CASES, FILTER_NOW, FILTER_SAMPLE_TASKS } from './__fixtures__/filter-cases';
+import { parseFilter } from './omnifocus-filter';
+
+/** Evaluate an Omni Automation script with the given globals standing in for OmniFocus. */
+function evaluate(script: string, globals: Record<string, unknown> = {}): unknown {
+  const fn = new Function(...Object.keys(globals), `return ${script};`);
+  return JSON.parse(fn(...Object.values(globals)) as string);
+}
+
+describe('buildOmniScript', () => {
+  it('embeds args as a JSON literal and wraps the result', () => {
+    const script = buildOmniScript('\nreturn args.name + "!";', { name: 'quote " and \\n and \x1f' });
+    expect(evaluate(script)).toEqual({ result: 'quote " and \\n and \x1f!' });
+  });
+
+  it('reports thrown errors in an error envelope', () => {
+    expect(evaluate(buildOmniScript('\nthrow new Error("boom");'))).toEqual({ error: 'boom' });
+  });
+
+  it('maps undefined results to null', () => {
+    expect(evaluate(buildOmniScript('\nreturn;'))).toEqual({ result: null });
+  });
+});
+
+describe('OMNI_FETCH_PROJECT_PATHS_WITH_NOTES', () => {
+  it('walks folders before top-level projects', () => {
+    const folders = [
+      {
+        name: 'Work',
+        folders: [{ name: 'Clients', folders: [], projects: [{ id: { primaryKey: 'p1' }, name: 'Site', note: 'n', status: 'A' }] }],
+        projects: [{ id: { primaryKey: 'p2' }, name: 'Hiring', note: null, status: 'H' }],
+      },
+    ];
+    const projects = [{ id: { primaryKey: 'p3' }, name: 'Garden', note: '', status: 'D' }];
+    const Project = { Status: { Active: 'A', OnHold: 'H', Done: 'D', Dropped: 'X' } };
+    expect(evaluate(buildOmniScript(OMNI_FETCH_PROJECT_PATHS_WITH_NOTES), { folders, projects, Project })).toEqual({
+      result: [
+        { path: 'Work/Clients/Site', note: 'n', id: 'p1', status: 'active' },
+        { path: 'Work/Hiring', note: '', id: 'p2', status: 'on-hold' },
+        { path: 'Garden', note: '', id: 'p3', status: 'completed' },
+      ],
+    });
+  });
+});
+
+/** Stand-in for Omni Automation's Task class (status constants only). */
+const Task = { Status: { Available: 'a', Completed: 'c', Dropped: 'd', Overdue: 'o', DueSoon: 's' } };
+
+/** Minimal stand-in for an Omni Automation Task. */
+function fakeTask(id: string, parent: unknown, project: unknown): Record<string, unknown> {
+  return {
+    id: { primaryKey: id },
+    name: id,
+    note: null,
+    completed: false,
+    dueDate: null,
+    deferDate: null,
+    flagged: false,
+    estimatedMinutes: undefined,
+    tags: [],
+    containingProject: project,
+    parent,
+    added: null,
+    modified: null,
+    completionDate: null,
+    taskStatus: Task.Status.Available,
+  };
+}
+
+describe('OMNI_FETCH_TASKS', () => {
+  it('reports action groups as parents and the project root as none', () => {
+    const root = { id: { primaryKey: 'proj' } };
+    const project: Record<string, unknown> = { name: 'Site', parentFolder: null, task: root };
+    const group = fakeTask('group', root, project);
+    const child = fakeTask('child', group, project);
+    project.flattenedTasks = [group, child];
+    const result = evaluate(buildOmniScript(OMNI_FETCH_TASKS, { source: { kind: 'project', name: 'Site' } }), {
+      Task,
+      flattenedProjects: [project],
+    }) as { result: { id: string; parentId: string | null }[] };
+    expect(result.result.map((t) => [t.id, t.parentId])).toEqual([
+      ['group', null],
+      ['child', 'group'],
+    ]);
+  });
+
+  const fetchIds = (source: unknown, globals: Record<string, unknown>): string[] =>
+    (evaluate(buildOmniScript(OMNI_FETCH_TASKS, { source }), { Task, ...globals }) as { result: { id: string }[] })
+      .result.map((t) => t.id);
+
+  it('fetches tasks of every project in a folder', () => {
+    const site: Record<string, unknown> = { name: 'Site', parentFolder: null, task: null };
+    const hiring: Record<string, unknown> = { name: 'Hiring', parentFolder: null, task: null };
+    site.flattenedTasks = [fakeTask('s1', null, site)];
+    hiring.flattenedTasks = [fakeTask('h1', null, hiring), fakeTask('h2', null, hiring)];
+    const work = { name: 'Work', flattenedProjects: [site, hiring] };
+    expect(fetchIds({ kind: 'folder', name: 'Work' }, { flattenedFolders: [work] })).toEqual(['s1', 'h1', 'h2']);
+  });
+
+  it('fetches flagged, overdue, due-soon and due-today tasks', () => {
+    const flagged = { ...fakeTask('flagged', null, null), flagged: true };
+    const overdue = { ...fakeTask('overdue', null, null), taskStatus: Task.Status.Overdue };
+    const soon = { ...fakeTask('soon', null, null), taskStatus: Task.Status.DueSoon };
+    const today = new Date();
+    today.setHours(23, 59, 0, 0);
+    const dueToday = { ...fakeTask('today', null, null), dueDate: today };
+    const flattenedTasks = [flagged, overdue, soon, dueToday];
+    expect(fetchIds({ kind: 'flagged' }, { flattenedTasks })).toEqual(['flagged']);
+    expect(fetchIds({ kind: 'due', when: 'overdue' }, { flattenedTasks })).toEqual(['overdue']);
+    expect(fetchIds({ kind: 'due', when: 'soon' }, { flattenedTasks })).toEqual(['soon']);
+    expect(fetchIds({ kind: 'due', when: 'today' }, { flattenedTasks })).toEqual(['today']);
+    expect(fetchIds({ kind: 'forecast' }, { flattenedTasks })).toEqual(['overdue', 'today']);
+  });
+
+  it('reports no parent for top-level inbox tasks', () => {
+    const inboxTask = { ...fakeTask('inboxed', null, null), inInbox: true };
+    const result = evaluate(buildOmniScript(OMNI_FETCH_TASKS, { source: { kind: 'inbox' } }), {
+      Task,
+      flattenedTasks: [inboxTask],
+    }) as { result: { parentId: string | null }[] };
+    expect(result.result[0].parentId).toBeNull();
+  });
+});
+
+describe('OMNI_FETCH_TASKS - dropped tasks', () => {
+  it('leaves out dropped tasks unless completed tasks are included', () => {
+    const open = { ...fakeTask('open', null, null), inInbox: true };
+    const dropped = { ...fakeTask('dropped', null, null), inInbox: true, taskStatus: Task.Status.Dropped };
+    const fetch = (includeCompleted: boolean) =>
+      (evaluate(buildOmniScript(OMNI_FETCH_TASKS, { source: { kind: 'inbox' }, includeCompleted }), {
+        Task,
+        flattenedTasks: [open, dropped],
+      }) as { result: { id: string }[] }).result.map((t) => t.id);
+    expect(fetch(false)).toEqual(['open']);
+    expect(fetch(true)).toEqual(['open', 'dropped']);
+  });
+});
+
+/** Omni Automation stand-in for a decoded task, for evaluating filters inside the script. */
+function omniTaskOf(task: OmniFocusTask): Record<string, unknown> {
+  const date = (iso: string | null | undefined) => (iso ? new Date(iso) : null);
+  const folders = (task.folderPath ?? '').split('/').filter(Boolean);
+  const parentFolder = folders.reduce<unknown>((parent, name) => ({ name, parent }), null);
+  const statuses: Record<string, string> = { 'due-soon': 's', overdue: 'o', completed: 'c' };
+  return {
+    ...fakeTask(task.id, null, task.projectName ? { name: task.projectName, parentFolder } : null),
+    name: task.name,
+    note: task.note,
+    completed: task.completed,
+    dueDate: date(task.dueDate),
+    deferDate: date(task.deferDate),
+    flagged: task.flagged,
+    estimatedMinutes: task.estimatedMinutes,
+    tags: (task.tags ?? []).map((name) => ({ name })),
+    taskStatus: statuses[task.status ?? ''] ?? Task.Status.Available,
+    inInbox: true,
+  };
+}
+
+describe('OMNI_FETCH_TASKS filters', () => {
+  beforeAll(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(FILTER_NOW);
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  it.each(FILTER_CASES)('matches the TypeScript evaluator for %s', (expression, ids) => {
+    const args = { source: { kind: 'inbox' }, includeCompleted: true, filter: parseFilter(expression) };
+    const result = evaluate(buildOmniScript(OMNI_FETCH_TASKS, args), {
+      Task,
+      flattenedTasks: FILTER_SAMPLE_TASKS.map(omniTaskOf),
+    }) as { result: { id: string }[] };
+    expect(result.result.map((t) => t.id)).toEqual(ids);
+  });
+});
+
+describe('OMNI_FETCH_TASKS_BY_ID', () => {
+  it('returns known tasks in the order asked, completed ones included', () => {
+    const tasks: Record<string, Record<string, unknown>> = {
+      a: fakeTask('a', null, null),
+      b: { ...fakeTask('b', null, null), completed: true, taskStatus: Task.Status.Completed },
+    };
+    const byIdentifier = (id: string) => tasks[id] ?? null;
+    const result = evaluate(buildOmniScript(OMNI_FETCH_TASKS_BY_ID, { ids: ['b', 'gone', 'a'] }), {
+      Task: { ...Task, byIdentifier },
+    }) as { result: { id: string; completed: boolean }[] };
+    expect(result.result.map((t) => [t.id, t.completed])).toEqual([['b', true], ['a', false]]);
+  });
+});
+
+describe('OMNI_CREATE_TASK', () => {
+  it('rejects sources that cannot hold new tasks', () => {
+    expect(evaluate(buildOmniScript(OMNI_CREATE_TASK, { source: { kind: 'forecast' }, name: 'x', note: '' }))).toEqual({
+      error: 'Cannot add tasks to a forecast block',
+    });
+  });
+});
+
+describe('OMNI_SET_TASK_DATE and OMNI_SET_TASK_FLAGGED', () => {
+  it('sets and clears dates and the flag of the task with the id', () => {
+    const task: Record<string, unknown> = { dueDate: new Date(0), deferDate: null, flagged: false };
+    const Task = { byIdentifier: (id: string) => (id === 'a' ? task : null) };
+    evaluate(buildOmniScript(OMNI_SET_TASK_DATE, { id: 'a', field: 'defer', date: '2026-10-23T15:00:00.000Z' }), { Task });
+    evaluate(buildOmniScript(OMNI_SET_TASK_DATE, { id: 'a', field: 'due', date: null }), { Task });
+    evaluate(buildOmniScript(OMNI_SET_TASK_FLAGGED, { id: 'a', flagged: true }), { Task });
+    expect(task).toEqual({ dueDate: null, deferDate: new Date('2026-10-23T15:00:00.000Z'), flagged: true });
+    expect(evaluate(buildOmniScript(OMNI_SET_TASK_FLAGGED, { id: 'zzz', flagged: true }), { Task })).toEqual({
+      error: 'No task with id "zzz"',
+    });
+  });
+});
+
+describe('project review scripts', () => {
+  /** Stand-in for Omni Automation's Project class (status constants only). */
+  const Project = { Status: { Active: 'A', OnHold: 'H', Done: 'D', Dropped: 'X' } };
+  const fakeProject = (name: string, fields: Record<string, unknown> = {}): Record<string, unknown> => ({
+    id: { primaryKey: `id-${name}` },
+    name,
+    status: Project.Status.Active,
+    lastReviewDate: null,
+    nextReviewDate: null,
+    reviewInterval: { steps: 1, unit: 'weeks' },
+    ...fields,
+  });
+  /** The Project stand-in with `byIdentifier` over the given projects. */
+  const withProjects = (projects: Record<string, unknown>[]) => ({
+    ...Project,
+    byIdentifier: (id: string) => projects.find((p) => (p.id as { primaryKey: string }).primaryKey === id) ?? null,
+  });
+
+  it('reports paths, statuses and review dates', () => {
+    const site = fakeProject('Site', { status: Project.Status.OnHold, nextReviewDate: new Date('2026-10-19T09:00:00Z') });
+    const folders = [{ name: 'Work', folders: [], projects: [site] }];
+    const projects = [fakeProject('Garden', { status: Project.Status.Done })];
+    expect(evaluate(buildOmniScript(OMNI_FETCH_PROJECT_REVIEWS), { Project, folders, projects })).toEqual({
+      result: [
+        { id: 'id-Site', name: 'Site', path: 'Work/Site', status: 'on-hold', lastReviewDate: null, nextReviewDate: '2026-10-19T09:00:00.000Z' },
+        { id: 'id-Garden', name: 'Garden', path: 'Garden', status: 'completed', lastReviewDate: null, nextReviewDate: null },
+      ],
+    });
+  });
+
+  it('marks a project reviewed and schedules the next review by its interval', () => {
+    const project = fakeProject('Site', { reviewInterval: { steps: 2, unit: 'months' } });
+    evaluate(buildOmniScript(OMNI_MARK_PROJECT_REVIEWED, { id: 'id-Site' }), { Project: withProjects([project]) });
+    const last = project.lastReviewDate as Date;
+    const next = project.nextReviewDate as Date;
+    expect(next.getMonth()).toBe((last.getMonth() + 2) % 12);
+  });
+
+  it('sets the status of the project with the id', () => {
+    const project = fakeProject('Site');
+    evaluate(buildOmniScript(OMNI_SET_PROJECT_STATUS, { id: 'id-Site', status: 'dropped' }), { Project: withProjects([project]) });
+    expect(project.status).toBe(Project.Status.Dropped);
+    expect(evaluate(buildOmniScript(OMNI_SET_PROJECT_STATUS, { id: 'nope', status: 'active' }), { Project: withProjects([]) })).toEqual({
+      error: 'No project with id "nope"',
+    });
+  });
+
+  it('writes the note of the project with the id, not another one with the same name', () => {
+    const home = fakeProject('Garden', { id: { primaryKey: 'pHome' }, note: 'Herbs' });
+    const work = fakeProject('Garden', { id: { primaryKey: 'pWork' }, note: 'Lawn' });
+    evaluate(buildOmniScript(OMNI_UPDATE_PROJECT_NOTE, { id: 'pWork', note: 'Hedges' }), { Project: withProjects([home, work]) });
+    expect([home.note, work.note]).toEqual(['Herbs', 'Hedges']);
+  });
+});
+
+describe('OMNI_FETCH_TASKS perspectives', () => {
+  const work = { id: { primaryKey: 'fWork' }, parent: null };
+  const site = { id: { primaryKey: 'pSite' }, name: 'Site', parentFolder: work };
+  const office = { id: { primaryKey: 'gOffice' }, name: 'Office' };
+  const tasks = [
+    { ...fakeTask('office', null, site), tags: [office] },
+    { ...fakeTask('flagged', null, site), flagged: true },
+    { ...fakeTask('inbox', null, null), flagged: true },
+  ];
+  const perspective = (fields: Record<string, unknown>) => ({
+    Task,
+    flattenedTasks: tasks,
+    Perspective: { Custom: { byName: (name: string) => (name === 'Focus' ? fields : null) } },
+  });
+  const fetch = (fields: Record<string, unknown>) =>
+    evaluate(buildOmniScript(OMNI_FETCH_TASKS, { source: { kind: 'perspective', name: 'Focus' } }), perspective(fields));
+
+  it('evaluates the filter rules without a window', () => {
+    const rules = [
+      { actionWithinFocus: ['fWork'] },
+      { aggregateType: 'any', aggregateRules: [{ actionHasAnyOfTags: ['gOffice'] }, { actionStatus: 'flagged' }] },
+      { disabledRule: { actionHasDueDate: true } },
+    ];
+    expect(fetch({ archivedFilterRules: rules })).toMatchObject({ result: [{ id: 'office' }, { id: 'flagged' }] });
+    expect(fetch({ archivedFilterRules: [{ actionStatus: 'flagged' }], archivedTopLevelFilterAggregation: 'none' })).toMatchObject({
+      result: [{ id: 'office' }],
+    });
+  });
+
+  it('reports rules it cannot evaluate and OmniFocus versions without rules', () => {
+    expect(fetch({ archivedFilterRules: [{ actionHasDuration: 15 }] })).toEqual({
+      error: 'Perspective "Focus" uses a filter rule the plugin cannot read: actionHasDuration',
+    });
+    expect(fetch({ archivedFilterRules: null })).toEqual({ error: 'Reading perspective "Focus" needs OmniFocus 4.2 or later' });
+  });
+});
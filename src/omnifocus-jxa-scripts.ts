@@ -0,0 +1,440 @@
+/**
+ * Omni Automation (JavaScript) source strings for the JXA transport.
+ * Used by omnifocus-jxa.ts; each body runs inside OmniFocus via
+ * `evaluateJavascript`, reads its parameters from `args` and returns a
+ * JSON-serializable value.
+ */
+
+import { PERSPECTIVE_HELPERS } from './omnifocus-jxa-perspective';
+
+/**
+ * JXA entry point passed to `osascript -l JavaScript`. Evaluates the Omni
+ * Automation script given as the first argument inside OmniFocus and returns
+ * its (JSON string) result on stdout.
+ */
+export const JXA_EVALUATE = `
+function run(argv) {
+  const app = Application('OmniFocus');
+  return app.evaluateJavascript(argv[0]);
+}
+`;
+
+/**
+ * Wrap an Omni Automation body so it receives `args` and always returns a
+ * JSON envelope: `{"result": ...}` on success, `{"error": "..."}` on failure.
+ * Args are embedded as a JSON literal, so no quoting or escaping is needed.
+ */
+export function buildOmniScript(body: string, args: unknown = {}): string {
+  return `(() => {
+  const args = ${JSON.stringify(args)};
+  try {
+    const result = (() => {${body}
+    })();
+    return JSON.stringify({ result: result === undefined ? null : result });
+  } catch (e) {
+    return JSON.stringify({ error: String(e && e.message ? e.message : e) });
+  }
+})()`;
+}
+
+/** Shared helpers prepended to scripts that look things up or return tasks. */
+const HELPERS = `
+      const iso = (d) => (d ? d.toISOString() : null);
+      const folderPathOf = (project) => {
+        const parts = [];
+        for (let f = project ? project.parentFolder : null; f; f = f.parent) parts.unshift(f.name);
+        return parts.length > 0 ? parts.join('/') : null;
+      };
+      const statusOf = (t) => {
+        const S = Task.Status;
+        if (t.taskStatus === S.Completed) return 'completed';
+        if (t.taskStatus === S.Dropped) return 'dropped';
+        if (t.taskStatus === S.Blocked) return 'blocked';
+        if (t.taskStatus === S.Overdue) return 'overdue';
+        if (t.taskStatus === S.DueSoon) return 'due-soon';
+        if (t.taskStatus === S.Next) return 'next';
+        return 'available';
+      };
+      // Top-level tasks of a project report the project's root task as parent.
+      const parentIdOf = (t) => {
+        const parent = t.parent;
+        if (!parent) return null;
+        const root = t.containingProject ? t.containingProject.task : null;
+        if (root && root.id.primaryKey === parent.id.primaryKey) return null;
+        return parent.id.primaryKey;
+      };
+      const taskJson = (t) => ({
+        id: t.id.primaryKey,
+        name: t.name,
+        note: t.note || '',
+        completed: t.completed,
+        dueDate: iso(t.dueDate),
+        deferDate: iso(t.deferDate),
+        flagged: t.flagged,
+        estimatedMinutes: t.estimatedMinutes === undefined ? null : t.estimatedMinutes,
+        tags: t.tags.map((g) => g.name),
+        projectName: t.containingProject ? t.containingProject.name : null,
+        folderPath: folderPathOf(t.containingProject),
+        parentId: parentIdOf(t),
+        addedDate: iso(t.added),
+        modifiedDate: iso(t.modified),
+        completionDate: iso(t.completionDate),
+        status: statusOf(t),
+      });
+      const projectNamed = (name) => {
+        const p = flattenedProjects.find((x) => x.name === name);
+        if (!p) throw new Error('No project named "' + name + '"');
+        return p;
+      };
+      const tagNamed = (name) => {
+        const g = flattenedTags.find((x) => x.name === name);
+        if (!g) throw new Error('No tag named "' + name + '"');
+        return g;
+      };
+      const folderNamed = (name) => {
+        const f = flattenedFolders.find((x) => x.name === name);
+        if (!f) throw new Error('No folder named "' + name + '"');
+        return f;
+      };
+      const taskWithId = (id) => {
+        const t = Task.byIdentifier(id);
+        if (!t) throw new Error('No task with id "' + id + '"');
+        return t;
+      };
+      const projectWithId = (id) => {
+        const p = Project.byIdentifier(id);
+        if (!p) throw new Error('No project with id "' + id + '"');
+        return p;
+      };`;
+
+/** ProjectStatus of an Omni Automation project. */
+const PROJECT_STATUS_HELPERS = `
+      const S = Project.Status;
+      const projectStatusOf = (p) =>
+        p.status === S.OnHold ? 'on-hold' : p.status === S.Done ? 'completed' : p.status === S.Dropped ? 'dropped' : 'active';`;
+
+export const OMNI_FETCH_PROJECT_PATHS_WITH_NOTES = `${PROJECT_STATUS_HELPERS}
+      const out = [];
+      const add = (p, prefix) => out.push({ path: prefix + p.name, note: p.note || '', id: p.id.primaryKey, status: projectStatusOf(p) });
+      const walk = (folder, prefix) => {
+        folder.folders.forEach((f) => walk(f, prefix + f.name + '/'));
+        folder.projects.forEach((p) => add(p, prefix));
+      };
+      folders.forEach((f) => walk(f, f.name + '/'));
+      projects.forEach((p) => add(p, ''));
+      return out;`;
+
+export const OMNI_FETCH_PROJECT_NAMES = `
+      return flattenedProjects.map((p) => p.name);`;
+
+export const OMNI_FETCH_PROJECTS_WITH_NOTES = `
+      return flattenedProjects.map((p) => ({ name: p.name, note: p.note || '' }));`;
+
+export const OMNI_FETCH_TAG_NAMES = `
+      return flattenedTags.map((g) => g.name);`;
+
+export const OMNI_FETCH_FOLDER_NAMES = `
+      return flattenedFolders.map((f) => f.name);`;
+
+export const OMNI_FETCH_PERSPECTIVE_NAMES = `
+      return Perspective.Custom.all.map((p) => p.name);`;
+
+/**
+ * Tasks for the date-based sources, using OmniFocus's own overdue/due-soon
+ * status (which honours the user's "due soon" preference) and local days.
+ */
+const DATE_SOURCE_HELPERS = `
+      const startOfToday = new Date();
+      startOfToday.setHours(0, 0, 0, 0);
+      const startOfTomorrow = new Date(startOfToday.getTime());
+      startOfTomorrow.setDate(startOfTomorrow.getDate() + 1);
+      const isToday = (d) => !!d && d >= startOfToday && d < startOfTomorrow;
+      const isOverdue = (t) => t.taskStatus === Task.Status.Overdue;
+      const isDueSoon = (t) => t.taskStatus === Task.Status.DueSoon;
+      const forecastTag = typeof Tag !== 'undefined' && Tag.forecastTag ? Tag.forecastTag : null;
+      const inForecast = (t) =>
+        isOverdue(t) || isToday(t.dueDate) || isToday(t.deferDate) ||
+        (forecastTag !== null && t.tags.some((g) => g.id.primaryKey === forecastTag.id.primaryKey));`;
+
+/**
+ * `matchesFilter(filter, task, now)`: evaluates a `TaskFilter` (see
+ * omnifocus-filter.ts) inside OmniFocus so only matching tasks are
+ * serialized. A port of omnifocus-filter-eval.ts; keep the two in step.
+ */
+export const FILTER_HELPERS = `
+      const filterRecordOf = (t) => {
+        const time = (d) => (d ? d.getTime() : null);
+        return {
+          name: t.name,
+          note: t.note || '',
+          project: t.containingProject ? t.containingProject.name : null,
+          folder: folderPathOf(t.containingProject),
+          status: statusOf(t),
+          tags: t.tags.map((g) => g.name),
+          due: time(t.dueDate),
+          defer: time(t.deferDate),
+          added: time(t.added),
+          modified: time(t.modified),
+          completion: time(t.completionDate),
+          estimate: t.estimatedMinutes === undefined || t.estimatedMinutes === null ? null : t.estimatedMinutes,
+          flagged: t.flagged,
+          completed: t.completed,
+        };
+      };
+      const dayStart = (ms, days) => {
+        const d = new Date(ms);
+        return new Date(d.getFullYear(), d.getMonth(), d.getDate() + (days || 0)).getTime();
+      };
+      const dateRange = (v, cmp, now) => {
+        let start;
+        if (v.type === 'day') {
+          const p = v.date.split('-').map(Number);
+          start = new Date(p[0], p[1] - 1, p[2]).getTime();
+        } else if (v.type === 'relative-day') {
+          start = dayStart(now, v.days);
+        } else if (v.type === 'offset') {
+          const at = now + v.ms;
+          if (cmp !== '=' && cmp !== '!=') return { start: at, end: at + 1 };
+          start = dayStart(at);
+        } else {
+          return null;
+        }
+        return { start: start, end: dayStart(start, 1) };
+      };
+      const compareOrdered = (x, cmp, lo, hi) => {
+        if (cmp === '<') return x < lo;
+        if (cmp === '<=') return x < hi;
+        if (cmp === '>') return x >= hi;
+        if (cmp === '>=') return x >= lo;
+        const inside = x >= lo && x < hi;
+        return cmp === '=' ? inside : !inside;
+      };
+      const matchesText = (text, v) =>
+        v.type === 'regex'
+          ? new RegExp(v.source, v.flags).test(text)
+          : v.type === 'string' && text.toLowerCase().includes(v.value.toLowerCase());
+      const equalsText = (text, v) => v.type === 'string' && text.toLowerCase() === v.value.toLowerCase();
+      const compareField = (r, f, now) => {
+        const v = f.value;
+        const cmp = f.cmp;
+        const isEq = cmp === '=';
+        if (f.field === 'tag') {
+          if (v.type === 'none') return (r.tags.length === 0) === isEq;
+          if (cmp === '~') return r.tags.some((g) => matchesText(g, v));
+          return r.tags.some((g) => equalsText(g, v)) === isEq;
+        }
+        if (f.field === 'flagged' || f.field === 'completed') {
+          return v.type === 'boolean' && (r[f.field] === v.value) === isEq;
+        }
+        const x = f.field === 'text' ? r.name + '\\n' + r.note : r[f.field];
+        if (v.type === 'none') return (x === null || x === '') === isEq;
+        if (x === null) return cmp === '!=';
+        if (f.field === 'estimate') {
+          if (v.type !== 'number') return false;
+          const y = v.value;
+          if (cmp === '<') return x < y;
+          if (cmp === '<=') return x <= y;
+          if (cmp === '>') return x > y;
+          if (cmp === '>=') return x >= y;
+          return isEq ? x === y : x !== y;
+        }
+        if (typeof x === 'number') {
+          const range = dateRange(v, cmp, now);
+          return range !== null && compareOrdered(x, cmp, range.start, range.end);
+        }
+        if (cmp === '~') return matchesText(x, v);
+        return equalsText(x, v) === isEq;
+      };
+      const matchesFilter = (f, t, now) => {
+        const r = filterRecordOf(t);
+        const test = (node) => {
+          if (node.op === 'and') return node.args.every(test);
+          if (node.op === 'or') return node.args.some(test);
+          if (node.op === 'not') return !test(node.arg);
+          return compareField(r, node, now);
+        };
+        return test(f);
+      };`;
+
+/**
+ * Args: `{ source: TaskSource, includeCompleted: boolean, filter: TaskFilter | null }`
+ * with names already resolved.
+ */
+export const OMNI_FETCH_TASKS = `${HELPERS}${DATE_SOURCE_HELPERS}${PERSPECTIVE_HELPERS}${FILTER_HELPERS}
+      const source = args.source;
+      const tasksFor = () => {
+        switch (source.kind) {
+          case 'inbox': return flattenedTasks.filter((t) => t.inInbox);
+          case 'project': return projectNamed(source.name).flattenedTasks;
+          case 'tag': return flattenedTasks.filter((t) => t.tags.some((g) => g.name === source.name));
+          case 'folder': return folderNamed(source.name).flattenedProjects.flatMap((p) => p.flattenedTasks);
+          case 'flagged': return flattenedTasks.filter((t) => t.flagged);
+          case 'due':
+            if (source.when === 'today') return flattenedTasks.filter((t) => isToday(t.dueDate));
+            return flattenedTasks.filter(source.when === 'overdue' ? isOverdue : isDueSoon);
+          case 'forecast': return flattenedTasks.filter(inForecast);
+          case 'perspective': return perspectiveTasks(source.name);
+          default: throw new Error('Unknown source kind "' + source.kind + '"');
+        }
+      };
+      const isClosed = (t) => t.completed || t.taskStatus === Task.Status.Dropped;
+      const now = Date.now();
+      return tasksFor()
+        .filter((t) => (args.includeCompleted || !isClosed(t)) && (!args.filter || matchesFilter(args.filter, t, now)))
+        .map(taskJson);`;
+
+/** Args: `{ ids }`. Tasks with these ids, closed ones included; unknown ids are skipped. */
+export const OMNI_FETCH_TASKS_BY_ID = `${HELPERS}
+      return args.ids.map((id) => Task.byIdentifier(id)).filter((t) => t !== null).map(taskJson);`;
+
+/** Args: `{ since, until }` (ISO timestamps). Completed tasks whose completion date falls in [since, until). */
+export const OMNI_FETCH_COMPLETED_TASKS = `${HELPERS}
+      const since = new Date(args.since);
+      const until = new Date(args.until);
+      return flattenedTasks
+        .filter((t) => t.completed && t.completionDate && t.completionDate >= since && t.completionDate < until)
+        .map(taskJson);`;
+
+/**
+ * Args: `{ source, name, note }`. Tag and flagged tasks are created in the
+ * inbox with that tag or the flag; other sources have no place for new tasks.
+ */
+export const OMNI_CREATE_TASK = `${HELPERS}
+      const source = args.source;
+      if (!['inbox', 'project', 'tag', 'flagged'].includes(source.kind)) {
+        throw new Error('Cannot add tasks to a ' + source.kind + ' block');
+      }
+      const position = source.kind === 'project' ? projectNamed(source.name) : inbox.ending;
+      const t = new Task(args.name, position);
+      t.note = args.note;
+      if (source.kind === 'tag') t.addTag(tagNamed(source.name));
+      if (source.kind === 'flagged') t.flagged = true;
+      return t.id.primaryKey;`;
+
+/** Args: `{ id }`. OmniFocus completes the remaining children of an action group with it. */
+export const OMNI_COMPLETE_TASK = `${HELPERS}
+      taskWithId(args.id).markComplete();
+      return true;`;
+
+/** Args: `{ id }`. Reopens a completed or dropped task. */
+export const OMNI_UNCOMPLETE_TASK = `${HELPERS}
+      taskWithId(args.id).markIncomplete();
+      return true;`;
+
+/** Args: `{ id }`. Only this occurrence of a repeating task is dropped. */
+export const OMNI_DROP_TASK = `${HELPERS}
+      taskWithId(args.id).drop(false);
+      return true;`;
+
+/** Args: `{ id }`. Deletes the task with its subtasks. */
+export const OMNI_DELETE_TASK = `${HELPERS}
+      deleteObject(taskWithId(args.id));
+      return true;`;
+
+/** Args: `{ id, name, note }`. */
+export const OMNI_UPDATE_TASK = `${HELPERS}
+      const t = taskWithId(args.id);
+      t.name = args.name;
+      t.note = args.note;
+      return true;`;
+
+/** Args: `{ id, field: 'due' | 'defer', date }`; a null date clears it. */
+export const OMNI_SET_TASK_DATE = `${HELPERS}
+      const t = taskWithId(args.id);
+      const date = args.date ? new Date(args.date) : null;
+      if (args.field === 'due') t.dueDate = date;
+      else t.deferDate = date;
+      return true;`;
+
+/** Args: `{ id, flagged }`. */
+export const OMNI_SET_TASK_FLAGGED = `${HELPERS}
+      taskWithId(args.id).flagged = args.flagged;
+      return true;`;
+
+/** Args: `{ id, tagName }`. Adding a tag the task already has is a no-op. */
+export const OMNI_ADD_TASK_TAG = `${HELPERS}
+      taskWithId(args.id).addTag(tagNamed(args.tagName));
+      return true;`;
+
+/** Args: `{ id, tagName }`. */
+export const OMNI_REMOVE_TASK_TAG = `${HELPERS}
+      taskWithId(args.id).removeTag(tagNamed(args.tagName));
+      return true;`;
+
+/** Args: `{ name }`. */
+export const OMNI_CREATE_PROJECT = `
+      return new Project(args.name).id.primaryKey;`;
+
+/** Args: `{ id, note }`. */
+export const OMNI_UPDATE_PROJECT_NOTE = `${HELPERS}
+      projectWithId(args.id).note = args.note;
+      return true;`;
+
+/** Project review states, ordered like OMNI_FETCH_PROJECT_PATHS_WITH_NOTES. */
+export const OMNI_FETCH_PROJECT_REVIEWS = `${HELPERS}${PROJECT_STATUS_HELPERS}
+      const out = [];
+      const add = (p, prefix) => out.push({
+        id: p.id.primaryKey,
+        name: p.name,
+        path: prefix + p.name,
+        status: projectStatusOf(p),
+        lastReviewDate: iso(p.lastReviewDate),
+        nextReviewDate: iso(p.nextReviewDate),
+      });
+      const walk = (folder, prefix) => {
+        folder.folders.forEach((f) => walk(f, prefix + f.name + '/'));
+        folder.projects.forEach((p) => add(p, prefix));
+      };
+      folders.forEach((f) => walk(f, f.name + '/'));
+      projects.forEach((p) => add(p, ''));
+      return out;`;
+
+/** Dates, flag, tags and task counts of every project; dropped tasks count as neither remaining nor completed. */
+export const OMNI_FETCH_PROJECT_METADATA = `${HELPERS}
+      const closed = [Task.Status.Completed, Task.Status.Dropped];
+      return flattenedProjects.map((p) => {
+        const tasks = p.flattenedTasks;
+        return {
+          id: p.id.primaryKey,
+          dueDate: iso(p.dueDate),
+          deferDate: iso(p.deferDate),
+          flagged: p.flagged,
+          tags: p.tags.map((t) => t.name),
+          remainingTasks: tasks.filter((t) => !closed.includes(t.taskStatus)).length,
+          completedTasks: tasks.filter((t) => t.taskStatus === Task.Status.Completed).length,
+          lastReviewDate: iso(p.lastReviewDate),
+        };
+      });`;
+
+/** Args: `{ id }`. The next review is the review interval after now, as when reviewing in OmniFocus. */
+export const OMNI_MARK_PROJECT_REVIEWED = `${HELPERS}
+      const p = projectWithId(args.id);
+      const now = new Date();
+      const next = new Date(now.getTime());
+      const interval = p.reviewInterval;
+      const steps = interval ? interval.steps : 1;
+      const unit = interval ? interval.unit : 'weeks';
+      if (unit === 'days') next.setDate(next.getDate() + steps);
+      else if (unit === 'months') next.setMonth(next.getMonth() + steps);
+      else if (unit === 'years') next.setFullYear(next.getFullYear() + steps);
+      else next.setDate(next.getDate() + 7 * steps);
+      p.lastReviewDate = now;
+      p.nextReviewDate = next;
+      return true;`;
+
+/** Args: `{ id, status }` with a ProjectStatus. */
+export const OMNI_SET_PROJECT_STATUS = `${HELPERS}
+      const S = Project.Status;
+      const statuses = { active: S.Active, 'on-hold': S.OnHold, completed: S.Done, dropped: S.Dropped };
+      projectWithId(args.id).status = statuses[args.status];
+      return true;`;
+
+/** Args: `{ id, projectName }`. */
+export const OMNI_MOVE_TASK = `${HELPERS}
+      moveTasks([taskWithId(args.id)], projectNamed(args.projectName));
+      return true;`;
+
+/** Args: `{ id }`. */
+export const OMNI_MOVE_TASK_TO_INBOX = `${HELPERS}
+      moveTasks([taskWithId(args.id)], inbox.ending);
+      return true;`;
@@ -0,0 +1,317 @@
+/**
+ * OmniFocus JXA transport: runs Omni Automation scripts through
+ * `osascript -l JavaScript` and decodes their JSON results.
+ * Script bodies live in omnifocus-jxa-scripts.ts; decoders in omnifocus-decode.ts.
+ * Exposed to the rest of the plugin as `jxaBackend` (see omnifocus-backend.ts).
+ */
+
+import { execFile } from 'child_process';
+import type {
+  TaskSource,
+  OmniFocusTask,
+  OmniFocusProjectWithNote,
+  OmniFocusProjectMetadata,
+  OmniFocusProjectReview,
+  ProjectPathWithNote,
+  ProjectStatus,
+} from './omnifocus';
+import { resolveName, sourceAcceptsNewTasks, sourceLabel } from './omnifocus';
+import type { FetchTasksOptions, TaskBackend, TaskDateField } from './omnifocus-backend';
+import {
+  decodeId,
+  decodeJxaResponse,
+  decodeProjectMetadata,
+  decodeProjectPathsWithNotes,
+  decodeProjectReviews,
+  decodeProjectsWithNotes,
+  decodeStringList,
+  decodeTasks,
+} from './omnifocus-decode';
+import {
+  JXA_EVALUATE,
+  buildOmniScript,
+  OMNI_FETCH_PROJECT_PATHS_WITH_NOTES,
+  OMNI_FETCH_PROJECT_NAMES,
+  OMNI_FETCH_PROJECTS_WITH_NOTES,
+  OMNI_FETCH_TAG_NAMES,
+  OMNI_FETCH_FOLDER_NAMES,
+  OMNI_FETCH_PERSPECTIVE_NAMES,
+  OMNI_FETCH_TASKS,
+  OMNI_FETCH_TASKS_BY_ID,
+  OMNI_FETCH_COMPLETED_TASKS,
+  OMNI_CREATE_TASK,
+  OMNI_COMPLETE_TASK,
+  OMNI_UNCOMPLETE_TASK,
+  OMNI_DROP_TASK,
+  OMNI_DELETE_TASK,
+  OMNI_UPDATE_TASK,
+  OMNI_SET_TASK_DATE,
+  OMNI_SET_TASK_FLAGGED,
+  OMNI_ADD_TASK_TAG,
+  OMNI_REMOVE_TASK_TAG,
+  OMNI_CREATE_PROJECT,
+  OMNI_UPDATE_PROJECT_NOTE,
+  OMNI_FETCH_PROJECT_REVIEWS,
+  OMNI_FETCH_PROJECT_METADATA,
+  OMNI_MARK_PROJECT_REVIEWED,
+  OMNI_SET_PROJECT_STATUS,
+  OMNI_MOVE_TASK,
+  OMNI_MOVE_TASK_TO_INBOX,
+} from './omnifocus-jxa-scripts';
+
+/**
+ * osascript could not run a JXA script at all (JXA or Omni Automation is not
+ * available), as opposed to an error reported by a script that did run.
+ */
+export class JxaTransportError extends Error {}
+
+/** Large databases produce more than execFile's default 1 MB of JSON. */
+const MAX_BUFFER = 64 * 1024 * 1024;
+
+/**
+ * Run an Omni Automation body with the given args and return the decoded
+ * `result` (untyped; pass it through a decoder).
+ */
+function runOmniScript(body: string, args: unknown, errorPrefix: string): Promise<unknown> {
+  const source = buildOmniScript(body, args);
+  return new Promise((resolve, reject) => {
+    execFile(
+      'osascript',
+      ['-l', 'JavaScript', '-e', JXA_EVALUATE, source],
+      { maxBuffer: MAX_BUFFER },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(new JxaTransportError(`${errorPrefix}${stderr || error.message}`));
+          return;
+        }
+        try {
+          resolve(decodeJxaResponse(stdout));
+        } catch (err) {
+          reject(new Error(`${errorPrefix}${err instanceof Error ? err.message : String(err)}`));
+        }
+      },
+    );
+  });
+}
+
+/** Run a fetch and decode it, prefixing decode errors like transport errors. */
+async function fetchDecoded<T>(
+  body: string,
+  args: unknown,
+  errorPrefix: string,
+  decode: (value: unknown) => T,
+): Promise<T> {
+  const value = await runOmniScript(body, args, errorPrefix);
+  try {
+    return decode(value);
+  } catch (err) {
+    throw new Error(`${errorPrefix}${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+export function fetchProjectPathsWithNotes(): Promise<ProjectPathWithNote[]> {
+  return fetchDecoded(
+    OMNI_FETCH_PROJECT_PATHS_WITH_NOTES,
+    {},
+    'Failed to fetch OmniFocus project paths with notes: ',
+    decodeProjectPathsWithNotes,
+  );
+}
+
+export async function fetchProjectPaths(): Promise<string[]> {
+  const projects = await fetchProjectPathsWithNotes();
+  return projects.map((p) => p.path);
+}
+
+export function fetchProjectNames(): Promise<string[]> {
+  return fetchDecoded(OMNI_FETCH_PROJECT_NAMES, {}, 'Failed to fetch OmniFocus project names: ', decodeStringList);
+}
+
+export function fetchProjectsWithNotes(): Promise<OmniFocusProjectWithNote[]> {
+  return fetchDecoded(
+    OMNI_FETCH_PROJECTS_WITH_NOTES,
+    {},
+    'Failed to fetch OmniFocus projects: ',
+    decodeProjectsWithNotes,
+  );
+}
+
+export function fetchTagNames(): Promise<string[]> {
+  return fetchDecoded(OMNI_FETCH_TAG_NAMES, {}, 'Failed to fetch OmniFocus tag names: ', decodeStringList);
+}
+
+/** Folder names, for resolving `folder:` sources (not part of `TaskBackend`). */
+function fetchFolderNames(): Promise<string[]> {
+  return fetchDecoded(OMNI_FETCH_FOLDER_NAMES, {}, 'Failed to fetch OmniFocus folder names: ', decodeStringList);
+}
+
+/** Custom perspective names, for resolving `perspective:` sources. */
+function fetchPerspectiveNames(): Promise<string[]> {
+  return fetchDecoded(
+    OMNI_FETCH_PERSPECTIVE_NAMES,
+    {},
+    'Failed to fetch OmniFocus perspective names: ',
+    decodeStringList,
+  );
+}
+
+/** Resolve project/tag/folder/perspective names in a source the same way the AppleScript backend does. */
+async function resolveSource(source: TaskSource): Promise<TaskSource> {
+  switch (source.kind) {
+    case 'project':
+      return { kind: 'project', name: resolveName(source.name, await fetchProjectNames(), 'project') };
+    case 'tag':
+      return { kind: 'tag', name: resolveName(source.name, await fetchTagNames(), 'tag') };
+    case 'folder':
+      return { kind: 'folder', name: resolveName(source.name, await fetchFolderNames(), 'folder') };
+    case 'perspective':
+      return { kind: 'perspective', name: resolveName(source.name, await fetchPerspectiveNames(), 'perspective') };
+    default:
+      return source;
+  }
+}
+
+export async function fetchTasks(
+  source: TaskSource,
+  options?: FetchTasksOptions,
+): Promise<OmniFocusTask[]> {
+  const resolved = await resolveSource(source);
+  return fetchDecoded(
+    OMNI_FETCH_TASKS,
+    { source: resolved, includeCompleted: options?.includeCompleted ?? false, filter: options?.filter ?? null },
+    `Failed to fetch OmniFocus ${sourceLabel(resolved)} tasks: `,
+    decodeTasks,
+  );
+}
+
+export function fetchTasksById(taskIds: string[]): Promise<OmniFocusTask[]> {
+  if (taskIds.length === 0) return Promise.resolve([]);
+  return fetchDecoded(OMNI_FETCH_TASKS_BY_ID, { ids: taskIds }, 'Failed to fetch OmniFocus tasks by id: ', decodeTasks);
+}
+
+export function fetchCompletedTasks(since: string, until: string): Promise<OmniFocusTask[]> {
+  return fetchDecoded(
+    OMNI_FETCH_COMPLETED_TASKS,
+    { since, until },
+    'Failed to fetch completed OmniFocus tasks: ',
+    decodeTasks,
+  );
+}
+
+export async function createTask(source: TaskSource, taskName: string, taskNote = ''): Promise<string> {
+  if (!sourceAcceptsNewTasks(source)) {
+    throw new Error(`Cannot add tasks to ${sourceLabel(source)}`);
+  }
+  const resolved = await resolveSource(source);
+  return fetchDecoded(
+    OMNI_CREATE_TASK,
+    { source: resolved, name: taskName, note: taskNote },
+    `Failed to create OmniFocus ${sourceLabel(resolved)} task: `,
+    decodeId,
+  );
+}
+
+export async function completeTask(taskId: string): Promise<void> {
+  await runOmniScript(OMNI_COMPLETE_TASK, { id: taskId }, 'Failed to complete OmniFocus task: ');
+}
+
+export async function uncompleteTask(taskId: string): Promise<void> {
+  await runOmniScript(OMNI_UNCOMPLETE_TASK, { id: taskId }, 'Failed to mark OmniFocus task incomplete: ');
+}
+
+export async function dropTask(taskId: string): Promise<void> {
+  await runOmniScript(OMNI_DROP_TASK, { id: taskId }, 'Failed to drop OmniFocus task: ');
+}
+
+export async function deleteTask(taskId: string): Promise<void> {
+  await runOmniScript(OMNI_DELETE_TASK, { id: taskId }, 'Failed to delete OmniFocus task: ');
+}
+
+export async function updateTask(taskId: string, name: string, note: string): Promise<void> {
+  await runOmniScript(OMNI_UPDATE_TASK, { id: taskId, name, note }, 'Failed to update OmniFocus task: ');
+}
+
+export async function setTaskDate(taskId: string, field: TaskDateField, date: string | null): Promise<void> {
+  await runOmniScript(OMNI_SET_TASK_DATE, { id: taskId, field, date }, `Failed to set ${field} date of OmniFocus task: `);
+}
+
+export async function setTaskFlagged(taskId: string, flagged: boolean): Promise<void> {
+  await runOmniScript(OMNI_SET_TASK_FLAGGED, { id: taskId, flagged }, 'Failed to flag OmniFocus task: ');
+}
+
+export async function addTagToTask(taskId: string, tagName: string): Promise<void> {
+  const resolved = resolveName(tagName, await fetchTagNames(), 'tag');
+  await runOmniScript(OMNI_ADD_TASK_TAG, { id: taskId, tagName: resolved }, 'Failed to tag OmniFocus task: ');
+}
+
+export async function removeTagFromTask(taskId: string, tagName: string): Promise<void> {
+  const resolved = resolveName(tagName, await fetchTagNames(), 'tag');
+  await runOmniScript(OMNI_REMOVE_TASK_TAG, { id: taskId, tagName: resolved }, 'Failed to untag OmniFocus task: ');
+}
+
+export async function createProject(projectName: string): Promise<void> {
+  await runOmniScript(OMNI_CREATE_PROJECT, { name: projectName }, 'Failed to create OmniFocus project: ');
+}
+
+export async function updateProjectNote(projectId: string, note: string): Promise<void> {
+  await runOmniScript(
+    OMNI_UPDATE_PROJECT_NOTE,
+    { id: projectId, note },
+    'Failed to update OmniFocus project note: ',
+  );
+}
+
+export function fetchProjectReviews(): Promise<OmniFocusProjectReview[]> {
+  return fetchDecoded(OMNI_FETCH_PROJECT_REVIEWS, {}, 'Failed to fetch OmniFocus project reviews: ', decodeProjectReviews);
+}
+
+export function fetchProjectMetadata(): Promise<OmniFocusProjectMetadata[]> {
+  return fetchDecoded(OMNI_FETCH_PROJECT_METADATA, {}, 'Failed to fetch OmniFocus project metadata: ', decodeProjectMetadata);
+}
+
+export async function markProjectReviewed(projectId: string): Promise<void> {
+  await runOmniScript(OMNI_MARK_PROJECT_REVIEWED, { id: projectId }, 'Failed to mark OmniFocus project reviewed: ');
+}
+
+export async function setProjectStatus(projectId: string, status: ProjectStatus): Promise<void> {
+  await runOmniScript(OMNI_SET_PROJECT_STATUS, { id: projectId, status }, 'Failed to set OmniFocus project status: ');
+}
+
+export async function moveTaskToProject(taskId: string, projectName: string): Promise<void> {
+  const resolved = resolveName(projectName, await fetchProjectNames(), 'project');
+  await runOmniScript(OMNI_MOVE_TASK, { id: taskId, projectName: resolved }, 'Failed to move OmniFocus task: ');
+}
+
+export async function moveTaskToInbox(taskId: string): Promise<void> {
+  await runOmniScript(OMNI_MOVE_TASK_TO_INBOX, { id: taskId }, 'Failed to move OmniFocus task to the inbox: ');
+}
+
+/** Backend that drives OmniFocus 4 through JXA / Omni Automation with JSON results. */
+export const jxaBackend: TaskBackend = {
+  fetchProjectPaths,
+  fetchProjectPathsWithNotes,
+  fetchProjectNames,
+  fetchProjectsWithNotes,
+  fetchTagNames,
+  fetchTasks,
+  fetchTasksById,
+  fetchCompletedTasks,
+  createTask,
+  completeTask,
+  uncompleteTask,
+  dropTask,
+  deleteTask,
+  updateTask,
+  setTaskDate,
+  setTaskFlagged,
+  addTagToTask,
+  removeTagFromTask,
+  createProject,
+  updateProjectNote,
+  fetchProjectReviews,
+  fetchProjectMetadata,
+  markProjectReviewed,
+  setProjectStatus,
+  moveTaskToProject,
+  moveTaskToInbox,
+};
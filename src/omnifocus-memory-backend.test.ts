@@ -0,0 +1,437 @@
+import {
+  createMemoryBackend,
+  emptyMemoryDatabase,
+  parseMemoryDatabase,
+} from './omnifocus-memory-backend';
+import type { MemoryDatabase } from './omnifocus-memory-backend';
+import type { TaskSource } from './omnifocus';
+import { parseFilter } from './omnifocus-filter';
+
+function sampleDatabase(): MemoryDatabase {
+  return {
+    folders: [
+      { id: 'f1', name: 'Work', parentId: null },
+      { id: 'f2', name: 'Clients', parentId: 'f1' },
+    ],
+    projects: [
+      { id: 'p1', name: 'Website', note: 'Relaunch', folderId: 'f2' },
+      { id: 'p2', name: 'Hiring', note: '', folderId: 'f1' },
+      { id: 'p3', name: 'Garden', note: 'Line one\nLine two', folderId: null },
+    ],
+    tags: [
+      { id: 't1', name: '@Office' },
+      { id: 't2', name: '@Home' },
+    ],
+    tasks: [
+      { id: 'a', name: 'Inbox item', note: '', completed: false, projectId: null, tagIds: [] },
+      { id: 'b', name: 'Write copy', note: 'Landing page', completed: false, projectId: 'p1', tagIds: ['t1'] },
+      { id: 'c', name: 'Old task', note: '', completed: true, projectId: 'p1', tagIds: ['t1'] },
+      { id: 'd', name: 'Plant tulips', note: '', completed: false, projectId: 'p3', tagIds: ['t2'] },
+    ],
+  };
+}
+
+describe('createMemoryBackend - reads', () => {
+  const backend = createMemoryBackend(sampleDatabase());
+
+  it('lists project paths with sub-folders before projects at each level', async () => {
+    expect(await backend.fetchProjectPaths()).toEqual([
+      'Work/Clients/Website',
+      'Work/Hiring',
+      'Garden',
+    ]);
+  });
+
+  it('lists project paths with notes', async () => {
+    expect(await backend.fetchProjectPathsWithNotes()).toContainEqual({
+      path: 'Garden',
+      note: 'Line one\nLine two',
+      id: 'p3',
+      status: 'active',
+    });
+  });
+
+  it('lists project and tag names', async () => {
+    expect(await backend.fetchProjectNames()).toEqual(['Website', 'Hiring', 'Garden']);
+    expect(await backend.fetchTagNames()).toEqual(['@Office', '@Home']);
+  });
+
+  it('fetches inbox tasks', async () => {
+    const tasks = await backend.fetchTasks({ kind: 'inbox' });
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0]).toMatchObject({ name: 'Inbox item', id: 'a', note: '', completed: false, projectName: null });
+  });
+
+  it('fetches project tasks, resolving partial names and hiding completed', async () => {
+    const tasks = await backend.fetchTasks({ kind: 'project', name: 'web' });
+    expect(tasks.map((t) => t.id)).toEqual(['b']);
+  });
+
+  it('includes completed tasks when asked', async () => {
+    const tasks = await backend.fetchTasks({ kind: 'tag', name: 'office' }, { includeCompleted: true });
+    expect(tasks.map((t) => [t.id, t.completed])).toEqual([
+      ['b', false],
+      ['c', true],
+    ]);
+  });
+
+  it('applies filters after completed tasks are dropped', async () => {
+    const folder = { kind: 'folder', name: 'Work' } as const;
+    expect((await backend.fetchTasks(folder, { filter: parseFilter('tag = @office or text ~ /^old/i') })).map((t) => t.id)).toEqual(['b']);
+    const all = await backend.fetchTasks(folder, { includeCompleted: true, filter: parseFilter('text ~ page or completed') });
+    expect(all.map((t) => t.id)).toEqual(['b', 'c']);
+  });
+
+  it('throws the same resolution errors as the AppleScript backend', async () => {
+    await expect(backend.fetchTasks({ kind: 'project', name: 'nope' })).rejects.toThrow(
+      'No project matching "nope"',
+    );
+  });
+});
+
+describe('createMemoryBackend - mutations', () => {
+  it('creates inbox, project and tag tasks', async () => {
+    const backend = createMemoryBackend(sampleDatabase());
+    await backend.createTask({ kind: 'inbox' }, 'New inbox', 'n');
+    await backend.createTask({ kind: 'project', name: 'Hiring' }, 'Post job');
+    await backend.createTask({ kind: 'tag', name: '@Home' }, 'Fix door');
+    expect((await backend.fetchTasks({ kind: 'inbox' })).map((t) => t.name)).toEqual([
+      'Inbox item',
+      'New inbox',
+      'Fix door',
+    ]);
+    expect((await backend.fetchTasks({ kind: 'project', name: 'Hiring' })).map((t) => t.name)).toEqual([
+      'Post job',
+    ]);
+    expect((await backend.fetchTasks({ kind: 'tag', name: '@Home' })).map((t) => t.name)).toEqual([
+      'Plant tulips',
+      'Fix door',
+    ]);
+  });
+
+  it('completes, updates and moves tasks', async () => {
+    const backend = createMemoryBackend(sampleDatabase());
+    await backend.completeTask('a');
+    await backend.updateTask('b', 'Write better copy', 'v2');
+    await backend.moveTaskToProject('b', 'Garden');
+    expect(await backend.fetchTasks({ kind: 'inbox' })).toEqual([]);
+    const moved = (await backend.fetchTasks({ kind: 'project', name: 'Garden' })).find((t) => t.id === 'b');
+    expect(moved).toMatchObject({ name: 'Write better copy', id: 'b', note: 'v2', completed: false });
+  });
+
+  it('rejects unknown task ids', async () => {
+    const backend = createMemoryBackend(sampleDatabase());
+    await expect(backend.completeTask('zzz')).rejects.toThrow(
+      'Failed to complete OmniFocus task: no task with id "zzz"',
+    );
+  });
+
+  it('creates projects and updates project notes', async () => {
+    const backend = createMemoryBackend(emptyMemoryDatabase());
+    await backend.createProject('Taxes');
+    const [{ id }] = await backend.fetchProjectPathsWithNotes();
+    await backend.updateProjectNote(id, 'File by April');
+    expect(await backend.fetchProjectsWithNotes()).toEqual([{ name: 'Taxes', note: 'File by April' }]);
+    await expect(backend.updateProjectNote('Taxes', '')).rejects.toThrow('No project with id "Taxes"');
+  });
+
+  it('calls onChange with a snapshot after every mutation and never mutates the input', async () => {
+    const initial = sampleDatabase();
+    const changes: MemoryDatabase[] = [];
+    const backend = createMemoryBackend(initial, { onChange: (db) => void changes.push(db) });
+    await backend.completeTask('a');
+    await backend.createProject('New');
+    expect(changes).toHaveLength(2);
+    expect(changes[1].projects.map((p) => p.name)).toContain('New');
+    expect(initial.tasks[0].completed).toBe(false);
+    expect(backend.snapshot().tasks[0].completed).toBe(true);
+  });
+});
+
+describe('createMemoryBackend - dates, flags and tags', () => {
+  it('sets and clears dates, flags, and adds and removes tags', async () => {
+    const backend = createMemoryBackend(sampleDatabase());
+    await backend.setTaskDate('b', 'due', '2026-10-23T15:00:00.000Z');
+    await backend.setTaskDate('b', 'defer', '2026-10-20T00:00:00.000Z');
+    await backend.setTaskFlagged('b', true);
+    await backend.addTagToTask('b', 'home');
+    await backend.addTagToTask('b', '@Home');
+    await backend.removeTagFromTask('b', '@Office');
+    const [task] = (await backend.fetchTasks({ kind: 'project', name: 'Website' })).filter((t) => t.id === 'b');
+    expect(task).toMatchObject({
+      dueDate: '2026-10-23T15:00:00.000Z',
+      deferDate: '2026-10-20T00:00:00.000Z',
+      flagged: true,
+      tags: ['@Home'],
+    });
+    await backend.setTaskDate('b', 'due', null);
+    await backend.setTaskFlagged('b', false);
+    expect(backend.snapshot().tasks[1]).toMatchObject({ dueDate: null, flagged: false });
+  });
+
+  it('rejects unknown tasks and tags', async () => {
+    const backend = createMemoryBackend(sampleDatabase());
+    await expect(backend.setTaskFlagged('zzz', true)).rejects.toThrow(
+      'Failed to flag OmniFocus task: no task with id "zzz"',
+    );
+    await expect(backend.addTagToTask('b', '@Nowhere')).rejects.toThrow('@Nowhere');
+  });
+});
+
+describe('createMemoryBackend - reopening, dropping and deleting', () => {
+  const groupDatabase = (): MemoryDatabase => ({
+    ...sampleDatabase(),
+    tasks: [
+      { id: 'g', name: 'Group', note: '', completed: true, projectId: 'p1', tagIds: [] },
+      { id: 'g1', name: 'First', note: '', completed: true, projectId: 'p1', tagIds: [], parentId: 'g' },
+      { id: 'g2', name: 'Second', note: '', completed: false, projectId: 'p1', tagIds: [], parentId: 'g' },
+      { id: 'x', name: 'Other', note: '', completed: false, projectId: null, tagIds: [] },
+    ],
+  });
+  const names = async (backend: ReturnType<typeof createMemoryBackend>, includeCompleted = false) =>
+    (await backend.fetchTasks({ kind: 'project', name: 'Website' }, { includeCompleted })).map((t) => t.id);
+
+  it('marks a task incomplete and reopens its completed action group', async () => {
+    const backend = createMemoryBackend(groupDatabase());
+    await backend.uncompleteTask('g1');
+    expect(await names(backend)).toEqual(['g', 'g1', 'g2']);
+  });
+
+  it('drops a task with its open subtasks and hides them like completed tasks', async () => {
+    const backend = createMemoryBackend(groupDatabase());
+    await backend.uncompleteTask('g');
+    await backend.dropTask('g');
+    expect(await names(backend)).toEqual([]);
+    const all = await backend.fetchTasks({ kind: 'project', name: 'Website' }, { includeCompleted: true });
+    expect(all.map((t) => t.status)).toEqual(['dropped', 'completed', 'dropped']);
+    await backend.uncompleteTask('g2');
+    expect(await names(backend)).toEqual(['g', 'g2']);
+  });
+
+  it('fetches tasks by id, completed ones included and unknown ids left out', async () => {
+    const backend = createMemoryBackend(groupDatabase());
+    const tasks = await backend.fetchTasksById(['g1', 'missing', 'x']);
+    expect(tasks.map((t) => [t.id, t.completed])).toEqual([['g1', true], ['x', false]]);
+  });
+
+  it('deletes a task with its subtasks', async () => {
+    const backend = createMemoryBackend(groupDatabase());
+    await backend.deleteTask('g');
+    expect(backend.snapshot().tasks.map((t) => t.id)).toEqual(['x']);
+  });
+
+  it('moves a task and its subtasks back to the inbox', async () => {
+    const backend = createMemoryBackend(sampleDatabase());
+    await backend.moveTaskToInbox('b');
+    expect((await backend.fetchTasks({ kind: 'inbox' })).map((t) => t.id)).toEqual(['a', 'b']);
+  });
+});
+
+describe('createMemoryBackend - task metadata', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+  const db = (): MemoryDatabase => ({
+    ...sampleDatabase(),
+    tasks: [
+      { id: 'due', name: 'Due soon', note: '', completed: false, projectId: 'p1', tagIds: ['t1', 't2'], dueDate: '2026-10-20T09:00:00Z', flagged: true, estimatedMinutes: 30 },
+      { id: 'late', name: 'Late', note: '', completed: false, projectId: null, tagIds: [], dueDate: '2026-10-18T09:00:00Z' },
+      { id: 'later', name: 'Deferred', note: '', completed: false, projectId: 'p3', tagIds: [], deferDate: '2026-10-25T00:00:00Z' },
+    ],
+  });
+
+  it('reports tags, project, folder path and flags', async () => {
+    const backend = createMemoryBackend(db(), { now: () => now });
+    const [task] = await backend.fetchTasks({ kind: 'project', name: 'Website' });
+    expect(task).toMatchObject({
+      tags: ['@Office', '@Home'],
+      projectName: 'Website',
+      folderPath: 'Work/Clients',
+      flagged: true,
+      estimatedMinutes: 30,
+      dueDate: '2026-10-20T09:00:00Z',
+      deferDate: null,
+    });
+  });
+
+  it('derives status from due and defer dates', async () => {
+    const backend = createMemoryBackend(db(), { now: () => now });
+    const status = async (source: Parameters<typeof backend.fetchTasks>[0]) =>
+      (await backend.fetchTasks(source)).map((t) => t.status);
+    expect(await status({ kind: 'project', name: 'Website' })).toEqual(['due-soon']);
+    expect(await status({ kind: 'inbox' })).toEqual(['overdue']);
+    expect(await status({ kind: 'project', name: 'Garden' })).toEqual(['blocked']);
+  });
+
+  it('stamps added, modified and completion dates', async () => {
+    const backend = createMemoryBackend(emptyMemoryDatabase(), { now: () => now });
+    const id = await backend.createTask({ kind: 'inbox' }, 'New');
+    const [created] = await backend.fetchTasks({ kind: 'inbox' });
+    expect(created.id).toBe(id);
+    expect(created).toMatchObject({ addedDate: now.toISOString(), modifiedDate: now.toISOString(), completionDate: null });
+    await backend.completeTask(created.id);
+    const [done] = await backend.fetchTasks({ kind: 'inbox' }, { includeCompleted: true });
+    expect(done).toMatchObject({ completed: true, completionDate: now.toISOString(), status: 'completed' });
+  });
+
+  it('fetches the tasks completed within a time range', async () => {
+    const backend = createMemoryBackend({
+      ...sampleDatabase(),
+      tasks: [
+        { id: 'early', name: 'Early', note: '', completed: true, projectId: null, tagIds: [], completionDate: '2026-10-18T23:00:00Z' },
+        { id: 'today', name: 'Today', note: '', completed: true, projectId: 'p1', tagIds: [], completionDate: '2026-10-19T08:00:00Z' },
+        { id: 'open', name: 'Open', note: '', completed: false, projectId: null, tagIds: [] },
+      ],
+    });
+    const tasks = await backend.fetchCompletedTasks('2026-10-19T00:00:00Z', '2026-10-20T00:00:00Z');
+    expect(tasks.map((t) => [t.id, t.projectName])).toEqual([['today', 'Website']]);
+  });
+});
+
+describe('createMemoryBackend - action groups', () => {
+  const db = (): MemoryDatabase => ({
+    ...sampleDatabase(),
+    tasks: [
+      { id: 'g', name: 'Launch', note: '', completed: false, projectId: 'p1', tagIds: [] },
+      { id: 'g1', name: 'Write post', note: '', completed: false, projectId: 'p1', tagIds: [], parentId: 'g' },
+      { id: 'g2', name: 'Review', note: '', completed: false, projectId: 'p1', tagIds: [], parentId: 'g1' },
+      { id: 'h', name: 'Manual group', note: '', completed: false, projectId: 'p1', tagIds: [], completedByChildren: false },
+      { id: 'h1', name: 'Only child', note: '', completed: false, projectId: 'p1', tagIds: [], parentId: 'h' },
+    ],
+  });
+  const completedIds = async (backend: ReturnType<typeof createMemoryBackend>) =>
+    (await backend.fetchTasks({ kind: 'project', name: 'Website' }, { includeCompleted: true }))
+      .filter((t) => t.completed)
+      .map((t) => t.id);
+
+  it('reports parent ids', async () => {
+    const tasks = await createMemoryBackend(db()).fetchTasks({ kind: 'project', name: 'Website' });
+    expect(tasks.map((t) => [t.id, t.parentId])).toEqual([
+      ['g', null],
+      ['g1', 'g'],
+      ['g2', 'g1'],
+      ['h', null],
+      ['h1', 'h'],
+    ]);
+  });
+
+  it('completes remaining descendants with an action group', async () => {
+    const backend = createMemoryBackend(db());
+    await backend.completeTask('g');
+    expect(await completedIds(backend)).toEqual(['g', 'g1', 'g2']);
+  });
+
+  it('completes a group when its last remaining child completes', async () => {
+    const backend = createMemoryBackend(db());
+    await backend.completeTask('g2');
+    expect(await completedIds(backend)).toEqual(['g', 'g1', 'g2']);
+  });
+
+  it('leaves groups that do not complete with their children open', async () => {
+    const backend = createMemoryBackend(db());
+    await backend.completeTask('h1');
+    expect(await completedIds(backend)).toEqual(['h1']);
+  });
+
+  it('moves a subtree to the top level of another project', async () => {
+    const backend = createMemoryBackend(db());
+    await backend.moveTaskToProject('g1', 'Garden');
+    const moved = await backend.fetchTasks({ kind: 'project', name: 'Garden' });
+    expect(moved.map((t) => [t.id, t.parentId])).toEqual([
+      ['g1', null],
+      ['g2', 'g1'],
+    ]);
+  });
+});
+
+describe('createMemoryBackend - folder, flagged, due and forecast sources', () => {
+  // Local times so "today" does not depend on the machine's time zone.
+  const now = new Date(2026, 9, 19, 12, 0);
+  const at = (day: number, hour: number) => new Date(2026, 9, day, hour, 0).toISOString();
+  const db = (): MemoryDatabase => ({
+    ...sampleDatabase(),
+    tasks: [
+      { id: 'late', name: 'Late', note: '', completed: false, projectId: 'p1', tagIds: [], dueDate: at(18, 9) },
+      { id: 'tonight', name: 'Tonight', note: '', completed: false, projectId: 'p2', tagIds: [], dueDate: at(19, 20), flagged: true },
+      { id: 'soon', name: 'Soon', note: '', completed: false, projectId: 'p3', tagIds: [], dueDate: at(21, 9) },
+      { id: 'starts', name: 'Starts today', note: '', completed: false, projectId: null, tagIds: [], deferDate: at(19, 18) },
+      { id: 'later', name: 'Later', note: '', completed: false, projectId: null, tagIds: [], dueDate: at(30, 9), flagged: true },
+    ],
+  });
+  const ids = async (source: TaskSource) =>
+    (await createMemoryBackend(db(), { now: () => now }).fetchTasks(source)).map((t) => t.id);
+
+  it('fetches tasks from all projects under a folder', async () => {
+    expect(await ids({ kind: 'folder', name: 'Work' })).toEqual(['late', 'tonight']);
+    expect(await ids({ kind: 'folder', name: 'clients' })).toEqual(['late']);
+  });
+
+  it('fetches flagged tasks', async () => {
+    expect(await ids({ kind: 'flagged' })).toEqual(['tonight', 'later']);
+  });
+
+  it('fetches tasks by due window', async () => {
+    expect(await ids({ kind: 'due', when: 'today' })).toEqual(['tonight']);
+    expect(await ids({ kind: 'due', when: 'overdue' })).toEqual(['late']);
+    expect(await ids({ kind: 'due', when: 'soon' })).toEqual(['tonight', 'soon']);
+  });
+
+  it('fetches the forecast: overdue, due today and deferred until today', async () => {
+    expect(await ids({ kind: 'forecast' })).toEqual(['late', 'tonight', 'starts']);
+  });
+
+  it('reports that there are no custom perspectives', async () => {
+    await expect(ids({ kind: 'perspective', name: 'Today' })).rejects.toThrow('No perspective matching "Today"');
+  });
+
+  it('creates flagged tasks in the inbox and rejects view-only sources', async () => {
+    const backend = createMemoryBackend(db(), { now: () => now });
+    await backend.createTask({ kind: 'flagged' }, 'Flag me');
+    expect((await backend.fetchTasks({ kind: 'inbox' })).find((t) => t.name === 'Flag me')).toMatchObject({
+      flagged: true,
+    });
+    await expect(backend.createTask({ kind: 'forecast' }, 'Nope')).rejects.toThrow('Cannot add tasks to forecast');
+  });
+});
+
+describe('parseMemoryDatabase', () => {
+  it('fills optional fields with defaults', () => {
+    const db = parseMemoryDatabase('{"tasks":[{"id":"x","name":"Task"}]}');
+    expect(db).toEqual({
+      folders: [],
+      projects: [],
+      tags: [],
+      tasks: [
+        {
+          id: 'x',
+          name: 'Task',
+          note: '',
+          completed: false,
+          projectId: null,
+          tagIds: [],
+          parentId: null,
+          completedByChildren: true,
+          dueDate: null,
+          deferDate: null,
+          flagged: false,
+          estimatedMinutes: null,
+          addedDate: null,
+          modifiedDate: null,
+          completionDate: null,
+        },
+      ],
+    });
+  });
+
+  it('round-trips a database', () => {
+    const db = parseMemoryDatabase(JSON.stringify(sampleDatabase()));
+    expect(parseMemoryDatabase(JSON.stringify(db))).toEqual(db);
+  });
+
+  it('reports malformed JSON', () => {
+    expect(() => parseMemoryDatabase('{')).toThrow('Invalid OmniFocus JSON database');
+  });
+
+  it('reports the location of invalid entries', () => {
+    expect(() => parseMemoryDatabase('{"projects":[{"id":"p"}]}')).toThrow('projects[0].name must be a string');
+    expect(() => parseMemoryDatabase('{"tags":{}}')).toThrow('"tags" must be an array');
+  });
+});
@@ -0,0 +1,417 @@
+/**
+ * In-memory OmniFocus backend.
+ *
+ * Mirrors the semantics of the AppleScript backend (projects inside folders,
+ * tags, inbox, completion, moves, name resolution) on a plain JSON-serializable
+ * database so the plugin can be developed, demoed and tested without
+ * OmniFocus. Pass `onChange` to persist the database after every mutation.
+ */
+
+import type { DueWindow, TaskSource, TaskStatus, OmniFocusTask } from './omnifocus';
+import { resolveName, sourceAcceptsNewTasks, sourceLabel } from './omnifocus';
+import type { TaskBackend } from './omnifocus-backend';
+import { filterTasks } from './omnifocus-filter-eval';
+import { cloneDatabase, emptyMemoryDatabase, nextId } from './omnifocus-memory-database';
+import type { MemoryDatabase, MemoryTag, MemoryTask } from './omnifocus-memory-database';
+import { createProjectOperations, findProject } from './omnifocus-memory-projects';
+import type { ProjectOperations } from './omnifocus-memory-projects';
+
+export { emptyMemoryDatabase, parseMemoryDatabase } from './omnifocus-memory-database';
+export type { MemoryDatabase, MemoryFolder, MemoryProject, MemoryTag, MemoryTask } from './omnifocus-memory-database';
+
+/** Memory backend plus access to its current database (for persistence and tests). */
+export interface MemoryBackend extends TaskBackend {
+  snapshot(): MemoryDatabase;
+}
+
+/** OmniFocus's default "due soon" window. */
+const DUE_SOON_MS = 2 * 24 * 60 * 60 * 1000;
+
+/** Status the way OmniFocus derives it from completion, defer and due dates. */
+function memoryTaskStatus(task: MemoryTask, now: Date): TaskStatus {
+  if (task.completed) return 'completed';
+  if (task.dropped) return 'dropped';
+  if (task.deferDate && Date.parse(task.deferDate) > now.getTime()) return 'blocked';
+  if (task.dueDate) {
+    const due = Date.parse(task.dueDate);
+    if (due < now.getTime()) return 'overdue';
+    if (due - now.getTime() <= DUE_SOON_MS) return 'due-soon';
+  }
+  return 'available';
+}
+
+function folderPathOf(db: MemoryDatabase, folderId: string | null): string | null {
+  const parts: string[] = [];
+  for (let f = db.folders.find((x) => x.id === folderId); f; f = db.folders.find((x) => x.id === f!.parentId)) {
+    parts.unshift(f.name);
+  }
+  return parts.length > 0 ? parts.join('/') : null;
+}
+
+function toOmniFocusTask(db: MemoryDatabase, task: MemoryTask, now: Date): OmniFocusTask {
+  const project = db.projects.find((p) => p.id === task.projectId) ?? null;
+  return {
+    name: task.name,
+    id: task.id,
+    note: task.note,
+    completed: task.completed,
+    dueDate: task.dueDate ?? null,
+    deferDate: task.deferDate ?? null,
+    flagged: task.flagged ?? false,
+    estimatedMinutes: task.estimatedMinutes ?? null,
+    tags: task.tagIds
+      .map((id) => db.tags.find((t) => t.id === id)?.name)
+      .filter((name): name is string => name !== undefined),
+    projectName: project?.name ?? null,
+    folderPath: project ? folderPathOf(db, project.folderId) : null,
+    parentId: task.parentId ?? null,
+    addedDate: task.addedDate ?? null,
+    modifiedDate: task.modifiedDate ?? null,
+    completionDate: task.completionDate ?? null,
+    status: memoryTaskStatus(task, now),
+  };
+}
+
+function findTag(db: MemoryDatabase, query: string): MemoryTag {
+  const name = resolveName(query, db.tags.map((t) => t.name), 'tag');
+  return db.tags.find((t) => t.name === name)!;
+}
+
+function findTask(db: MemoryDatabase, taskId: string, errorPrefix: string): MemoryTask {
+  const task = db.tasks.find((t) => t.id === taskId);
+  if (!task) {
+    throw new Error(`${errorPrefix}no task with id "${taskId}"`);
+  }
+  return task;
+}
+
+/** All tasks nested under `task`, depth-first. */
+function descendantsOf(db: MemoryDatabase, task: MemoryTask): MemoryTask[] {
+  const out: MemoryTask[] = [];
+  for (const child of db.tasks.filter((t) => t.parentId === task.id)) {
+    out.push(child, ...descendantsOf(db, child));
+  }
+  return out;
+}
+
+/**
+ * Complete a task the way OmniFocus does: remaining children of an action
+ * group are completed with it, and a group whose last remaining child is
+ * completed completes too (unless `completedByChildren` is false).
+ */
+function completeWithHierarchy(db: MemoryDatabase, task: MemoryTask, stamp: (t: MemoryTask) => void): void {
+  for (const t of [task, ...descendantsOf(db, task)]) {
+    if (t.completed) continue;
+    t.completed = true;
+    stamp(t);
+  }
+  const parent = db.tasks.find((t) => t.id === task.parentId);
+  if (
+    parent &&
+    !parent.completed &&
+    parent.completedByChildren !== false &&
+    db.tasks.every((t) => t.parentId !== parent.id || t.completed)
+  ) {
+    completeWithHierarchy(db, parent, stamp);
+  }
+}
+
+/** Reopen a task and the completed action groups above it, as OmniFocus does. */
+function reopenWithAncestors(db: MemoryDatabase, task: MemoryTask, stamp: (t: MemoryTask) => void): void {
+  for (let t: MemoryTask | undefined = task; t; t = db.tasks.find((p) => p.id === t!.parentId)) {
+    if (t !== task && !t.completed && !t.dropped) break;
+    t.completed = false;
+    t.dropped = false;
+    t.completionDate = null;
+    stamp(t);
+  }
+}
+
+/** Ids of a folder and all folders nested in it. */
+function folderTreeIds(db: MemoryDatabase, folderId: string): Set<string> {
+  const ids = new Set([folderId]);
+  for (const folder of db.folders) {
+    if (folder.parentId === folderId) folderTreeIds(db, folder.id).forEach((id) => ids.add(id));
+  }
+  return ids;
+}
+
+function startOfDay(d: Date): number {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+}
+
+/** True when the ISO date falls on the same local day as now. */
+function isToday(iso: string | null | undefined, now: Date): boolean {
+  if (!iso) return false;
+  const start = startOfDay(now);
+  const time = Date.parse(iso);
+  return time >= start && time < start + 24 * 60 * 60 * 1000;
+}
+
+function isDueIn(task: MemoryTask, when: DueWindow, now: Date): boolean {
+  if (when === 'today') return isToday(task.dueDate, now);
+  const status = memoryTaskStatus(task, now);
+  return when === 'overdue' ? status === 'overdue' : status === 'due-soon';
+}
+
+/** OmniFocus's Forecast for today: overdue, due today, or becoming available today. */
+function isInForecast(task: MemoryTask, now: Date): boolean {
+  return isDueIn(task, 'overdue', now) || isToday(task.dueDate, now) || isToday(task.deferDate, now);
+}
+
+function tasksForSource(db: MemoryDatabase, source: TaskSource, now: Date): MemoryTask[] {
+  switch (source.kind) {
+    case 'inbox':
+      return db.tasks.filter((t) => t.projectId === null);
+    case 'project': {
+      const project = findProject(db, source.name);
+      return db.tasks.filter((t) => t.projectId === project.id);
+    }
+    case 'tag': {
+      const tag = findTag(db, source.name);
+      return db.tasks.filter((t) => t.tagIds.includes(tag.id));
+    }
+    case 'folder': {
+      const name = resolveName(source.name, db.folders.map((f) => f.name), 'folder');
+      const folderIds = folderTreeIds(db, db.folders.find((f) => f.name === name)!.id);
+      const projectIds = new Set(db.projects.filter((p) => p.folderId && folderIds.has(p.folderId)).map((p) => p.id));
+      return db.tasks.filter((t) => t.projectId !== null && projectIds.has(t.projectId));
+    }
+    case 'flagged':
+      return db.tasks.filter((t) => t.flagged);
+    case 'due':
+      return db.tasks.filter((t) => isDueIn(t, source.when, now));
+    case 'forecast':
+      return db.tasks.filter((t) => isInForecast(t, now));
+    case 'perspective':
+      // The memory database has no custom perspectives; this reports the lookup failure.
+      resolveName(source.name, [], 'perspective');
+      return [];
+  }
+}
+
+type ReadOperations = Pick<TaskBackend, 'fetchTagNames' | 'fetchTasks' | 'fetchTasksById' | 'fetchCompletedTasks'>;
+
+function createReadOperations(db: MemoryDatabase, now: () => Date): ReadOperations {
+  return {
+    fetchTagNames: async () => db.tags.map((t) => t.name),
+
+    fetchTasks: async (source, fetchOptions) => {
+      const includeCompleted = fetchOptions?.includeCompleted ?? false;
+      const at = now();
+      const tasks = tasksForSource(db, source, at)
+        .filter((t) => includeCompleted || !(t.completed || t.dropped))
+        .map((t) => toOmniFocusTask(db, t, at));
+      return filterTasks(tasks, fetchOptions?.filter, at);
+    },
+
+    fetchTasksById: async (taskIds) => {
+      const at = now();
+      return taskIds
+        .map((id) => db.tasks.find((t) => t.id === id))
+        .filter((t): t is MemoryTask => t !== undefined)
+        .map((t) => toOmniFocusTask(db, t, at));
+    },
+
+    fetchCompletedTasks: async (since, until) => {
+      const at = now();
+      const [start, end] = [Date.parse(since), Date.parse(until)];
+      return db.tasks
+        .filter((t) => t.completed && t.completionDate && Date.parse(t.completionDate) >= start && Date.parse(t.completionDate) < end)
+        .map((t) => toOmniFocusTask(db, t, at));
+    },
+  };
+}
+
+type WriteOperations = Omit<TaskBackend, keyof ReadOperations | keyof ProjectOperations>;
+
+/**
+ * A new top-level task for the source: in the project, or in the inbox
+ * (tagged or flagged for tag and flagged sources).
+ *
+ * @throws For sources that are views over other containers (folder, due, …).
+ */
+function newTask(db: MemoryDatabase, source: TaskSource, name: string, note: string, stamp: string): MemoryTask {
+  if (!sourceAcceptsNewTasks(source)) {
+    throw new Error(`Cannot add tasks to ${sourceLabel(source)}`);
+  }
+  const task: MemoryTask = {
+    id: nextId(db, 'task-'),
+    name,
+    note,
+    completed: false,
+    projectId: null,
+    tagIds: [],
+    addedDate: stamp,
+    modifiedDate: stamp,
+  };
+  if (source.kind === 'project') {
+    task.projectId = findProject(db, source.name).id;
+  } else if (source.kind === 'tag') {
+    task.tagIds.push(findTag(db, source.name).id);
+  } else if (source.kind === 'flagged') {
+    task.flagged = true;
+  }
+  return task;
+}
+
+type StateOperations = Pick<TaskBackend, 'uncompleteTask' | 'dropTask' | 'deleteTask' | 'moveTaskToInbox'>;
+
+/** Reopening, dropping and deleting tasks, and moving them back to the inbox. */
+function createStateOperations(
+  db: MemoryDatabase,
+  commit: () => Promise<void>,
+  touch: (task: MemoryTask) => void,
+): StateOperations {
+  return {
+    uncompleteTask: async (taskId) => {
+      reopenWithAncestors(db, findTask(db, taskId, 'Failed to mark OmniFocus task incomplete: '), touch);
+      await commit();
+    },
+
+    dropTask: async (taskId) => {
+      const task = findTask(db, taskId, 'Failed to drop OmniFocus task: ');
+      for (const t of [task, ...descendantsOf(db, task)]) {
+        if (t.completed || t.dropped) continue;
+        t.dropped = true;
+        touch(t);
+      }
+      await commit();
+    },
+
+    deleteTask: async (taskId) => {
+      const task = findTask(db, taskId, 'Failed to delete OmniFocus task: ');
+      const removed = new Set([task, ...descendantsOf(db, task)]);
+      db.tasks = db.tasks.filter((t) => !removed.has(t));
+      await commit();
+    },
+
+    moveTaskToInbox: async (taskId) => {
+      const task = findTask(db, taskId, 'Failed to move OmniFocus task to the inbox: ');
+      task.parentId = null;
+      for (const t of [task, ...descendantsOf(db, task)]) {
+        t.projectId = null;
+        touch(t);
+      }
+      await commit();
+    },
+  };
+}
+
+type AttributeOperations = Pick<TaskBackend, 'setTaskDate' | 'setTaskFlagged' | 'addTagToTask' | 'removeTagFromTask'>;
+
+/** Dates, flag and tags of existing tasks. */
+function createAttributeOperations(
+  db: MemoryDatabase,
+  commit: () => Promise<void>,
+  touch: (task: MemoryTask) => void,
+): AttributeOperations {
+  return {
+    setTaskDate: async (taskId, field, date) => {
+      const task = findTask(db, taskId, `Failed to set ${field} date of OmniFocus task: `);
+      if (field === 'due') task.dueDate = date;
+      else task.deferDate = date;
+      touch(task);
+      await commit();
+    },
+
+    setTaskFlagged: async (taskId, flagged) => {
+      const task = findTask(db, taskId, 'Failed to flag OmniFocus task: ');
+      task.flagged = flagged;
+      touch(task);
+      await commit();
+    },
+
+    addTagToTask: async (taskId, tagName) => {
+      const tag = findTag(db, tagName);
+      const task = findTask(db, taskId, 'Failed to tag OmniFocus task: ');
+      if (!task.tagIds.includes(tag.id)) task.tagIds.push(tag.id);
+      touch(task);
+      await commit();
+    },
+
+    removeTagFromTask: async (taskId, tagName) => {
+      const tag = findTag(db, tagName);
+      const task = findTask(db, taskId, 'Failed to untag OmniFocus task: ');
+      task.tagIds = task.tagIds.filter((id) => id !== tag.id);
+      touch(task);
+      await commit();
+    },
+  };
+}
+
+function createWriteOperations(
+  db: MemoryDatabase,
+  commit: () => Promise<void>,
+  now: () => Date,
+): WriteOperations {
+  const touch = (task: MemoryTask) => {
+    task.modifiedDate = now().toISOString();
+  };
+  return {
+    ...createAttributeOperations(db, commit, touch),
+    ...createStateOperations(db, commit, touch),
+    createTask: async (source, taskName, taskNote = '') => {
+      const task = newTask(db, source, taskName, taskNote, now().toISOString());
+      db.tasks.push(task);
+      await commit();
+      return task.id;
+    },
+
+    completeTask: async (taskId) => {
+      const task = findTask(db, taskId, 'Failed to complete OmniFocus task: ');
+      completeWithHierarchy(db, task, (t) => {
+        t.completionDate = now().toISOString();
+        touch(t);
+      });
+      await commit();
+    },
+
+    updateTask: async (taskId, name, note) => {
+      const task = findTask(db, taskId, 'Failed to update OmniFocus task: ');
+      task.name = name;
+      task.note = note;
+      touch(task);
+      await commit();
+    },
+
+    moveTaskToProject: async (taskId, projectName) => {
+      const project = findProject(db, projectName);
+      const task = findTask(db, taskId, 'Failed to move OmniFocus task: ');
+      task.parentId = null;
+      for (const t of [task, ...descendantsOf(db, task)]) {
+        t.projectId = project.id;
+        touch(t);
+      }
+      await commit();
+    },
+  };
+}
+
+/**
+ * Create a backend over the given database. The database is copied; read the
+ * current state with `snapshot()`.
+ *
+ * @param initial - Starting database (e.g. from `parseMemoryDatabase`).
+ * @param options.onChange - Called with a snapshot after every mutation.
+ * @param options.now - Clock for timestamps and status (defaults to the system clock).
+ */
+export function createMemoryBackend(
+  initial: MemoryDatabase = emptyMemoryDatabase(),
+  options: {
+    onChange?: (db: MemoryDatabase) => void | Promise<void>;
+    now?: () => Date;
+  } = {},
+): MemoryBackend {
+  const db = cloneDatabase(initial);
+  const now = options.now ?? (() => new Date());
+  const commit = async (): Promise<void> => {
+    if (options.onChange) await options.onChange(cloneDatabase(db));
+  };
+  return {
+    snapshot: () => cloneDatabase(db),
+    ...createReadOperations(db, now),
+    ...createProjectOperations(db, commit, now),
+    ...createWriteOperations(db, commit, now),
+  };
+}
@@ -0,0 +1,194 @@
+/**
+ * Database format of the in-memory backend: folders, projects, tags and
+ * tasks as stored in the JSON file, plus parsing and validation.
+ * Backend behaviour lives in omnifocus-memory-backend.ts.
+ */
+
+import type { ProjectStatus } from './omnifocus';
+import { PROJECT_STATUSES } from './omnifocus';
+
+/** Folder; `parentId` null means top level. */
+export interface MemoryFolder {
+  id: string;
+  name: string;
+  parentId: string | null;
+}
+
+/** Project; `folderId` null means top level. Review and metadata fields are optional like task metadata. */
+export interface MemoryProject {
+  id: string;
+  name: string;
+  note: string;
+  folderId: string | null;
+  /** Defaults to active. */
+  status?: ProjectStatus;
+  dueDate?: string | null;
+  deferDate?: string | null;
+  flagged?: boolean;
+  tagIds?: string[];
+  lastReviewDate?: string | null;
+  nextReviewDate?: string | null;
+  /** Days between reviews; OmniFocus's default of a week when unset. */
+  reviewIntervalDays?: number;
+}
+
+export interface MemoryTag {
+  id: string;
+  name: string;
+}
+
+/**
+ * Task; `projectId` null means the task is in the inbox, `parentId` names the
+ * containing action group (null at top level). Children share their parent's
+ * project. Metadata fields are optional so hand-written databases stay short;
+ * dates are ISO 8601 strings.
+ */
+export interface MemoryTask {
+  id: string;
+  name: string;
+  note: string;
+  completed: boolean;
+  /** Dropped tasks are hidden like completed ones and count as closed. */
+  dropped?: boolean;
+  projectId: string | null;
+  tagIds: string[];
+  parentId?: string | null;
+  /** Action groups complete when their last child does, unless this is false. */
+  completedByChildren?: boolean;
+  dueDate?: string | null;
+  deferDate?: string | null;
+  flagged?: boolean;
+  estimatedMinutes?: number | null;
+  addedDate?: string | null;
+  modifiedDate?: string | null;
+  completionDate?: string | null;
+}
+
+/** Whole database as stored in the JSON file. */
+export interface MemoryDatabase {
+  folders: MemoryFolder[];
+  projects: MemoryProject[];
+  tags: MemoryTag[];
+  tasks: MemoryTask[];
+}
+
+export function emptyMemoryDatabase(): MemoryDatabase {
+  return { folders: [], projects: [], tags: [], tasks: [] };
+}
+
+/** Generate an id with the given prefix that is not used by any entity yet. */
+export function nextId(db: MemoryDatabase, prefix: string): string {
+  const used = new Set<string>([
+    ...db.folders.map((f) => f.id),
+    ...db.projects.map((p) => p.id),
+    ...db.tags.map((t) => t.id),
+    ...db.tasks.map((t) => t.id),
+  ]);
+  let n = used.size + 1;
+  while (used.has(`${prefix}${n}`)) n++;
+  return `${prefix}${n}`;
+}
+
+export function cloneDatabase(db: MemoryDatabase): MemoryDatabase {
+  return JSON.parse(JSON.stringify(db)) as MemoryDatabase;
+}
+
+function expectArray(value: unknown, key: string): unknown[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    throw new Error(`Invalid OmniFocus JSON database: "${key}" must be an array.`);
+  }
+  return value;
+}
+
+function expectString(value: unknown, where: string): string {
+  if (typeof value !== 'string') {
+    throw new Error(`Invalid OmniFocus JSON database: ${where} must be a string.`);
+  }
+  return value;
+}
+
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' ? value : null;
+}
+
+/** Status, review and metadata fields of a project, left out when absent. */
+function projectOptionalFields(e: Record<string, unknown>, where: string): Partial<MemoryProject> {
+  const fields: Partial<MemoryProject> = {};
+  if (e.status !== undefined) {
+    if (!(PROJECT_STATUSES as readonly unknown[]).includes(e.status)) {
+      throw new Error(`Invalid OmniFocus JSON database: ${where}.status must be one of ${PROJECT_STATUSES.join(', ')}.`);
+    }
+    fields.status = e.status as ProjectStatus;
+  }
+  if (e.lastReviewDate !== undefined) fields.lastReviewDate = optionalString(e.lastReviewDate);
+  if (e.nextReviewDate !== undefined) fields.nextReviewDate = optionalString(e.nextReviewDate);
+  if (typeof e.reviewIntervalDays === 'number') fields.reviewIntervalDays = e.reviewIntervalDays;
+  if (e.dueDate !== undefined) fields.dueDate = optionalString(e.dueDate);
+  if (e.deferDate !== undefined) fields.deferDate = optionalString(e.deferDate);
+  if (typeof e.flagged === 'boolean') fields.flagged = e.flagged;
+  if (Array.isArray(e.tagIds)) fields.tagIds = e.tagIds.filter((t): t is string => typeof t === 'string');
+  return fields;
+}
+
+/**
+ * Parse and validate a JSON database. Optional fields (note, completed,
+ * folderId, projectId, tagIds, parentId) may be omitted in hand-written files.
+ *
+ * @throws If the JSON is malformed or a required field is missing.
+ */
+export function parseMemoryDatabase(json: string): MemoryDatabase {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (err) {
+    throw new Error(`Invalid OmniFocus JSON database: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error('Invalid OmniFocus JSON database: expected an object.');
+  }
+  const obj = raw as Record<string, unknown>;
+  const entries = (key: string) =>
+    expectArray(obj[key], key).map((e, i) => {
+      if (typeof e !== 'object' || e === null) {
+        throw new Error(`Invalid OmniFocus JSON database: ${key}[${i}] must be an object.`);
+      }
+      return { e: e as Record<string, unknown>, where: `${key}[${i}]` };
+    });
+  return {
+    folders: entries('folders').map(({ e, where }) => ({
+      id: expectString(e.id, `${where}.id`),
+      name: expectString(e.name, `${where}.name`),
+      parentId: optionalString(e.parentId),
+    })),
+    projects: entries('projects').map(({ e, where }) => ({
+      id: expectString(e.id, `${where}.id`),
+      name: expectString(e.name, `${where}.name`),
+      note: optionalString(e.note) ?? '',
+      folderId: optionalString(e.folderId),
+      ...projectOptionalFields(e, where),
+    })),
+    tags: entries('tags').map(({ e, where }) => ({
+      id: expectString(e.id, `${where}.id`),
+      name: expectString(e.name, `${where}.name`),
+    })),
+    tasks: entries('tasks').map(({ e, where }) => ({
+      id: expectString(e.id, `${where}.id`),
+      name: expectString(e.name, `${where}.name`),
+      note: optionalString(e.note) ?? '',
+      completed: e.completed === true,
+      ...(e.dropped === true ? { dropped: true } : {}),
+      projectId: optionalString(e.projectId),
+      tagIds: Array.isArray(e.tagIds) ? e.tagIds.filter((t): t is string => typeof t === 'string') : [],
+      parentId: optionalString(e.parentId),
+      completedByChildren: e.completedByChildren !== false,
+      dueDate: optionalString(e.dueDate),
+      deferDate: optionalString(e.deferDate),
+      flagged: e.flagged === true,
+      estimatedMinutes: typeof e.estimatedMinutes === 'number' ? e.estimatedMinutes : null,
+      addedDate: optionalString(e.addedDate),
+      modifiedDate: optionalString(e.modifiedDate),
+      completionDate: optionalString(e.completionDate),
+    })),
+  };
+}
@@ -0,0 +1,87 @@
+import { createMemoryBackend, parseMemoryDatabase } from './omnifocus-memory-backend';
+import type { MemoryDatabase } from './omnifocus-memory-backend';
+
+describe('createMemoryBackend - project reviews', () => {
+  const now = new Date('2026-10-19T12:00:00.000Z');
+  const db = (): MemoryDatabase => ({
+    folders: [{ id: 'f1', name: 'Work', parentId: null }],
+    projects: [
+      { id: 'p1', name: 'Website', note: '', folderId: 'f1', nextReviewDate: '2026-10-18T09:00:00.000Z', reviewIntervalDays: 14 },
+      { id: 'p2', name: 'Garden', note: '', folderId: null, status: 'on-hold' },
+    ],
+    tags: [],
+    tasks: [],
+  });
+
+  it('reports paths, statuses and review dates', async () => {
+    expect(await createMemoryBackend(db()).fetchProjectReviews()).toEqual([
+      { id: 'p1', name: 'Website', path: 'Work/Website', status: 'active', lastReviewDate: null, nextReviewDate: '2026-10-18T09:00:00.000Z' },
+      { id: 'p2', name: 'Garden', path: 'Garden', status: 'on-hold', lastReviewDate: null, nextReviewDate: null },
+    ]);
+  });
+
+  it('marks projects reviewed by their interval and sets their status', async () => {
+    const backend = createMemoryBackend(db(), { now: () => now });
+    await backend.markProjectReviewed('p1');
+    await backend.markProjectReviewed('p2');
+    await backend.setProjectStatus('p2', 'completed');
+    expect(backend.snapshot().projects).toMatchObject([
+      { lastReviewDate: now.toISOString(), nextReviewDate: '2026-11-02T12:00:00.000Z' },
+      { status: 'completed', nextReviewDate: '2026-10-26T12:00:00.000Z' },
+    ]);
+  });
+
+  it('rejects unknown project statuses in the database file', () => {
+    const json = JSON.stringify({ projects: [{ id: 'p', name: 'P', status: 'paused' }] });
+    expect(() => parseMemoryDatabase(json)).toThrow('projects[0].status must be one of active');
+  });
+
+  it('rejects a review of an unknown project id', async () => {
+    await expect(createMemoryBackend(db()).markProjectReviewed('Website')).rejects.toThrow('No project with id "Website"');
+  });
+});
+
+describe('createMemoryBackend - project metadata', () => {
+  const task = (id: string, fields: Partial<MemoryDatabase['tasks'][number]> = {}) => ({
+    id,
+    name: id,
+    note: '',
+    completed: false,
+    projectId: 'p1',
+    tagIds: [],
+    ...fields,
+  });
+
+  it('reports dates, flag, tag names and task counts', async () => {
+    const json = JSON.stringify({
+      projects: [
+        { id: 'p1', name: 'Website', dueDate: '2026-11-01T17:00:00.000Z', flagged: true, tagIds: ['t1'] },
+        { id: 'p2', name: 'Garden', lastReviewDate: '2026-10-12T09:00:00.000Z' },
+      ],
+      tags: [{ id: 't1', name: 'Work' }],
+      tasks: [task('a'), task('b', { completed: true }), task('c', { dropped: true }), task('d', { projectId: null })],
+    });
+    expect(await createMemoryBackend(parseMemoryDatabase(json)).fetchProjectMetadata()).toEqual([
+      {
+        id: 'p1',
+        dueDate: '2026-11-01T17:00:00.000Z',
+        deferDate: null,
+        flagged: true,
+        tags: ['Work'],
+        remainingTasks: 1,
+        completedTasks: 1,
+        lastReviewDate: null,
+      },
+      {
+        id: 'p2',
+        dueDate: null,
+        deferDate: null,
+        flagged: false,
+        tags: [],
+        remainingTasks: 0,
+        completedTasks: 0,
+        lastReviewDate: '2026-10-12T09:00:00.000Z',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Project operations of the in-memory backend: project paths and notes,
+ * creating projects, and the review state and status of projects.
+ * Task operations live in omnifocus-memory-backend.ts.
+ */
+
+import type {
+  OmniFocusProjectMetadata,
+  OmniFocusProjectReview,
+  OmniFocusProjectWithNote,
+  ProjectPathWithNote,
+} from './omnifocus';
+import { resolveName, sanitizeProjectPath } from './omnifocus';
+import type { TaskBackend } from './omnifocus-backend';
+import { nextId } from './omnifocus-memory-database';
+import type { MemoryDatabase, MemoryProject } from './omnifocus-memory-database';
+
+/** Review interval of projects that do not set `reviewIntervalDays`, as in OmniFocus. */
+const DEFAULT_REVIEW_INTERVAL_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Project paths in the same order as the AppleScript backend: for each level,
+ * sub-folders (recursively) first, then the projects directly inside it.
+ */
+function collectProjects(
+  db: MemoryDatabase,
+  folderId: string | null,
+  prefix: string,
+): { path: string; project: MemoryProject }[] {
+  const out: { path: string; project: MemoryProject }[] = [];
+  for (const folder of db.folders.filter((f) => f.parentId === folderId)) {
+    out.push(...collectProjects(db, folder.id, `${prefix}${folder.name}/`));
+  }
+  for (const project of db.projects.filter((p) => p.folderId === folderId)) {
+    out.push({ path: `${prefix}${project.name}`, project });
+  }
+  return out;
+}
+
+/** Metadata of a project; tasks count like OmniFocus's (action groups included, dropped tasks in neither count). */
+function projectMetadata(db: MemoryDatabase, project: MemoryProject): OmniFocusProjectMetadata {
+  const tasks = db.tasks.filter((t) => t.projectId === project.id);
+  return {
+    id: project.id,
+    dueDate: project.dueDate ?? null,
+    deferDate: project.deferDate ?? null,
+    flagged: project.flagged ?? false,
+    tags: (project.tagIds ?? []).map((id) => db.tags.find((t) => t.id === id)?.name ?? id),
+    remainingTasks: tasks.filter((t) => !t.completed && !t.dropped).length,
+    completedTasks: tasks.filter((t) => t.completed && !t.dropped).length,
+    lastReviewDate: project.lastReviewDate ?? null,
+  };
+}
+
+export function findProject(db: MemoryDatabase, query: string): MemoryProject {
+  const name = resolveName(query, db.projects.map((p) => p.name), 'project');
+  return db.projects.find((p) => p.name === name)!;
+}
+
+function projectWithId(db: MemoryDatabase, projectId: string): MemoryProject {
+  const project = db.projects.find((p) => p.id === projectId);
+  if (!project) {
+    throw new Error(`No project with id "${projectId}"`);
+  }
+  return project;
+}
+
+export type ProjectOperations = Pick<
+  TaskBackend,
+  | 'fetchProjectPaths'
+  | 'fetchProjectPathsWithNotes'
+  | 'fetchProjectNames'
+  | 'fetchProjectsWithNotes'
+  | 'createProject'
+  | 'updateProjectNote'
+  | 'fetchProjectReviews'
+  | 'fetchProjectMetadata'
+  | 'markProjectReviewed'
+  | 'setProjectStatus'
+>;
+
+export function createProjectOperations(
+  db: MemoryDatabase,
+  commit: () => Promise<void>,
+  now: () => Date,
+): ProjectOperations {
+  return {
+    fetchProjectPaths: async () =>
+      collectProjects(db, null, '').map(({ path }) => sanitizeProjectPath(path)).filter(Boolean),
+
+    fetchProjectPathsWithNotes: async (): Promise<ProjectPathWithNote[]> =>
+      collectProjects(db, null, '')
+        .map(({ path, project }) => ({
+          path: sanitizeProjectPath(path),
+          note: project.note,
+          id: project.id,
+          status: project.status ?? 'active',
+        }))
+        .filter((p) => p.path),
+
+    fetchProjectNames: async () => db.projects.map((p) => p.name),
+
+    fetchProjectsWithNotes: async (): Promise<OmniFocusProjectWithNote[]> =>
+      db.projects.map((p) => ({ name: p.name, note: p.note })),
+
+    createProject: async (projectName) => {
+      db.projects.push({ id: nextId(db, 'project-'), name: projectName, note: '', folderId: null });
+      await commit();
+    },
+
+    updateProjectNote: async (projectId, note) => {
+      projectWithId(db, projectId).note = note;
+      await commit();
+    },
+
+    fetchProjectReviews: async (): Promise<OmniFocusProjectReview[]> =>
+      collectProjects(db, null, '').map(({ path, project }) => ({
+        id: project.id,
+        name: project.name,
+        path: sanitizeProjectPath(path),
+        status: project.status ?? 'active',
+        lastReviewDate: project.lastReviewDate ?? null,
+        nextReviewDate: project.nextReviewDate ?? null,
+      })),
+
+    fetchProjectMetadata: async (): Promise<OmniFocusProjectMetadata[]> =>
+      db.projects.map((project) => projectMetadata(db, project)),
+
+    markProjectReviewed: async (projectId) => {
+      const project = projectWithId(db, projectId);
+      const at = now();
+      const days = project.reviewIntervalDays ?? DEFAULT_REVIEW_INTERVAL_DAYS;
+      project.lastReviewDate = at.toISOString();
+      project.nextReviewDate = new Date(at.getTime() + days * DAY_MS).toISOString();
+      await commit();
+    },
+
+    setProjectStatus: async (projectId, status) => {
+      projectWithId(db, projectId).status = status;
+      await commit();
+    },
+  };
+}
@@ -0,0 +1,128 @@
+import { AppleScriptTransportError } from './omnifocus-applescript';
+import { getTaskBackend, setTaskBackend } from './omnifocus-backend';
+import { JxaTransportError } from './omnifocus-jxa';
+import { createMemoryBackend } from './omnifocus-memory-backend';
+import type { OmniFocusTask } from './omnifocus';
+import { applyQueuedChanges, createOfflineCache, MAX_OFFLINE_SNAPSHOTS, parseOfflineData } from './omnifocus-offline';
+import type { OfflineData, ReplayResult } from './omnifocus-offline';
+
+const task = (id: string, name = id): OmniFocusTask => ({ id, name, note: '' });
+const at = (iso: string) => () => new Date(iso);
+
+describe('parseOfflineData', () => {
+  it('keeps well-formed snapshots and queued changes and drops the rest', () => {
+    const data = parseOfflineData({
+      snapshots: { a: { tasks: [task('1')], savedAt: '2026-10-19T08:00:00.000Z' }, b: { tasks: 'x' } },
+      queue: [{ kind: 'complete', taskId: '1', taskName: '1', queuedAt: '2026-10-19T09:00:00.000Z' }, { kind: 'rename' }],
+    });
+    expect(Object.keys(data.snapshots)).toEqual(['a']);
+    expect(data.queue).toHaveLength(1);
+    expect(parseOfflineData(undefined)).toEqual({ snapshots: {}, queue: [] });
+  });
+});
+
+describe('applyQueuedChanges', () => {
+  it('shows queued completions and appends tasks queued for the same source', () => {
+    const queue: OfflineData['queue'] = [
+      { kind: 'complete', taskId: '1', taskName: 'One', queuedAt: '' },
+      { kind: 'create', source: { kind: 'inbox' }, name: 'New', note: 'n', queuedAt: '' },
+      { kind: 'create', source: { kind: 'project', name: 'P' }, name: 'Elsewhere', note: '', queuedAt: '' },
+    ];
+    expect(applyQueuedChanges([task('1'), task('2')], queue, { kind: 'inbox' })).toEqual([
+      { ...task('1'), completed: true },
+      task('2'),
+      { id: 'queued:1', name: 'New', note: 'n' },
+    ]);
+  });
+});
+
+describe('createOfflineCache', () => {
+  const original = getTaskBackend();
+  afterEach(() => setTaskBackend(original));
+
+  it('remembers results with their time and saves every change', () => {
+    const saved: OfflineData[] = [];
+    const cache = createOfflineCache(parseOfflineData(null), (d) => saved.push(d), at('2026-10-19T08:00:00.000Z'));
+    cache.remember('inbox', [task('1')]);
+    expect(cache.staleSnapshot('inbox', { kind: 'inbox' })).toEqual({ tasks: [task('1')], savedAt: '2026-10-19T08:00:00.000Z' });
+    expect(cache.staleSnapshot('other', { kind: 'inbox' })).toBeNull();
+    expect(saved).toHaveLength(1);
+  });
+
+  it('only saves again when the remembered tasks changed', () => {
+    const saved: OfflineData[] = [];
+    const cache = createOfflineCache(parseOfflineData(null), (d) => saved.push(d));
+    cache.remember('inbox', [task('1')]);
+    cache.remember('inbox', [task('1')]);
+    expect(saved).toHaveLength(1);
+    cache.remember('inbox', [task('1', 'Renamed')]);
+    expect(saved).toHaveLength(2);
+  });
+
+  it('keeps only the most recent snapshots', () => {
+    let minute = 0;
+    const cache = createOfflineCache(parseOfflineData(null), () => undefined, () => new Date(Date.UTC(2026, 9, 19, 0, minute++)));
+    for (let i = 0; i <= MAX_OFFLINE_SNAPSHOTS; i++) cache.remember(`q${i}`, []);
+    expect(cache.staleSnapshot('q0', { kind: 'inbox' })).toBeNull();
+    expect(cache.staleSnapshot(`q${MAX_OFFLINE_SNAPSHOTS}`, { kind: 'inbox' })).not.toBeNull();
+  });
+
+});
+
+describe('createOfflineCache - replay', () => {
+  const original = getTaskBackend();
+  afterEach(() => setTaskBackend(original));
+
+  it('replays queued changes in order once a fetch succeeds', async () => {
+    const backend = createMemoryBackend({
+      folders: [],
+      projects: [],
+      tags: [],
+      tasks: [{ id: 't1', name: 'One', note: '', completed: false, projectId: null, tagIds: [] }],
+    });
+    setTaskBackend(backend);
+    const cache = createOfflineCache(parseOfflineData(null), () => undefined);
+    const replayed: number[] = [];
+    cache.onReplayed((result) => replayed.push(result.sent));
+    cache.enqueue({ kind: 'complete', taskId: 't1', taskName: 'One' });
+    cache.enqueue({ kind: 'create', source: { kind: 'inbox' }, name: 'Two', note: '' });
+    cache.remember('inbox', []);
+    await cache.replay();
+    expect(cache.pending()).toEqual([]);
+    expect(replayed).toEqual([2]);
+    const tasks = await backend.fetchTasks({ kind: 'inbox' }, { includeCompleted: true });
+    expect(tasks.map((t) => [t.name, t.completed === true])).toEqual([['One', true], ['Two', false]]);
+  });
+
+  it('drops and reports changes OmniFocus rejects, and sends the rest', async () => {
+    setTaskBackend(createMemoryBackend());
+    const cache = createOfflineCache(parseOfflineData(null), () => undefined);
+    const results: ReplayResult[] = [];
+    cache.onReplayed((result) => results.push(result));
+    cache.enqueue({ kind: 'complete', taskId: 'missing', taskName: 'Gone' });
+    cache.enqueue({ kind: 'create', source: { kind: 'inbox' }, name: 'Two', note: '' });
+    expect(await cache.replay()).toBe(1);
+    expect(cache.pending()).toEqual([]);
+    expect(results).toEqual([{ sent: 1, dropped: [{ change: expect.objectContaining({ taskName: 'Gone' }), error: expect.any(String) }] }]);
+  });
+
+  it('stops when OmniFocus cannot be reached and keeps the rest queued', async () => {
+    const backend = createMemoryBackend();
+    setTaskBackend({ ...backend, completeTask: () => Promise.reject(new JxaTransportError('osascript failed')) });
+    const cache = createOfflineCache(parseOfflineData(null), () => undefined);
+    cache.enqueue({ kind: 'complete', taskId: 't1', taskName: 'One' });
+    cache.enqueue({ kind: 'create', source: { kind: 'inbox' }, name: 'Two', note: '' });
+    expect(await cache.replay()).toBe(0);
+    expect(cache.pending().map((c) => c.kind)).toEqual(['complete', 'create']);
+  });
+
+  it('keeps changes queued when the AppleScript transport cannot reach OmniFocus', async () => {
+    const backend = createMemoryBackend();
+    const unreachable = () => Promise.reject(new AppleScriptTransportError('AppleEvent timed out. (-1712)'));
+    setTaskBackend({ ...backend, completeTask: unreachable });
+    const cache = createOfflineCache(parseOfflineData(null), () => undefined);
+    cache.enqueue({ kind: 'complete', taskId: 't1', taskName: 'One' });
+    expect(await cache.replay()).toBe(0);
+    expect(cache.pending()).toEqual([expect.objectContaining({ kind: 'complete', taskId: 't1' })]);
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Offline cache for OmniFocus blocks (no lit or Obsidian dependency).
+ *
+ * The last successful result of every block query is kept in the plugin's
+ * data with the time it was fetched. When a live fetch fails (OmniFocus
+ * closed, or the vault opened on a device without it), the task store shows
+ * that snapshot instead, read-only. Completions and new tasks made meanwhile
+ * are queued and replayed, in order, after the next successful fetch. A
+ * change OmniFocus rejects (e.g. its task was deleted) is dropped from the
+ * queue and reported; one that could not reach OmniFocus stays queued.
+ */
+
+import { completeTask, createTask } from './omnifocus';
+import type { OmniFocusTask, TaskSource } from './omnifocus';
+import { AppleScriptTransportError } from './omnifocus-applescript';
+import { JxaTransportError } from './omnifocus-jxa';
+import { hashTasks } from './omnifocus-task-store';
+
+/** Tasks of one query as last fetched. */
+export interface TaskSnapshot {
+  tasks: OmniFocusTask[];
+  /** ISO time of the fetch. */
+  savedAt: string;
+}
+
+/** A change made while OmniFocus was unreachable. */
+export type QueuedChange =
+  | { kind: 'complete'; taskId: string; taskName: string; queuedAt: string }
+  | { kind: 'create'; source: TaskSource; name: string; note: string; queuedAt: string };
+
+/** What is stored in the plugin data. */
+export interface OfflineData {
+  /** Keyed by `taskQueryKey`. */
+  snapshots: Record<string, TaskSnapshot>;
+  queue: QueuedChange[];
+}
+
+/** Outcome of a replay that sent or dropped any change. */
+export interface ReplayResult {
+  sent: number;
+  /** Changes OmniFocus rejected, removed from the queue. */
+  dropped: { change: QueuedChange; error: string }[];
+}
+
+export interface OfflineCache {
+  /**
+   * Store a successful fetch; replays the queue when it holds changes. The
+   * plugin data is only saved when the tasks differ from the stored ones.
+   */
+  remember(key: string, tasks: OmniFocusTask[]): void;
+  /** The cached tasks of a query with queued changes applied, or null when nothing is cached. */
+  staleSnapshot(key: string, source: TaskSource): TaskSnapshot | null;
+  enqueue(change: DistributiveOmit<QueuedChange, 'queuedAt'>): void;
+  pending(): QueuedChange[];
+  /**
+   * Send queued changes in order. Changes OmniFocus rejects are dropped; the
+   * replay stops when OmniFocus cannot be reached (the rest stay queued).
+   * Concurrent calls share one run.
+   *
+   * @returns How many changes were sent.
+   */
+  replay(): Promise<number>;
+  /** Called after a replay that sent or dropped any change; returns an unsubscribe function. */
+  onReplayed(listener: (result: ReplayResult) => void): () => void;
+}
+
+type DistributiveOmit<T, K extends keyof T> = T extends unknown ? Omit<T, K> : never;
+
+/** Snapshots kept at most; the oldest are dropped first. */
+export const MAX_OFFLINE_SNAPSHOTS = 50;
+
+/** Id prefix of tasks that are queued for creation and not in OmniFocus yet. */
+export const QUEUED_TASK_ID_PREFIX = 'queued:';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Read offline data from the plugin data; anything malformed is dropped. */
+export function parseOfflineData(raw: unknown): OfflineData {
+  const data: OfflineData = { snapshots: {}, queue: [] };
+  if (!isRecord(raw)) return data;
+  if (isRecord(raw.snapshots)) {
+    for (const key of Object.keys(raw.snapshots)) {
+      const snapshot = raw.snapshots[key];
+      if (isRecord(snapshot) && Array.isArray(snapshot.tasks) && typeof snapshot.savedAt === 'string') {
+        data.snapshots[key] = { tasks: snapshot.tasks as OmniFocusTask[], savedAt: snapshot.savedAt };
+      }
+    }
+  }
+  if (Array.isArray(raw.queue)) {
+    data.queue = raw.queue.filter(
+      (c): c is QueuedChange => isRecord(c) && (c.kind === 'complete' || c.kind === 'create') && typeof c.queuedAt === 'string',
+    );
+  }
+  return data;
+}
+
+/**
+ * Cached tasks with queued changes applied: queued completions show as
+ * completed, and tasks queued for creation in `source` are appended.
+ */
+export function applyQueuedChanges(tasks: OmniFocusTask[], queue: QueuedChange[], source: TaskSource): OmniFocusTask[] {
+  const completed = new Set<string>();
+  for (const c of queue) if (c.kind === 'complete') completed.add(c.taskId);
+  const sourceKey = JSON.stringify(source);
+  const created = queue
+    .map((c, i): OmniFocusTask | null =>
+      c.kind === 'create' && JSON.stringify(c.source) === sourceKey
+        ? { id: `${QUEUED_TASK_ID_PREFIX}${i}`, name: c.name, note: c.note }
+        : null,
+    )
+    .filter((t): t is OmniFocusTask => t !== null);
+  return [...tasks.map((t) => (completed.has(t.id) ? { ...t, completed: true } : t)), ...created];
+}
+
+/** Short description of a queued change, e.g. for a notice. */
+export function describeQueuedChange(change: QueuedChange): string {
+  return change.kind === 'complete' ? `Complete "${change.taskName}"` : `Create "${change.name}"`;
+}
+
+/** Snapshots with one added or replaced, keeping the {@link MAX_OFFLINE_SNAPSHOTS} most recent. */
+function withSnapshot(
+  snapshots: Record<string, TaskSnapshot>,
+  key: string,
+  snapshot: TaskSnapshot,
+): Record<string, TaskSnapshot> {
+  const next = { ...snapshots, [key]: snapshot };
+  const keys = Object.keys(next).sort((a, b) => next[b].savedAt.localeCompare(next[a].savedAt));
+  for (const old of keys.slice(MAX_OFFLINE_SNAPSHOTS)) delete next[old];
+  return next;
+}
+
+/**
+ * Send one queued change.
+ *
+ * @returns Null when it was sent, or OmniFocus's error when it rejected it.
+ * @throws JxaTransportError or AppleScriptTransportError when OmniFocus could not be reached.
+ */
+function sendQueuedChange(change: QueuedChange): Promise<string | null> {
+  const sent = change.kind === 'complete'
+    ? completeTask(change.taskId)
+    : createTask(change.source, change.name, change.note).then(() => undefined);
+  return sent.then(
+    () => null,
+    (err) => {
+      if (err instanceof JxaTransportError || err instanceof AppleScriptTransportError) throw err;
+      return err instanceof Error ? err.message : String(err);
+    },
+  );
+}
+
+/**
+ * Create the offline cache.
+ *
+ * @param initial - Data loaded from the plugin data (see {@link parseOfflineData}).
+ * @param save - Persists the data after every change.
+ * @param now - Clock (for tests).
+ */
+export function createOfflineCache(
+  initial: OfflineData,
+  save: (data: OfflineData) => void,
+  now: () => Date = () => new Date(),
+): OfflineCache {
+  let data = initial;
+  let replaying: Promise<number> | null = null;
+  const listeners = new Set<(result: ReplayResult) => void>();
+  const commit = (next: OfflineData) => {
+    data = next;
+    save(data);
+  };
+
+  const sendAll = async (): Promise<number> => {
+    const result: ReplayResult = { sent: 0, dropped: [] };
+    while (data.queue.length > 0) {
+      const change = data.queue[0];
+      const error = await sendQueuedChange(change).catch(() => undefined);
+      if (error === undefined) break;
+      if (error === null) result.sent++;
+      else result.dropped.push({ change, error });
+      // Changes queued while sending were appended, so this one is still first.
+      commit({ ...data, queue: data.queue.slice(1) });
+    }
+    if (result.sent > 0 || result.dropped.length > 0) listeners.forEach((listener) => listener(result));
+    return result.sent;
+  };
+
+  const replay = () => {
+    if (!replaying) {
+      replaying = sendAll().then((sent) => {
+        replaying = null;
+        return sent;
+      });
+    }
+    return replaying;
+  };
+
+  return {
+    remember: (key, tasks) => {
+      const previous = data.snapshots[key];
+      const snapshots = withSnapshot(data.snapshots, key, { tasks, savedAt: now().toISOString() });
+      // Polling mostly fetches the same tasks; only write the plugin data when they changed.
+      if (previous && hashTasks(previous.tasks) === hashTasks(tasks)) data = { ...data, snapshots };
+      else commit({ ...data, snapshots });
+      if (data.queue.length > 0) void replay();
+    },
+    staleSnapshot: (key, source) => {
+      const snapshot = data.snapshots[key];
+      return snapshot ? { tasks: applyQueuedChanges(snapshot.tasks, data.queue, source), savedAt: snapshot.savedAt } : null;
+    },
+    enqueue: (change) => {
+      commit({ ...data, queue: [...data.queue, { ...change, queuedAt: now().toISOString() } as QueuedChange] });
+    },
+    pending: () => data.queue,
+    replay,
+    onReplayed: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
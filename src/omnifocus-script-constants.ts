@@ -66,7 +66,7 @@ tell application "OmniFocus"
   end repeat
   repeat with p in rootProjects
     tell application "OmniFocus"
-      set pname to name of p
+      set {pname, pid, pstatus} to {name of p, id of p, status of p as text}
       set noteText to note of p
       if noteText is missing value then set noteText to ""
     end tell
@@ -77,7 +77,7 @@ tell application "OmniFocus"
     set noteSafe to noteParts as text
     set AppleScript's text item delimiters to oldTID
     if length of out > 0 then set out to out & lf
-    set out to out & pname & sep & noteSafe
+    set out to out & pname & sep & noteSafe & sep & pid & sep & pstatus
   end repeat
   return out
 end tell
@@ -100,7 +100,7 @@ on collectFromFolderWithNotes(theFolder, prefix)
   end repeat
   repeat with p in projectList
     tell application "OmniFocus"
-      set pname to name of p
+      set {pname, pid, pstatus} to {name of p, id of p, status of p as text}
       set noteText to note of p
       if noteText is missing value then set noteText to ""
     end tell
@@ -111,7 +111,7 @@ on collectFromFolderWithNotes(theFolder, prefix)
     set noteSafe to noteParts as text
     set AppleScript's text item delimiters to oldTID
     if length of out > 0 then set out to out & lf
-    set out to out & (prefix & pname) & sep & noteSafe
+    set out to out & (prefix & pname) & sep & noteSafe & sep & pid & sep & pstatus
   end repeat
   return out
 end collectFromFolderWithNotes
@@ -218,6 +218,41 @@ on run argv
 end run
 `;
 
+export const SCRIPT_UNCOMPLETE_TASK = `
+on run argv
+  set taskId to item 1 of argv
+  tell application "OmniFocus"
+    tell default document
+      set theTask to first flattened task whose id is taskId
+      mark incomplete theTask
+    end tell
+  end tell
+end run
+`;
+
+export const SCRIPT_DROP_TASK = `
+on run argv
+  set taskId to item 1 of argv
+  tell application "OmniFocus"
+    tell default document
+      set theTask to first flattened task whose id is taskId
+      mark dropped theTask
+    end tell
+  end tell
+end run
+`;
+
+export const SCRIPT_DELETE_TASK = `
+on run argv
+  set taskId to item 1 of argv
+  tell application "OmniFocus"
+    tell default document
+      delete (first flattened task whose id is taskId)
+    end tell
+  end tell
+end run
+`;
+
 export const SCRIPT_UPDATE_TASK = `
 on run argv
   set taskId to item 1 of argv
@@ -233,6 +268,77 @@ on run argv
 end run
 `;
 
+/**
+ * Args: task id, "due" or "defer", then year, month, day and seconds since
+ * midnight in local time. Without the date items the date is cleared.
+ */
+export const SCRIPT_SET_TASK_DATE = `
+on run argv
+  set taskId to item 1 of argv
+  set fieldName to item 2 of argv
+  set newDate to missing value
+  if (count of argv) > 2 then
+    set newDate to current date
+    set day of newDate to 1
+    set year of newDate to (item 3 of argv) as integer
+    set month of newDate to (item 4 of argv) as integer
+    set day of newDate to (item 5 of argv) as integer
+    set time of newDate to (item 6 of argv) as integer
+  end if
+  tell application "OmniFocus"
+    tell default document
+      set theTask to first flattened task whose id is taskId
+      if fieldName is "due" then
+        set due date of theTask to newDate
+      else
+        set defer date of theTask to newDate
+      end if
+    end tell
+  end tell
+end run
+`;
+
+export const SCRIPT_SET_TASK_FLAGGED = `
+on run argv
+  set taskId to item 1 of argv
+  set isFlagged to (item 2 of argv) is "true"
+  tell application "OmniFocus"
+    tell default document
+      set theTask to first flattened task whose id is taskId
+      set flagged of theTask to isFlagged
+    end tell
+  end tell
+end run
+`;
+
+export const SCRIPT_ADD_TASK_TAG = `
+on run argv
+  set taskId to item 1 of argv
+  set tagName to item 2 of argv
+  tell application "OmniFocus"
+    tell default document
+      set theTask to first flattened task whose id is taskId
+      set theTag to first flattened tag whose name is tagName
+      add theTag to tags of theTask
+    end tell
+  end tell
+end run
+`;
+
+export const SCRIPT_REMOVE_TASK_TAG = `
+on run argv
+  set taskId to item 1 of argv
+  set tagName to item 2 of argv
+  tell application "OmniFocus"
+    tell default document
+      set theTask to first flattened task whose id is taskId
+      set theTag to first flattened tag whose name is tagName
+      remove theTag from tags of theTask
+    end tell
+  end tell
+end run
+`;
+
 export const SCRIPT_CREATE_PROJECT = `
 on run argv
   set projectName to item 1 of argv
@@ -246,11 +352,11 @@ end run
 
 export const SCRIPT_UPDATE_PROJECT_NOTE = `
 on run argv
-  set projectName to item 1 of argv
+  set projectId to item 1 of argv
   set noteText to item 2 of argv
   tell application "OmniFocus"
     tell default document
-      set proj to first flattened project whose name is projectName
+      set proj to first flattened project whose id is projectId
       set note of proj to noteText
     end tell
   end tell
@@ -271,13 +377,25 @@ on run argv
 end run
 `;
 
+export const SCRIPT_MOVE_TASK_TO_INBOX = `
+on run argv
+  set taskId to item 1 of argv
+  tell application "OmniFocus"
+    tell default document
+      set theTask to first flattened task whose id is taskId
+      move theTask to end of inbox tasks
+    end tell
+  end tell
+end run
+`;
+
 export const SCRIPT_CREATE_INBOX_TASK = `
 on run argv
   set taskName to item 1 of argv
   set taskNote to item 2 of argv
   tell application "OmniFocus"
     tell default document
-      make new inbox task with properties {name: taskName, note: taskNote}
+      return id of (make new inbox task with properties {name: taskName, note: taskNote})
     end tell
   end tell
 end run
@@ -291,7 +409,7 @@ on run argv
   tell application "OmniFocus"
     tell default document
       set proj to first flattened project whose name is projectName
-      make new task at end of tasks of proj with properties {name: taskName, note: taskNote}
+      return id of (make new task at end of tasks of proj with properties {name: taskName, note: taskNote})
     end tell
   end tell
 end run
@@ -307,6 +425,7 @@ on run argv
       set theTag to first flattened tag whose name is tagName
       set t to make new inbox task with properties {name: taskName, note: taskNote}
       set primary tag of t to theTag
+      return id of t
     end tell
   end tell
 end run
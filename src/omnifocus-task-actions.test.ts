@@ -0,0 +1,74 @@
+import type { App } from 'obsidian';
+import { getTaskBackend, setTaskBackend } from './omnifocus-backend';
+import { createMemoryBackend } from './omnifocus-memory-backend';
+import type { OmniFocusTask } from './omnifocus';
+import { applyTaskChange, createActionHandlers } from './omnifocus-task-actions';
+import type { TaskActionState } from './omnifocus-task-actions';
+
+const task: OmniFocusTask = { id: 'a', name: 'Draft', note: '', dueDate: null, flagged: false, tags: ['@Office'] };
+
+function installBackend() {
+  const backend = createMemoryBackend({
+    folders: [],
+    projects: [],
+    tags: [
+      { id: 't1', name: '@Office' },
+      { id: 't2', name: '@Home' },
+    ],
+    tasks: [{ id: 'a', name: 'Draft', note: '', completed: false, projectId: null, tagIds: ['t1'] }],
+  });
+  setTaskBackend(backend);
+  return backend;
+}
+
+/** Action handlers over a plain state object, recording each render's flag and tags. */
+function harness() {
+  let state: TaskActionState = { tasks: [task] };
+  const renders: string[] = [];
+  const handlers = createActionHandlers(
+    {} as App,
+    () => state,
+    (s) => {
+      state = s;
+    },
+    () => renders.push((state.tasks ?? []).map((t) => `${t.flagged}|${(t.tags ?? []).join(',')}`).join(';')),
+    () => undefined,
+  );
+  return { handlers, renders, state: () => state };
+}
+
+describe('applyTaskChange', () => {
+  it('sets dates, the flag and tags without touching the input', () => {
+    expect(applyTaskChange(task, { kind: 'date', field: 'due', date: '2026-10-23T15:00:00.000Z' }).dueDate).toBe(
+      '2026-10-23T15:00:00.000Z',
+    );
+    expect(applyTaskChange(task, { kind: 'date', field: 'defer', date: null }).deferDate).toBeNull();
+    expect(applyTaskChange(task, { kind: 'flag', flagged: true }).flagged).toBe(true);
+    expect(applyTaskChange(task, { kind: 'add-tag', tag: '@Home' }).tags).toEqual(['@Office', '@Home']);
+    expect(applyTaskChange(task, { kind: 'add-tag', tag: '@Office' })).toBe(task);
+    expect(applyTaskChange(task, { kind: 'remove-tag', tag: '@Office' }).tags).toEqual([]);
+    expect(task.tags).toEqual(['@Office']);
+  });
+});
+
+describe('createActionHandlers', () => {
+  const original = getTaskBackend();
+  afterEach(() => setTaskBackend(original));
+
+  it('shows the change at once and writes it to OmniFocus', async () => {
+    const backend = installBackend();
+    const { handlers, renders } = harness();
+    await handlers.applyChange(task, { kind: 'flag', flagged: true });
+    await handlers.applyChange({ ...task, flagged: true }, { kind: 'add-tag', tag: '@Home' });
+    expect(renders).toEqual(['true|@Office', 'true|@Office,@Home']);
+    expect(backend.snapshot().tasks[0]).toMatchObject({ flagged: true, tagIds: ['t1', 't2'] });
+  });
+
+  it('rolls back when OmniFocus rejects the change', async () => {
+    installBackend();
+    const { handlers, renders, state } = harness();
+    await handlers.applyChange(task, { kind: 'add-tag', tag: '@Nowhere' });
+    expect(renders).toEqual(['false|@Office,@Nowhere', 'false|@Office']);
+    expect(state().tasks).toEqual([task]);
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Per-task action menu in an OmniFocus block: set or clear the due and defer
+ * dates, toggle the flag, add or remove tags, and drop or delete the task
+ * (after a confirmation, since a delete cannot be fully undone).
+ * Like inline edits, a change shows at once and is rolled back (with a
+ * Notice) when OmniFocus rejects it. Every change is recorded for undo.
+ */
+
+import { Menu, Notice } from 'obsidian';
+import type { App } from 'obsidian';
+import { addTagToTask, fetchTagNames, removeTagFromTask, setTaskDate, setTaskFlagged } from './omnifocus';
+import type { OmniFocusTask } from './omnifocus';
+import type { TaskDateField } from './omnifocus-backend';
+import { openDescendantIds } from './omnifocus-task-tree';
+import { deleteTaskWithRecreateUndo, dropTaskWithUndo, withUndo } from './omnifocus-undo';
+import type { UndoEntry } from './omnifocus-undo';
+import { noticeWithUndo } from './undo-notice';
+import { ConfirmModal } from './confirm-modal';
+import { TagSuggestModal } from './tag-suggest-modal';
+import { TaskDateModal } from './task-date-modal';
+
+/** A change made from the action menu. */
+export type TaskChange =
+  | { kind: 'date'; field: TaskDateField; date: string | null }
+  | { kind: 'flag'; flagged: boolean }
+  | { kind: 'add-tag'; tag: string }
+  | { kind: 'remove-tag'; tag: string };
+
+/** Block state the action handlers read and write. */
+export interface TaskActionState {
+  tasks?: OmniFocusTask[];
+}
+
+/** Handler for the "⋯" control of a task row. */
+export interface TaskActionHandlers {
+  onActionMenu: (task: OmniFocusTask) => (e: MouseEvent) => void;
+}
+
+/** Copy of `task` with a change applied. */
+export function applyTaskChange(task: OmniFocusTask, change: TaskChange): OmniFocusTask {
+  const tags = task.tags ?? [];
+  switch (change.kind) {
+    case 'date':
+      return change.field === 'due' ? { ...task, dueDate: change.date } : { ...task, deferDate: change.date };
+    case 'flag':
+      return { ...task, flagged: change.flagged };
+    case 'add-tag':
+      return tags.includes(change.tag) ? task : { ...task, tags: [...tags, change.tag] };
+    case 'remove-tag':
+      return { ...task, tags: tags.filter((t) => t !== change.tag) };
+  }
+}
+
+/** Write a change to OmniFocus through the active backend. */
+export function sendTaskChange(taskId: string, change: TaskChange): Promise<void> {
+  switch (change.kind) {
+    case 'date':
+      return setTaskDate(taskId, change.field, change.date);
+    case 'flag':
+      return setTaskFlagged(taskId, change.flagged);
+    case 'add-tag':
+      return addTagToTask(taskId, change.tag);
+    case 'remove-tag':
+      return removeTagFromTask(taskId, change.tag);
+  }
+}
+
+/** The change that reverts `change` on `task` (as it was before the change). */
+export function inverseTaskChange(task: OmniFocusTask, change: TaskChange): TaskChange {
+  switch (change.kind) {
+    case 'date':
+      return { ...change, date: (change.field === 'due' ? task.dueDate : task.deferDate) ?? null };
+    case 'flag':
+      return { kind: 'flag', flagged: task.flagged === true };
+    case 'add-tag':
+      return { kind: 'remove-tag', tag: change.tag };
+    case 'remove-tag':
+      return { kind: 'add-tag', tag: change.tag };
+  }
+}
+
+/** Past-tense description of a change for the undo history. */
+export function describeTaskChange(task: OmniFocusTask, change: TaskChange): string {
+  switch (change.kind) {
+    case 'date':
+      return `${change.date ? 'Set' : 'Cleared'} the ${change.field} date of "${task.name}"`;
+    case 'flag':
+      return `${change.flagged ? 'Flagged' : 'Unflagged'} "${task.name}"`;
+    case 'add-tag':
+      return `Tagged "${task.name}" with ${change.tag}`;
+    case 'remove-tag':
+      return `Removed ${change.tag} from "${task.name}"`;
+  }
+}
+
+function replaceTask(tasks: OmniFocusTask[] | undefined, task: OmniFocusTask): OmniFocusTask[] | undefined {
+  return tasks?.map((t) => (t.id === task.id ? task : t));
+}
+
+/** What the menu items do; pickers open a modal before applying a change. */
+interface MenuActions {
+  applyChange: (task: OmniFocusTask, change: TaskChange) => Promise<void>;
+  pickDate: (task: OmniFocusTask, field: TaskDateField) => void;
+  pickTag: (task: OmniFocusTask) => Promise<void>;
+  remove: (task: OmniFocusTask, how: 'drop' | 'delete') => void;
+}
+
+function addDateItems(menu: Menu, task: OmniFocusTask, field: TaskDateField, actions: MenuActions): void {
+  const current = field === 'due' ? task.dueDate : task.deferDate;
+  menu.addItem((item) =>
+    item
+      .setTitle(`${current ? 'Change' : 'Set'} ${field} date…`)
+      .setIcon('calendar')
+      .onClick(() => actions.pickDate(task, field)),
+  );
+  if (!current) return;
+  menu.addItem((item) =>
+    item
+      .setTitle(`Clear ${field} date`)
+      .setIcon('calendar-x')
+      .onClick(() => void actions.applyChange(task, { kind: 'date', field, date: null })),
+  );
+}
+
+/** Menu with date, flag and tag items for one task. */
+function buildActionMenu(task: OmniFocusTask, actions: MenuActions): Menu {
+  const menu = new Menu();
+  addDateItems(menu, task, 'due', actions);
+  addDateItems(menu, task, 'defer', actions);
+  menu.addSeparator();
+  menu.addItem((item) =>
+    item
+      .setTitle(task.flagged ? 'Unflag' : 'Flag')
+      .setIcon(task.flagged ? 'flag-off' : 'flag')
+      .onClick(() => void actions.applyChange(task, { kind: 'flag', flagged: !task.flagged })),
+  );
+  menu.addItem((item) => item.setTitle('Add tag…').setIcon('tag').onClick(() => void actions.pickTag(task)));
+  for (const tag of task.tags ?? []) {
+    menu.addItem((item) =>
+      item
+        .setTitle(`Remove tag "${tag}"`)
+        .setIcon('x')
+        .onClick(() => void actions.applyChange(task, { kind: 'remove-tag', tag })),
+    );
+  }
+  menu.addSeparator();
+  if (!task.completed && task.status !== 'dropped') {
+    menu.addItem((item) => item.setTitle('Drop').setIcon('circle-slash').onClick(() => actions.remove(task, 'drop')));
+  }
+  menu.addItem((item) => item.setTitle('Delete').setIcon('trash').onClick(() => actions.remove(task, 'delete')));
+  return menu;
+}
+
+/** Ask before deleting: OmniFocus cannot bring a deleted task back. */
+function confirmDelete(app: App, task: OmniFocusTask, onConfirm: () => void): void {
+  new ConfirmModal(
+    app,
+    'Delete task?',
+    `"${task.name}" and its subtasks will be deleted from OmniFocus. Undo only adds a new task with the same name and note.`,
+    'Delete',
+    onConfirm,
+  ).open();
+}
+
+/** Drop or delete a task, with a notice offering to undo it. */
+async function removeTask(
+  task: OmniFocusTask,
+  how: 'drop' | 'delete',
+  tasks: OmniFocusTask[],
+  triggerFetch: () => void,
+): Promise<void> {
+  let entry: UndoEntry;
+  try {
+    entry = how === 'drop' ? await dropTaskWithUndo(task, openDescendantIds(tasks, task.id)) : await deleteTaskWithRecreateUndo(task);
+  } catch (err) {
+    new Notice(`Failed to ${how} task: ${err instanceof Error ? err.message : String(err)}`);
+    return;
+  }
+  noticeWithUndo(how === 'drop' ? 'Task dropped.' : 'Task deleted.', entry);
+  triggerFetch();
+}
+
+/**
+ * Create the action menu handler for a block. `applyChange` is returned too,
+ * so the change path can be driven without the menu.
+ */
+export function createActionHandlers<S extends TaskActionState>(
+  app: App,
+  getState: () => S,
+  setState: (s: S) => void,
+  triggerRender: () => void,
+  triggerFetch: () => void,
+): TaskActionHandlers & { applyChange: (task: OmniFocusTask, change: TaskChange) => Promise<void> } {
+  const applyChange = async (task: OmniFocusTask, change: TaskChange) => {
+    setState({ ...getState(), tasks: replaceTask(getState().tasks, applyTaskChange(task, change)) });
+    triggerRender();
+    try {
+      await withUndo(
+        describeTaskChange(task, change),
+        () => sendTaskChange(task.id, change),
+        () => sendTaskChange(task.id, inverseTaskChange(task, change)),
+      );
+    } catch (err) {
+      setState({ ...getState(), tasks: replaceTask(getState().tasks, task) });
+      triggerRender();
+      new Notice(`Failed to update task: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const pickDate = (task: OmniFocusTask, field: TaskDateField) => {
+    const current = field === 'due' ? task.dueDate : task.deferDate;
+    new TaskDateModal(app, field, current ?? null, (date) => {
+      void applyChange(task, { kind: 'date', field, date: date ? date.toISOString() : null });
+    }).open();
+  };
+
+  const pickTag = async (task: OmniFocusTask) => {
+    let names: string[];
+    try {
+      names = await fetchTagNames();
+    } catch (err) {
+      new Notice(`Failed to load tags: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+    const available = names.filter((name) => !(task.tags ?? []).includes(name));
+    if (available.length === 0) {
+      new Notice('No other tags to add.');
+      return;
+    }
+    new TagSuggestModal(app, available, (tag) => void applyChange(task, { kind: 'add-tag', tag })).open();
+  };
+
+  return {
+    applyChange,
+    onActionMenu: (task) => (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      const remove = (t: OmniFocusTask, how: 'drop' | 'delete') => {
+        const run = () => void removeTask(t, how, getState().tasks ?? [], triggerFetch);
+        if (how === 'drop') run();
+        else confirmDelete(app, t, run);
+      };
+      buildActionMenu(task, { applyChange, pickDate, pickTag, remove }).showAtMouseEvent(e);
+    },
+  };
+}
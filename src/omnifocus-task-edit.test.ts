@@ -0,0 +1,95 @@
+import { getTaskBackend, setTaskBackend } from './omnifocus-backend';
+import type { TaskBackend } from './omnifocus-backend';
+import { createMemoryBackend } from './omnifocus-memory-backend';
+import type { OmniFocusTask } from './omnifocus';
+import { createEditHandlers, withTaskField } from './omnifocus-task-edit';
+import type { TaskEditState } from './omnifocus-task-edit';
+
+const task: OmniFocusTask = { id: 'a', name: 'Draft', note: 'Old note' };
+const other: OmniFocusTask = { id: 'b', name: 'Other', note: '' };
+
+/** Edit handlers over a plain state object, recording each render's task names. */
+function harness(editing: TaskEditState['editing']) {
+  let state: TaskEditState = { tasks: [task, other], editing };
+  const renders: string[][] = [];
+  const handlers = createEditHandlers(
+    () => state,
+    (s) => {
+      state = s;
+    },
+    () => renders.push((state.tasks ?? []).map((t) => `${t.name}|${t.note}`)),
+  );
+  return { handlers, renders, state: () => state };
+}
+
+function installBackend(updateTask: TaskBackend['updateTask']): jest.Mock {
+  const backend = createMemoryBackend({
+    folders: [],
+    projects: [],
+    tags: [],
+    tasks: [{ id: 'a', name: 'Draft', note: 'Old note', completed: false, projectId: null, tagIds: [] }],
+  });
+  const mock = jest.fn(updateTask);
+  setTaskBackend({ ...backend, updateTask: mock });
+  return mock;
+}
+
+describe('withTaskField', () => {
+  it('replaces one field of one task without touching the input', () => {
+    const tasks = [task, other];
+    expect(withTaskField(tasks, 'a', 'name', 'Final')).toEqual([{ ...task, name: 'Final' }, other]);
+    expect(tasks[0].name).toBe('Draft');
+    expect(withTaskField(undefined, 'a', 'name', 'x')).toBeUndefined();
+  });
+});
+
+describe('createEditHandlers', () => {
+  const original = getTaskBackend();
+  afterEach(() => setTaskBackend(original));
+
+  it('shows the new name at once and saves it with the existing note', async () => {
+    const update = installBackend(() => Promise.resolve());
+    const { handlers, renders, state } = harness({ taskId: 'a', field: 'name' });
+    await handlers.commitEdit(task, 'name', '  Final  ');
+    expect(update).toHaveBeenCalledWith('a', 'Final', 'Old note');
+    expect(renders).toEqual([['Final|Old note', 'Other|']]);
+    expect(state().editing).toBeNull();
+  });
+
+  it('rolls back when OmniFocus rejects the change', async () => {
+    installBackend(() => Promise.reject(new Error('OmniFocus is not running')));
+    const { handlers, renders } = harness({ taskId: 'a', field: 'note' });
+    await handlers.commitEdit(task, 'note', 'New note');
+    expect(renders).toEqual([
+      ['Draft|New note', 'Other|'],
+      ['Draft|Old note', 'Other|'],
+    ]);
+  });
+
+  it('does not save unchanged or empty names, or fields no longer being edited', async () => {
+    const update = installBackend(() => Promise.resolve());
+    const unchanged = harness({ taskId: 'a', field: 'name' });
+    await unchanged.handlers.commitEdit(task, 'name', 'Draft ');
+    const empty = harness({ taskId: 'a', field: 'name' });
+    await empty.handlers.commitEdit(task, 'name', '   ');
+    const stale = harness(null);
+    await stale.handlers.commitEdit(task, 'name', 'Changed');
+    expect(update).not.toHaveBeenCalled();
+    expect(empty.state().tasks?.[0].name).toBe('Draft');
+    expect(stale.renders).toEqual([]);
+  });
+
+  it('saves on Enter, keeps Shift+Enter for note lines and cancels on Escape', () => {
+    installBackend(() => Promise.resolve());
+    const key = (k: string, shiftKey = false) =>
+      ({ key: k, shiftKey, isComposing: false, preventDefault: jest.fn(), target: { value: 'Typed' } }) as unknown as KeyboardEvent;
+    const { handlers, state } = harness({ taskId: 'a', field: 'note' });
+    const shiftEnter = key('Enter', true);
+    handlers.onEditKeydown(task, 'note')(shiftEnter);
+    expect(shiftEnter.preventDefault).not.toHaveBeenCalled();
+    expect(state().editing).not.toBeNull();
+    handlers.onEditKeydown(task, 'note')(key('Escape'));
+    expect(state().editing).toBeNull();
+    expect(state().tasks?.[0].note).toBe('Old note');
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Inline editing of task names and notes in an OmniFocus block: which field
+ * is being edited, and saving with an optimistic update that is rolled back
+ * (with a Notice) when OmniFocus rejects the change. Saved edits can be
+ * undone from the undo history.
+ */
+
+import { Notice } from 'obsidian';
+import type { OmniFocusTask } from './omnifocus';
+import { updateTaskWithUndo } from './omnifocus-undo';
+
+/** Task fields that can be edited inline. */
+export type EditableTaskField = 'name' | 'note';
+
+/** The field currently being edited in a block. */
+export interface TaskEdit {
+  taskId: string;
+  field: EditableTaskField;
+}
+
+/** Block state the edit handlers read and write. */
+export interface TaskEditState {
+  tasks?: OmniFocusTask[];
+  editing: TaskEdit | null;
+}
+
+/** Handlers for the edit controls of a task row. */
+export interface TaskEditHandlers {
+  onEditStart: (taskId: string, field: EditableTaskField) => (e: Event) => void;
+  onEditKeydown: (task: OmniFocusTask, field: EditableTaskField) => (e: KeyboardEvent) => void;
+  onEditBlur: (task: OmniFocusTask, field: EditableTaskField) => (e: FocusEvent) => void;
+}
+
+/** Copy of `tasks` with one field of one task replaced. */
+export function withTaskField(
+  tasks: OmniFocusTask[] | undefined,
+  taskId: string,
+  field: EditableTaskField,
+  value: string,
+): OmniFocusTask[] | undefined {
+  return tasks?.map((t) => (t.id === taskId ? { ...t, [field]: value } : t));
+}
+
+/**
+ * Create the edit handlers for a block. Enter saves (Shift+Enter adds a line
+ * to a note), Escape cancels, and leaving the field saves.
+ */
+export function createEditHandlers<S extends TaskEditState>(
+  getState: () => S,
+  setState: (s: S) => void,
+  triggerRender: () => void,
+): TaskEditHandlers & { commitEdit: (task: OmniFocusTask, field: EditableTaskField, value: string) => Promise<void> } {
+  const isEditing = (taskId: string, field: EditableTaskField) => {
+    const editing = getState().editing;
+    return editing !== null && editing.taskId === taskId && editing.field === field;
+  };
+  const stopEditing = () => {
+    setState({ ...getState(), editing: null });
+    triggerRender();
+  };
+
+  const commitEdit = async (task: OmniFocusTask, field: EditableTaskField, raw: string) => {
+    if (!isEditing(task.id, field)) return;
+    const value = field === 'name' ? raw.trim() : raw;
+    if (value === task[field]) return stopEditing();
+    if (field === 'name' && value === '') {
+      new Notice('Task name cannot be empty.');
+      return stopEditing();
+    }
+    setState({ ...getState(), editing: null, tasks: withTaskField(getState().tasks, task.id, field, value) });
+    triggerRender();
+    try {
+      await updateTaskWithUndo(task, field === 'name' ? value : task.name, field === 'note' ? value : task.note);
+    } catch (err) {
+      setState({ ...getState(), tasks: withTaskField(getState().tasks, task.id, field, task[field]) });
+      triggerRender();
+      new Notice(`Failed to update task: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  return {
+    commitEdit,
+    onEditStart: (taskId, field) => (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setState({ ...getState(), editing: { taskId, field } });
+      triggerRender();
+    },
+    onEditKeydown: (task, field) => (e) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        stopEditing();
+      } else if (e.key === 'Enter' && !(field === 'note' && e.shiftKey) && !e.isComposing) {
+        e.preventDefault();
+        void commitEdit(task, field, (e.target as HTMLInputElement | HTMLTextAreaElement).value);
+      }
+    },
+    onEditBlur: (task, field) => (e) => {
+      void commitEdit(task, field, (e.target as HTMLInputElement | HTMLTextAreaElement).value);
+    },
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * lit-html templates for a block's task list: sorted, optionally grouped
+ * under collapsible headers, and limited with a "Show more" control. Rows
+ * come from omnifocus-task-row.ts; ordering and grouping from
+ * omnifocus-task-order.ts.
+ */
+
+import { html } from 'lit';
+import type { BlockConfig, OmniFocusTask } from './omnifocus';
+import { renderTaskTree } from './omnifocus-task-row';
+import type { TaskRowHandlers, TaskRowOptions } from './omnifocus-task-row';
+import { groupTasks, sortTasks } from './omnifocus-task-order';
+import { formatTasksMarkdown } from './tasks-format';
+import { buildTaskTree } from './omnifocus-task-tree';
+import type { TaskNode } from './omnifocus-task-tree';
+
+/** Handlers for group headers and "Show more", keyed by group (`''` when ungrouped). */
+export interface TaskListHandlers extends TaskRowHandlers {
+  onGroupToggle: (key: string) => () => void;
+  onShowMore: (key: string) => () => void;
+}
+
+/** Row options plus the list's view state. */
+export interface TaskListViewOptions extends TaskRowOptions {
+  /** Groups whose tasks are hidden. */
+  collapsedGroups: ReadonlySet<string>;
+  /** Rows shown per group once "Show more" was used; otherwise the block's limit. */
+  shownRows: Readonly<Record<string, number>>;
+}
+
+/** Top-level rows of a list: action-group trees, or every task on its own with `flat`. */
+function rowsOf(tasks: OmniFocusTask[], flat: boolean): TaskNode[] {
+  return flat ? tasks.map((task) => ({ task, children: [] })) : buildTaskTree(tasks);
+}
+
+function renderRows(
+  key: string,
+  tasks: OmniFocusTask[],
+  config: BlockConfig,
+  handlers: TaskListHandlers,
+  options: TaskListViewOptions,
+): ReturnType<typeof html> {
+  const rows = rowsOf(tasks, config.flat === true);
+  const shown = config.limit ? (options.shownRows[key] ?? config.limit) : rows.length;
+  const hidden = rows.length - shown;
+  return html`<ul class="omnifocus-task-list">
+    ${renderTaskTree(rows.slice(0, shown), handlers, options)}
+    ${hidden > 0 ? html`<li class="omnifocus-show-more"><button class="omnifocus-show-more-btn" @click=${handlers.onShowMore(key)}>Show more (${hidden} hidden)</button></li>` : ''}
+  </ul>`;
+}
+
+/**
+ * The task list of a block, ordered by `config.sort`. With `config.group`,
+ * each group gets a header with its task count that collapses the group.
+ */
+export function renderTaskList(
+  tasks: OmniFocusTask[],
+  config: BlockConfig,
+  handlers: TaskListHandlers,
+  options: TaskListViewOptions,
+): ReturnType<typeof html> {
+  const sorted = sortTasks(tasks, config.sort);
+  if (!config.group) return renderRows('', sorted, config, handlers, options);
+  return html`<div class="omnifocus-task-groups">
+    ${groupTasks(sorted, config.group, options.now).map((group) => {
+      const collapsed = options.collapsedGroups.has(group.key);
+      const count = group.tasks.length;
+      return html`<section class="omnifocus-task-group">
+        <div class="omnifocus-task-group-header" title=${collapsed ? 'Show tasks' : 'Hide tasks'} @click=${handlers.onGroupToggle(group.key)}>
+          <span class="omnifocus-task-group-toggle">${collapsed ? '▸' : '▾'}</span>
+          <span class="omnifocus-task-group-label">${group.label}</span>
+          <span class="omnifocus-task-group-count" title="${count} task${count === 1 ? '' : 's'}">${count}</span>
+        </div>
+        ${collapsed ? '' : renderRows(group.key, group.tasks, config, handlers, options)}
+      </section>`;
+    })}
+  </div>`;
+}
+
+/**
+ * The tasks as Obsidian Tasks markdown (`format: tasks`), ordered by
+ * `config.sort`; groups and limits don't apply.
+ */
+export function renderTasksMarkdown(
+  tasks: OmniFocusTask[],
+  config: BlockConfig,
+  onCopy: (markdown: string) => () => void,
+): ReturnType<typeof html> {
+  const markdown = formatTasksMarkdown(sortTasks(tasks, config.sort), config.flat === true);
+  return html`<div class="omnifocus-tasks-markdown">
+    <button class="omnifocus-copy-btn" @click=${onCopy(markdown)}>Copy as Tasks markdown</button>
+    <pre class="omnifocus-tasks-markdown-text">${markdown}</pre>
+  </div>`;
+}
@@ -0,0 +1,76 @@
+import {
+  describeDate,
+  formatEstimate,
+  formatFullDate,
+  isDeferredUntilLater,
+} from './omnifocus-task-meta';
+
+/** Local-time date so tests do not depend on the machine's time zone. */
+function local(y: number, m: number, d: number, h = 12, min = 0): Date {
+  return new Date(y, m - 1, d, h, min);
+}
+
+describe('describeDate', () => {
+  const now = local(2026, 10, 19, 12); // Monday
+
+  it('returns null for missing or invalid dates', () => {
+    expect(describeDate(null, now)).toBeNull();
+    expect(describeDate(undefined, now)).toBeNull();
+    expect(describeDate('not a date', now)).toBeNull();
+  });
+
+  it('labels today, tomorrow and yesterday', () => {
+    expect(describeDate(local(2026, 10, 19, 17).toISOString(), now)).toMatchObject({ label: 'Today', tone: 'today' });
+    expect(describeDate(local(2026, 10, 20, 9).toISOString(), now)).toMatchObject({ label: 'Tomorrow', tone: 'soon' });
+    expect(describeDate(local(2026, 10, 18).toISOString(), now)).toMatchObject({ label: 'Yesterday', tone: 'overdue' });
+  });
+
+  it('marks earlier today as overdue', () => {
+    expect(describeDate(local(2026, 10, 19, 9).toISOString(), now)).toMatchObject({ label: 'Today', tone: 'overdue' });
+  });
+
+  it('counts days for older overdue dates', () => {
+    expect(describeDate(local(2026, 10, 15).toISOString(), now)?.label).toBe('4d ago');
+  });
+
+  it('uses weekday names within the next week', () => {
+    expect(describeDate(local(2026, 10, 23).toISOString(), now)).toMatchObject({ label: 'Fri', tone: 'later' });
+    expect(describeDate(local(2026, 10, 21).toISOString(), now)).toMatchObject({ label: 'Wed', tone: 'soon' });
+  });
+
+  it('uses month and day further out, with the year when it differs', () => {
+    expect(describeDate(local(2026, 11, 3).toISOString(), now)?.label).toBe('Nov 3');
+    expect(describeDate(local(2027, 1, 5).toISOString(), now)?.label).toBe('Jan 5, 2027');
+  });
+
+  it('includes the full date as title', () => {
+    expect(describeDate(local(2026, 10, 23, 17, 5).toISOString(), now)?.title).toBe('Fri Oct 23 2026 17:05');
+  });
+});
+
+describe('isDeferredUntilLater', () => {
+  const now = local(2026, 10, 19, 12);
+
+  it('is true only for future defer dates', () => {
+    expect(isDeferredUntilLater(local(2026, 10, 20).toISOString(), now)).toBe(true);
+    expect(isDeferredUntilLater(local(2026, 10, 18).toISOString(), now)).toBe(false);
+    expect(isDeferredUntilLater(null, now)).toBe(false);
+  });
+});
+
+describe('formatEstimate and formatFullDate', () => {
+  it('formats minutes and hours', () => {
+    expect(formatEstimate(45)).toBe('45m');
+    expect(formatEstimate(120)).toBe('2h');
+    expect(formatEstimate(90)).toBe('1h 30m');
+  });
+
+  it('returns empty for missing estimates', () => {
+    expect(formatEstimate(null)).toBe('');
+    expect(formatEstimate(0)).toBe('');
+  });
+
+  it('pads hours and minutes', () => {
+    expect(formatFullDate(local(2026, 1, 2, 3, 4))).toBe('Fri Jan 2 2026 03:04');
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Pure formatting of task metadata (due/defer badges, estimates) for the
+ * block UI. No lit or Obsidian dependency.
+ */
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** How urgent a date is relative to now; drives the badge colour. */
+export type DateTone = 'overdue' | 'today' | 'soon' | 'later';
+
+/** A short badge label, a full tooltip and a tone. */
+export interface DateBadge {
+  label: string;
+  title: string;
+  tone: DateTone;
+}
+
+/** Local midnight of the day containing `d`, as epoch milliseconds. */
+export function startOfDay(d: Date): number {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+}
+
+/** Two-digit zero-padded number, for dates and times. */
+export function pad2(n: number): string {
+  return n < 10 ? `0${n}` : String(n);
+}
+
+/** Local calendar day of an ISO timestamp as `YYYY-MM-DD`, or null. */
+export function localDate(iso: string | null | undefined): string | null {
+  if (!iso) return null;
+  const d = new Date(iso);
+  if (isNaN(d.getTime())) return null;
+  return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}`;
+}
+
+/** Full local date and time, e.g. "Fri Oct 23 2026 17:00". */
+export function formatFullDate(d: Date): string {
+  return `${WEEKDAYS[d.getDay()]} ${MONTHS[d.getMonth()]} ${d.getDate()} ${d.getFullYear()} ${pad2(d.getHours())}:${pad2(d.getMinutes())}`;
+}
+
+function relativeDayLabel(d: Date, dayDiff: number, now: Date): string {
+  if (dayDiff === 0) return 'Today';
+  if (dayDiff === 1) return 'Tomorrow';
+  if (dayDiff === -1) return 'Yesterday';
+  if (dayDiff < 0) return `${-dayDiff}d ago`;
+  if (dayDiff < 7) return WEEKDAYS[d.getDay()];
+  const monthDay = `${MONTHS[d.getMonth()]} ${d.getDate()}`;
+  return d.getFullYear() === now.getFullYear() ? monthDay : `${monthDay}, ${d.getFullYear()}`;
+}
+
+/**
+ * Describe a date relative to now in local time.
+ *
+ * Labels: "Today", "Tomorrow", "Yesterday", "3d ago", a weekday within the
+ * next week, otherwise "Oct 23" (with the year when it differs from now's).
+ * Tone: past → overdue, same day → today, within 2 days → soon, else later.
+ *
+ * @returns null when the date is missing or unparseable.
+ */
+export function describeDate(iso: string | null | undefined, now: Date): DateBadge | null {
+  if (!iso) return null;
+  const time = Date.parse(iso);
+  if (isNaN(time)) return null;
+  const d = new Date(time);
+  const dayDiff = Math.round((startOfDay(d) - startOfDay(now)) / DAY_MS);
+  const label = relativeDayLabel(d, dayDiff, now);
+
+  let tone: DateTone;
+  if (time < now.getTime()) tone = 'overdue';
+  else if (dayDiff === 0) tone = 'today';
+  else if (dayDiff <= 2) tone = 'soon';
+  else tone = 'later';
+
+  return { label, title: formatFullDate(d), tone };
+}
+
+/** True when the defer date is set and still in the future. */
+export function isDeferredUntilLater(iso: string | null | undefined, now: Date): boolean {
+  if (!iso) return false;
+  const time = Date.parse(iso);
+  return !isNaN(time) && time > now.getTime();
+}
+
+/** Format an estimate in minutes as "45m", "2h" or "1h 30m"; empty for null/0. */
+export function formatEstimate(minutes: number | null | undefined): string {
+  if (!minutes || minutes <= 0) return '';
+  const h = Math.floor(minutes / 60);
+  const m = Math.round(minutes % 60);
+  if (h === 0) return `${m}m`;
+  return m === 0 ? `${h}h` : `${h}h ${m}m`;
+}
@@ -0,0 +1,128 @@
+import type { OmniFocusTask } from './omnifocus';
+import { dueBucketOf, groupTasks, parseListOptionLines, sortTasks } from './omnifocus-task-order';
+
+const now = new Date(2026, 9, 19, 12, 0);
+const at = (day: number, hour = 9) => new Date(2026, 9, day, hour, 0).toISOString();
+
+function task(id: string, extra: Partial<OmniFocusTask> = {}): OmniFocusTask {
+  return { id, name: id, note: '', ...extra };
+}
+
+const ids = (tasks: OmniFocusTask[]) => tasks.map((t) => t.id);
+
+describe('sortTasks', () => {
+  const tasks = [
+    task('b', { dueDate: at(25), deferDate: at(18), addedDate: at(1), flagged: true }),
+    task('done', { completed: true, dueDate: at(1) }),
+    task('A10', { dueDate: null, addedDate: at(3) }),
+    task('a2', { dueDate: at(20), deferDate: null, addedDate: at(2), flagged: true }),
+  ];
+
+  it('keeps backend order, with completed tasks last, without a key', () => {
+    expect(ids(sortTasks(tasks))).toEqual(['b', 'A10', 'a2', 'done']);
+  });
+
+  it('sorts dates ascending with unset dates last', () => {
+    expect(ids(sortTasks(tasks, 'due'))).toEqual(['a2', 'b', 'A10', 'done']);
+    expect(ids(sortTasks(tasks, 'defer'))).toEqual(['b', 'A10', 'a2', 'done']);
+    expect(ids(sortTasks(tasks, 'added'))).toEqual(['b', 'a2', 'A10', 'done']);
+  });
+
+  it('sorts names case-insensitively with numbers in order', () => {
+    expect(ids(sortTasks(tasks, 'name'))).toEqual(['a2', 'A10', 'b', 'done']);
+  });
+
+  it('puts flagged tasks first, keeping their order', () => {
+    expect(ids(sortTasks(tasks, 'flagged'))).toEqual(['b', 'a2', 'A10', 'done']);
+  });
+
+  it('does not modify its input', () => {
+    sortTasks(tasks, 'name');
+    expect(ids(tasks)).toEqual(['b', 'done', 'A10', 'a2']);
+  });
+});
+
+describe('groupTasks', () => {
+  const summary = (tasks: OmniFocusTask[], key: Parameters<typeof groupTasks>[1]) =>
+    groupTasks(tasks, key, now).map((g) => [g.key, g.label, ids(g.tasks)]);
+
+  it('groups by project by name, with inbox tasks last', () => {
+    const tasks = [task('1', { projectName: 'Website' }), task('2', { projectName: null }), task('3', { projectName: 'billing' }), task('4', { projectName: 'Website' })];
+    expect(summary(tasks, 'project')).toEqual([
+      ['billing', 'billing', ['3']],
+      ['Website', 'Website', ['1', '4']],
+      ['', 'Inbox', ['2']],
+    ]);
+  });
+
+  it('lists a task under each of its tags', () => {
+    const tasks = [task('1', { tags: ['@Office', 'Finance'] }), task('2', { tags: [] }), task('3', { tags: ['Finance'] })];
+    expect(summary(tasks, 'tag')).toEqual([
+      ['@Office', '@Office', ['1']],
+      ['Finance', 'Finance', ['1', '3']],
+      ['', 'No tags', ['2']],
+    ]);
+  });
+
+  it('groups by folder path', () => {
+    const tasks = [task('1', { folderPath: 'Work/Clients' }), task('2'), task('3', { folderPath: 'Home' })];
+    expect(summary(tasks, 'folder')).toEqual([
+      ['Home', 'Home', ['3']],
+      ['Work/Clients', 'Work/Clients', ['1']],
+      ['', 'No folder', ['2']],
+    ]);
+  });
+
+  it('orders due buckets from overdue to no due date, leaving out empty ones', () => {
+    const tasks = [
+      task('none'),
+      task('later', { dueDate: at(30) }),
+      task('today', { dueDate: at(19, 18) }),
+      task('overdue', { dueDate: at(19, 8) }),
+      task('week', { dueDate: at(25) }),
+    ];
+    expect(summary(tasks, 'due-bucket')).toEqual([
+      ['overdue', 'Overdue', ['overdue']],
+      ['today', 'Today', ['today']],
+      ['week', 'Next 7 days', ['week']],
+      ['later', 'Later', ['later']],
+      ['', 'No due date', ['none']],
+    ]);
+  });
+
+  it('buckets tomorrow and the end of the week', () => {
+    expect(dueBucketOf(task('t', { dueDate: at(20, 23) }), now)).toBe('tomorrow');
+    expect(dueBucketOf(task('t', { dueDate: at(25, 23) }), now)).toBe('week');
+    expect(dueBucketOf(task('t', { dueDate: at(26, 0) }), now)).toBe('later');
+  });
+});
+
+describe('parseListOptionLines', () => {
+  it('parses sort, group, limit and format case-insensitively, skipping the source line', () => {
+    expect(parseListOptionLines(['sort: name', 'Sort: Due', 'GROUP: due-bucket', 'limit: 10', 'flat', 'format: Tasks'])).toEqual({
+      sort: 'due',
+      group: 'due-bucket',
+      limit: 10,
+      format: 'tasks',
+    });
+  });
+
+  it('returns no options when there are none', () => {
+    expect(parseListOptionLines(['inbox', 'showCompleted'])).toEqual({});
+  });
+
+  it('reports unknown keys with the line number and the choices', () => {
+    expect(() => parseListOptionLines(['inbox', 'sort: priority'])).toThrow(
+      'Line 2: Unknown sort: "priority". Use: sort: due, sort: defer, sort: name, sort: added, sort: flagged',
+    );
+    expect(() => parseListOptionLines(['inbox', '', 'group:'])).toThrow('Line 3: Unknown group: ""');
+  });
+
+  it('rejects limits that are not positive whole numbers', () => {
+    for (const value of ['0', '-1', '2.5', 'ten', '']) {
+      expect(() => parseListOptionLines(['inbox', `limit: ${value}`])).toThrow(
+        'Line 2: limit must be a positive whole number, e.g. limit: 10',
+      );
+    }
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Sorting and grouping of block task lists, and the `sort:`, `group:`,
+ * `limit:` and `format:` block options (no lit or Obsidian dependency).
+ */
+
+import type { OmniFocusTask } from './omnifocus';
+import { startOfDay } from './omnifocus-task-meta';
+
+/** Keys for `sort:`; dates sort oldest first with unset dates last. */
+export type TaskSortKey = 'due' | 'defer' | 'name' | 'added' | 'flagged';
+
+export const TASK_SORT_KEYS: readonly TaskSortKey[] = ['due', 'defer', 'name', 'added', 'flagged'];
+
+/** Keys for `group:`. */
+export type TaskGroupKey = 'project' | 'tag' | 'folder' | 'due-bucket';
+
+export const TASK_GROUP_KEYS: readonly TaskGroupKey[] = ['project', 'tag', 'folder', 'due-bucket'];
+
+/** Values for `format:`: the interactive list, or Obsidian Tasks markdown (see tasks-format.ts). */
+export type TaskListFormat = 'list' | 'tasks';
+
+export const TASK_LIST_FORMATS: readonly TaskListFormat[] = ['list', 'tasks'];
+
+/** Sorting, grouping and paging options of a block. */
+export interface TaskListOptions {
+  sort?: TaskSortKey;
+  group?: TaskGroupKey;
+  /** Rows shown per list (or per group) before a "show more" control. */
+  limit?: number;
+  format?: TaskListFormat;
+}
+
+/** Tasks sharing a group value; `key` is stable across refreshes. */
+export interface TaskGroup {
+  key: string;
+  label: string;
+  tasks: OmniFocusTask[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function time(iso: string | null | undefined): number | null {
+  if (!iso) return null;
+  const ms = Date.parse(iso);
+  return isNaN(ms) ? null : ms;
+}
+
+/** Ascending by date, tasks without one last. */
+function byDate(pick: (task: OmniFocusTask) => string | null | undefined) {
+  return (a: OmniFocusTask, b: OmniFocusTask): number => {
+    const x = time(pick(a));
+    const y = time(pick(b));
+    if (x === null || y === null) return (x === null ? 1 : 0) - (y === null ? 1 : 0);
+    return x - y;
+  };
+}
+
+function compareNames(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { sensitivity: 'base', numeric: true });
+}
+
+const SORT_COMPARATORS: Record<TaskSortKey, (a: OmniFocusTask, b: OmniFocusTask) => number> = {
+  due: byDate((t) => t.dueDate),
+  defer: byDate((t) => t.deferDate),
+  added: byDate((t) => t.addedDate),
+  name: (a, b) => compareNames(a.name, b.name),
+  flagged: (a, b) => (b.flagged ? 1 : 0) - (a.flagged ? 1 : 0),
+};
+
+/**
+ * Sort tasks for display: completed tasks last, then by `key`. Ties (and
+ * everything, without a key) keep the backend's order.
+ */
+export function sortTasks(tasks: OmniFocusTask[], key?: TaskSortKey): OmniFocusTask[] {
+  const compare = key ? SORT_COMPARATORS[key] : () => 0;
+  return [...tasks].sort((a, b) => (a.completed ? 1 : 0) - (b.completed ? 1 : 0) || compare(a, b));
+}
+
+const DUE_BUCKETS = ['overdue', 'today', 'tomorrow', 'week', 'later', ''] as const;
+
+const DUE_BUCKET_LABELS: Record<(typeof DUE_BUCKETS)[number], string> = {
+  overdue: 'Overdue',
+  today: 'Today',
+  tomorrow: 'Tomorrow',
+  week: 'Next 7 days',
+  later: 'Later',
+  '': 'No due date',
+};
+
+/** Due bucket of a task relative to now: overdue, today, tomorrow, within a week, later or none. */
+export function dueBucketOf(task: OmniFocusTask, now: Date): (typeof DUE_BUCKETS)[number] {
+  const due = time(task.dueDate);
+  if (due === null) return '';
+  if (due < now.getTime()) return 'overdue';
+  const days = Math.round((startOfDay(new Date(due)) - startOfDay(now)) / DAY_MS);
+  if (days === 0) return 'today';
+  if (days === 1) return 'tomorrow';
+  return days < 7 ? 'week' : 'later';
+}
+
+/** Group values of a task; empty for the "none" group. Tags put a task in several groups. */
+function groupValues(task: OmniFocusTask, key: Exclude<TaskGroupKey, 'due-bucket'>): string[] {
+  switch (key) {
+    case 'project':
+      return [task.projectName ?? ''];
+    case 'folder':
+      return [task.folderPath ?? ''];
+    case 'tag':
+      return task.tags && task.tags.length > 0 ? task.tags : [''];
+  }
+}
+
+const NONE_LABELS: Record<Exclude<TaskGroupKey, 'due-bucket'>, string> = {
+  project: 'Inbox',
+  folder: 'No folder',
+  tag: 'No tags',
+};
+
+/**
+ * Split tasks into groups, keeping their order within each group.
+ *
+ * Project, folder and tag groups are ordered by name with the "none" group
+ * (inbox, no folder, no tags) last; a task with several tags appears under
+ * each. Due buckets run from overdue to later, then tasks without a due date.
+ * Empty groups are left out.
+ */
+export function groupTasks(tasks: OmniFocusTask[], key: TaskGroupKey, now: Date): TaskGroup[] {
+  const groups = new Map<string, OmniFocusTask[]>();
+  for (const task of tasks) {
+    const values = key === 'due-bucket' ? [dueBucketOf(task, now)] : groupValues(task, key);
+    for (const value of values) {
+      const group = groups.get(value);
+      if (group) group.push(task);
+      else groups.set(value, [task]);
+    }
+  }
+  let keys = Array.from(groups.keys());
+  if (key === 'due-bucket') {
+    keys = DUE_BUCKETS.filter((bucket) => groups.has(bucket));
+  } else {
+    keys.sort((a, b) => (a === '' ? 1 : 0) - (b === '' ? 1 : 0) || compareNames(a, b));
+  }
+  return keys.map((value) => ({
+    key: value,
+    label: key === 'due-bucket' ? DUE_BUCKET_LABELS[value as (typeof DUE_BUCKETS)[number]] : value || NONE_LABELS[key],
+    tasks: groups.get(value)!,
+  }));
+}
+
+function parseChoice<T extends string>(name: string, value: string, choices: readonly T[]): T {
+  const choice = value.toLowerCase();
+  if (!(choices as readonly string[]).includes(choice)) {
+    throw new Error(`Unknown ${name}: "${value}". Use: ${choices.map((c) => `${name}: ${c}`).join(', ')}`);
+  }
+  return choice as T;
+}
+
+/** @throws For values other than {@link TASK_SORT_KEYS} (case-insensitive). */
+export function parseSortKey(value: string): TaskSortKey {
+  return parseChoice('sort', value, TASK_SORT_KEYS);
+}
+
+/** @throws For values other than {@link TASK_GROUP_KEYS} (case-insensitive). */
+export function parseGroupKey(value: string): TaskGroupKey {
+  return parseChoice('group', value, TASK_GROUP_KEYS);
+}
+
+/** @throws For values other than {@link TASK_LIST_FORMATS} (case-insensitive). */
+export function parseListFormat(value: string): TaskListFormat {
+  return parseChoice('format', value, TASK_LIST_FORMATS);
+}
+
+/** @throws Unless the value is a positive whole number. */
+export function parseLimit(value: string): number {
+  if (!/^[1-9]\d*$/.test(value)) throw new Error('limit must be a positive whole number, e.g. limit: 10');
+  return Number(value);
+}
+
+/**
+ * Options from `sort:`, `group:`, `limit:` and `format:` lines of a block; the first
+ * line (the source) is skipped. A later line overrides an earlier one.
+ *
+ * @throws With the 1-based block line number prefixed, for unknown keys or a
+ *   limit that is not a positive whole number.
+ */
+export function parseListOptionLines(lines: string[]): TaskListOptions {
+  const options: TaskListOptions = {};
+  lines.forEach((line, i) => {
+    const match = i > 0 ? line.match(/^\s*(sort|group|limit|format):\s*(.*)$/i) : null;
+    if (!match) return;
+    const value = match[2].trim();
+    try {
+      switch (match[1].toLowerCase()) {
+        case 'sort':
+          options.sort = parseSortKey(value);
+          break;
+        case 'group':
+          options.group = parseGroupKey(value);
+          break;
+        case 'format':
+          options.format = parseListFormat(value);
+          break;
+        default:
+          options.limit = parseLimit(value);
+      }
+    } catch (err) {
+      throw new Error(`Line ${i + 1}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  });
+  return options;
+}
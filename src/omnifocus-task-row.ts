@@ -0,0 +1,160 @@
+/**
+ * lit-html templates for task rows in an OmniFocus block: checkbox, name,
+ * flag, due/defer badges, estimate, tag chips, project and note, with action
+ * group children nested below their parent. Name and note switch to inputs
+ * while edited (see omnifocus-task-edit.ts); "⋯" opens the action menu
+ * (omnifocus-task-actions.ts). Formatting logic lives in
+ * omnifocus-task-meta.ts, the hierarchy in omnifocus-task-tree.ts.
+ */
+
+import { html } from 'lit';
+import { ref } from 'lit/directives/ref.js';
+import type { OmniFocusTask } from './omnifocus';
+import { describeDate, formatEstimate, isDeferredUntilLater } from './omnifocus-task-meta';
+import type { TaskActionHandlers } from './omnifocus-task-actions';
+import type { EditableTaskField, TaskEdit, TaskEditHandlers } from './omnifocus-task-edit';
+import { countRemainingDescendants } from './omnifocus-task-tree';
+import type { TaskNode } from './omnifocus-task-tree';
+
+/** Handlers a task row needs from its block. */
+export interface TaskRowHandlers extends TaskEditHandlers, TaskActionHandlers {
+  onNoteToggle: (e: Event) => void;
+  onOmniFocusLinkClick: (taskId: string) => (e: Event) => void;
+  onCheckboxChange: (task: OmniFocusTask) => (e: Event) => Promise<void>;
+  onChildrenToggle: (taskId: string) => () => void;
+}
+
+/** Per-row display options. */
+export interface TaskRowOptions {
+  /** Show the containing project (off for project blocks, where it is implied). */
+  showProject: boolean;
+  now: Date;
+  /** Action groups whose children are hidden. */
+  collapsedIds: ReadonlySet<string>;
+  /** Field being edited inline, if any. */
+  editing: TaskEdit | null;
+  /** Showing cached tasks while OmniFocus is unavailable: no inline edits or action menu. */
+  readOnly?: boolean;
+}
+
+function taskItemClass(task: OmniFocusTask): string {
+  const classes = ['omnifocus-task-item'];
+  if (task.completed) classes.push('omnifocus-task-item--completed');
+  if (task.status === 'dropped') classes.push('omnifocus-task-item--dropped');
+  if (task.status === 'blocked') classes.push('omnifocus-task-item--blocked');
+  if (task.flagged) classes.push('omnifocus-task-item--flagged');
+  return classes.join(' ');
+}
+
+/** Badges shown after the task name; empty when the backend reports no metadata. */
+function renderTaskMeta(task: OmniFocusTask, options: TaskRowOptions): ReturnType<typeof html> {
+  const due = task.completed ? null : describeDate(task.dueDate, options.now);
+  const defer = !task.completed && isDeferredUntilLater(task.deferDate, options.now)
+    ? describeDate(task.deferDate, options.now)
+    : null;
+  const estimate = formatEstimate(task.estimatedMinutes);
+  const tags = task.tags ?? [];
+  return html`<span class="omnifocus-task-meta">
+    ${due ? html`<span class="omnifocus-task-due omnifocus-task-due--${due.tone}" title="Due ${due.title}">${due.label}</span>` : ''}
+    ${defer ? html`<span class="omnifocus-task-defer" title="Deferred until ${defer.title}">Defer: ${defer.label}</span>` : ''}
+    ${estimate ? html`<span class="omnifocus-task-estimate" title="Estimated duration">${estimate}</span>` : ''}
+    ${tags.map((tag) => html`<span class="omnifocus-task-tag">${tag}</span>`)}
+    ${options.showProject && task.projectName ? html`<span class="omnifocus-task-project" title=${task.folderPath ? `${task.folderPath}/${task.projectName}` : task.projectName}>${task.projectName}</span>` : ''}
+  </span>`;
+}
+
+/** Checkbox tooltip; completing an action group completes its remaining children too. */
+function checkboxTitle(remainingChildren: number): string {
+  if (remainingChildren === 0) return 'Mark complete';
+  return `Mark complete (also completes ${remainingChildren} remaining subtask${remainingChildren === 1 ? '' : 's'})`;
+}
+
+/** Expand/collapse control for an action group. */
+function renderChildrenToggle(node: TaskNode, handlers: TaskRowHandlers, collapsed: boolean): ReturnType<typeof html> {
+  const count = node.children.length;
+  return html`<span
+    class="omnifocus-task-children-toggle"
+    title=${collapsed ? `Show ${count} subtask${count === 1 ? '' : 's'}` : 'Hide subtasks'}
+    @click=${handlers.onChildrenToggle(node.task.id)}
+  >${collapsed ? '▸' : '▾'}</span>`;
+}
+
+/** Focus a freshly rendered edit field and select its text. */
+function focusOnRender(el: Element | undefined): void {
+  if (!el || el.ownerDocument.activeElement === el) return;
+  const input = el as HTMLInputElement | HTMLTextAreaElement;
+  input.focus();
+  input.select();
+}
+
+const stopPropagation = (e: Event) => e.stopPropagation();
+
+/** Input for the field being edited; Enter/blur save and Escape cancels (see the block's edit handlers). */
+function renderEditor(task: OmniFocusTask, field: EditableTaskField, handlers: TaskRowHandlers): ReturnType<typeof html> {
+  return field === 'name'
+    ? html`<input type="text" class="omnifocus-task-name-input" .value=${task.name} ${ref(focusOnRender)}
+        @keydown=${handlers.onEditKeydown(task, field)} @blur=${handlers.onEditBlur(task, field)} @dblclick=${stopPropagation} />`
+    : html`<textarea class="omnifocus-task-note-input" rows="4" .value=${task.note} ${ref(focusOnRender)}
+        @keydown=${handlers.onEditKeydown(task, field)} @blur=${handlers.onEditBlur(task, field)} @dblclick=${stopPropagation}></textarea>`;
+}
+
+function isEditing(task: OmniFocusTask, field: EditableTaskField, options: TaskRowOptions): boolean {
+  return options.editing?.taskId === task.id && options.editing.field === field;
+}
+
+/** Task name, or its input while renamed. */
+function renderTaskName(task: OmniFocusTask, handlers: TaskRowHandlers, options: TaskRowOptions): ReturnType<typeof html> {
+  if (options.readOnly) return html`<span class="omnifocus-task-name">${task.name}</span>`;
+  return html`<span class="omnifocus-task-name" title="Double-click to rename" @dblclick=${handlers.onEditStart(task.id, 'name')}>${isEditing(task, 'name', options) ? renderEditor(task, 'name', handlers) : task.name}</span>`;
+}
+
+/** "+ note" control of a task without a note, and the note input once clicked. */
+function renderAddNote(task: OmniFocusTask, handlers: TaskRowHandlers, options: TaskRowOptions): ReturnType<typeof html> {
+  if (isEditing(task, 'note', options)) return html`<div class="omnifocus-task-note is-open">${renderEditor(task, 'note', handlers)}</div>`;
+  return html`<span class="omnifocus-task-note-toggle omnifocus-task-note-add" title="Add note" @click=${handlers.onEditStart(task.id, 'note')}>+ note</span>`;
+}
+
+/** Note toggle and the (initially hidden) note; tasks without a note get "+ note" instead. */
+function renderTaskNote(task: OmniFocusTask, handlers: TaskRowHandlers, options: TaskRowOptions): ReturnType<typeof html> {
+  if (!task.note) return options.readOnly ? html`` : renderAddNote(task, handlers, options);
+  const toggle = html`<span class="omnifocus-task-note-toggle" @click=${handlers.onNoteToggle}>[+]</span>`;
+  if (options.readOnly) return html`${toggle}<div class="omnifocus-task-note" style="display:none">${task.note}</div>`;
+  return html`${toggle}<div class="omnifocus-task-note" style="display:none" title="Double-click to edit" @dblclick=${handlers.onEditStart(task.id, 'note')}>${isEditing(task, 'note', options) ? renderEditor(task, 'note', handlers) : task.note}</div>`;
+}
+
+/**
+ * One `<li>` for a task. Pass `children` to render an action group: a toggle
+ * before the checkbox and, unless collapsed, a nested list of its children.
+ */
+export function renderTaskItem(
+  task: OmniFocusTask,
+  handlers: TaskRowHandlers,
+  options: TaskRowOptions,
+  children: TaskNode[] = [],
+): ReturnType<typeof html> {
+  const node: TaskNode = { task, children };
+  const isGroup = children.length > 0;
+  const collapsed = isGroup && options.collapsedIds.has(task.id);
+  // Dropped tasks are ticked too, so unticking reopens them like completed ones.
+  const closed = task.completed === true || task.status === 'dropped';
+  return html`<li class=${taskItemClass(task)} title=${task.status === 'blocked' ? 'Not available yet' : ''}>
+    ${isGroup ? renderChildrenToggle(node, handlers, collapsed) : ''}
+    <input type="checkbox" class="omnifocus-task-checkbox" .checked=${closed} title=${closed ? 'Mark incomplete' : checkboxTitle(countRemainingDescendants(node))} @change=${handlers.onCheckboxChange(task)} />
+    ${task.flagged ? html`<span class="omnifocus-task-flag" title="Flagged">⚑</span>` : ''}
+    ${renderTaskName(task, handlers, options)}
+    ${renderTaskMeta(task, options)}
+    <a class="omnifocus-task-link" href="omnifocus:///task/${task.id}" title="Open in OmniFocus" @click=${handlers.onOmniFocusLinkClick(task.id)}>↗</a>
+    ${options.readOnly ? '' : html`<span class="omnifocus-task-actions-btn" title="Dates, flag and tags" @click=${handlers.onActionMenu(task)}>⋯</span>`}
+    ${renderTaskNote(task, handlers, options)}
+    ${isGroup && !collapsed ? html`<ul class="omnifocus-task-children">${renderTaskTree(children, handlers, options)}</ul>` : ''}
+  </li>`;
+}
+
+/** Rows for a task forest from `buildTaskTree`, children nested under their groups. */
+export function renderTaskTree(
+  nodes: TaskNode[],
+  handlers: TaskRowHandlers,
+  options: TaskRowOptions,
+): ReturnType<typeof html>[] {
+  return nodes.map((node) => renderTaskItem(node.task, handlers, options, node.children));
+}
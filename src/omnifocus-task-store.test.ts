@@ -0,0 +1,195 @@
+import type { OmniFocusTask, TaskSource } from './omnifocus';
+import { createTaskStore, hashTasks, taskQueryKey } from './omnifocus-task-store';
+import type { TaskQuery, TaskQuerySnapshot } from './omnifocus-task-store';
+import { createOfflineCache, parseOfflineData } from './omnifocus-offline';
+
+const task = (id: string, name = id): OmniFocusTask => ({ id, name, note: '' });
+const inbox: TaskQuery = { source: { kind: 'inbox' }, includeCompleted: false };
+const tagged: TaskQuery = { source: { kind: 'tag', name: 'Office' }, includeCompleted: false };
+
+/** A fetch whose calls stay pending until `resolve` is called. */
+function deferredFetch() {
+  const calls: { source: TaskSource; resolve: (tasks: OmniFocusTask[]) => void; reject: (err: Error) => void }[] = [];
+  const fetch = (source: TaskSource) =>
+    new Promise<OmniFocusTask[]>((resolve, reject) => calls.push({ source, resolve, reject }));
+  return { calls, fetch };
+}
+
+describe('taskQueryKey', () => {
+  it('tells queries apart by source, completed tasks and filter', () => {
+    const keys = new Set([
+      taskQueryKey(inbox),
+      taskQueryKey(tagged),
+      taskQueryKey({ ...inbox, includeCompleted: true }),
+      taskQueryKey({ ...inbox, filter: { op: 'compare', field: 'flagged', cmp: '=', value: { type: 'boolean', value: true } } }),
+    ]);
+    expect(keys.size).toBe(4);
+    expect(taskQueryKey({ ...inbox })).toBe(taskQueryKey(inbox));
+  });
+});
+
+describe('hashTasks', () => {
+  it('changes when any task field changes', () => {
+    expect(hashTasks([task('a')])).toBe(hashTasks([task('a')]));
+    expect(hashTasks([task('a')])).not.toBe(hashTasks([task('a', 'b')]));
+    expect(hashTasks([task('a'), task('b')])).not.toBe(hashTasks([task('b'), task('a')]));
+    expect(hashTasks(undefined)).not.toBe(hashTasks([]));
+  });
+});
+
+describe('createTaskStore', () => {
+  it('runs one fetch for blocks asking for the same query at the same time', async () => {
+    const { calls, fetch } = deferredFetch();
+    const store = createTaskStore({ fetch });
+    const seen: TaskQuerySnapshot[] = [];
+    store.subscribe(inbox, (s) => seen.push(s));
+    const first = store.fetch(inbox);
+    const second = store.fetch(inbox, { force: true });
+    expect(calls).toHaveLength(1);
+    calls[0].resolve([task('a')]);
+    await Promise.all([first, second]);
+    expect(seen.map((s) => s.loading)).toEqual([false, true, false]);
+    expect(seen[2].tasks).toEqual([task('a')]);
+  });
+
+  it('reuses results until the TTL expires unless forced', async () => {
+    let time = 0;
+    let fetches = 0;
+    const store = createTaskStore({ fetch: async () => [task(`t${++fetches}`)], ttlMs: 1000, now: () => time });
+    await store.fetch(inbox);
+    time = 999;
+    await store.fetch(inbox);
+    expect(fetches).toBe(1);
+    await store.fetch(inbox, { force: true });
+    expect(fetches).toBe(2);
+    time = 2000;
+    await store.fetch(inbox);
+    expect(fetches).toBe(3);
+  });
+
+  it('keeps the last tasks and reports the error when a fetch fails', async () => {
+    const { calls, fetch } = deferredFetch();
+    const store = createTaskStore({ fetch });
+    let latest: TaskQuerySnapshot | undefined;
+    store.subscribe(inbox, (s) => (latest = s));
+    const loaded = store.fetch(inbox);
+    calls[0].resolve([task('a')]);
+    await loaded;
+    const failed = store.fetch(inbox, { force: true });
+    calls[1].reject(new Error('OmniFocus is not running'));
+    await failed;
+    expect(latest).toEqual({ tasks: [task('a')], error: 'OmniFocus is not running', loading: false });
+  });
+});
+
+describe('createTaskStore - broadcasting', () => {
+  it('publishes edited tasks to every query that shows them', async () => {
+    const store = createTaskStore({ fetch: async (source) => (source.kind === 'inbox' ? [task('a'), task('b')] : [task('a')]) });
+    const inboxSeen: TaskQuerySnapshot[] = [];
+    const tagSeen: TaskQuerySnapshot[] = [];
+    store.subscribe(inbox, (s) => inboxSeen.push(s));
+    store.subscribe(tagged, (s) => tagSeen.push(s));
+    await Promise.all([store.fetch(inbox), store.fetch(tagged)]);
+    store.publishTasks([task('a', 'Renamed')]);
+    expect(inboxSeen[inboxSeen.length - 1].tasks).toEqual([task('a', 'Renamed'), task('b')]);
+    expect(tagSeen[tagSeen.length - 1].tasks).toEqual([task('a', 'Renamed')]);
+    const counts = [inboxSeen.length, tagSeen.length];
+    store.publishTasks([task('z')]);
+    expect([inboxSeen.length, tagSeen.length]).toEqual(counts);
+  });
+
+  it('refreshes every subscribed query after a mutation', async () => {
+    const open = new Set(['a', 'b']);
+    const store = createTaskStore({ fetch: async () => Array.from(open).map((id) => task(id)) });
+    let inboxTasks: OmniFocusTask[] | undefined;
+    let tagTasks: OmniFocusTask[] | undefined;
+    store.subscribe(inbox, (s) => (inboxTasks = s.tasks));
+    store.subscribe(tagged, (s) => (tagTasks = s.tasks));
+    await Promise.all([store.fetch(inbox), store.fetch(tagged)]);
+    open.delete('a');
+    await store.refreshAll();
+    expect(inboxTasks).toEqual([task('b')]);
+    expect(tagTasks).toEqual([task('b')]);
+  });
+
+  it('does not trust a fetch that started before a mutation', async () => {
+    const { calls, fetch } = deferredFetch();
+    const store = createTaskStore({ fetch });
+    let latest: TaskQuerySnapshot | undefined;
+    store.subscribe(inbox, (s) => (latest = s));
+    void store.fetch(inbox);
+    const refreshed = store.refreshAll();
+    expect(calls).toHaveLength(2);
+    calls[1].resolve([task('b')]);
+    calls[0].resolve([task('a'), task('b')]);
+    await refreshed;
+    expect(latest?.tasks).toEqual([task('b')]);
+  });
+
+  it('stops notifying and refreshing queries once their blocks unsubscribe', async () => {
+    let fetches = 0;
+    const store = createTaskStore({ fetch: async () => [task(`t${++fetches}`)] });
+    const seen: TaskQuerySnapshot[] = [];
+    const unsubscribe = store.subscribe(inbox, (s) => seen.push(s));
+    await store.fetch(inbox);
+    expect(store.subscribedQueryCount()).toBe(1);
+    unsubscribe();
+    const count = seen.length;
+    await store.refreshAll();
+    expect(fetches).toBe(1);
+    expect(seen).toHaveLength(count);
+    expect(store.subscribedQueryCount()).toBe(0);
+  });
+});
+
+describe('createTaskStore - polling', () => {
+  it('refetches queries in view and marks the others stale', async () => {
+    const fetched: string[] = [];
+    const store = createTaskStore({ fetch: async (source) => (fetched.push(source.kind), [task(source.kind)]) });
+    const inView = () => undefined;
+    const scrolledAway = () => undefined;
+    store.subscribe(inbox, inView);
+    store.subscribe(tagged, scrolledAway);
+    await Promise.all([store.fetch(inbox), store.fetch(tagged)]);
+    store.setPaused(scrolledAway, true);
+    await store.poll();
+    expect(fetched).toEqual(['inbox', 'tag', 'inbox']);
+    store.setPaused(scrolledAway, false);
+    await store.fetch(tagged);
+    expect(fetched).toEqual(['inbox', 'tag', 'inbox', 'tag']);
+  });
+
+  it('keeps polling a query while any of its blocks is in view', async () => {
+    let fetches = 0;
+    const store = createTaskStore({ fetch: async () => [task(`t${++fetches}`)] });
+    const first = () => undefined;
+    store.subscribe(inbox, first);
+    store.subscribe(inbox, () => undefined);
+    await store.fetch(inbox);
+    store.setPaused(first, true);
+    await store.poll();
+    expect(fetches).toBe(2);
+  });
+});
+
+describe('createTaskStore - offline cache', () => {
+  it('saves results and shows them, marked stale, when a later fetch fails', async () => {
+    const store = createTaskStore({ fetch: async () => [task('a')] });
+    const cache = createOfflineCache(parseOfflineData(null), () => undefined, () => new Date('2026-10-19T08:00:00.000Z'));
+    store.useOfflineCache(cache);
+    await store.fetch(inbox);
+    cache.enqueue({ kind: 'create', source: { kind: 'inbox' }, name: 'Queued', note: '' });
+    // A later session, with OmniFocus closed.
+    const fresh = createTaskStore({ fetch: async () => Promise.reject(new Error('OmniFocus is not running')) });
+    fresh.useOfflineCache(cache);
+    let latest: TaskQuerySnapshot | undefined;
+    fresh.subscribe(inbox, (s) => (latest = s));
+    await fresh.fetch(inbox);
+    expect(latest).toEqual({
+      tasks: [task('a'), { id: 'queued:0', name: 'Queued', note: '' }],
+      error: 'OmniFocus is not running',
+      staleSince: '2026-10-19T08:00:00.000Z',
+      loading: false,
+    });
+  });
+});
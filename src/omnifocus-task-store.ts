@@ -0,0 +1,253 @@
+/**
+ * Shared task store for OmniFocus blocks (no lit or Obsidian dependency).
+ *
+ * Blocks subscribe to the query they show instead of fetching on their own.
+ * The store runs one fetch per distinct query at a time, reuses results for
+ * a short TTL, and pushes every change to all subscribers of a query: fresh
+ * results, task edits made in any block (`publishTasks`), and refetches
+ * after mutations (`refreshAll`) or on the auto-refresh timer (`poll`).
+ */
+
+import { fetchTasks } from './omnifocus';
+import type { OmniFocusTask, TaskSource } from './omnifocus';
+import type { FetchTasksOptions } from './omnifocus-backend';
+import type { OfflineCache } from './omnifocus-offline';
+import type { TaskFilter } from './omnifocus-filter';
+
+/** What a block shows: its source plus the fetch options. */
+export interface TaskQuery {
+  source: TaskSource;
+  includeCompleted: boolean;
+  filter?: TaskFilter;
+}
+
+/** State of one query as seen by its subscribers. */
+export interface TaskQuerySnapshot {
+  /** Last fetched tasks; kept while a refetch is running or after it failed. */
+  tasks?: OmniFocusTask[];
+  /** Message of the last failed fetch, cleared by the next successful one. */
+  error?: string;
+  /**
+   * Set when the last fetch failed and `tasks` come from the offline cache:
+   * ISO time they were fetched.
+   */
+  staleSince?: string;
+  loading: boolean;
+}
+
+export interface TaskStore {
+  /**
+   * Call `listener` with the query's snapshot now and after every change,
+   * until the returned function is called.
+   */
+  subscribe(query: TaskQuery, listener: (snapshot: TaskQuerySnapshot) => void): () => void;
+  /**
+   * Fetch a query's tasks. Joins a fetch of the same query that is already
+   * running, and returns cached tasks younger than the TTL unless `force`.
+   */
+  fetch(query: TaskQuery, options?: { force?: boolean }): Promise<void>;
+  /** Replace these tasks (by id) in every cached result, e.g. after an inline edit. */
+  publishTasks(tasks: OmniFocusTask[]): void;
+  /**
+   * Forget cached results and refetch every query that has subscribers,
+   * e.g. after a task was completed, moved or created.
+   */
+  refreshAll(): Promise<void>;
+  /**
+   * Pause or resume a listener, e.g. while its block is scrolled out of view.
+   * Paused listeners still receive snapshots but do not make `poll` refetch.
+   */
+  setPaused(listener: (snapshot: TaskQuerySnapshot) => void, paused: boolean): void;
+  /**
+   * Refetch every query with an unpaused subscriber. Queries whose
+   * subscribers are all paused are only marked stale, so the next `fetch`
+   * (when a block comes back into view) loads them again.
+   */
+  poll(): Promise<void>;
+  /**
+   * Save successful results to `cache` and fall back to it when a fetch
+   * fails; null turns the fallback off.
+   */
+  useOfflineCache(cache: OfflineCache | null): void;
+  /** Number of queries with subscribers. */
+  subscribedQueryCount(): number;
+}
+
+type Listener = (snapshot: TaskQuerySnapshot) => void;
+
+interface QueryEntry {
+  query: TaskQuery;
+  snapshot: TaskQuerySnapshot;
+  fetchedAt: number | null;
+  inflight: Promise<void> | null;
+  /** Store generation the running fetch started in. */
+  inflightGeneration: number;
+  listeners: Set<Listener>;
+}
+
+/** Shared state of one store. */
+interface StoreContext {
+  load: (source: TaskSource, fetchOptions: FetchTasksOptions) => Promise<OmniFocusTask[]>;
+  ttlMs: number;
+  now: () => number;
+  entries: Map<string, QueryEntry>;
+  paused: Set<Listener>;
+  offline: OfflineCache | null;
+  /** Bumped by `refreshAll`, so results of fetches started before a mutation are not cached. */
+  generation: number;
+}
+
+/** Stable cache key of a query. */
+export function taskQueryKey(query: TaskQuery): string {
+  return JSON.stringify([query.source, query.includeCompleted, query.filter ?? null]);
+}
+
+/**
+ * Short fingerprint of a task list, so a block can skip re-rendering when a
+ * refetch returned the same tasks (djb2 over the JSON).
+ */
+export function hashTasks(tasks: OmniFocusTask[] | undefined): string {
+  const text = JSON.stringify(tasks ?? null);
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) hash = ((hash * 33) ^ text.charCodeAt(i)) >>> 0;
+  return `${text.length}:${hash.toString(36)}`;
+}
+
+/** How long fetched tasks are reused by blocks that mount or re-render. */
+export const TASK_STORE_TTL_MS = 30 * 1000;
+
+function entryFor(ctx: StoreContext, query: TaskQuery): QueryEntry {
+  const key = taskQueryKey(query);
+  let entry = ctx.entries.get(key);
+  if (!entry) {
+    entry = {
+      query,
+      snapshot: { loading: false },
+      fetchedAt: null,
+      inflight: null,
+      inflightGeneration: -1,
+      listeners: new Set(),
+    };
+    ctx.entries.set(key, entry);
+  }
+  return entry;
+}
+
+function update(entry: QueryEntry, snapshot: TaskQuerySnapshot): void {
+  entry.snapshot = snapshot;
+  entry.listeners.forEach((listener) => listener(snapshot));
+}
+
+/** Start a fetch for an entry; results of a fetch superseded by a newer one are ignored. */
+function startFetch(ctx: StoreContext, entry: QueryEntry): Promise<void> {
+  const startedIn = ctx.generation;
+  update(entry, { ...entry.snapshot, loading: true });
+  const { source, includeCompleted, filter } = entry.query;
+  const run = ctx
+    .load(source, { includeCompleted, filter })
+    .then(
+      (tasks) => {
+        if (entry.inflight !== run) return;
+        entry.fetchedAt = startedIn === ctx.generation ? ctx.now() : null;
+        ctx.offline?.remember(taskQueryKey(entry.query), tasks);
+        update(entry, { tasks, loading: false });
+      },
+      (err) => {
+        if (entry.inflight !== run) return;
+        const error = err instanceof Error ? err.message : String(err);
+        const stale = ctx.offline?.staleSnapshot(taskQueryKey(entry.query), source);
+        update(entry, stale ? { tasks: stale.tasks, error, staleSince: stale.savedAt, loading: false } : { ...entry.snapshot, error, loading: false });
+      },
+    )
+    .then(() => {
+      if (entry.inflight === run) entry.inflight = null;
+    });
+  entry.inflight = run;
+  entry.inflightGeneration = startedIn;
+  return run;
+}
+
+function fetchQuery(ctx: StoreContext, query: TaskQuery, force: boolean): Promise<void> {
+  const entry = entryFor(ctx, query);
+  if (entry.inflight && entry.inflightGeneration === ctx.generation) return entry.inflight;
+  const fresh = entry.fetchedAt !== null && ctx.now() - entry.fetchedAt < ctx.ttlMs;
+  if (!force && fresh && !entry.snapshot.error) return Promise.resolve();
+  return startFetch(ctx, entry);
+}
+
+function publishTasks(ctx: StoreContext, tasks: OmniFocusTask[]): void {
+  const byId = new Map(tasks.map((t) => [t.id, t] as [string, OmniFocusTask]));
+  ctx.entries.forEach((entry) => {
+    const current = entry.snapshot.tasks;
+    if (!current || !current.some((t) => byId.has(t.id))) return;
+    update(entry, { ...entry.snapshot, tasks: current.map((t) => byId.get(t.id) ?? t) });
+  });
+}
+
+/**
+ * Create a task store.
+ *
+ * @param options.fetch - Loads tasks (defaults to the active backend's `fetchTasks`).
+ * @param options.ttlMs - How long results are reused without `force`.
+ * @param options.now - Clock in epoch milliseconds (for tests).
+ */
+export function createTaskStore(
+  options: {
+    fetch?: (source: TaskSource, fetchOptions: FetchTasksOptions) => Promise<OmniFocusTask[]>;
+    ttlMs?: number;
+    now?: () => number;
+  } = {},
+): TaskStore {
+  const ctx: StoreContext = {
+    load: options.fetch ?? fetchTasks,
+    ttlMs: options.ttlMs ?? TASK_STORE_TTL_MS,
+    now: options.now ?? (() => Date.now()),
+    entries: new Map(),
+    paused: new Set(),
+    offline: null,
+    generation: 0,
+  };
+  return {
+    subscribe: (query, listener) => {
+      const entry = entryFor(ctx, query);
+      entry.listeners.add(listener);
+      listener(entry.snapshot);
+      return () => {
+        entry.listeners.delete(listener);
+        ctx.paused.delete(listener);
+        if (entry.listeners.size === 0 && !entry.inflight) ctx.entries.delete(taskQueryKey(query));
+      };
+    },
+    fetch: (query, fetchOptions = {}) => fetchQuery(ctx, query, fetchOptions.force === true),
+    publishTasks: (tasks) => publishTasks(ctx, tasks),
+    refreshAll: async () => {
+      ctx.generation++;
+      const refreshes: Promise<void>[] = [];
+      ctx.entries.forEach((entry, key) => {
+        entry.fetchedAt = null;
+        if (entry.listeners.size > 0) refreshes.push(fetchQuery(ctx, entry.query, false));
+        else if (!entry.inflight) ctx.entries.delete(key);
+      });
+      await Promise.all(refreshes);
+    },
+    setPaused: (listener, paused) => {
+      if (paused) ctx.paused.add(listener);
+      else ctx.paused.delete(listener);
+    },
+    poll: async () => {
+      const refreshes: Promise<void>[] = [];
+      ctx.entries.forEach((entry) => {
+        if (Array.from(entry.listeners).some((l) => !ctx.paused.has(l))) refreshes.push(fetchQuery(ctx, entry.query, true));
+        else entry.fetchedAt = null;
+      });
+      await Promise.all(refreshes);
+    },
+    useOfflineCache: (cache) => {
+      ctx.offline = cache;
+    },
+    subscribedQueryCount: () => Array.from(ctx.entries.values()).filter((e) => e.listeners.size > 0).length,
+  };
+}
+
+/** The store shared by every OmniFocus block of the plugin. */
+export const omnifocusTaskStore = createTaskStore();
@@ -0,0 +1,60 @@
+import type { OmniFocusTask } from './omnifocus';
+import { buildTaskTree, countRemainingDescendants, openDescendantIds } from './omnifocus-task-tree';
+import type { TaskNode } from './omnifocus-task-tree';
+
+function task(id: string, parentId: string | null = null, completed = false): OmniFocusTask {
+  return { id, name: id, note: '', completed, parentId };
+}
+
+/** Compact `[id, children]` shape for assertions. */
+function shape(nodes: TaskNode[]): unknown[] {
+  return nodes.map((n) => (n.children.length > 0 ? [n.task.id, shape(n.children)] : n.task.id));
+}
+
+describe('buildTaskTree', () => {
+  it('nests tasks under their action groups', () => {
+    const tree = buildTaskTree([task('a'), task('a1', 'a'), task('a1x', 'a1'), task('a2', 'a'), task('b')]);
+    expect(shape(tree)).toEqual([['a', [['a1', ['a1x']], 'a2']], 'b']);
+  });
+
+  it('does not depend on parents being listed before children', () => {
+    expect(shape(buildTaskTree([task('c', 'p'), task('p')]))).toEqual([['p', ['c']]]);
+  });
+
+  it('treats tasks whose parent is not in the list as roots', () => {
+    expect(shape(buildTaskTree([task('x', 'missing'), task('y')]))).toEqual(['x', 'y']);
+  });
+
+  it('moves completed tasks last at every level', () => {
+    const tree = buildTaskTree([
+      task('done', null, true),
+      task('open'),
+      task('c1', 'open', true),
+      task('c2', 'open'),
+    ]);
+    expect(shape(tree)).toEqual([['open', ['c2', 'c1']], 'done']);
+  });
+
+  it('keeps tasks without hierarchy information flat', () => {
+    const tasks: OmniFocusTask[] = [
+      { id: 'a', name: 'A', note: '' },
+      { id: 'b', name: 'B', note: '' },
+    ];
+    expect(shape(buildTaskTree(tasks))).toEqual(['a', 'b']);
+  });
+});
+
+describe('countRemainingDescendants', () => {
+  it('counts open tasks at all depths', () => {
+    const [root] = buildTaskTree([task('g'), task('a', 'g'), task('b', 'a'), task('c', 'g', true)]);
+    expect(countRemainingDescendants(root)).toBe(2);
+  });
+});
+
+describe('openDescendantIds', () => {
+  it('lists open tasks at all depths, skipping completed ones', () => {
+    const tasks = [task('g'), task('a', 'g'), task('b', 'a'), task('c', 'g', true), task('d', 'c'), task('x')];
+    expect(openDescendantIds(tasks, 'g')).toEqual(['a', 'b', 'd']);
+    expect(openDescendantIds(tasks, 'x')).toEqual([]);
+  });
+});
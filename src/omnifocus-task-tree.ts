@@ -0,0 +1,69 @@
+/**
+ * Build the action-group hierarchy of a task list (no lit or Obsidian
+ * dependency). Tasks carry `parentId`; this turns the flat list the backends
+ * return into a tree for the block UI.
+ */
+
+import type { OmniFocusTask } from './omnifocus';
+
+/** A task with its child tasks (action group contents), in display order. */
+export interface TaskNode {
+  task: OmniFocusTask;
+  children: TaskNode[];
+}
+
+/** Completed tasks after remaining ones; otherwise the backend's order is kept. */
+function completedLast(a: TaskNode, b: TaskNode): number {
+  return (a.task.completed ? 1 : 0) - (b.task.completed ? 1 : 0);
+}
+
+/**
+ * Build a forest from a flat task list.
+ *
+ * A task whose parent is not in the list (top-level tasks, or tasks whose
+ * action group was filtered out, e.g. in a tag block) becomes a root.
+ * Siblings keep their relative order, with completed tasks moved last.
+ */
+export function buildTaskTree(tasks: OmniFocusTask[]): TaskNode[] {
+  const nodes = new Map<string, TaskNode>();
+  for (const task of tasks) {
+    nodes.set(task.id, { task, children: [] });
+  }
+  const roots: TaskNode[] = [];
+  for (const task of tasks) {
+    const node = nodes.get(task.id)!;
+    const parent = task.parentId ? nodes.get(task.parentId) : undefined;
+    if (parent && parent !== node) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+  const sortLevel = (level: TaskNode[]): TaskNode[] => {
+    level.sort(completedLast);
+    for (const node of level) sortLevel(node.children);
+    return level;
+  };
+  return sortLevel(roots);
+}
+
+/** Number of remaining (not completed) descendants of a node. */
+export function countRemainingDescendants(node: TaskNode): number {
+  let count = 0;
+  for (const child of node.children) {
+    if (!child.task.completed) count++;
+    count += countRemainingDescendants(child);
+  }
+  return count;
+}
+
+/** Ids of the not-completed tasks nested under `taskId` in a flat task list, depth-first. */
+export function openDescendantIds(tasks: OmniFocusTask[], taskId: string): string[] {
+  const ids: string[] = [];
+  for (const task of tasks) {
+    if (task.parentId !== taskId || task.id === taskId) continue;
+    if (!task.completed) ids.push(task.id);
+    ids.push(...openDescendantIds(tasks, task.id));
+  }
+  return ids;
+}
@@ -0,0 +1,121 @@
+import { getTaskBackend, setTaskBackend } from './omnifocus-backend';
+import { createMemoryBackend } from './omnifocus-memory-backend';
+import type { MemoryBackend } from './omnifocus-memory-backend';
+import type { OmniFocusTask } from './omnifocus';
+import {
+  completeTaskWithUndo,
+  createUndoStack,
+  deleteTaskWithRecreateUndo,
+  moveTaskWithUndo,
+  omnifocusUndoStack,
+  uncompleteTaskWithUndo,
+  updateTaskWithUndo,
+  withUndo,
+} from './omnifocus-undo';
+
+const entry = (label: string, undo: () => Promise<void> = () => Promise.resolve()) => ({ label, undo });
+
+describe('createUndoStack', () => {
+  it('undoes the latest change first and keeps at most `limit` entries', async () => {
+    const undone: string[] = [];
+    const stack = createUndoStack(2);
+    for (const label of ['a', 'b', 'c']) stack.record(entry(label, async () => void undone.push(label)));
+    expect(stack.size()).toBe(2);
+    expect((await stack.undoLast())?.label).toBe('c');
+    expect((await stack.undoLast())?.label).toBe('b');
+    expect(await stack.undoLast()).toBeNull();
+    expect(undone).toEqual(['c', 'b']);
+  });
+
+  it('keeps an entry whose undo fails so it can be retried', async () => {
+    const stack = createUndoStack();
+    const failing = entry('a', () => Promise.reject(new Error('offline')));
+    stack.record(failing);
+    await expect(stack.undoLast()).rejects.toThrow('offline');
+    expect(stack.peek()).toBe(failing);
+  });
+
+  it('notifies listeners after successful undos until they unsubscribe', async () => {
+    const stack = createUndoStack();
+    const heard: string[] = [];
+    const stop = stack.onUndo((e) => heard.push(e.label));
+    stack.record(entry('a'));
+    stack.record(entry('b'));
+    await stack.undoLast();
+    stop();
+    await stack.undoLast();
+    expect(heard).toEqual(['b']);
+  });
+});
+
+describe('withUndo', () => {
+  afterEach(() => omnifocusUndoStack.clear());
+
+  it('records the inverse only when the change succeeds', async () => {
+    await expect(withUndo('fails', () => Promise.reject(new Error('no')), () => Promise.resolve())).rejects.toThrow();
+    expect(omnifocusUndoStack.size()).toBe(0);
+    const recorded = await withUndo('works', () => Promise.resolve(), () => Promise.resolve());
+    expect(omnifocusUndoStack.peek()).toBe(recorded);
+  });
+});
+
+describe('undoable task mutations', () => {
+  const original = getTaskBackend();
+  let backend: MemoryBackend;
+  beforeEach(() => {
+    backend = createMemoryBackend({
+      folders: [],
+      projects: [{ id: 'p1', name: 'Website', note: '', folderId: null }],
+      tags: [],
+      tasks: [
+        { id: 'g', name: 'Group', note: '', completed: false, projectId: 'p1', tagIds: [] },
+        { id: 'g1', name: 'Done', note: '', completed: true, projectId: 'p1', tagIds: [], parentId: 'g' },
+        { id: 'g2', name: 'Open', note: '', completed: false, projectId: 'p1', tagIds: [], parentId: 'g' },
+        { id: 'i', name: 'Inbox', note: 'n', completed: false, projectId: null, tagIds: [] },
+      ],
+    });
+    setTaskBackend(backend);
+  });
+  afterEach(() => {
+    setTaskBackend(original);
+    omnifocusUndoStack.clear();
+  });
+  const task = (id: string): OmniFocusTask => {
+    const t = backend.snapshot().tasks.find((x) => x.id === id)!;
+    return { id, name: t.name, note: t.note, projectName: t.projectId ? 'Website' : null };
+  };
+  const completed = () => backend.snapshot().tasks.filter((t) => t.completed).map((t) => t.id);
+
+  it('reopens an action group and only the subtasks that were open', async () => {
+    await completeTaskWithUndo(task('g'), ['g2']);
+    expect(completed()).toEqual(['g', 'g1', 'g2']);
+    await omnifocusUndoStack.undoLast();
+    expect(completed()).toEqual(['g1']);
+  });
+
+  it('moves a Smart Sort task back to the inbox and renames back', async () => {
+    await moveTaskWithUndo(task('i'), 'Website', null);
+    await updateTaskWithUndo(task('i'), 'Renamed', 'n2');
+    expect(backend.snapshot().tasks[3]).toMatchObject({ name: 'Renamed', note: 'n2', projectId: 'p1' });
+    await omnifocusUndoStack.undoLast();
+    await omnifocusUndoStack.undoLast();
+    expect(backend.snapshot().tasks[3]).toMatchObject({ name: 'Inbox', note: 'n', projectId: null });
+  });
+
+  it('drops a reopened dropped task again on undo', async () => {
+    await backend.dropTask('i');
+    await uncompleteTaskWithUndo({ ...task('i'), status: 'dropped' });
+    expect(backend.snapshot().tasks[3].dropped).toBeFalsy();
+    await omnifocusUndoStack.undoLast();
+    expect(backend.snapshot().tasks[3]).toMatchObject({ dropped: true, completed: false });
+  });
+
+  it('recreates a deleted task in its project', async () => {
+    const recorded = await deleteTaskWithRecreateUndo(task('g2'));
+    expect(recorded.label).toBe('Deleted "Open" (undo adds a new task with its name and note)');
+    await omnifocusUndoStack.undoLast();
+    const restored = backend.snapshot().tasks.filter((t) => t.name === 'Open');
+    expect(restored).toHaveLength(1);
+    expect(restored[0]).toMatchObject({ projectId: 'p1', completed: false });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Plugin-wide undo history of OmniFocus changes (no lit or Obsidian
+ * dependency). Every mutation made from the plugin records how to revert
+ * it: complete ↔ mark incomplete, move ↔ move back, rename ↔ rename back,
+ * and so on. The "Undo last OmniFocus change" command and the Undo button
+ * in notices pop the latest entry (see undo-notice.ts). The `…WithUndo`
+ * functions below wrap the backend mutations with their inverses.
+ */
+
+import {
+  completeTask,
+  createTask,
+  deleteTask,
+  dropTask,
+  moveTaskToInbox,
+  moveTaskToProject,
+  uncompleteTask,
+  updateTask,
+} from './omnifocus';
+import type { OmniFocusTask, TaskSource } from './omnifocus';
+
+/** A change that was made, and how to revert it. */
+export interface UndoEntry {
+  /** Past-tense description, e.g. `Completed "Call Bob"`. */
+  label: string;
+  undo: () => Promise<void>;
+}
+
+export interface UndoStack {
+  /** Remember a change that succeeded; the oldest entries drop off past the limit. */
+  record(entry: UndoEntry): void;
+  /**
+   * Revert the latest change.
+   *
+   * @returns The entry that was undone, or null when there is nothing to undo.
+   * @throws When reverting fails; the entry stays on the stack so it can be retried.
+   */
+  undoLast(): Promise<UndoEntry | null>;
+  /** The latest entry without undoing it. */
+  peek(): UndoEntry | null;
+  size(): number;
+  clear(): void;
+  /** Called after every successful undo; returns an unsubscribe function. */
+  onUndo(listener: (entry: UndoEntry) => void): () => void;
+}
+
+/** Create an undo history holding at most `limit` entries. */
+export function createUndoStack(limit = 50): UndoStack {
+  let entries: UndoEntry[] = [];
+  const listeners = new Set<(entry: UndoEntry) => void>();
+  return {
+    record: (entry) => {
+      entries = [...entries, entry].slice(-limit);
+    },
+    undoLast: async () => {
+      const entry = entries[entries.length - 1];
+      if (!entry) return null;
+      entries = entries.slice(0, -1);
+      try {
+        await entry.undo();
+      } catch (err) {
+        entries = [...entries, entry];
+        throw err;
+      }
+      listeners.forEach((listener) => listener(entry));
+      return entry;
+    },
+    peek: () => entries[entries.length - 1] ?? null,
+    size: () => entries.length,
+    clear: () => {
+      entries = [];
+    },
+    onUndo: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/** The history shared by every block, command and modal of the plugin. */
+export const omnifocusUndoStack = createUndoStack();
+
+/**
+ * Run a mutation and, once it succeeded, record its inverse on
+ * {@link omnifocusUndoStack}. Nothing is recorded when the mutation throws.
+ *
+ * @returns The recorded entry (e.g. for a notice's Undo button).
+ */
+export async function withUndo(label: string, run: () => Promise<void>, undo: () => Promise<void>): Promise<UndoEntry> {
+  await run();
+  const entry = { label, undo };
+  omnifocusUndoStack.record(entry);
+  return entry;
+}
+
+/**
+ * Complete a task. Undo reopens it and the subtasks that were still open,
+ * since completing an action group completes them too.
+ */
+export function completeTaskWithUndo(task: OmniFocusTask, openSubtaskIds: string[] = []): Promise<UndoEntry> {
+  return withUndo(
+    `Completed "${task.name}"`,
+    () => completeTask(task.id),
+    () => reopenAll([task.id, ...openSubtaskIds]),
+  );
+}
+
+/** Mark a completed or dropped task incomplete; undo completes or drops it again. */
+export function uncompleteTaskWithUndo(task: OmniFocusTask): Promise<UndoEntry> {
+  return withUndo(
+    `Marked "${task.name}" incomplete`,
+    () => uncompleteTask(task.id),
+    () => (task.status === 'dropped' ? dropTask(task.id) : completeTask(task.id)),
+  );
+}
+
+/** Drop a task; undo reopens it and the subtasks that were still open. */
+export function dropTaskWithUndo(task: OmniFocusTask, openSubtaskIds: string[] = []): Promise<UndoEntry> {
+  return withUndo(
+    `Dropped "${task.name}"`,
+    () => dropTask(task.id),
+    () => reopenAll([task.id, ...openSubtaskIds]),
+  );
+}
+
+/**
+ * Delete a task. OmniFocus cannot bring a deleted task back, so undo only
+ * creates a new task with the same name and note in the same project (or the
+ * inbox); its id, subtasks, dates, tags, flag and position are lost, and the
+ * label says so.
+ */
+export function deleteTaskWithRecreateUndo(task: OmniFocusTask): Promise<UndoEntry> {
+  const source: TaskSource = task.projectName ? { kind: 'project', name: task.projectName } : { kind: 'inbox' };
+  return withUndo(
+    `Deleted "${task.name}" (undo adds a new task with its name and note)`,
+    () => deleteTask(task.id),
+    () => createTask(source, task.name, task.note).then(() => undefined),
+  );
+}
+
+/** Rename a task or change its note; undo restores both. */
+export function updateTaskWithUndo(task: OmniFocusTask, name: string, note: string): Promise<UndoEntry> {
+  return withUndo(
+    name !== task.name ? `Renamed "${task.name}" to "${name}"` : `Edited the note of "${task.name}"`,
+    () => updateTask(task.id, name, note),
+    () => updateTask(task.id, task.name, task.note),
+  );
+}
+
+/**
+ * Move a task to a project; undo moves it back to `fromProject`, or to the
+ * inbox when it is null (e.g. a Smart Sort suggestion for an inbox task).
+ */
+export function moveTaskWithUndo(
+  task: Pick<OmniFocusTask, 'id' | 'name'>,
+  projectName: string,
+  fromProject: string | null,
+): Promise<UndoEntry> {
+  return withUndo(
+    `Moved "${task.name}" to ${projectName}`,
+    () => moveTaskToProject(task.id, projectName),
+    () => (fromProject ? moveTaskToProject(task.id, fromProject) : moveTaskToInbox(task.id)),
+  );
+}
+
+async function reopenAll(taskIds: string[]): Promise<void> {
+  for (const id of taskIds) await uncompleteTask(id);
+}
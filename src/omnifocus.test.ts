@@ -1,8 +1,11 @@
 import {
   parseBlockConfig,
+  parseProjectMetadataOutput,
+  parseProjectReviewOutput,
   parseSource,
   parseTaskOutput,
   resolveName,
+  sourceAcceptsNewTasks,
   sourceLabel,
 } from './omnifocus';
 
@@ -68,6 +71,54 @@ describe('parseSource - project and tag', () => {
     });
 });
 
+describe('parseSource - folder, flagged, due, forecast and perspective', () => {
+    it('parses "folder: Work" with a case-insensitive keyword', () => {
+      expect(parseSource('Folder:  Work ')).toEqual({ kind: 'folder', name: 'Work' });
+    });
+
+    it('parses "perspective: Today"', () => {
+      expect(parseSource('perspective: Today')).toEqual({ kind: 'perspective', name: 'Today' });
+    });
+
+    it('parses flagged and forecast keywords', () => {
+      expect(parseSource('flagged')).toEqual({ kind: 'flagged' });
+      expect(parseSource('FORECAST')).toEqual({ kind: 'forecast' });
+    });
+
+    it('parses due windows', () => {
+      expect(parseSource('due: today')).toEqual({ kind: 'due', when: 'today' });
+      expect(parseSource('due: Overdue')).toEqual({ kind: 'due', when: 'overdue' });
+      expect(parseSource('due:soon')).toEqual({ kind: 'due', when: 'soon' });
+    });
+
+    it('throws for unknown due windows', () => {
+      expect(() => parseSource('due: tomorrow')).toThrow(
+        'Unknown due window: "tomorrow". Use: due: today, due: overdue or due: soon',
+      );
+    });
+
+    it('throws for empty folder and perspective names', () => {
+      expect(() => parseSource('folder:')).toThrow('Unknown source');
+      expect(() => parseSource('perspective:  ')).toThrow('Unknown source');
+    });
+});
+
+describe('sourceAcceptsNewTasks', () => {
+    it('accepts inbox, project, tag and flagged sources', () => {
+      expect(sourceAcceptsNewTasks({ kind: 'inbox' })).toBe(true);
+      expect(sourceAcceptsNewTasks({ kind: 'project', name: 'P' })).toBe(true);
+      expect(sourceAcceptsNewTasks({ kind: 'tag', name: 'T' })).toBe(true);
+      expect(sourceAcceptsNewTasks({ kind: 'flagged' })).toBe(true);
+    });
+
+    it('rejects views over other containers', () => {
+      expect(sourceAcceptsNewTasks({ kind: 'folder', name: 'F' })).toBe(false);
+      expect(sourceAcceptsNewTasks({ kind: 'due', when: 'today' })).toBe(false);
+      expect(sourceAcceptsNewTasks({ kind: 'forecast' })).toBe(false);
+      expect(sourceAcceptsNewTasks({ kind: 'perspective', name: 'P' })).toBe(false);
+    });
+});
+
 describe('parseSource - errors', () => {
     it('throws for unknown source', () => {
       expect(() => parseSource('nonsense')).toThrow('Unknown source');
@@ -82,6 +133,9 @@ describe('parseSource - errors', () => {
         expect(msg).toContain('inbox');
         expect(msg).toContain('project: <name>');
         expect(msg).toContain('tag: <name>');
+        expect(msg).toContain('folder: <name>');
+        expect(msg).toContain('due: today|overdue|soon');
+        expect(msg).toContain('perspective: <name>');
       }
     });
 });
@@ -137,6 +191,14 @@ describe('parseBlockConfig', () => {
     });
   });
 
+  it('parses flat alongside showCompleted', () => {
+    expect(parseBlockConfig('project: Bar\nFlat\nshowCompleted')).toEqual({
+      source: { kind: 'project', name: 'Bar' },
+      showCompleted: true,
+      flat: true,
+    });
+  });
+
   it('throws for invalid source on first line', () => {
     expect(() => parseBlockConfig('nonsense')).toThrow('Unknown source');
   });
@@ -146,6 +208,53 @@ describe('parseBlockConfig', () => {
   });
 });
 
+describe('parseBlockConfig - sort, group and limit', () => {
+  it('adds the options alongside the others', () => {
+    expect(parseBlockConfig('tag: @Office\ngroup: project\nsort: due\nlimit: 5\nflat')).toEqual({
+      source: { kind: 'tag', name: '@Office' },
+      showCompleted: false,
+      flat: true,
+      sort: 'due',
+      group: 'project',
+      limit: 5,
+    });
+  });
+
+  it('reports invalid options with the block line', () => {
+    expect(() => parseBlockConfig('inbox\nshowCompleted\ngroup: context')).toThrow('Line 3: Unknown group: "context"');
+  });
+});
+
+describe('parseBlockConfig - filters', () => {
+  it('combines where and search lines into one filter', () => {
+    expect(parseBlockConfig('inbox\nwhere: flagged\nSearch:  invoice')).toEqual({
+      source: { kind: 'inbox' },
+      showCompleted: false,
+      filter: {
+        op: 'and',
+        args: [
+          { op: 'compare', field: 'flagged', cmp: '=', value: { type: 'boolean', value: true } },
+          { op: 'compare', field: 'text', cmp: '~', value: { type: 'string', value: 'invoice' } },
+        ],
+      },
+    });
+  });
+
+  it('reports filter errors with the block line and column', () => {
+    expect(() => parseBlockConfig('inbox\nwhere: due <')).toThrow(
+      'Line 2: Invalid filter at column 13: expected a value after "<"',
+    );
+    expect(() => parseBlockConfig('inbox\nshowCompleted\nsearch:')).toThrow('Line 3: search: needs text');
+  });
+
+  it('counts blank lines and indentation in error positions', () => {
+    expect(() => parseBlockConfig('inbox\n\n  where: due <')).toThrow(
+      'Line 3: Invalid filter at column 15: expected a value after "<"',
+    );
+    expect(() => parseBlockConfig('inbox\n\n\ngroup: context')).toThrow('Line 4: Unknown group: "context"');
+  });
+});
+
 describe('resolveName', () => {
   const candidates = ['Alpha', 'Beta', 'Alpha Beta', 'Gamma'];
 
@@ -229,6 +338,75 @@ describe('sourceLabel', () => {
   it('returns tag label with quoted name', () => {
     expect(sourceLabel({ kind: 'tag', name: '@Work' })).toBe('tag "@Work"');
   });
+
+  it('labels folder, perspective and keyword sources', () => {
+    expect(sourceLabel({ kind: 'folder', name: 'Work' })).toBe('folder "Work"');
+    expect(sourceLabel({ kind: 'perspective', name: 'Today' })).toBe('perspective "Today"');
+    expect(sourceLabel({ kind: 'flagged' })).toBe('flagged');
+    expect(sourceLabel({ kind: 'forecast' })).toBe('forecast');
+  });
+
+  it('labels due windows', () => {
+    expect(sourceLabel({ kind: 'due', when: 'today' })).toBe('due today');
+    expect(sourceLabel({ kind: 'due', when: 'soon' })).toBe('due soon');
+    expect(sourceLabel({ kind: 'due', when: 'overdue' })).toBe('overdue');
+  });
+});
+
+describe('parseProjectReviewOutput', () => {
+  const now = new Date('2026-10-19T12:00:00.000Z');
+
+  it('turns seconds from now into review dates and maps AppleScript statuses', () => {
+    const output = 'p1\x1fWebsite\x1fWork/Website\x1factive status\x1f-604800\x1f3600\np2\x1fFix a/c\x1fHome/Fix a/c\x1fon hold status\x1f\x1f\n';
+    expect(parseProjectReviewOutput(output, now)).toEqual([
+      {
+        id: 'p1',
+        name: 'Website',
+        path: 'Work/Website',
+        status: 'active',
+        lastReviewDate: '2026-10-12T12:00:00.000Z',
+        nextReviewDate: '2026-10-19T13:00:00.000Z',
+      },
+      { id: 'p2', name: 'Fix a/c', path: 'Home/Fix a/c', status: 'on-hold', lastReviewDate: null, nextReviewDate: null },
+    ]);
+  });
+
+  it('reads done and dropped statuses and skips empty output', () => {
+    const statuses = parseProjectReviewOutput('a\x1fA\x1fA\x1fdone status\nb\x1fB\x1fB\x1fdropped status', now);
+    expect(statuses.map((p) => p.status)).toEqual(['completed', 'dropped']);
+    expect(parseProjectReviewOutput('', now)).toEqual([]);
+  });
+});
+
+describe('parseProjectMetadataOutput', () => {
+  const now = new Date('2026-10-19T12:00:00.000Z');
+
+  it('turns seconds from now into dates and splits tags', () => {
+    const output = 'p1\x1f86400\x1f\x1ftrue\x1f7\x1f12\x1f-604800\x1fWork\x1eWaiting For\np2\x1f\x1f3600\x1ffalse\x1f0\x1f0\x1f\x1f\n';
+    expect(parseProjectMetadataOutput(output, now)).toEqual([
+      {
+        id: 'p1',
+        dueDate: '2026-10-20T12:00:00.000Z',
+        deferDate: null,
+        flagged: true,
+        tags: ['Work', 'Waiting For'],
+        remainingTasks: 7,
+        completedTasks: 12,
+        lastReviewDate: '2026-10-12T12:00:00.000Z',
+      },
+      {
+        id: 'p2',
+        dueDate: null,
+        deferDate: '2026-10-19T13:00:00.000Z',
+        flagged: false,
+        tags: [],
+        remainingTasks: 0,
+        completedTasks: 0,
+        lastReviewDate: null,
+      },
+    ]);
+    expect(parseProjectMetadataOutput('', now)).toEqual([]);
+  });
 });
 
 describe('parseTaskOutput', () => {
@@ -5,34 +5,121 @@
  * Requires OmniFocus 4 to be installed and running.
  */
 
-/** A task from OmniFocus with name, persistent id, and notes. */
+import { parseYamlBlockConfig } from './omnifocus-block-yaml';
+import { combineFilters, parseFilter, searchFilter } from './omnifocus-filter';
+import type { TaskFilter } from './omnifocus-filter';
+import { parseListOptionLines } from './omnifocus-task-order';
+import type { TaskGroupKey, TaskListFormat, TaskSortKey } from './omnifocus-task-order';
+
+/** OmniFocus availability status of a task. */
+export type TaskStatus =
+  | 'available'
+  | 'next'
+  | 'blocked'
+  | 'due-soon'
+  | 'overdue'
+  | 'completed'
+  | 'dropped';
+
+/** All statuses, for validation. */
+export const TASK_STATUSES: readonly TaskStatus[] = [
+  'available',
+  'next',
+  'blocked',
+  'due-soon',
+  'overdue',
+  'completed',
+  'dropped',
+];
+
+/**
+ * A task from OmniFocus with name, persistent id, and notes.
+ *
+ * The metadata fields are reported by the JXA and memory backends; the legacy
+ * AppleScript transport leaves them undefined. Dates are ISO 8601 strings and
+ * `null` when unset.
+ */
 export interface OmniFocusTask {
   name: string;
   id: string;
   note: string;
   /** True when task is completed; only present when includeCompleted was used. */
   completed?: boolean;
+  dueDate?: string | null;
+  deferDate?: string | null;
+  flagged?: boolean;
+  estimatedMinutes?: number | null;
+  /** Tag names, in OmniFocus order. */
+  tags?: string[];
+  /** Containing project name; null for inbox tasks. */
+  projectName?: string | null;
+  /** Folder path of the containing project (e.g. "Work/Clients"); null at top level or in the inbox. */
+  folderPath?: string | null;
+  /** Id of the containing action group; null for top-level tasks of a project or the inbox. */
+  parentId?: string | null;
+  addedDate?: string | null;
+  modifiedDate?: string | null;
+  completionDate?: string | null;
+  status?: TaskStatus;
 }
 
 /** Parsed block configuration (source + options). */
 export interface BlockConfig {
   source: TaskSource;
   showCompleted: boolean;
+  /** Render a flat list instead of the action-group hierarchy. */
+  flat?: boolean;
+  /** From `where:` and `search:` lines, combined with `and`. */
+  filter?: TaskFilter;
+  sort?: TaskSortKey;
+  group?: TaskGroupKey;
+  /** Rows shown per list or group before "Show more". */
+  limit?: number;
+  /** `tasks` shows the tasks as Obsidian Tasks markdown instead of the interactive list. */
+  format?: TaskListFormat;
 }
 
+/** Due-date windows for `due:` sources. */
+export type DueWindow = 'today' | 'overdue' | 'soon';
+
+export const DUE_WINDOWS: readonly DueWindow[] = ['today', 'overdue', 'soon'];
+
 /** Discriminated union describing where to fetch tasks from. */
 export type TaskSource =
   | { kind: 'inbox' }
   | { kind: 'project'; name: string }
-  | { kind: 'tag'; name: string };
+  | { kind: 'tag'; name: string }
+  | { kind: 'folder'; name: string }
+  | { kind: 'flagged' }
+  | { kind: 'due'; when: DueWindow }
+  | { kind: 'forecast' }
+  | { kind: 'perspective'; name: string };
+
+/** Sources whose argument is a name resolved against OmniFocus. */
+type NamedSourceKind = 'project' | 'tag' | 'folder' | 'perspective';
+
+const VALID_SOURCE_FORMATS =
+  '  (empty) or inbox        — fetch inbox tasks\n' +
+  '  project: <name>         — fetch tasks from a project\n' +
+  '  tag: <name>             — fetch tasks with a tag\n' +
+  '  folder: <name>          — fetch tasks from all projects in a folder\n' +
+  '  flagged                 — fetch flagged tasks\n' +
+  '  due: today|overdue|soon — fetch tasks by due date\n' +
+  '  forecast                — fetch tasks overdue, due or deferred until today\n' +
+  '  perspective: <name>     — fetch tasks shown by a custom perspective';
 
 /**
  * Parse a code-block body into a {@link TaskSource}.
  *
- * Accepted formats:
+ * Accepted formats (keywords are case-insensitive):
  * - empty string or `inbox` → inbox
  * - `project: <name>` → named project
  * - `tag: <name>` → named tag
+ * - `folder: <name>` → all projects under a folder (recursively)
+ * - `flagged` → flagged tasks
+ * - `due: today`, `due: overdue`, `due: soon` → tasks by due date
+ * - `forecast` → OmniFocus's Forecast for today
+ * - `perspective: <name>` → a custom perspective
  *
  * @returns A `TaskSource`, or `null` if the input is empty.
  * @throws If the input doesn't match any known format.
@@ -44,51 +131,67 @@ export function parseSource(input: string): TaskSource | null {
     return null;
   }
 
-  if (trimmed.toLowerCase() === 'inbox') {
+  const keyword = trimmed.toLowerCase();
+  if (keyword === 'inbox') {
     return { kind: 'inbox' };
   }
+  if (keyword === 'flagged') {
+    return { kind: 'flagged' };
+  }
+  if (keyword === 'forecast') {
+    return { kind: 'forecast' };
+  }
 
-  const projectMatch = trimmed.match(/^project:\s*(.+)$/i);
-  if (projectMatch) {
-    const name = projectMatch[1].trim();
-    if (name.length === 0) {
-      throw new Error('Project name cannot be empty. Use: project: My Project');
+  const dueMatch = trimmed.match(/^due:\s*(.*)$/i);
+  if (dueMatch) {
+    const when = dueMatch[1].trim().toLowerCase();
+    if (!(DUE_WINDOWS as readonly string[]).includes(when)) {
+      throw new Error(`Unknown due window: "${dueMatch[1].trim()}". Use: due: today, due: overdue or due: soon`);
     }
-    return { kind: 'project', name };
+    return { kind: 'due', when: when as DueWindow };
   }
 
-  const tagMatch = trimmed.match(/^tag:\s*(.+)$/i);
-  if (tagMatch) {
-    const name = tagMatch[1].trim();
-    if (name.length === 0) {
-      throw new Error('Tag name cannot be empty. Use: tag: @Work');
-    }
-    return { kind: 'tag', name };
+  const namedMatch = trimmed.match(/^(project|tag|folder|perspective):\s*(.+)$/i);
+  if (namedMatch) {
+    return { kind: namedMatch[1].toLowerCase() as NamedSourceKind, name: namedMatch[2].trim() };
   }
 
-  throw new Error(
-    `Unknown source: "${trimmed}". Valid formats:\n` +
-    '  (empty) or inbox — fetch inbox tasks\n' +
-    '  project: <name>  — fetch tasks from a project\n' +
-    '  tag: <name>      — fetch tasks with a tag',
-  );
+  throw new Error(`Unknown source: "${trimmed}". Valid formats:\n${VALID_SOURCE_FORMATS}`);
+}
+
+/**
+ * Whether new tasks can be added to a source so that they show up in it.
+ * Folder, due, forecast and perspective blocks are views over other
+ * containers, so they have no "Add task" target.
+ */
+export function sourceAcceptsNewTasks(source: TaskSource): boolean {
+  return source.kind === 'inbox' || source.kind === 'project' || source.kind === 'tag' || source.kind === 'flagged';
 }
 
 /**
  * Parse a code-block body into a {@link BlockConfig}.
  *
- * First line is the source (inbox, project: X, tag: X). Subsequent lines may
- * include "showCompleted" or "show-completed" (case-insensitive) to include
- * completed tasks.
+ * A YAML mapping (`source: inbox`, `showCompleted: true`, …) is validated
+ * against a schema (see omnifocus-block-yaml.ts). Otherwise the body uses the
+ * line-oriented format: the first line is the source (see {@link parseSource}).
+ * Subsequent lines may include "showCompleted" or "show-completed"
+ * (case-insensitive) to include
+ * completed tasks, "flat" to list subtasks without nesting them under
+ * their action groups, any number of `where: <expression>` and
+ * `search: <text>` filters (see omnifocus-filter.ts), and `sort:`, `group:`,
+ * `limit:` and `format:` (see omnifocus-task-order.ts).
  *
  * @returns A `BlockConfig`, or `null` if the input is empty.
- * @throws If the first line doesn't match any known source format.
+ * @throws If the first line doesn't match any known source format, a
+ *   filter, sort, group, limit or format line is invalid, or a YAML body fails
+ *   validation.
  */
 export function parseBlockConfig(input: string): BlockConfig | null {
-  const lines = input
-    .split('\n')
-    .map((l) => l.trim())
-    .filter((l) => l.length > 0);
+  const yamlConfig = parseYamlBlockConfig(input);
+  if (yamlConfig !== undefined) return yamlConfig;
+  // Untrimmed lines, blank ones included, so errors point at the block as written.
+  const bodyLines = input.split('\n').map((l) => l.trimEnd());
+  const lines = bodyLines.map((l) => l.trim()).filter((l) => l.length > 0);
   if (lines.length === 0) {
     return null;
   }
@@ -96,8 +199,42 @@ export function parseBlockConfig(input: string): BlockConfig | null {
   if (source === null) {
     return null;
   }
-  const showCompleted = lines.slice(1).some((l) => /^show-?completed$/i.test(l));
-  return { source, showCompleted };
+  const options = lines.slice(1);
+  const config: BlockConfig = {
+    source,
+    showCompleted: options.some((l) => /^show-?completed$/i.test(l)),
+  };
+  if (options.some((l) => /^flat$/i.test(l))) config.flat = true;
+  const filter = combineFilters(parseFilterLines(bodyLines));
+  if (filter) config.filter = filter;
+  return { ...config, ...parseListOptionLines(bodyLines) };
+}
+
+/**
+ * Filters from `where:` and `search:` option lines.
+ *
+ * @param lines - The block body as written, blank lines included.
+ * @throws With the 1-based block line number prefixed to the parser's error;
+ *   columns count from the start of that line.
+ */
+function parseFilterLines(lines: string[]): TaskFilter[] {
+  const filters: TaskFilter[] = [];
+  lines.forEach((line, i) => {
+    if (i === 0) return;
+    const where = line.match(/^\s*where:\s*/i);
+    const search = line.match(/^\s*search:\s*/i);
+    try {
+      if (where) filters.push(parseFilter(line.slice(where[0].length), where[0].length));
+      if (search) {
+        const text = line.slice(search[0].length);
+        if (!text) throw new Error('search: needs text to look for, e.g. search: invoice');
+        filters.push(searchFilter(text));
+      }
+    } catch (err) {
+      throw new Error(`Line ${i + 1}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  });
+  return filters;
 }
 
 /** Project with name and note (description). */
@@ -134,6 +271,38 @@ export function sanitizeProjectPath(path: string): string {
 export interface ProjectPathWithNote {
   path: string;
   note: string;
+  /** OmniFocus project id; stays the same when the project is renamed or moved. */
+  id: string;
+  status: ProjectStatus;
+}
+
+/** OmniFocus status of a project. */
+export type ProjectStatus = 'active' | 'on-hold' | 'completed' | 'dropped';
+
+export const PROJECT_STATUSES: readonly ProjectStatus[] = ['active', 'on-hold', 'completed', 'dropped'];
+
+/** A project's review state; `path` is sanitized like `ProjectPathWithNote.path`. */
+export interface OmniFocusProjectReview {
+  id: string;
+  name: string;
+  path: string;
+  status: ProjectStatus;
+  lastReviewDate: string | null;
+  /** Null for projects without a review schedule. */
+  nextReviewDate: string | null;
+}
+
+/** Dates, flag, tags and task counts of a project, for note properties; dates are ISO 8601. */
+export interface OmniFocusProjectMetadata {
+  id: string;
+  dueDate: string | null;
+  deferDate: string | null;
+  flagged: boolean;
+  tags: string[];
+  /** Tasks not yet completed or dropped, including action groups. */
+  remainingTasks: number;
+  completedTasks: number;
+  lastReviewDate: string | null;
 }
 
 /**
@@ -208,6 +377,66 @@ export function parseTaskOutput(stdout: string): OmniFocusTask[] {
   return tasks;
 }
 
+/** ProjectStatus of an AppleScript status as text ("on hold status" etc.). */
+export function projectStatusFromAppleScript(text: string): ProjectStatus {
+  if (text.includes('hold')) return 'on-hold';
+  if (text.includes('done')) return 'completed';
+  return text.includes('dropped') ? 'dropped' : 'active';
+}
+
+/**
+ * Parse delimited project review output
+ * (id<sep>name<sep>path<sep>status<sep>lastReview<sep>nextReview per line).
+ * AppleScript dates are local and locale-formatted, so review dates come as
+ * seconds from `now` (empty when unset); statuses as "on hold status" etc.
+ */
+export function parseProjectReviewOutput(stdout: string, now: Date): OmniFocusProjectReview[] {
+  const date = (secs: string | undefined) =>
+    secs && secs.trim() ? new Date(now.getTime() + Number(secs) * 1000).toISOString() : null;
+  return stdout
+    .split('\n')
+    .map((line) => line.split(FIELD_SEP))
+    .filter((parts) => parts.length >= 4)
+    .map(([id, name, path, status, last, next]) => ({
+      id,
+      name,
+      path: sanitizeProjectPath(path),
+      status: projectStatusFromAppleScript(status),
+      lastReviewDate: date(last),
+      nextReviewDate: date(next),
+    }));
+}
+
+/**
+ * Parse delimited project metadata output (id<sep>due<sep>defer<sep>flagged<sep>
+ * remaining<sep>completed<sep>lastReview<sep>tags per line). Dates come as
+ * seconds from `now` like in `parseProjectReviewOutput`; tags are separated
+ * by U+001E.
+ */
+export function parseProjectMetadataOutput(stdout: string, now: Date): OmniFocusProjectMetadata[] {
+  const date = (secs: string | undefined) =>
+    secs && secs.trim() ? new Date(now.getTime() + Number(secs) * 1000).toISOString() : null;
+  return stdout
+    .split('\n')
+    .map((line) => line.split(FIELD_SEP))
+    .filter((parts) => parts.length >= 7)
+    .map(([id, due, defer, flagged, remaining, completed, last, tags]) => ({
+      id,
+      dueDate: date(due),
+      deferDate: date(defer),
+      flagged: flagged === 'true',
+      tags: (tags ?? '').split('\x1e').map((t) => t.trim()).filter(Boolean),
+      remainingTasks: Number(remaining) || 0,
+      completedTasks: Number(completed) || 0,
+      lastReviewDate: date(last),
+    }));
+}
+
+/** Message of a thrown value, for notices and logs. */
+export function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
 /** Human-readable label for a task source. */
 export function sourceLabel(source: TaskSource): string {
   switch (source.kind) {
@@ -217,6 +446,16 @@ export function sourceLabel(source: TaskSource): string {
       return `project "${source.name}"`;
     case 'tag':
       return `tag "${source.name}"`;
+    case 'folder':
+      return `folder "${source.name}"`;
+    case 'flagged':
+      return 'flagged';
+    case 'due':
+      return source.when === 'overdue' ? 'overdue' : `due ${source.when}`;
+    case 'forecast':
+      return 'forecast';
+    case 'perspective':
+      return `perspective "${source.name}"`;
   }
 }
 
@@ -227,10 +466,24 @@ export {
   fetchProjectsWithNotes,
   fetchTagNames,
   fetchTasks,
+  fetchTasksById,
+  fetchCompletedTasks,
   createTask,
   completeTask,
+  uncompleteTask,
+  dropTask,
+  deleteTask,
   updateTask,
+  setTaskDate,
+  setTaskFlagged,
+  addTagToTask,
+  removeTagFromTask,
   createProject,
   updateProjectNote,
+  fetchProjectReviews,
+  fetchProjectMetadata,
+  markProjectReviewed,
+  setProjectStatus,
   moveTaskToProject,
-} from './omnifocus-applescript';
+  moveTaskToInbox,
+} from './omnifocus-backend';
@@ -0,0 +1,250 @@
+/**
+ * Weekly review pane: steps through the projects due for review (see
+ * project-review.ts), opening each project's synced note in the editor and
+ * showing its task block in the pane next to it, with actions that mark the
+ * project reviewed or change its status in OmniFocus.
+ */
+
+import { html, render } from 'lit';
+import { ItemView, Notice } from 'obsidian';
+import type { View, WorkspaceLeaf } from 'obsidian';
+import { errorMessage, fetchProjectReviews, markProjectReviewed, setProjectStatus } from './omnifocus';
+import { createOmnifocusBlock } from './omnifocus-block';
+import type { OmnifocusPluginContext } from './omnifocus-block';
+import { omnifocusTaskStore } from './omnifocus-task-store';
+import { formatFullDate } from './omnifocus-task-meta';
+import {
+  currentReviewProject,
+  recordReviewAction,
+  reviewActionChanges,
+  reviewProgress,
+  startReview,
+  summarizeReview,
+} from './project-review';
+import type { ReviewAction, ReviewProject, ReviewSession } from './project-review';
+import { projectNotePath } from './sync-folders';
+import type { ProjectNoteIndex } from './sync-folders';
+
+export const PROJECT_REVIEW_VIEW = 'omnifocus-project-review';
+
+/** Plugin context required for the review pane: the block context, the saved session and the note index. */
+export interface ProjectReviewPluginContext extends OmnifocusPluginContext {
+  registerView(type: string, viewCreator: (leaf: WorkspaceLeaf) => View): void;
+  loadReviewSession(): ReviewSession | null;
+  saveReviewSession(session: ReviewSession | null): void;
+  loadProjectNoteIndex(): ProjectNoteIndex;
+}
+
+const ACTION_BUTTONS: { action: ReviewAction; label: string }[] = [
+  { action: 'reviewed', label: 'Mark reviewed' },
+  { action: 'on-hold', label: 'On hold' },
+  { action: 'completed', label: 'Complete' },
+  { action: 'dropped', label: 'Drop' },
+  { action: 'skipped', label: 'Skip' },
+];
+
+/**
+ * Open the project's synced note in the editor, found by id in the note index
+ * or else by its path; false when folder sync has not created it.
+ */
+async function openProjectNote(plugin: ProjectReviewPluginContext, project: ReviewProject): Promise<boolean> {
+  const { app, settings } = plugin;
+  const indexed = plugin.loadProjectNoteIndex()[project.id];
+  const file =
+    (indexed ? app.vault.getFileByPath(indexed) : null) ?? app.vault.getFileByPath(projectNotePath(settings, project.path));
+  if (!file) return false;
+  await app.workspace.getLeaf(false).openFile(file);
+  return true;
+}
+
+/** Send an action's changes to OmniFocus. */
+async function applyReviewAction(project: ReviewProject, action: ReviewAction): Promise<void> {
+  const { status, markReviewed } = reviewActionChanges(action);
+  if (status) await setProjectStatus(project.id, status);
+  if (markReviewed) await markProjectReviewed(project.id);
+}
+
+class ProjectReviewView extends ItemView {
+  private block: { unload: () => void } | null = null;
+  private blockProjectId: string | null = null;
+  private busy = false;
+  private noteMissing = false;
+
+  constructor(leaf: WorkspaceLeaf, private readonly plugin: ProjectReviewPluginContext) {
+    super(leaf);
+  }
+
+  getViewType(): string {
+    return PROJECT_REVIEW_VIEW;
+  }
+
+  getDisplayText(): string {
+    return 'OmniFocus review';
+  }
+
+  getIcon(): string {
+    return 'list-checks';
+  }
+
+  async onOpen(): Promise<void> {
+    await this.showCurrentProject();
+  }
+
+  async onClose(): Promise<void> {
+    this.unloadBlock();
+  }
+
+  /** Open the current project's note and render the pane for it. */
+  async showCurrentProject(): Promise<void> {
+    const session = this.plugin.loadReviewSession();
+    const project = session ? currentReviewProject(session) : null;
+    this.noteMissing = project ? !(await openProjectNote(this.plugin, project)) : false;
+    this.renderPane();
+  }
+
+  private unloadBlock(): void {
+    this.block?.unload();
+    this.block = null;
+    this.blockProjectId = null;
+  }
+
+  /** Show the project's tasks below the actions; kept while the project stays current. */
+  private mountBlock(project: ReviewProject | null): void {
+    if (project?.id === this.blockProjectId) return;
+    this.unloadBlock();
+    const container = this.contentEl.querySelector<HTMLElement>('.omnifocus-review-tasks');
+    if (!project || !container) return;
+    container.empty();
+    const block = createOmnifocusBlock(
+      container.createDiv({ cls: 'omnifocus-container' }),
+      { source: { kind: 'project', name: project.name }, showCompleted: false },
+      this.plugin,
+    );
+    block.doFetch();
+    this.block = block;
+    this.blockProjectId = project.id;
+  }
+
+  private async act(project: ReviewProject, action: ReviewAction): Promise<void> {
+    const session = this.plugin.loadReviewSession();
+    if (!session || this.busy) return;
+    this.busy = true;
+    this.renderPane();
+    try {
+      await applyReviewAction(project, action);
+      const next = recordReviewAction(session, project.id, action);
+      if (currentReviewProject(next)) {
+        this.plugin.saveReviewSession(next);
+      } else {
+        this.plugin.saveReviewSession(null);
+        new Notice(`Review finished: ${summarizeReview(next)}.`);
+      }
+      void omnifocusTaskStore.refreshAll();
+    } catch (err) {
+      new Notice(`Failed to update ${project.name}: ${errorMessage(err)}`);
+    } finally {
+      this.busy = false;
+    }
+    await this.showCurrentProject();
+  }
+
+  private renderPane(): void {
+    const session = this.plugin.loadReviewSession();
+    const project = session ? currentReviewProject(session) : null;
+    render(session && project ? this.renderProject(session, project) : this.renderIdle(), this.contentEl);
+    this.mountBlock(project);
+  }
+
+  private renderIdle(): ReturnType<typeof html> {
+    return html`
+      <div class="omnifocus-review">
+        <p>No review in progress.</p>
+        <button @click=${() => void startProjectReview(this.plugin)}>Start review</button>
+      </div>
+    `;
+  }
+
+  private renderProject(session: ReviewSession, project: ReviewProject): ReturnType<typeof html> {
+    const { done, total } = reviewProgress(session);
+    return html`
+      <div class="omnifocus-review">
+        <div class="omnifocus-review-progress">
+          <span>Project ${done + 1} of ${total}</span>
+          <progress max=${total} value=${done}></progress>
+        </div>
+        <h3 class="omnifocus-review-project">${project.name}</h3>
+        <div class="omnifocus-review-path">${project.path}</div>
+        ${this.noteMissing
+          ? html`<p class="omnifocus-review-missing">No synced note yet. Run "Sync folders from OmniFocus" to create it.</p>`
+          : ''}
+        <div class="omnifocus-review-actions">
+          ${ACTION_BUTTONS.map(
+            ({ action, label }) => html`
+              <button class=${action === 'reviewed' ? 'mod-cta' : ''} ?disabled=${this.busy} @click=${() => void this.act(project, action)}>
+                ${label}
+              </button>
+            `,
+          )}
+        </div>
+        <div class="omnifocus-review-started">Started ${formatFullDate(new Date(session.startedAt))}</div>
+        <div class="omnifocus-review-tasks"></div>
+      </div>
+    `;
+  }
+}
+
+/** Show the review pane in the right sidebar, next to the note being reviewed. */
+async function revealReviewPane(plugin: ProjectReviewPluginContext): Promise<void> {
+  const { workspace } = plugin.app;
+  const existing = workspace.getLeavesOfType(PROJECT_REVIEW_VIEW)[0];
+  if (existing) {
+    await workspace.revealLeaf(existing);
+    if (existing.view instanceof ProjectReviewView) await existing.view.showCurrentProject();
+    return;
+  }
+  const leaf = workspace.getRightLeaf(false);
+  if (!leaf) return;
+  await leaf.setViewState({ type: PROJECT_REVIEW_VIEW, active: true });
+  await workspace.revealLeaf(leaf);
+}
+
+/** Start a new review of the projects due today, replacing any saved progress. */
+async function startProjectReview(plugin: ProjectReviewPluginContext): Promise<void> {
+  try {
+    const session = startReview(await fetchProjectReviews(), new Date());
+    if (session.projects.length === 0) {
+      plugin.saveReviewSession(null);
+      new Notice('No OmniFocus projects are due for review.');
+      return;
+    }
+    plugin.saveReviewSession(session);
+    await revealReviewPane(plugin);
+  } catch (err) {
+    new Notice(`Failed to start the review: ${errorMessage(err)}`);
+  }
+}
+
+/** Resume the saved review, or start one when there is none. */
+async function resumeProjectReview(plugin: ProjectReviewPluginContext): Promise<void> {
+  const session = plugin.loadReviewSession();
+  if (session && currentReviewProject(session)) {
+    await revealReviewPane(plugin);
+    return;
+  }
+  await startProjectReview(plugin);
+}
+
+/** Register the review pane and the commands that start or resume a review. */
+export function registerProjectReview(plugin: ProjectReviewPluginContext): void {
+  plugin.registerView(PROJECT_REVIEW_VIEW, (leaf) => new ProjectReviewView(leaf, plugin));
+  plugin.addCommand({
+    id: 'review-projects',
+    name: 'Review OmniFocus projects',
+    callback: () => void resumeProjectReview(plugin),
+  });
+  plugin.addCommand({
+    id: 'restart-project-review',
+    name: 'Start a new OmniFocus project review',
+    callback: () => void startProjectReview(plugin),
+  });
+}
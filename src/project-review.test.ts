@@ -0,0 +1,75 @@
+import type { OmniFocusProjectReview } from './omnifocus';
+import {
+  currentReviewProject,
+  isDueForReview,
+  parseReviewSession,
+  recordReviewAction,
+  reviewActionChanges,
+  reviewProgress,
+  startReview,
+  summarizeReview,
+} from './project-review';
+
+/** ISO timestamp of a local date and hour in October 2026. */
+const oct = (day: number, hour = 12) => new Date(2026, 9, day, hour).toISOString();
+const now = new Date(2026, 9, 19, 10);
+const project = (name: string, fields: Partial<OmniFocusProjectReview> = {}): OmniFocusProjectReview => ({
+  id: `id-${name}`,
+  name,
+  path: `Work/${name}`,
+  status: 'active',
+  lastReviewDate: null,
+  nextReviewDate: oct(12),
+  ...fields,
+});
+
+describe('isDueForReview', () => {
+  it('includes active and on-hold projects due by the end of today', () => {
+    expect(isDueForReview(project('a', { nextReviewDate: oct(19, 23) }), now)).toBe(true);
+    expect(isDueForReview(project('b', { status: 'on-hold' }), now)).toBe(true);
+    expect(isDueForReview(project('c', { nextReviewDate: oct(20, 0) }), now)).toBe(false);
+    expect(isDueForReview(project('d', { status: 'completed' }), now)).toBe(false);
+    expect(isDueForReview(project('e', { nextReviewDate: null }), now)).toBe(false);
+  });
+});
+
+describe('review sessions', () => {
+  const projects = [
+    project('Site', { nextReviewDate: oct(18) }),
+    project('Later', { nextReviewDate: oct(25) }),
+    project('Hiring', { nextReviewDate: oct(12) }),
+    project('Blog', { nextReviewDate: oct(18) }),
+  ];
+
+  it('orders due projects by next review date, then path', () => {
+    expect(startReview(projects, now).projects.map((p) => p.name)).toEqual(['Hiring', 'Blog', 'Site']);
+  });
+
+  it('steps through the projects and summarizes the actions', () => {
+    let session = startReview(projects, now);
+    session = recordReviewAction(session, 'id-Hiring', 'reviewed');
+    session = recordReviewAction(session, 'id-Blog', 'on-hold');
+    expect(currentReviewProject(session)?.name).toBe('Site');
+    expect(reviewProgress(session)).toEqual({ done: 2, total: 3 });
+    session = recordReviewAction(session, 'id-Site', 'skipped');
+    expect(currentReviewProject(session)).toBeNull();
+    expect(summarizeReview(session)).toBe('1 reviewed, 1 put on hold, 1 skipped');
+  });
+
+  it('maps actions to OmniFocus changes', () => {
+    expect(reviewActionChanges('on-hold')).toEqual({ status: 'on-hold', markReviewed: true });
+    expect(reviewActionChanges('dropped')).toEqual({ status: 'dropped', markReviewed: false });
+    expect(reviewActionChanges('skipped')).toEqual({ markReviewed: false });
+  });
+});
+
+describe('parseReviewSession', () => {
+  it('round-trips a saved session and drops malformed entries', () => {
+    const session = recordReviewAction(startReview([project('Site')], now), 'id-Site', 'completed');
+    expect(parseReviewSession(JSON.parse(JSON.stringify(session)))).toEqual(session);
+    expect(
+      parseReviewSession({ startedAt: 'x', projects: [{ id: 'a', name: 'A' }], actions: { a: 'maybe' } }),
+    ).toEqual({ startedAt: 'x', projects: [], actions: {} });
+    expect(parseReviewSession(undefined)).toBeNull();
+  });
+});
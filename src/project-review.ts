@@ -0,0 +1,124 @@
+/**
+ * Weekly project review (no Obsidian dependency): which projects are due
+ * for review, and a review session that records what was done with each of
+ * them. The session is saved in data.json after every step, so a review
+ * can be resumed after closing the review pane or restarting Obsidian.
+ */
+
+import type { OmniFocusProjectReview, ProjectStatus } from './omnifocus';
+
+/** What the reviewer did with a project; `skipped` leaves it untouched in OmniFocus. */
+export type ReviewAction = 'reviewed' | 'on-hold' | 'completed' | 'dropped' | 'skipped';
+
+export const REVIEW_ACTIONS: readonly ReviewAction[] = ['reviewed', 'on-hold', 'completed', 'dropped', 'skipped'];
+
+/** A project in a review session. */
+export interface ReviewProject {
+  id: string;
+  name: string;
+  path: string;
+}
+
+export interface ReviewSession {
+  startedAt: string;
+  /** Projects to review, in review order. */
+  projects: ReviewProject[];
+  /** Action taken per project id; projects without one are still to review. */
+  actions: Record<string, ReviewAction>;
+}
+
+/** Active and on-hold projects whose next review falls on or before today, as in OmniFocus's Review perspective. */
+export function isDueForReview(project: OmniFocusProjectReview, now: Date): boolean {
+  if (project.status !== 'active' && project.status !== 'on-hold') return false;
+  if (!project.nextReviewDate) return false;
+  return Date.parse(project.nextReviewDate) < new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1).getTime();
+}
+
+/** Projects due for review, longest overdue first, then by path. */
+export function projectsDueForReview(projects: OmniFocusProjectReview[], now: Date): OmniFocusProjectReview[] {
+  return projects
+    .filter((p) => isDueForReview(p, now))
+    .sort((a, b) => Date.parse(a.nextReviewDate!) - Date.parse(b.nextReviewDate!) || a.path.localeCompare(b.path));
+}
+
+/** A new session over the projects due for review. */
+export function startReview(projects: OmniFocusProjectReview[], now: Date): ReviewSession {
+  return {
+    startedAt: now.toISOString(),
+    projects: projectsDueForReview(projects, now).map(({ id, name, path }) => ({ id, name, path })),
+    actions: {},
+  };
+}
+
+/** The next project without an action, or null when the review is finished. */
+export function currentReviewProject(session: ReviewSession): ReviewProject | null {
+  return session.projects.find((p) => !session.actions[p.id]) ?? null;
+}
+
+export function recordReviewAction(session: ReviewSession, projectId: string, action: ReviewAction): ReviewSession {
+  return { ...session, actions: { ...session.actions, [projectId]: action } };
+}
+
+export function reviewProgress(session: ReviewSession): { done: number; total: number } {
+  return {
+    done: session.projects.filter((p) => session.actions[p.id]).length,
+    total: session.projects.length,
+  };
+}
+
+/**
+ * What an action changes in OmniFocus. Projects put on hold are still marked
+ * reviewed, so they come up again after their review interval; completed and
+ * dropped projects leave the review.
+ */
+export function reviewActionChanges(action: ReviewAction): { status?: ProjectStatus; markReviewed: boolean } {
+  switch (action) {
+    case 'reviewed':
+      return { markReviewed: true };
+    case 'on-hold':
+      return { status: 'on-hold', markReviewed: true };
+    case 'completed':
+      return { status: 'completed', markReviewed: false };
+    case 'dropped':
+      return { status: 'dropped', markReviewed: false };
+    case 'skipped':
+      return { markReviewed: false };
+  }
+}
+
+const ACTION_SUMMARY: Record<ReviewAction, string> = {
+  reviewed: 'reviewed',
+  'on-hold': 'put on hold',
+  completed: 'completed',
+  dropped: 'dropped',
+  skipped: 'skipped',
+};
+
+/** E.g. "5 reviewed, 1 put on hold, 2 skipped". */
+export function summarizeReview(session: ReviewSession): string {
+  const counts = new Map<ReviewAction, number>();
+  for (const p of session.projects) {
+    const action = session.actions[p.id];
+    if (action) counts.set(action, (counts.get(action) ?? 0) + 1);
+  }
+  const parts = REVIEW_ACTIONS.filter((a) => counts.has(a)).map((a) => `${counts.get(a)} ${ACTION_SUMMARY[a]}`);
+  return parts.length > 0 ? parts.join(', ') : 'no projects reviewed';
+}
+
+/** Read a saved session from data.json; null when missing or malformed. */
+export function parseReviewSession(raw: unknown): ReviewSession | null {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const obj = raw as Record<string, unknown>;
+  if (typeof obj.startedAt !== 'string' || !Array.isArray(obj.projects)) return null;
+  const projects = obj.projects.filter(
+    (p): p is ReviewProject =>
+      typeof p === 'object' && p !== null && ['id', 'name', 'path'].every((k) => typeof (p as Record<string, unknown>)[k] === 'string'),
+  );
+  const actions: Record<string, ReviewAction> = {};
+  const rawActions = typeof obj.actions === 'object' && obj.actions !== null ? (obj.actions as Record<string, unknown>) : {};
+  for (const id of Object.keys(rawActions)) {
+    const action = rawActions[id];
+    if ((REVIEW_ACTIONS as readonly unknown[]).includes(action)) actions[id] = action as ReviewAction;
+  }
+  return { startedAt: obj.startedAt, projects: projects.map(({ id, name, path }) => ({ id, name, path })), actions };
+}
@@ -0,0 +1,162 @@
+/**
+ * Settings sections for keeping notes in step with OmniFocus: block
+ * auto-refresh, checkbox sync, the daily note, two-way project descriptions,
+ * project note templates and the properties folder sync writes into project
+ * notes. Rendered by `SettingsTab`.
+ */
+
+import { Setting } from 'obsidian';
+import type ObsidianPlugin from '../main';
+import type { CheckboxConflictPolicy } from './checkbox-sync-plan';
+import { PROJECT_PROPERTIES, projectPropertyKey } from './sync-folders-properties';
+import { TEMPLATE_PLACEHOLDERS } from './sync-folders-template';
+
+function renderRefreshSettings(containerEl: HTMLElement, plugin: ObsidianPlugin): void {
+  new Setting(containerEl)
+    .setName('Auto-refresh interval')
+    .setDesc('Minutes between automatic refreshes of OmniFocus blocks in view. Set to 0 to refresh only with the Sync button.')
+    .addText((text) =>
+      text
+        .setPlaceholder('5')
+        .setValue(String(plugin.settings.autoRefreshMinutes))
+        .onChange(async (value) => {
+          const minutes = Number(value.trim());
+          if (!Number.isFinite(minutes) || minutes < 0) return;
+          plugin.settings.autoRefreshMinutes = minutes;
+          await plugin.saveSettings();
+        }),
+    );
+
+  new Setting(containerEl)
+    .setName('Refresh on focus')
+    .setDesc('Refresh OmniFocus blocks in view when you switch back to Obsidian.')
+    .addToggle((toggle) =>
+      toggle.setValue(plugin.settings.refreshOnFocus).onChange(async (value) => {
+        plugin.settings.refreshOnFocus = value;
+        await plugin.saveSettings();
+      }),
+    );
+}
+
+function renderCheckboxSyncSettings(containerEl: HTMLElement, plugin: ObsidianPlugin): void {
+  new Setting(containerEl)
+    .setName('Checkbox sync')
+    .setDesc('Keep checkboxes linked with <!-- of:ID --> in step with their OmniFocus tasks, after edits and on the auto-refresh interval.')
+    .addToggle((toggle) =>
+      toggle.setValue(plugin.settings.checkboxSync).onChange(async (value) => {
+        plugin.settings.checkboxSync = value;
+        await plugin.saveSettings();
+      }),
+    );
+
+  new Setting(containerEl)
+    .setName('Checkbox text conflicts')
+    .setDesc('Which text to keep when a checkbox and its task were both renamed since the last sync.')
+    .addDropdown((d) => {
+      d.addOption('omnifocus', 'Keep the OmniFocus name');
+      d.addOption('note', 'Keep the note text');
+      d.setValue(plugin.settings.checkboxSyncConflicts);
+      d.onChange(async (value) => {
+        plugin.settings.checkboxSyncConflicts = value as CheckboxConflictPolicy;
+        await plugin.saveSettings();
+      });
+    });
+}
+
+function renderDailyNoteSettings(containerEl: HTMLElement, plugin: ObsidianPlugin): void {
+  new Setting(containerEl)
+    .setName('Update daily note automatically')
+    .setDesc("Refresh the OmniFocus Today and Completed sections of today's daily note when it is opened and on the auto-refresh interval. The note is never created automatically.")
+    .addToggle((toggle) =>
+      toggle.setValue(plugin.settings.dailyNoteAutoUpdate).onChange(async (value) => {
+        plugin.settings.dailyNoteAutoUpdate = value;
+        await plugin.saveSettings();
+      }),
+    );
+}
+
+/** Render the auto-refresh, checkbox sync and daily note settings. */
+export function renderSyncSettings(containerEl: HTMLElement, plugin: ObsidianPlugin): void {
+  renderRefreshSettings(containerEl, plugin);
+  renderCheckboxSyncSettings(containerEl, plugin);
+  renderDailyNoteSettings(containerEl, plugin);
+}
+
+function renderTemplateSettings(containerEl: HTMLElement, plugin: ObsidianPlugin): void {
+  const placeholders = TEMPLATE_PLACEHOLDERS.map(({ name, desc }) => `{{${name}}} (${desc})`).join(', ');
+  new Setting(containerEl)
+    .setName('Project note template')
+    .setDesc(`Optional. Vault path of a note to create project notes from; existing notes get the template's sections they are missing. Placeholders: ${placeholders}. Leave empty for the built-in note.`)
+    .addText((text) =>
+      text
+        .setPlaceholder('Templates/Project.md')
+        .setValue(plugin.settings.folderSyncTemplatePath)
+        .onChange(async (value) => {
+          plugin.settings.folderSyncTemplatePath = value;
+          await plugin.saveSettings();
+        }),
+    );
+
+  new Setting(containerEl)
+    .setName('Templates per folder')
+    .setDesc('Optional. A different template for projects in a top-level OmniFocus folder, one "Folder: template path" per line.')
+    .addTextArea((text) =>
+      text
+        .setPlaceholder('Work: Templates/Work project.md')
+        .setValue(plugin.settings.folderSyncFolderTemplates)
+        .onChange(async (value) => {
+          plugin.settings.folderSyncFolderTemplates = value;
+          await plugin.saveSettings();
+        }),
+    );
+}
+
+/** Render the folder sync settings for project note content: templates and two-way descriptions. */
+export function renderFolderSyncNoteSettings(containerEl: HTMLElement, plugin: ObsidianPlugin): void {
+  renderTemplateSettings(containerEl, plugin);
+
+  new Setting(containerEl)
+    .setName('Two-way project descriptions')
+    .setDesc('Write descriptions edited in project notes back to the first paragraph of the OmniFocus project note. When both sides changed since the last sync, folder sync asks which to keep.')
+    .addToggle((toggle) =>
+      toggle.setValue(plugin.settings.folderSyncTwoWay).onChange(async (value) => {
+        plugin.settings.folderSyncTwoWay = value;
+        await plugin.saveSettings();
+      }),
+    );
+
+  new Setting(containerEl)
+    .setName('Sync notes section')
+    .setDesc('With two-way descriptions, keep a "## Notes" section in each project note in step with the rest of the OmniFocus note (after its first paragraph, which is the description).')
+    .addToggle((toggle) =>
+      toggle.setValue(plugin.settings.folderSyncNotesSection).onChange(async (value) => {
+        plugin.settings.folderSyncNotesSection = value;
+        await plugin.saveSettings();
+      }),
+    );
+}
+
+/** Render one setting per project note property: its frontmatter key, or empty to leave it out. */
+export function renderProjectPropertySettings(containerEl: HTMLElement, plugin: ObsidianPlugin): void {
+  new Setting(containerEl)
+    .setName('Project note properties')
+    .setDesc('Frontmatter keys folder sync writes into project notes. Rename a key to match your queries, or clear it to stop writing that property.')
+    .setHeading();
+
+  for (const { id, label, desc } of PROJECT_PROPERTIES) {
+    new Setting(containerEl)
+      .setName(label)
+      .setDesc(desc)
+      .addText((text) =>
+        text
+          .setPlaceholder(id)
+          .setValue(projectPropertyKey(plugin.settings.folderSyncProperties, id))
+          .onChange(async (value) => {
+            const key = value.trim();
+            if (key !== '' && (!/^[\w-]+$/.test(key) || key === 'description' || key === 'sticker')) return;
+            plugin.settings.folderSyncProperties = { ...plugin.settings.folderSyncProperties, [id]: key };
+            await plugin.saveSettings();
+          }),
+      );
+  }
+}
@@ -63,4 +63,9 @@ describe('DEFAULT_SETTINGS', () => {
     expect(DEFAULT_SETTINGS.folderSyncBasePath).toBe('');
     expect(DEFAULT_SETTINGS.smartSortMaxTasksPerBatch).toBe(10);
   });
+
+  it('leaves background OmniFocus syncing off until it is turned on', () => {
+    expect(DEFAULT_SETTINGS.autoRefreshMinutes).toBe(0);
+    expect(DEFAULT_SETTINGS.checkboxSync).toBe(false);
+  });
 });
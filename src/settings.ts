@@ -18,6 +18,11 @@ import {
   type LLMConfig,
   type LLMProvider,
 } from './llm';
+import type { OmniFocusTransport, TaskBackendKind } from './omnifocus-backend';
+import type { CheckboxConflictPolicy } from './checkbox-sync-plan';
+import { renderFolderSyncNoteSettings, renderProjectPropertySettings, renderSyncSettings } from './settings-sync';
+import { defaultProjectPropertyKeys } from './sync-folders-properties';
+import type { ProjectPropertyKeys } from './sync-folders-properties';
 
 /** Features that can have an optional LLM model override. Single source of truth for UI and map keys. */
 export const LLM_OVERRIDE_FEATURES = [
@@ -40,6 +45,20 @@ function defaultLlmModelOverrides(): Record<LLMFeatureOverride, string> {
 export interface PluginSettings {
   textValue: string;
   folderSyncBasePath: string;
+  /** Move the folders of completed and dropped projects to `folderSyncArchivePath` during folder sync. */
+  folderSyncArchive: boolean;
+  folderSyncArchivePath: string;
+  folderSyncArchiveOnHold: boolean;
+  /** Write descriptions edited in project notes back to OmniFocus (two-way descriptions). */
+  folderSyncTwoWay: boolean;
+  /** With two-way descriptions, also sync a `## Notes` section with the rest of the OmniFocus note. */
+  folderSyncNotesSection: boolean;
+  /** Vault path of the note template for new project notes; empty for the built-in note. */
+  folderSyncTemplatePath: string;
+  /** Templates by top-level OmniFocus folder, one `Folder: path` per line. */
+  folderSyncFolderTemplates: string;
+  /** Frontmatter key of each project note property; empty keys are not written. */
+  folderSyncProperties: ProjectPropertyKeys;
   llmProvider: LLMProvider;
   llmApiKey: string;
   llmBaseUrl: string;
@@ -47,11 +66,30 @@ export interface PluginSettings {
   llmModelOverrides: Record<LLMFeatureOverride, string>;
   smartSortAdditionalContext: string;
   smartSortMaxTasksPerBatch: number;
+  taskBackend: TaskBackendKind;
+  taskBackendJsonPath: string;
+  omnifocusTransport: OmniFocusTransport;
+  /** Minutes between automatic refreshes of visible blocks; 0 turns it off. */
+  autoRefreshMinutes: number;
+  refreshOnFocus: boolean;
+  /** Sync checkboxes linked with `<!-- of:ID -->` after edits and on the auto-refresh interval. */
+  checkboxSync: boolean;
+  checkboxSyncConflicts: CheckboxConflictPolicy;
+  /** Update today's daily note when it is opened and on the auto-refresh interval. */
+  dailyNoteAutoUpdate: boolean;
 }
 
 export const DEFAULT_SETTINGS: PluginSettings = {
   textValue: '',
   folderSyncBasePath: '',
+  folderSyncArchive: false,
+  folderSyncArchivePath: 'Archive',
+  folderSyncArchiveOnHold: false,
+  folderSyncTwoWay: false,
+  folderSyncNotesSection: false,
+  folderSyncTemplatePath: '',
+  folderSyncFolderTemplates: '',
+  folderSyncProperties: defaultProjectPropertyKeys(),
   llmProvider: 'openrouter',
   llmApiKey: '',
   llmBaseUrl: '',
@@ -59,6 +97,14 @@ export const DEFAULT_SETTINGS: PluginSettings = {
   llmModelOverrides: defaultLlmModelOverrides(),
   smartSortAdditionalContext: '',
   smartSortMaxTasksPerBatch: 10,
+  taskBackend: 'omnifocus',
+  taskBackendJsonPath: 'omnifocus-demo.json',
+  omnifocusTransport: 'jxa',
+  autoRefreshMinutes: 0,
+  refreshOnFocus: true,
+  checkboxSync: false,
+  checkboxSyncConflicts: 'omnifocus',
+  dailyNoteAutoUpdate: false,
 };
 
 /**
@@ -89,6 +135,8 @@ export class SettingsTab extends PluginSettingTab {
     this.containerEl.empty();
     this.renderHeader();
     this.renderGeneralSettings();
+    this.renderBackendSettings();
+    renderSyncSettings(this.containerEl, this.plugin);
     this.renderLLMProviderAndCreds();
     this.renderLLMModelAndOverrides();
     this.renderSmartSortSettings();
@@ -127,6 +175,100 @@ export class SettingsTab extends PluginSettingTab {
             await this.plugin.saveSettings();
           }),
       );
+
+    new Setting(this.containerEl)
+      .setName('Archive finished projects')
+      .setDesc('Move the folders of completed and dropped projects to the archive folder during folder sync, and back when a project is reactivated.')
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.folderSyncArchive).onChange(async (value) => {
+          this.plugin.settings.folderSyncArchive = value;
+          await this.plugin.saveSettings();
+        }),
+      );
+
+    new Setting(this.containerEl)
+      .setName('Archive folder')
+      .setDesc('Vault folder for archived project folders, which keep their OmniFocus folder hierarchy inside it.')
+      .addText((text) =>
+        text
+          .setPlaceholder('Archive')
+          .setValue(this.plugin.settings.folderSyncArchivePath)
+          .onChange(async (value) => {
+            this.plugin.settings.folderSyncArchivePath = value;
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(this.containerEl)
+      .setName('Archive on-hold projects')
+      .setDesc('Archive projects that are on hold as well.')
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.folderSyncArchiveOnHold).onChange(async (value) => {
+          this.plugin.settings.folderSyncArchiveOnHold = value;
+          await this.plugin.saveSettings();
+        }),
+      );
+
+    renderFolderSyncNoteSettings(this.containerEl, this.plugin);
+    renderProjectPropertySettings(this.containerEl, this.plugin);
+  }
+
+  private renderBackendSettings(): void {
+    const backendOptions: Record<TaskBackendKind, string> = {
+      omnifocus: 'OmniFocus',
+      memory: 'In-memory (demo, not saved)',
+      'json-file': 'JSON file in vault',
+    };
+
+    new Setting(this.containerEl)
+      .setName('Task backend')
+      .setDesc('Where tasks come from. Use the in-memory or JSON file backend to run without OmniFocus.')
+      .addDropdown((d) => {
+        for (const [k, v] of Object.entries(backendOptions)) {
+          d.addOption(k, v);
+        }
+        d.setValue(this.plugin.settings.taskBackend);
+        d.onChange(async (value) => {
+          this.plugin.settings.taskBackend = value as TaskBackendKind;
+          await this.plugin.saveSettings();
+          await this.plugin.configureTaskBackend();
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName('OmniFocus transport')
+      .setDesc('JXA returns JSON and handles any characters in task names; calls JXA cannot run fall back to AppleScript. Choose AppleScript to use it for everything.')
+      .addDropdown((d) => {
+        d.addOption('jxa', 'JXA / Omni Automation (JSON)');
+        d.addOption('applescript', 'AppleScript (legacy)');
+        d.setValue(this.plugin.settings.omnifocusTransport);
+        d.onChange(async (value) => {
+          this.plugin.settings.omnifocusTransport = value as OmniFocusTransport;
+          await this.plugin.saveSettings();
+          await this.plugin.configureTaskBackend();
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName('JSON backend file')
+      .setDesc('Vault-relative path of the JSON database used by the JSON file backend. Created on first change.')
+      .addText((text) => {
+        let installedPath = this.plugin.settings.taskBackendJsonPath ?? '';
+        text
+          .setPlaceholder('omnifocus-demo.json')
+          .setValue(installedPath)
+          .onChange(async (value) => {
+            this.plugin.settings.taskBackendJsonPath = value;
+            await this.plugin.saveSettings();
+          });
+        // Reinstall the backend once editing is done, not on every keystroke.
+        text.inputEl.addEventListener('blur', () => {
+          const path = this.plugin.settings.taskBackendJsonPath ?? '';
+          if (path === installedPath || this.plugin.settings.taskBackend !== 'json-file') return;
+          installedPath = path;
+          void this.plugin.configureTaskBackend();
+        });
+      });
   }
 
   private renderLLMProviderAndCreds(): void {
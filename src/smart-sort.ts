@@ -89,6 +89,7 @@ async function preprocessTasks(tasks: OmniFocusTask[]): Promise<OmniFocusTask[]>
         .replace(/\s{2,}/g, ' ');
       const newNote = [meta.description, url, noteWithoutUrl].filter(Boolean).join(' ');
       try {
+        // Not recorded for undo: the user did not make this change.
         await updateTask(task.id, meta.title, newNote);
       } catch (err) {
         console.error('[omnifocus-sync] Failed to persist URL rename to OmniFocus:', err);
@@ -0,0 +1,89 @@
+/**
+ * Prompt for project descriptions that changed both in OmniFocus and in the
+ * project note since the last folder sync (two-way descriptions, see
+ * sync-folders-descriptions.ts). For each, the user keeps the OmniFocus text,
+ * keeps the note's, or decides later, which leaves both sides as they are.
+ */
+
+import { App, Modal, Setting } from 'obsidian';
+import type { DescriptionConflict, DescriptionSide, ProjectText } from './sync-folders-descriptions';
+
+/** The side to keep for each resolved conflict, by project id. */
+export type DescriptionResolutions = Record<string, DescriptionSide>;
+
+function renderSide(el: HTMLElement, title: string, text: ProjectText): void {
+  const side = el.createDiv({ cls: 'omnifocus-sync-conflict-side' });
+  side.createEl('h4', { text: title });
+  side.appendText(text.description || '(no description)');
+  if (text.notes) side.appendText(`\n\n${text.notes}`);
+}
+
+/**
+ * Render each conflict with both texts and a choice of side; `resolutions`
+ * is updated in place and `onChange` called after every choice.
+ */
+export function renderDescriptionConflicts(
+  el: HTMLElement,
+  conflicts: DescriptionConflict[],
+  resolutions: DescriptionResolutions,
+  onChange: () => void,
+): void {
+  for (const { projectId, projectName, path, omnifocus, obsidian } of conflicts) {
+    const row = el.createDiv({ cls: 'omnifocus-sync-conflict' });
+    new Setting(row)
+      .setName(projectName)
+      .setDesc(path)
+      .addDropdown((d) => {
+        d.addOption('', 'Decide later');
+        d.addOption('omnifocus', 'Keep OmniFocus');
+        d.addOption('obsidian', 'Keep note');
+        d.setValue(resolutions[projectId] ?? '');
+        d.onChange((value) => {
+          if (value) resolutions[projectId] = value as DescriptionSide;
+          else delete resolutions[projectId];
+          onChange();
+        });
+      });
+    const sides = row.createDiv({ cls: 'omnifocus-sync-conflict-sides' });
+    renderSide(sides, 'OmniFocus', omnifocus);
+    renderSide(sides, 'Note', obsidian);
+  }
+}
+
+export class DescriptionConflictModal extends Modal {
+  private readonly resolutions: DescriptionResolutions = {};
+
+  constructor(
+    app: App,
+    private readonly conflicts: DescriptionConflict[],
+    private readonly onResolve: (resolutions: DescriptionResolutions) => Promise<void>,
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    this.containerEl.addClass('omnifocus-sync-preview-modal');
+    const { contentEl } = this;
+    contentEl.createEl('h2', { text: 'Description conflicts' });
+    contentEl.createEl('p', {
+      text: 'These project descriptions changed both in OmniFocus and in their notes since the last sync. Choose which to keep; the other side is updated to match.',
+    });
+    renderDescriptionConflicts(contentEl, this.conflicts, this.resolutions, () => undefined);
+    new Setting(contentEl)
+      .addButton((btn) => btn.setButtonText('Cancel').onClick(() => this.close()))
+      .addButton((btn) =>
+        btn
+          .setButtonText('Sync')
+          .setCta()
+          .onClick(() => {
+            this.close();
+            void this.onResolve({ ...this.resolutions });
+          }),
+      );
+  }
+
+  onClose(): void {
+    this.containerEl.removeClass('omnifocus-sync-preview-modal');
+    this.contentEl.empty();
+  }
+}
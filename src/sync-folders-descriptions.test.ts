@@ -0,0 +1,255 @@
+import {
+  agreedText,
+  decideDescription,
+  joinOmniFocusNote,
+  parseProjectDescriptionIndex,
+  readNotesSection,
+  readNoteText,
+  setNotesSection,
+  splitOmniFocusNote,
+} from './sync-folders-descriptions';
+import type { ProjectDescriptionIndex, TwoWayDescriptions } from './sync-folders-descriptions';
+import { syncFoldersFromOmniFocus } from './sync-folders';
+import { DEFAULT_SETTINGS } from './settings';
+import { fetchProjectPathsWithNotes } from './omnifocus';
+import { getTaskBackend, setTaskBackend } from './omnifocus-backend';
+import { createMemoryBackend } from './omnifocus-memory-backend';
+import { createFakeApp } from './__fixtures__/fake-vault';
+
+const note = (description: string, body = '') => `---\nsticker: emoji//1f4c1\ndescription: "${description}"\n---\n${body}`;
+
+const sync = (fields: Partial<TwoWayDescriptions> = {}): TwoWayDescriptions => ({
+  withNotes: false,
+  base: { p1: { description: 'Relaunch', notes: '' } },
+  resolutions: {},
+  ...fields,
+});
+
+const project = (projectNote: string) => ({ id: 'p1', note: projectNote, name: 'Website' });
+
+describe('OmniFocus notes and notes sections', () => {
+  it('splits the first paragraph off as the description when syncing the notes section', () => {
+    expect(splitOmniFocusNote('Relaunch\nthe site\n\nCall Ann\n\nBudget', true)).toEqual({
+      description: 'Relaunch the site',
+      notes: 'Call Ann\n\nBudget',
+    });
+    expect(splitOmniFocusNote('Relaunch\n\nCall Ann', false)).toEqual({ description: 'Relaunch', notes: '' });
+    expect(joinOmniFocusNote({ description: 'Relaunch', notes: 'Call Ann' }, true, 'Old\n\nCall Bob')).toBe('Relaunch\n\nCall Ann');
+    expect(joinOmniFocusNote({ description: 'Relaunch', notes: '' }, false, 'Old\n\nCall Bob\n\nBudget')).toBe(
+      'Relaunch\n\nCall Bob\n\nBudget',
+    );
+  });
+
+  it('reads and replaces the notes section up to the next heading', () => {
+    const content = note('Relaunch', '# Website\n\n## Notes\n\nCall Ann\n\n## Log\n\nDone\n');
+    expect(readNotesSection(content)).toBe('Call Ann');
+    expect(readNotesSection(note('Relaunch'))).toBeNull();
+    const updated = setNotesSection(content, 'Call Bob\n- budget');
+    expect(readNotesSection(updated)).toBe('Call Bob\n- budget');
+    expect(updated).toContain('## Log\n\nDone\n');
+  });
+
+  it('appends a missing notes section only when there is text for it', () => {
+    expect(setNotesSection(note('Relaunch', 'Body'), 'Call Ann')).toBe(`${note('Relaunch', 'Body')}\n\n## Notes\n\nCall Ann\n`);
+    expect(setNotesSection(note('Relaunch', 'Body'), '')).toBe(note('Relaunch', 'Body'));
+  });
+
+  it('reads the TODO placeholder as no description', () => {
+    expect(readNoteText(note('TODO'), false)).toEqual({ description: '', notes: '' });
+    expect(readNoteText(note('Relaunch', '## Notes\nCall Ann\n'), true)).toEqual({ description: 'Relaunch', notes: 'Call Ann' });
+  });
+});
+
+describe('decideDescription', () => {
+  it('keeps OmniFocus for new notes and notes without a description', () => {
+    expect(decideDescription(sync({ base: {} }), project('Relaunch'), 'W.md', note('TODO'))).toMatchObject({
+      side: 'omnifocus',
+      text: { description: 'Relaunch' },
+      omnifocusNote: null,
+    });
+    expect(decideDescription(sync(), project('New'), 'W.md', null).side).toBe('omnifocus');
+  });
+
+  it('reports differing texts on the first sync as a conflict, and pushes to an empty OmniFocus note', () => {
+    const first = decideDescription(sync({ base: {} }), project('Relaunch'), 'W.md', note('Edited'));
+    expect(first).toMatchObject({ omnifocusNote: null, conflict: { omnifocus: { description: 'Relaunch' }, obsidian: { description: 'Edited' } } });
+    expect(decideDescription(sync({ base: {} }), project(''), 'W.md', note('Edited'))).toMatchObject({ side: 'obsidian', omnifocusNote: 'Edited' });
+  });
+
+  it('pushes an edited note description to OmniFocus', () => {
+    expect(decideDescription(sync(), project('Relaunch'), 'W.md', note('Relaunch in May'))).toEqual({
+      side: 'obsidian',
+      text: { description: 'Relaunch in May', notes: '' },
+      omnifocusNote: 'Relaunch in May',
+      conflict: null,
+    });
+  });
+
+  it('takes an edited OmniFocus note into the note', () => {
+    const decision = decideDescription(sync(), project('Relaunch in June'), 'W.md', note('Relaunch'));
+    expect(decision).toMatchObject({ side: 'omnifocus', text: { description: 'Relaunch in June' }, omnifocusNote: null });
+  });
+
+  it('leaves an unedited multi-line OmniFocus note alone and pushes the notes section with the description', () => {
+    const flat = sync();
+    expect(decideDescription(flat, project('Relaunch\n\nCall Ann'), 'W.md', note('Relaunch')).omnifocusNote).toBeNull();
+    expect(decideDescription(flat, project('Relaunch\n\nCall Ann'), 'W.md', note('Relaunch in May')).omnifocusNote).toBe(
+      'Relaunch in May\n\nCall Ann',
+    );
+    const withNotes = sync({ withNotes: true, base: { p1: { description: 'Relaunch', notes: 'Call Ann' } } });
+    const content = note('Relaunch', '## Notes\n\nCall Bob\n');
+    expect(decideDescription(withNotes, project('Relaunch\n\nCall Ann'), 'W.md', content).omnifocusNote).toBe('Relaunch\n\nCall Bob');
+  });
+
+  it('reports a conflict when both sides changed and changes neither until it is resolved', () => {
+    const content = note('Relaunch in May');
+    const open = decideDescription(sync(), project('Relaunch in June'), 'W.md', content);
+    expect(open).toMatchObject({ side: 'obsidian', text: { description: 'Relaunch in May' }, omnifocusNote: null });
+    expect(open.conflict).toEqual({
+      projectId: 'p1',
+      projectName: 'Website',
+      path: 'W.md',
+      omnifocus: { description: 'Relaunch in June', notes: '' },
+      obsidian: { description: 'Relaunch in May', notes: '' },
+      resolution: null,
+    });
+    const keepNote = decideDescription(sync({ resolutions: { p1: 'obsidian' } }), project('Relaunch in June'), 'W.md', content);
+    expect(keepNote.omnifocusNote).toBe('Relaunch in May');
+    const keepOmniFocus = decideDescription(sync({ resolutions: { p1: 'omnifocus' } }), project('Relaunch in June'), 'W.md', content);
+    expect(keepOmniFocus).toMatchObject({ side: 'omnifocus', text: { description: 'Relaunch in June' }, omnifocusNote: null });
+  });
+});
+
+describe('agreedText', () => {
+  it('remembers the text when both sides match and keeps the previous text otherwise', () => {
+    const previous = { description: 'Old', notes: '' };
+    expect(agreedText(previous, 'Relaunch', note('Relaunch'), false)).toEqual({ description: 'Relaunch', notes: '' });
+    expect(agreedText(previous, 'Relaunch', note('Other'), false)).toBe(previous);
+    expect(agreedText(previous, 'Relaunch', null, false)).toBe(previous);
+    expect(agreedText(undefined, '', note('TODO'), false)).toEqual({ description: '', notes: '' });
+  });
+
+  it('parses saved texts and drops malformed entries', () => {
+    expect(parseProjectDescriptionIndex({ p1: { description: 'A', notes: '' }, p2: { description: 1 }, p3: null })).toEqual({
+      p1: { description: 'A', notes: '' },
+    });
+    expect(parseProjectDescriptionIndex(undefined)).toEqual({});
+  });
+});
+
+describe('syncFoldersFromOmniFocus with two-way descriptions', () => {
+  const original = getTaskBackend();
+  afterEach(() => setTaskBackend(original));
+
+  it('writes an edited description to OmniFocus and remembers what both sides agree on', async () => {
+    setTaskBackend(
+      createMemoryBackend({
+        folders: [],
+        projects: [{ id: 'p1', name: 'Garden', note: 'Grow vegetables\n\nBeds by the fence', folderId: null }],
+        tags: [],
+        tasks: [],
+      }),
+    );
+    const { app, files } = createFakeApp();
+    let agreed: ProjectDescriptionIndex = {};
+    const store = {
+      loadProjectNoteIndex: () => ({}),
+      saveProjectNoteIndex: () => undefined,
+      loadProjectDescriptions: () => agreed,
+      saveProjectDescriptions: (index: ProjectDescriptionIndex) => void (agreed = index),
+    };
+    const settings = { ...DEFAULT_SETTINGS, folderSyncTwoWay: true, folderSyncNotesSection: true };
+
+    await syncFoldersFromOmniFocus(app, settings, undefined, store);
+    expect(readNotesSection(files.get('Garden/Garden.md') ?? '')).toBe('Beds by the fence');
+    expect(agreed).toEqual({ p1: { description: 'Grow vegetables', notes: 'Beds by the fence' } });
+
+    files.set('Garden/Garden.md', (files.get('Garden/Garden.md') ?? '').replace('"Grow vegetables"', '"Grow herbs"'));
+    await syncFoldersFromOmniFocus(app, settings, undefined, store);
+    expect((await fetchProjectPathsWithNotes())[0].note).toBe('Grow herbs\n\nBeds by the fence');
+    expect(agreed).toEqual({ p1: { description: 'Grow herbs', notes: 'Beds by the fence' } });
+  });
+});
+
+describe('syncFoldersFromOmniFocus when writing an OmniFocus note fails', () => {
+  const original = getTaskBackend();
+  afterEach(() => setTaskBackend(original));
+
+  it('applies the other items and saves the index and agreed descriptions', async () => {
+    const backend = createMemoryBackend({
+      folders: [],
+      projects: [
+        { id: 'p1', name: 'Garden', note: 'Grow vegetables', folderId: null },
+        { id: 'p2', name: 'Taxes', note: 'File by May', folderId: null },
+      ],
+      tags: [],
+      tasks: [],
+    });
+    setTaskBackend(backend);
+    const { app, files } = createFakeApp();
+    let agreed: ProjectDescriptionIndex = {};
+    let index: Record<string, string> = {};
+    const store = {
+      loadProjectNoteIndex: () => index,
+      saveProjectNoteIndex: (saved: Record<string, string>) => void (index = saved),
+      loadProjectDescriptions: () => agreed,
+      saveProjectDescriptions: (saved: ProjectDescriptionIndex) => void (agreed = saved),
+    };
+    const settings = { ...DEFAULT_SETTINGS, folderSyncTwoWay: true };
+    await syncFoldersFromOmniFocus(app, settings, undefined, store);
+
+    files.set('Garden/Garden.md', (files.get('Garden/Garden.md') ?? '').replace('"Grow vegetables"', '"Grow herbs"'));
+    await backend.updateProjectNote('p2', 'File by April');
+    setTaskBackend({ ...backend, updateProjectNote: () => Promise.reject(new Error('OmniFocus is not running')) });
+    index = {};
+    const result = await syncFoldersFromOmniFocus(app, settings, undefined, store);
+    expect(result.failed).toEqual(['Garden: OmniFocus is not running']);
+    expect(files.get('Taxes/Taxes.md')).toContain('description: "File by April"');
+    expect(index).toEqual({ p1: 'Garden/Garden.md', p2: 'Taxes/Taxes.md' });
+    expect(agreed).toEqual({ p1: { description: 'Grow vegetables', notes: '' }, p2: { description: 'File by April', notes: '' } });
+  });
+});
+
+describe('syncFoldersFromOmniFocus with two-way descriptions and awkward project names', () => {
+  const original = getTaskBackend();
+  afterEach(() => setTaskBackend(original));
+
+  it('writes each edited description to its own project, whatever the names', async () => {
+    const backend = createMemoryBackend({
+      folders: [
+        { id: 'f1', name: 'Home', parentId: null },
+        { id: 'f2', name: 'Work', parentId: null },
+      ],
+      projects: [
+        { id: 'p1', name: 'Garden', note: 'Herbs', folderId: 'f1' },
+        { id: 'p2', name: 'Garden', note: 'Lawn', folderId: 'f2' },
+        { id: 'p3', name: 'Q3: Taxes', note: 'Receipts', folderId: 'f2' },
+      ],
+      tags: [],
+      tasks: [],
+    });
+    setTaskBackend(backend);
+    const { app, files } = createFakeApp();
+    let agreed: ProjectDescriptionIndex = {};
+    const store = {
+      loadProjectNoteIndex: () => ({}),
+      saveProjectNoteIndex: () => undefined,
+      loadProjectDescriptions: () => agreed,
+      saveProjectDescriptions: (saved: ProjectDescriptionIndex) => void (agreed = saved),
+    };
+    const settings = { ...DEFAULT_SETTINGS, folderSyncTwoWay: true };
+    await syncFoldersFromOmniFocus(app, settings, undefined, store);
+
+    const edit = (path: string, from: string, to: string) => files.set(path, (files.get(path) ?? '').replace(`"${from}"`, `"${to}"`));
+    edit('Work/Garden/Garden.md', 'Lawn', 'Hedges');
+    edit('Work/Q3- Taxes/Q3- Taxes.md', 'Receipts', 'File by April');
+    expect((await syncFoldersFromOmniFocus(app, settings, undefined, store)).failed).toEqual([]);
+    const notes = (await backend.fetchProjectPathsWithNotes()).map(({ id, note }) => [id, note]);
+    expect(notes).toEqual([
+      ['p1', 'Herbs'],
+      ['p2', 'Hedges'],
+      ['p3', 'File by April'],
+    ]);
+    expect(agreed.p1).toEqual({ description: 'Herbs', notes: '' });
+  });
+});
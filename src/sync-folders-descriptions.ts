@@ -0,0 +1,213 @@
+/**
+ * Two-way project descriptions for folder sync (no Obsidian dependency).
+ *
+ * The first paragraph of the OmniFocus project note maps to the note's
+ * `description` frontmatter and, optionally, the rest to a `## Notes`
+ * section; without the section the rest stays in OmniFocus only. The text
+ * both sides agreed on at the last sync is remembered per project id. On
+ * sync, a side that changed since then wins: an edited description (or
+ * section) is written back to OmniFocus with `updateProjectNote`, an edited
+ * OmniFocus note updates the note. When both changed, or both have differing
+ * text and nothing was agreed yet, the user is asked which to keep; until
+ * then neither side changes.
+ */
+
+import { readFrontmatterString } from './sync-folders-frontmatter';
+
+/** A project's description and notes section as the note shows them; `notes` is empty when not synced. */
+export interface ProjectText {
+  description: string;
+  notes: string;
+}
+
+/** Text both sides agreed on at the last sync, by project id. */
+export type ProjectDescriptionIndex = Record<string, ProjectText>;
+
+export type DescriptionSide = 'omnifocus' | 'obsidian';
+
+/** What the planner needs for two-way descriptions. */
+export interface TwoWayDescriptions {
+  /** Also sync the `## Notes` section with the rest of the OmniFocus note. */
+  withNotes: boolean;
+  base: ProjectDescriptionIndex;
+  /** The side to keep for each conflict the user resolved, by project id. */
+  resolutions: Record<string, DescriptionSide>;
+}
+
+export interface DescriptionConflict {
+  projectId: string;
+  projectName: string;
+  path: string;
+  omnifocus: ProjectText;
+  obsidian: ProjectText;
+  /** The side the user chose, or null while unresolved (neither side changes). */
+  resolution: DescriptionSide | null;
+}
+
+export interface DescriptionDecision {
+  /** The side whose text the note gets. */
+  side: DescriptionSide;
+  text: ProjectText;
+  /** Note to write to OmniFocus, or null when OmniFocus keeps its note. */
+  omnifocusNote: string | null;
+  conflict: DescriptionConflict | null;
+}
+
+/** Placeholder description of notes whose project has no note. */
+const EMPTY_DESCRIPTION = 'TODO';
+
+const NOTES_HEADING = /^##\s+Notes\s*$/i;
+const SECTION_END = /^#{1,2}\s/;
+
+/** One-line form of a description, as written to frontmatter. */
+function oneLine(text: string): string {
+  return text.trim().replace(/\r?\n/g, ' ');
+}
+
+/** First paragraph of an OmniFocus project note and the rest, both trimmed. */
+function paragraphs(note: string): { first: string; rest: string } {
+  const trimmed = note.trim();
+  const breakAt = trimmed.search(/\r?\n[ \t]*\r?\n/);
+  return breakAt < 0 ? { first: trimmed, rest: '' } : { first: trimmed.slice(0, breakAt), rest: trimmed.slice(breakAt).trim() };
+}
+
+/**
+ * Split an OmniFocus project note into description (its first paragraph) and
+ * notes section (the rest, empty when the section is not synced).
+ */
+export function splitOmniFocusNote(note: string, withNotes: boolean): ProjectText {
+  const { first, rest } = paragraphs(note);
+  return { description: oneLine(first), notes: withNotes ? rest : '' };
+}
+
+/**
+ * The OmniFocus note for a description and notes section. Without the
+ * section, the rest of the current OmniFocus note is kept after the description.
+ *
+ * @param current - The OmniFocus note as fetched.
+ */
+export function joinOmniFocusNote(text: ProjectText, withNotes: boolean, current: string): string {
+  const rest = withNotes ? text.notes : paragraphs(current).rest;
+  return rest ? `${text.description}\n\n${rest}` : text.description;
+}
+
+/** Line range of the `## Notes` section body (after the heading, up to the next heading of level 1 or 2). */
+function notesSectionRange(lines: string[]): { start: number; end: number } | null {
+  const heading = lines.findIndex((line) => NOTES_HEADING.test(line.trim()));
+  if (heading < 0) return null;
+  let end = heading + 1;
+  while (end < lines.length && !SECTION_END.test(lines[end])) end++;
+  return { start: heading + 1, end };
+}
+
+/** Text of the note's `## Notes` section, trimmed; null when the note has none. */
+export function readNotesSection(content: string): string | null {
+  const lines = content.split('\n');
+  const range = notesSectionRange(lines);
+  return range ? lines.slice(range.start, range.end).join('\n').trim() : null;
+}
+
+/** Replace the text of the `## Notes` section, or append the section when missing (unless `notes` is empty). */
+export function setNotesSection(content: string, notes: string): string {
+  const lines = content.split('\n');
+  const range = notesSectionRange(lines);
+  if (!range) return notes ? `${content.replace(/\n*$/, '\n')}\n## Notes\n\n${notes}\n` : content;
+  const body = notes ? ['', notes, ''] : [''];
+  lines.splice(range.start, range.end - range.start, ...body);
+  return lines.join('\n');
+}
+
+/** Description and notes section of a note; the TODO placeholder counts as no description. */
+export function readNoteText(content: string, withNotes: boolean): ProjectText {
+  const description = oneLine(readFrontmatterString(content, 'description') ?? '');
+  return {
+    description: description === EMPTY_DESCRIPTION ? '' : description,
+    notes: withNotes ? readNotesSection(content) ?? '' : '',
+  };
+}
+
+export function sameText(a: ProjectText, b: ProjectText): boolean {
+  return a.description === b.description && a.notes === b.notes;
+}
+
+/** What both sides have in common, field by field, for projects not synced before. */
+function commonText(a: ProjectText, b: ProjectText): ProjectText {
+  return {
+    description: a.description === b.description ? a.description : '',
+    notes: a.notes === b.notes ? a.notes : '',
+  };
+}
+
+/**
+ * Which side changed since the last sync. Without a last sync, a side
+ * changed where it differs from what both have in common, so two differing
+ * texts are a conflict and a side without text never wins.
+ */
+function changedSide(base: ProjectText | undefined, omnifocus: ProjectText, obsidian: ProjectText): DescriptionSide | 'both' {
+  if (sameText(omnifocus, obsidian)) return 'omnifocus';
+  const agreed = base ?? commonText(omnifocus, obsidian);
+  const omnifocusChanged = !sameText(omnifocus, agreed);
+  const obsidianChanged = !sameText(obsidian, agreed);
+  if (omnifocusChanged && obsidianChanged) return 'both';
+  return obsidianChanged ? 'obsidian' : 'omnifocus';
+}
+
+/**
+ * Which text a project's note gets and whether OmniFocus is updated.
+ *
+ * @param project - The project as fetched, with its name for conflicts.
+ * @param path - Vault path of the note.
+ * @param content - Current note content, or null when the note does not exist yet.
+ */
+export function decideDescription(
+  sync: TwoWayDescriptions,
+  project: { id: string; note: string; name: string },
+  path: string,
+  content: string | null,
+): DescriptionDecision {
+  const omnifocus = splitOmniFocusNote(project.note, sync.withNotes);
+  if (content === null) return { side: 'omnifocus', text: omnifocus, omnifocusNote: null, conflict: null };
+  const obsidian = readNoteText(content, sync.withNotes);
+  const changed = changedSide(sync.base[project.id], omnifocus, obsidian);
+  const resolution = changed === 'both' ? sync.resolutions[project.id] ?? null : null;
+  const conflict =
+    changed === 'both' ? { projectId: project.id, projectName: project.name, path, omnifocus, obsidian, resolution } : null;
+  const side = changed === 'both' ? resolution ?? 'obsidian' : changed;
+  if (side === 'omnifocus') return { side, text: omnifocus, omnifocusNote: null, conflict };
+  const note = joinOmniFocusNote(obsidian, sync.withNotes, project.note);
+  const push = note !== project.note.trim() && !(conflict && !resolution);
+  return { side, text: obsidian, omnifocusNote: push ? note : null, conflict };
+}
+
+/**
+ * The agreed text to remember after a sync: the note's text when it now
+ * matches the OmniFocus note, else what was remembered before (a side that
+ * was left out of the sync still counts as changed next time).
+ *
+ * @param omnifocusNote - The OmniFocus note after the sync.
+ * @param content - The note content after the sync, or null when there is no note.
+ */
+export function agreedText(
+  previous: ProjectText | undefined,
+  omnifocusNote: string,
+  content: string | null,
+  withNotes: boolean,
+): ProjectText | undefined {
+  if (content === null) return previous;
+  const obsidian = readNoteText(content, withNotes);
+  return sameText(splitOmniFocusNote(omnifocusNote, withNotes), obsidian) ? obsidian : previous;
+}
+
+/** Read saved agreed texts from data.json; malformed entries are dropped. */
+export function parseProjectDescriptionIndex(raw: unknown): ProjectDescriptionIndex {
+  const index: ProjectDescriptionIndex = {};
+  if (typeof raw !== 'object' || raw === null) return index;
+  const obj = raw as Record<string, Partial<ProjectText> | null>;
+  for (const id of Object.keys(obj)) {
+    const entry = obj[id];
+    if (entry && typeof entry.description === 'string' && typeof entry.notes === 'string') {
+      index[id] = { description: entry.description, notes: entry.notes };
+    }
+  }
+  return index;
+}
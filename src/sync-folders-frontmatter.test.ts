@@ -0,0 +1,72 @@
+import { readFrontmatterKeys, updateContentFrontmatter } from './sync-folders-frontmatter';
+import type { ProjectProperty } from './sync-folders-frontmatter';
+
+const note = (frontmatter: string) => `---\n${frontmatter}\n---\nbody`;
+
+describe('updateContentFrontmatter round-trip', () => {
+  const properties: ProjectProperty[] = [
+    { key: 'omnifocus-id', value: 'p1' },
+    { key: 'tags', value: ['Work', 'Waiting For'] },
+  ];
+  const owned = 'sticker: emoji//1f4c1\ndescription: "D"\nomnifocus-id: p1\ntags:\n  - Work\n  - "Waiting For"';
+
+  it('keeps lists, block scalars, nested maps and comments of other keys exactly', () => {
+    const others = [
+      '# my notes',
+      'aliases:',
+      '  - Site',
+      '  - "Web: relaunch"',
+      'summary: |',
+      '  First line',
+      '',
+      '  Second paragraph',
+      'links: [a, b]   # inline comment',
+      'meta:',
+      '  owner: Sam',
+      '  budget: 1200',
+    ].join('\n');
+    expect(updateContentFrontmatter(note(`${owned}\n${others}`), 'D', undefined, properties)).toBe(note(`${owned}\n${others}`));
+    expect(updateContentFrontmatter(note(others), 'D', undefined, properties)).toBe(note(`${owned}\n${others}`));
+  });
+
+  it('replaces owned keys in place, including block lists Obsidian wrote', () => {
+    const content = note('custom: 1\ntags:\n- Old\n- Older\nstatus: active\ndescription: >\n  folded\n  text\nsticker: x');
+    expect(updateContentFrontmatter(content, 'D', undefined, [...properties, { key: 'status', value: null }])).toBe(
+      note('custom: 1\ntags:\n  - Work\n  - "Waiting For"\ndescription: "D"\nomnifocus-id: p1\nsticker: x'),
+    );
+  });
+
+  it('keeps quoting and escapes of other values as written', () => {
+    const others = "title: 'It''s \"done\"'\npath: \"C:\\\\Users\\\\me\"\nempty:\nzero: '0'";
+    expect(updateContentFrontmatter(note(`${owned}\n${others}`), 'D', undefined, properties)).toBe(note(`${owned}\n${others}`));
+  });
+
+  it('leaves notes with invalid YAML frontmatter untouched', () => {
+    const content = note('description: "unclosed\ntags: [a');
+    expect(updateContentFrontmatter(content, 'D', 'Website', properties)).toBe(content);
+  });
+
+  it('writes CRLF notes with CRLF line endings only', () => {
+    const crlf = (text: string) => text.replace(/\n/g, '\r\n');
+    const block = '```omnifocus\nproject: Website\n```\n';
+    expect(updateContentFrontmatter(crlf(note('custom: 1\ndescription: "Old"')), 'D', 'Website', properties)).toBe(
+      crlf(`---\nsticker: emoji//1f4c1\ncustom: 1\n${owned.slice(owned.indexOf('description'))}\n---\n${block}body`),
+    );
+    expect(updateContentFrontmatter('body\r\n', 'D', 'Website')).toBe(crlf(`---\nsticker: emoji//1f4c1\ndescription: "D"\n---\n${block}body\n`));
+  });
+});
+
+describe('readFrontmatterKeys', () => {
+  it('returns raw values of top-level keys, multi-line ones included', () => {
+    const keys = readFrontmatterKeys(note('a: "quoted"\ntags:\n  - x\n  - y\nnested:\n  b: 1'));
+    expect([...keys.entries()]).toEqual([
+      ['a', '"quoted"'],
+      ['tags', '- x\n  - y'],
+      ['nested', 'b: 1'],
+    ]);
+  });
+
+  it('returns no keys for invalid YAML', () => {
+    expect(readFrontmatterKeys(note('a: [1')).size).toBe(0);
+  });
+});
@@ -1,9 +1,52 @@
 /**
  * Frontmatter helpers for project folder .md files (no Obsidian dependency).
+ * Existing frontmatter is parsed with `yaml` and edited entry by entry, so
+ * only the keys folder sync owns change.
  */
 
+import { isMap, isNode, isScalar, parseDocument } from 'yaml';
+
 const DEFAULT_STICKER = 'emoji//1f4c1';
 
+/** Default frontmatter key holding the OmniFocus project id, used to find the note after a rename or move. */
+export const PROJECT_ID_KEY = 'omnifocus-id';
+
+/**
+ * A frontmatter property folder sync owns (see sync-folders-properties.ts).
+ * A null value removes the key; keys that are not passed are left as they are.
+ */
+export interface ProjectProperty {
+  key: string;
+  value: string | number | boolean | string[] | null;
+}
+
+/** YAML words and numbers a plain string would be read as instead of text. */
+const NON_STRING_PLAIN = /^(true|false|yes|no|on|off|null|~|[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?)$/i;
+
+/** A string as a YAML scalar: plain unless YAML would read it as a boolean, null or number, else double-quoted. Dates stay plain so they are read as dates. */
+function formatYamlString(value: string): string {
+  if (/^[\w][\w\-./:+]*$/.test(value) && !NON_STRING_PLAIN.test(value)) return value;
+  return `"${escapeDescriptionForYaml(value)}"`;
+}
+
+/**
+ * A property value as it appears after `key:`. Lists use block style with
+ * two-space indented items, as Obsidian writes them, and `[]` when empty.
+ */
+export function formatPropertyValue(value: Exclude<ProjectProperty['value'], null>): string {
+  if (Array.isArray(value)) return value.length === 0 ? ' []' : value.map((v) => `\n  - ${formatYamlString(v)}`).join('');
+  return ` ${typeof value === 'string' ? formatYamlString(value) : String(value)}`;
+}
+
+/** Frontmatter lines of the properties that have a value, in the given order. */
+function propertyLines(properties: ProjectProperty[]): string[] {
+  const lines: string[] = [];
+  for (const p of properties) {
+    if (p.value !== null) lines.push(...`${p.key}:${formatPropertyValue(p.value)}`.split('\n'));
+  }
+  return lines;
+}
+
 /**
  * Escape a string for use as a double-quoted YAML value (escape \ and ").
  */
@@ -15,12 +58,13 @@ export function escapeDescriptionForYaml(description: string): string {
 }
 
 /**
- * Build frontmatter string for a new file: sticker and description.
+ * Build frontmatter string for a new file: sticker, description and the given project properties.
  */
-export function buildNewFrontmatter(description: string): string {
+export function buildNewFrontmatter(description: string, properties: ProjectProperty[] = []): string {
   const desc = description.trim().length > 0 ? description.trim() : 'TODO';
   const escaped = escapeDescriptionForYaml(desc);
-  return `---\nsticker: ${DEFAULT_STICKER}\ndescription: "${escaped}"\n---\n`;
+  const fieldLines = propertyLines(properties).map((line) => `${line}\n`).join('');
+  return `---\nsticker: ${DEFAULT_STICKER}\ndescription: "${escaped}"\n${fieldLines}---\n`;
 }
 
 /** Regex to detect an omnifocus fenced code block in body text. */
@@ -34,6 +78,19 @@ export function formatOmnifocusBlock(projectName: string): string {
   return '```omnifocus\nproject: ' + line + '\n```';
 }
 
+/**
+ * Point the `project:` line of omnifocus blocks showing `oldName` at `newName`,
+ * for the note of a project that was renamed in OmniFocus. Other lines are kept.
+ */
+export function renameOmnifocusBlockProject(content: string, oldName: string, newName: string): string {
+  return content.replace(/(```\s*omnifocus[^\n]*\n)([\s\S]*?)(```)/gi, (_match, open: string, inner: string, close: string) => {
+    const renamed = inner.replace(/^([ \t]*project:[ \t]*)(.*?)[ \t]*$/gm, (line, key: string, name: string) =>
+      name === oldName ? key + newName : line,
+    );
+    return open + renamed + close;
+  });
+}
+
 /**
  * Returns true if the given body string contains an omnifocus fenced code block.
  */
@@ -43,71 +100,155 @@ export function bodyHasOmnifocusBlock(body: string): boolean {
 
 /**
  * Build full content for a new project folder file: frontmatter + omnifocus block.
+ * With a rendered note template, the template gets the frontmatter (on top of its own)
+ * and, when it has none, the omnifocus block after the frontmatter.
+ */
+export function buildNewFileContent(
+  description: string,
+  projectName: string,
+  properties: ProjectProperty[] = [],
+  template?: string,
+): string {
+  if (template != null) return updateContentFrontmatter(template, description, projectName, properties);
+  return buildNewFrontmatter(description, properties) + '\n' + formatOmnifocusBlock(projectName) + '\n';
+}
+
+/** A top-level frontmatter entry with its source lines as written. */
+interface FrontmatterEntry {
+  key: string;
+  /** Comment and blank lines between the previous entry and this one. */
+  leading: string[];
+  /** The key line and every line of its value (lists, block scalars, nested maps). */
+  lines: string[];
+  /** Source text of the value, e.g. still quoted; empty when the value is empty. */
+  raw: string;
+}
+
+interface FrontmatterEntries {
+  entries: FrontmatterEntry[];
+  /** Comment and blank lines after the last entry. */
+  trailing: string[];
+}
+
+/**
+ * Split a frontmatter block into its top-level entries with the `yaml`
+ * parser, keeping every line exactly as written so entries can be replaced or
+ * removed one by one. Null when the block is not a valid YAML mapping.
+ */
+function parseFrontmatterBlock(block: string): FrontmatterEntries | null {
+  const doc = parseDocument(block);
+  if (doc.errors.length > 0) return null;
+  const lines = block.split('\n');
+  if (doc.contents === null) return { entries: [], trailing: lines };
+  if (!isMap(doc.contents)) return null;
+  const lineOf = (offset: number) => block.slice(0, offset).split('\n').length - 1;
+  const entries: FrontmatterEntry[] = [];
+  let next = 0;
+  for (const { key, value } of doc.contents.items) {
+    if (!isScalar(key) || !key.range) return null;
+    const valueRange = isNode(value) ? value.range : undefined;
+    const start = lineOf(key.range[0]);
+    const end = Math.max(start, lineOf((valueRange ? valueRange[1] : key.range[1]) - 1));
+    entries.push({
+      key: String(key.value),
+      leading: lines.slice(next, start),
+      lines: lines.slice(start, end + 1),
+      raw: valueRange ? block.slice(valueRange[0], valueRange[1]).trim() : '',
+    });
+    next = end + 1;
+  }
+  return { entries, trailing: lines.slice(next) };
+}
+
+/**
+ * Frontmatter keys and their raw values (as written, e.g. still quoted); empty when the content has none
+ * or its frontmatter is not valid YAML.
+ */
+export function readFrontmatterKeys(content: string): Map<string, string> {
+  const fmMatch = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  const parsed = fmMatch ? parseFrontmatterBlock(fmMatch[1]) : null;
+  return new Map((parsed?.entries ?? []).map((e): [string, string] => [e.key, e.raw]));
+}
+
+/**
+ * A top-level frontmatter value as text (numbers and booleans too), as YAML reads it: unquoted and
+ * unescaped. Null when the key is missing or not a scalar, or the frontmatter is not valid YAML.
  */
-export function buildNewFileContent(description: string, projectName: string): string {
-  return buildNewFrontmatter(description) + '\n' + formatOmnifocusBlock(projectName) + '\n';
+export function readFrontmatterString(content: string, key: string): string | null {
+  const fmMatch = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!fmMatch) return null;
+  const doc = parseDocument(fmMatch[1]);
+  if (doc.errors.length > 0 || !isMap(doc.contents)) return null;
+  const value: unknown = doc.get(key);
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' ? String(value) : null;
 }
 
 /**
- * Parse frontmatter block: extract key-value pairs (key: value per line).
+ * Set the owned entries of parsed frontmatter: sticker (only when missing),
+ * description, then each property in place, or after the description and the
+ * properties before it when new. Other entries keep their lines and order.
  */
-function parseFrontmatterBlock(block: string): {
-  keys: Map<string, string>;
-  otherLines: string[];
-} {
-  const keys = new Map<string, string>();
-  const otherLines: string[] = [];
-  for (const line of block.split(/\r?\n/)) {
-    const match = line.match(/^([a-zA-Z0-9_-]+):\s*(.*)$/);
-    if (match) {
-      const key = match[1];
-      const value = match[2].trim();
-      keys.set(key, value);
-      if (key !== 'description' && key !== 'sticker') {
-        otherLines.push(line);
-      }
+function setOwnedEntries(entries: FrontmatterEntry[], descriptionLine: string, properties: ProjectProperty[]): void {
+  const find = (key: string) => entries.findIndex((e) => e.key === key);
+  const entry = (key: string, lines: string[]): FrontmatterEntry => ({ key, leading: [], lines, raw: '' });
+  if (find('sticker') < 0) entries.unshift(entry('sticker', [`sticker: ${DEFAULT_STICKER}`]));
+  let anchor = find('description');
+  if (anchor < 0) {
+    anchor = find('sticker') + 1;
+    entries.splice(anchor, 0, entry('description', [descriptionLine]));
+  } else {
+    entries[anchor] = { ...entries[anchor], lines: [descriptionLine] };
+  }
+  for (const property of properties) {
+    const lines = propertyLines([property]);
+    const i = find(property.key);
+    if (i >= 0) {
+      entries[i] = { ...entries[i], lines };
+      anchor = Math.max(anchor, i);
+    } else if (lines.length > 0) {
+      entries.splice(++anchor, 0, entry(property.key, lines));
     }
   }
-  return { keys, otherLines };
+}
+
+/** Line ending of a note: CRLF when it has any, else LF. */
+function lineEnding(content: string): string {
+  return content.includes('\r\n') ? '\r\n' : '\n';
 }
 
 /**
  * Update frontmatter in file content: set description, add sticker only if missing.
  * Preserves other keys and body. If no frontmatter, prepend new frontmatter and keep content as body.
  * When projectName is provided and the body has no ```omnifocus block, inserts that block after the frontmatter.
+ * The given project properties are replaced in place or added after the description (null values remove
+ * the key). Every other key, comment and blank line is kept exactly as written, so lists, block scalars
+ * and nested maps survive. Frontmatter that is not valid YAML is left alone (the content is returned as is).
+ * Written lines use the note's line ending, so CRLF notes stay CRLF.
  */
 export function updateContentFrontmatter(
   content: string,
   description: string,
   projectName?: string,
+  properties: ProjectProperty[] = [],
 ): string {
   const desc = description.trim().length > 0 ? description.trim() : 'TODO';
   const escaped = escapeDescriptionForYaml(desc);
+  const eol = lineEnding(content);
+  const withBlock = (body: string) =>
+    projectName != null && projectName !== '' && !bodyHasOmnifocusBlock(body)
+      ? formatOmnifocusBlock(projectName).replace(/\n/g, eol) + eol + body
+      : body;
 
   const fmMatch = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
   if (!fmMatch) {
-    const body = content;
-    if (projectName != null && projectName !== '' && !bodyHasOmnifocusBlock(body)) {
-      return buildNewFrontmatter(description) + formatOmnifocusBlock(projectName) + '\n' + body;
-    }
-    return buildNewFrontmatter(description) + content;
+    return buildNewFrontmatter(description, properties).replace(/\n/g, eol) + withBlock(content);
   }
 
-  const block = fmMatch[1];
-  let body = fmMatch[2];
-  const { keys, otherLines } = parseFrontmatterBlock(block);
-
-  const stickerValue = keys.has('sticker') ? keys.get('sticker')! : DEFAULT_STICKER;
-  const lines: string[] = [
-    '---',
-    `sticker: ${stickerValue}`,
-    `description: "${escaped}"`,
-    ...otherLines,
-    '---',
-  ];
-  const fm = lines.join('\n') + '\n';
-  if (projectName != null && projectName !== '' && !bodyHasOmnifocusBlock(body)) {
-    body = formatOmnifocusBlock(projectName) + '\n' + body;
-  }
-  return fm + body;
+  const parsed = parseFrontmatterBlock(fmMatch[1].replace(/\r\n/g, '\n'));
+  if (!parsed) return content;
+  setOwnedEntries(parsed.entries, `description: "${escaped}"`, properties);
+  const lines = ['---'];
+  for (const e of parsed.entries) lines.push(...e.leading, ...e.lines);
+  lines.push(...parsed.trailing, '---');
+  return lines.join(eol) + eol + withBlock(fmMatch[2]);
 }
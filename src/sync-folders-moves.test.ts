@@ -0,0 +1,51 @@
+import { parseProjectNoteIndex, planProjectMoves, resolveKnownNotes } from './sync-folders-moves';
+
+describe('planProjectMoves', () => {
+  it('leaves notes that are already at their path and projects without a known note', () => {
+    const projects = [
+      { id: 'p1', notePath: 'OmniFocus/Work/Website/Website.md' },
+      { id: 'p2', notePath: 'OmniFocus/Garden/Garden.md' },
+    ];
+    expect(planProjectMoves(projects, { p1: 'OmniFocus/Work/Website/Website.md' })).toEqual([]);
+  });
+
+  it('moves the project folder with the note when the project is renamed', () => {
+    expect(planProjectMoves([{ id: 'p1', notePath: 'Work/Site relaunch/Site relaunch.md' }], { p1: 'Work/Website/Website.md' })).toEqual([
+      {
+        projectId: 'p1',
+        from: 'Work/Website/Website.md',
+        to: 'Work/Site relaunch/Site relaunch.md',
+        folder: { from: 'Work/Website', to: 'Work/Site relaunch' },
+      },
+    ]);
+  });
+
+  it('moves the project folder to another OmniFocus folder or the archive', () => {
+    const [move] = planProjectMoves([{ id: 'p1', notePath: 'Archive/Work/Website/Website.md' }], {
+      p1: 'OF/Work/Website/Website.md',
+    });
+    expect(move.folder).toEqual({ from: 'OF/Work/Website', to: 'Archive/Work/Website' });
+    expect(move.to).toBe('Archive/Work/Website/Website.md');
+  });
+
+  it('moves only the note when it does not sit in a folder named after it', () => {
+    const [move] = planProjectMoves([{ id: 'p1', notePath: 'Garden/Garden.md' }], { p1: 'Notes/Vegetables.md' });
+    expect(move).toEqual({ projectId: 'p1', from: 'Notes/Vegetables.md', to: 'Garden/Garden.md', folder: null });
+  });
+});
+
+describe('resolveKnownNotes', () => {
+  it('prefers index entries whose note exists, then frontmatter ids', () => {
+    const exists = (path: string) => path !== 'Gone/Gone.md';
+    expect(
+      resolveKnownNotes({ p1: 'A/A.md', p2: 'Gone/Gone.md' }, exists, { p1: 'Copy/A.md', p2: 'B/B.md', p3: 'C/C.md' }),
+    ).toEqual({ p1: 'A/A.md', p2: 'B/B.md', p3: 'C/C.md' });
+  });
+});
+
+describe('parseProjectNoteIndex', () => {
+  it('keeps string entries and ignores malformed data', () => {
+    expect(parseProjectNoteIndex({ p1: 'A/A.md', p2: 3 })).toEqual({ p1: 'A/A.md' });
+    expect(parseProjectNoteIndex(null)).toEqual({});
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Rename and move detection for folder sync (no Obsidian dependency).
+ *
+ * Project notes carry their OmniFocus project id in frontmatter, and an
+ * id → note path index remembers where each note was last written. When a
+ * project's note is not where its current OmniFocus path and status put it
+ * (renamed, moved, archived or restored), the sync moves the existing note
+ * (and its folder) instead of creating a new one.
+ */
+
+import { lastSegment, parentPath } from './sync-folders-paths';
+
+/** OmniFocus project id → vault path of the project's note. */
+export type ProjectNoteIndex = Record<string, string>;
+
+export interface ProjectNoteMove {
+  projectId: string;
+  /** Current vault path of the note. */
+  from: string;
+  /** Vault path for the project's current OmniFocus path and status. */
+  to: string;
+  /**
+   * The project folder to rename along with the note, or null when only the
+   * note moves (the note does not sit in a folder named after it, or the
+   * folder stays where it is).
+   */
+  folder: { from: string; to: string } | null;
+}
+
+/** True when the note is `<folder>/<name>/<name>.md`, the layout folder sync creates. */
+function isInOwnFolder(notePath: string): boolean {
+  const folder = parentPath(notePath);
+  return folder !== '' && `${lastSegment(folder)}.md` === lastSegment(notePath);
+}
+
+/**
+ * Moves that bring known project notes to their current paths.
+ *
+ * @param projects - Projects from OmniFocus with the vault path their note belongs at (see `projectNoteTarget`).
+ * @param known - Where each project's note is now (from the index and frontmatter).
+ */
+export function planProjectMoves(
+  projects: { id: string; notePath: string }[],
+  known: ProjectNoteIndex,
+): ProjectNoteMove[] {
+  const moves: ProjectNoteMove[] = [];
+  for (const { id, notePath: to } of projects) {
+    const from = known[id];
+    if (!id || !from || from === to) continue;
+    const folderFrom = parentPath(from);
+    const folderTo = parentPath(to);
+    const folder = isInOwnFolder(from) && folderFrom !== folderTo ? { from: folderFrom, to: folderTo } : null;
+    moves.push({ projectId: id, from, to, folder });
+  }
+  return moves;
+}
+
+/**
+ * Where each project's note is now: index entries whose note still exists,
+ * then notes found by their frontmatter id for projects the index misses.
+ *
+ * @param index - The saved index.
+ * @param noteExists - Whether a vault path holds a note.
+ * @param notesById - Project id → note path, from `omnifocus-id` frontmatter.
+ */
+export function resolveKnownNotes(
+  index: ProjectNoteIndex,
+  noteExists: (path: string) => boolean,
+  notesById: ProjectNoteIndex,
+): ProjectNoteIndex {
+  const known: ProjectNoteIndex = { ...notesById };
+  for (const id of Object.keys(index)) {
+    if (noteExists(index[id])) known[id] = index[id];
+  }
+  return known;
+}
+
+/** Read a saved index from data.json; entries that are not strings are dropped. */
+export function parseProjectNoteIndex(raw: unknown): ProjectNoteIndex {
+  const index: ProjectNoteIndex = {};
+  if (typeof raw !== 'object' || raw === null) return index;
+  const obj = raw as Record<string, unknown>;
+  for (const id of Object.keys(obj)) {
+    if (typeof obj[id] === 'string') index[id] = obj[id] as string;
+  }
+  return index;
+}
@@ -2,6 +2,29 @@
  * Pure path derivation for folder sync (no Obsidian dependency).
  */
 
+import type { ProjectStatus } from './omnifocus';
+
+/** Where folder sync keeps project folders. */
+export interface FolderSyncLayout {
+  /** Normalized base path of active projects ('' for the vault root). */
+  base: string;
+  /** Normalized archive path for finished projects, or null when archiving is off. */
+  archive: string | null;
+  /** Archive on-hold projects too, not just completed and dropped ones. */
+  archiveOnHold: boolean;
+}
+
+/** Folder of a vault path; '' for paths at the vault root. */
+export function parentPath(path: string): string {
+  const i = path.lastIndexOf('/');
+  return i < 0 ? '' : path.slice(0, i);
+}
+
+/** Last segment of a vault or project path. */
+export function lastSegment(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
 /**
  * Derive all folder paths to create from a list of project paths.
  *
@@ -29,3 +52,31 @@ export function deriveFolderPathsToCreate(projectPaths: string[]): string[] {
   });
   return list;
 }
+
+/**
+ * Vault path of a project's note: `<base>/<project path>/<project name>.md`.
+ *
+ * @param base - Normalized folder sync base path ('' for the vault root).
+ * @param projectPath - Sanitized project path (e.g. "Work/Projects/project-a").
+ */
+export function projectFilePath(base: string, projectPath: string): string {
+  const folder = base ? `${base}/${projectPath}` : projectPath;
+  const segments = projectPath.split('/');
+  return `${folder}/${segments[segments.length - 1]}.md`;
+}
+
+/** True when a project with this status belongs in the archive. */
+export function isArchivedStatus(status: ProjectStatus, layout: FolderSyncLayout): boolean {
+  if (layout.archive === null) return false;
+  return status === 'completed' || status === 'dropped' || (status === 'on-hold' && layout.archiveOnHold);
+}
+
+/**
+ * Vault path of a project's note for its status: under the archive path when
+ * it is archived, under the base path otherwise. Archived projects keep their
+ * folder hierarchy, so restoring them puts them back where they were.
+ */
+export function projectNoteTarget(project: { path: string; status: ProjectStatus }, layout: FolderSyncLayout): string {
+  const root = isArchivedStatus(project.status, layout) ? layout.archive! : layout.base;
+  return projectFilePath(root, project.path);
+}
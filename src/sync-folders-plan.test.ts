@@ -0,0 +1,181 @@
+import { frontmatterChanges, planFolderSync, selectPlanItems } from './sync-folders-plan';
+import type { FolderSyncPlanInput, SyncedProject } from './sync-folders-plan';
+
+const project = (id: string, path: string, fields: Partial<SyncedProject> = {}): SyncedProject => {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  return { id, path, note: '', status: 'active', notePath: `${path}/${name}.md`, archived: false, ...fields };
+};
+
+/** Plan input whose projects get `omnifocus-id` and `status` properties unless `properties` is given. */
+function input(fields: Partial<FolderSyncPlanInput>): FolderSyncPlanInput {
+  const properties: FolderSyncPlanInput['properties'] = {};
+  for (const { id, status } of fields.projects ?? []) {
+    properties[id] = [
+      { key: 'omnifocus-id', value: id },
+      { key: 'status', value: status },
+    ];
+  }
+  return {
+    projects: [],
+    moves: [],
+    folderPaths: [],
+    folderExists: () => false,
+    noteContent: () => null,
+    suggestions: {},
+    properties,
+    templates: {},
+    ...fields,
+  };
+}
+
+describe('frontmatterChanges', () => {
+  it('lists changed, added and removed keys', () => {
+    expect(frontmatterChanges('---\na: 1\nb: 2\n---\n', '---\na: 1\nb: 3\nc: 4\n---\n')).toEqual([
+      { key: 'b', before: '2', after: '3' },
+      { key: 'c', before: null, after: '4' },
+    ]);
+    expect(frontmatterChanges('---\na: 1\n---\n', 'body')).toEqual([{ key: 'a', before: '1', after: null }]);
+  });
+});
+
+describe('planFolderSync', () => {
+  it('creates missing folders parents first and notes inside them', () => {
+    const plan = planFolderSync(
+      input({
+        projects: [project('p1', 'Work/Website', { note: 'Relaunch' })],
+        folderPaths: ['Work', 'Work/Website'],
+      }),
+    );
+    expect(plan.existingFolders).toBe(0);
+    expect(plan.items.map((i) => [i.key, i.requires])).toEqual([
+      ['folder:Work', []],
+      ['folder:Work/Website', ['folder:Work']],
+      ['file:Work/Website/Website.md', ['folder:Work/Website']],
+    ]);
+    const file = plan.items[2];
+    expect(file.kind === 'create-file' && file.content).toContain('description: "Relaunch"\nomnifocus-id: p1\nstatus: active');
+  });
+
+  it('shows frontmatter diffs and leaves out notes that would not change', () => {
+    const note = '---\nsticker: emoji//1f4c1\ndescription: "Old"\nomnifocus-id: p1\nstatus: active\n---\n```omnifocus\nproject: Garden\n```\n';
+    const unchanged = note.replace('"Old"', '"New"');
+    const contents: Record<string, string> = { 'Garden/Garden.md': note, 'Shed/Shed.md': unchanged.replace(/Garden/g, 'Shed').replace('p1', 'p2') };
+    const plan = planFolderSync(
+      input({
+        projects: [project('p1', 'Garden', { note: 'New' }), project('p2', 'Shed', { note: 'New' })],
+        folderPaths: ['Garden', 'Shed'],
+        folderExists: () => true,
+        noteContent: (path) => contents[path] ?? null,
+      }),
+    );
+    expect(plan.existingFolders).toBe(2);
+    expect(plan.items).toEqual([
+      expect.objectContaining({
+        kind: 'update-file',
+        path: 'Garden/Garden.md',
+        changes: [{ key: 'description', before: '"Old"', after: '"New"' }],
+      }),
+    ]);
+  });
+
+  it('plans the OmniFocus note from an LLM suggestion and uses it as the description', () => {
+    const plan = planFolderSync(
+      input({ projects: [project('p1', 'Garden')], folderPaths: ['Garden'], suggestions: { p1: 'Grow vegetables' } }),
+    );
+    expect(plan.items[1]).toEqual({
+      kind: 'omnifocus-note',
+      key: 'omnifocus-note:p1',
+      requires: [],
+      projectId: 'p1',
+      projectName: 'Garden',
+      note: 'Grow vegetables',
+    });
+    expect(plan.items[2].kind === 'create-file' && plan.items[2].content).toContain('description: "Grow vegetables"');
+  });
+
+});
+
+describe('planFolderSync with moved and archived projects', () => {
+  it('updates a moved note after its move and counts the moved folder as existing', () => {
+    const move = {
+      projectId: 'p1',
+      from: 'Work/Website/Website.md',
+      to: 'Work/Site/Site.md',
+      folder: { from: 'Work/Website', to: 'Work/Site' },
+    };
+    const plan = planFolderSync(
+      input({
+        projects: [project('p1', 'Work/Site', { note: 'Relaunch' })],
+        moves: [move],
+        folderPaths: ['Work', 'Work/Site'],
+        folderExists: (path) => path === 'Work',
+        noteContent: (path) => (path === move.from ? '---\ndescription: "Relaunch"\n---\n```omnifocus\nproject: Website\n```\n' : null),
+      }),
+    );
+    expect(plan.existingFolders).toBe(2);
+    expect(plan.items.map((i) => [i.key, i.requires])).toEqual([
+      ['move:p1', []],
+      ['file:Work/Site/Site.md', ['move:p1']],
+    ]);
+    const update = plan.items[1];
+    expect(update.kind === 'update-file' && update.content).toContain('project: Site');
+  });
+
+  it('creates no note for archived projects', () => {
+    const archived = project('p1', 'Done', { status: 'completed', notePath: 'Archive/Done/Done.md', archived: true });
+    expect(planFolderSync(input({ projects: [archived], suggestions: { p1: 'x' } })).items).toEqual([]);
+  });
+});
+
+describe('planFolderSync with two-way descriptions', () => {
+  const garden = '---\nsticker: emoji//1f4c1\ndescription: "Grow herbs"\nomnifocus-id: p1\nstatus: active\n---\n```omnifocus\nproject: Garden\n```\nBody\n';
+  const twoWay = (fields: Partial<FolderSyncPlanInput> = {}) =>
+    input({
+      projects: [project('p1', 'Garden', { note: 'Grow vegetables' })],
+      noteContent: () => garden,
+      descriptions: { withNotes: false, base: { p1: { description: 'Grow vegetables', notes: '' } }, resolutions: {} },
+      ...fields,
+    });
+
+  it('writes an edited description back to OmniFocus and leaves the note as it is', () => {
+    const plan = planFolderSync(twoWay());
+    expect(plan.conflicts).toEqual([]);
+    expect(plan.items).toEqual([
+      { kind: 'omnifocus-note', key: 'omnifocus-note:p1', requires: [], projectId: 'p1', projectName: 'Garden', note: 'Grow herbs' },
+    ]);
+  });
+
+  it('reports descriptions changed on both sides and plans the chosen side once resolved', () => {
+    const projects = [project('p1', 'Garden', { note: 'Grow fruit' })];
+    const open = planFolderSync(twoWay({ projects }));
+    expect(open.conflicts.map((c) => [c.projectId, c.omnifocus.description, c.obsidian.description])).toEqual([
+      ['p1', 'Grow fruit', 'Grow herbs'],
+    ]);
+    expect(open.items).toEqual([]);
+    const resolutions = { p1: 'omnifocus' as const };
+    const base = { p1: { description: 'Grow vegetables', notes: '' } };
+    const keepOmniFocus = planFolderSync(twoWay({ projects, descriptions: { withNotes: false, base, resolutions } }));
+    const update = keepOmniFocus.items[0];
+    expect(update.kind === 'update-file' && update.changes).toEqual([{ key: 'description', before: '"Grow herbs"', after: '"Grow fruit"' }]);
+  });
+
+  it('writes the rest of the OmniFocus note into a notes section', () => {
+    const projects = [project('p1', 'Garden', { note: 'Grow herbs\n\nBasil and mint' })];
+    const descriptions = { withNotes: true, base: {}, resolutions: {} };
+    const update = planFolderSync(twoWay({ projects, descriptions })).items[0];
+    expect(update.kind === 'update-file' && update.content).toBe(`${garden}\n## Notes\n\nBasil and mint\n`);
+  });
+});
+
+describe('selectPlanItems', () => {
+  it('drops unselected items and the items that depend on them', () => {
+    const plan = planFolderSync(
+      input({ projects: [project('p1', 'Work/Website'), project('p2', 'Garden')], folderPaths: ['Garden', 'Work', 'Work/Website'] }),
+    );
+    const all = plan.items.map((i) => i.key);
+    expect(selectPlanItems(plan, new Set(all.filter((k) => k !== 'folder:Work'))).map((i) => i.key)).toEqual([
+      'folder:Garden',
+      'file:Garden/Garden.md',
+    ]);
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Dry-run planning for folder sync (no Obsidian dependency).
+ *
+ * `planFolderSync` turns the projects fetched from OmniFocus and the current
+ * vault state into the list of changes a sync would make: project notes to
+ * move, folders and notes to create, frontmatter to update, and LLM
+ * descriptions to write back to OmniFocus. The preview modal shows the items
+ * with checkboxes; `selectPlanItems` keeps the chosen ones and drops items
+ * whose prerequisites were left out. With two-way descriptions (see
+ * sync-folders-descriptions.ts), edited descriptions become OmniFocus notes to
+ * write and descriptions changed on both sides become conflicts.
+ */
+
+import type { ProjectPathWithNote } from './omnifocus';
+import type { ProjectProperty } from './sync-folders-frontmatter';
+import {
+  buildNewFileContent,
+  readFrontmatterKeys,
+  renameOmnifocusBlockProject,
+  updateContentFrontmatter,
+} from './sync-folders-frontmatter';
+import type { ProjectNoteMove } from './sync-folders-moves';
+import { lastSegment, parentPath } from './sync-folders-paths';
+import { insertMissingSections, renderProjectTemplate } from './sync-folders-template';
+import type { ProjectTemplate } from './sync-folders-template';
+import { decideDescription, readNotesSection, setNotesSection } from './sync-folders-descriptions';
+import type { DescriptionConflict, DescriptionDecision, TwoWayDescriptions } from './sync-folders-descriptions';
+
+/** A project with the vault path folder sync keeps its note at. */
+export interface SyncedProject extends ProjectPathWithNote {
+  notePath: string;
+  /** Archived projects only get an existing note updated. */
+  archived: boolean;
+}
+
+/** One frontmatter key a sync changes; null when the key is missing on that side. */
+export interface FrontmatterChange {
+  key: string;
+  before: string | null;
+  after: string | null;
+}
+
+interface PlanItemBase {
+  /** Stable key for selection, e.g. `folder:Work/Website`. */
+  key: string;
+  /** Keys of items that must be applied first; the item is dropped without them. */
+  requires: string[];
+}
+
+export type SyncPlanItem = PlanItemBase &
+  (
+    | { kind: 'move'; move: ProjectNoteMove }
+    | { kind: 'folder'; path: string }
+    | { kind: 'create-file'; projectId: string; path: string; content: string }
+    /** `before` is the note as planned; the update is skipped when the note changed since. */
+    | { kind: 'update-file'; projectId: string; path: string; before: string; content: string; changes: FrontmatterChange[] }
+    | { kind: 'omnifocus-note'; projectId: string; projectName: string; note: string }
+  );
+
+export interface SyncPlan {
+  items: SyncPlanItem[];
+  /** Folders that already exist. */
+  existingFolders: number;
+  /** Descriptions changed on both sides since the last sync. */
+  conflicts: DescriptionConflict[];
+}
+
+export interface FolderSyncPlanInput {
+  projects: SyncedProject[];
+  moves: ProjectNoteMove[];
+  /** Vault folder paths of active projects, shallowest first (see `deriveFolderPathsToCreate`). */
+  folderPaths: string[];
+  folderExists(path: string): boolean;
+  /** Content of the note at a vault path, or null when there is none. */
+  noteContent(path: string): string | null;
+  /** LLM-suggested descriptions by project id, for projects without an OmniFocus note. */
+  suggestions: Record<string, string>;
+  /** Frontmatter properties by project id (see `projectProperties`). */
+  properties: Record<string, ProjectProperty[]>;
+  /** Note template by project id (see sync-folders-template.ts); projects without one get the built-in note. */
+  templates: Record<string, ProjectTemplate>;
+  /** Set for two-way descriptions; without it OmniFocus notes only flow into the vault. */
+  descriptions?: TwoWayDescriptions;
+}
+
+/** Frontmatter keys whose values differ between two versions of a note. */
+export function frontmatterChanges(before: string, after: string): FrontmatterChange[] {
+  const a = readFrontmatterKeys(before);
+  const b = readFrontmatterKeys(after);
+  const keys = [...b.keys(), ...[...a.keys()].filter((k) => !b.has(k))];
+  return keys
+    .filter((key) => a.get(key) !== b.get(key))
+    .map((key) => ({ key, before: a.get(key) ?? null, after: b.get(key) ?? null }));
+}
+
+function planFolders(input: FolderSyncPlanInput): Omit<SyncPlan, 'conflicts'> {
+  const moveTargets = input.moves.filter((m) => m.folder).map((m) => m.folder!.to);
+  const items: SyncPlanItem[] = [];
+  const created = new Set<string>();
+  let existingFolders = 0;
+  for (const path of input.folderPaths) {
+    if (input.folderExists(path) || moveTargets.includes(path)) {
+      existingFolders++;
+      continue;
+    }
+    const parent = parentPath(path);
+    items.push({ kind: 'folder', key: `folder:${path}`, requires: created.has(parent) ? [`folder:${parent}`] : [], path });
+    created.add(path);
+  }
+  return { items, existingFolders };
+}
+
+/** The note's content once its move (if any) is applied, and the move item it then depends on. */
+function currentNote(input: FolderSyncPlanInput, project: SyncedProject): { content: string | null; requires: string[] } {
+  const move = input.moves.find((m) => m.projectId === project.id);
+  if (!move) return { content: input.noteContent(project.notePath), requires: [] };
+  const content = input.noteContent(move.from);
+  const oldName = lastSegment(move.from).replace(/\.md$/, '');
+  const newName = lastSegment(move.to).replace(/\.md$/, '');
+  return {
+    content: content === null ? null : renameOmnifocusBlockProject(content, oldName, newName),
+    requires: [`move:${project.id}`],
+  };
+}
+
+/** The note's content with the decided notes section, when two-way descriptions sync one. */
+function withNotesSection(content: string, input: FolderSyncPlanInput, decision: DescriptionDecision | null): string {
+  if (!decision || !input.descriptions?.withNotes) return content;
+  if ((readNotesSection(content) ?? '') === decision.text.notes) return content;
+  return setNotesSection(content, decision.text.notes);
+}
+
+/** What a project's note says about the project and what OmniFocus gets back. */
+interface NoteDescription {
+  description: string;
+  /** Note to write to OmniFocus: an LLM suggestion or, with two-way descriptions, the note's edited text. */
+  omnifocusNote: string | null;
+  decision: DescriptionDecision | null;
+}
+
+function planDescription(
+  input: FolderSyncPlanInput,
+  project: SyncedProject,
+  name: string,
+  content: string | null,
+  conflicts: DescriptionConflict[],
+): NoteDescription {
+  const { id, note, notePath } = project;
+  const decision = input.descriptions ? decideDescription(input.descriptions, { id, note, name }, notePath, content) : null;
+  if (decision?.conflict) conflicts.push(decision.conflict);
+  const fromOmniFocus = !decision || decision.side === 'omnifocus';
+  const suggestion = fromOmniFocus && note.trim() === '' && !project.archived ? input.suggestions[id] : undefined;
+  const text = decision ? decision.text.description : note.trim();
+  return { description: text || suggestion || 'TODO', omnifocusNote: suggestion || decision?.omnifocusNote || null, decision };
+}
+
+function planNote(
+  input: FolderSyncPlanInput,
+  project: SyncedProject,
+  createdFolders: Set<string>,
+  conflicts: DescriptionConflict[],
+): SyncPlanItem[] {
+  const { id, notePath } = project;
+  const properties = input.properties[id] ?? [];
+  const name = lastSegment(project.path);
+  const current = currentNote(input, project);
+  if (current.content === null && project.archived) return [];
+  const { description, omnifocusNote, decision } = planDescription(input, project, name, current.content, conflicts);
+  const template = input.templates[id];
+  const items: SyncPlanItem[] = [];
+  if (omnifocusNote !== null) {
+    items.push({ kind: 'omnifocus-note', key: `omnifocus-note:${id}`, requires: [], projectId: id, projectName: name, note: omnifocusNote });
+  }
+  if (current.content === null) {
+    const folder = parentPath(notePath);
+    const requires = createdFolders.has(folder) ? [`folder:${folder}`] : [];
+    const content = withNotesSection(buildNewFileContent(description, name, properties, template && renderProjectTemplate(template.source, template.values)), input, decision);
+    items.push({ kind: 'create-file', key: `file:${notePath}`, requires, projectId: id, path: notePath, content });
+    return items;
+  }
+  const templated = template != null ? insertMissingSections(current.content, template) : current.content;
+  const content = withNotesSection(updateContentFrontmatter(templated, description, name, properties), input, decision);
+  if (content !== current.content) {
+    const changes = frontmatterChanges(current.content, content);
+    items.push({
+      kind: 'update-file',
+      key: `file:${notePath}`,
+      requires: current.requires,
+      projectId: id,
+      path: notePath,
+      before: current.content,
+      content,
+      changes,
+    });
+  }
+  return items;
+}
+
+/**
+ * Changes a folder sync would make, in the order they are applied: moves,
+ * then folders (parents first), then per project the OmniFocus note and the
+ * project's note file. Notes that would not change are left out.
+ */
+export function planFolderSync(input: FolderSyncPlanInput): SyncPlan {
+  const moves: SyncPlanItem[] = input.moves.map((move) => ({ kind: 'move', key: `move:${move.projectId}`, requires: [], move }));
+  const folders = planFolders(input);
+  const createdFolders = new Set(folders.items.map((item) => (item.kind === 'folder' ? item.path : '')));
+  const notes: SyncPlanItem[] = [];
+  const conflicts: DescriptionConflict[] = [];
+  for (const project of input.projects) notes.push(...planNote(input, project, createdFolders, conflicts));
+  return { items: [...moves, ...folders.items, ...notes], existingFolders: folders.existingFolders, conflicts };
+}
+
+/** What an item changes, as the preview and failure messages name it. */
+export function planItemLabel(item: SyncPlanItem): string {
+  switch (item.kind) {
+    case 'move':
+      return `${item.move.from} → ${item.move.to}`;
+    case 'folder':
+    case 'create-file':
+    case 'update-file':
+      return item.path;
+    case 'omnifocus-note':
+      return item.projectName;
+  }
+}
+
+/** The selected items whose prerequisites are selected too, in plan order. */
+export function selectPlanItems(plan: SyncPlan, selected: ReadonlySet<string>): SyncPlanItem[] {
+  const kept = new Set<string>();
+  const out: SyncPlanItem[] = [];
+  for (const item of plan.items) {
+    if (!selected.has(item.key) || !item.requires.every((key) => kept.has(key))) continue;
+    kept.add(item.key);
+    out.push(item);
+  }
+  return out;
+}
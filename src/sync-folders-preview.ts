@@ -0,0 +1,175 @@
+/**
+ * Preview for "Sync folders from OmniFocus": a dry run lists every change the
+ * sync would make (see sync-folders-plan.ts), grouped by kind, with a
+ * checkbox each. Only the checked changes are applied; a change whose
+ * prerequisite is unchecked (a note in a folder that is not created, say) is
+ * greyed out and skipped. Description conflicts (two-way descriptions) are
+ * listed first; choosing a side adds the changes that keeping it makes.
+ */
+
+import { App, Modal, Notice, Setting } from 'obsidian';
+import type { ButtonComponent } from 'obsidian';
+import type { PluginSettings } from './settings';
+import type { LLMPluginContext } from './llm';
+import { applyFolderSync, notifyFolderSyncResult, planItemLabel, prepareFolderSync, replanFolderSync, selectPlanItems } from './sync-folders';
+import type { FolderSyncStore, PreparedFolderSync, SyncPlanItem } from './sync-folders';
+import { renderDescriptionConflicts } from './sync-folders-conflicts';
+import type { DescriptionResolutions } from './sync-folders-conflicts';
+
+const SECTIONS: { kind: SyncPlanItem['kind']; title: string }[] = [
+  { kind: 'move', title: 'Projects to move or rename' },
+  { kind: 'folder', title: 'Folders to create' },
+  { kind: 'create-file', title: 'Notes to create' },
+  { kind: 'update-file', title: 'Frontmatter changes' },
+  { kind: 'omnifocus-note', title: 'OmniFocus notes to write' },
+];
+
+/** Details under an item: the frontmatter diff, or the note the LLM would write. */
+function renderItemDetails(el: HTMLElement, item: SyncPlanItem): void {
+  if (item.kind === 'update-file') {
+    const list = el.createEl('ul', { cls: 'omnifocus-sync-preview-diff' });
+    for (const { key, before, after } of item.changes) {
+      const row = list.createEl('li');
+      row.createSpan({ cls: 'omnifocus-sync-preview-key', text: `${key}: ` });
+      if (before !== null) row.createSpan({ cls: 'omnifocus-sync-preview-before', text: before });
+      if (before !== null && after !== null) row.appendText(' → ');
+      if (after !== null) row.createSpan({ cls: 'omnifocus-sync-preview-after', text: after });
+    }
+    if (item.changes.length === 0) list.createEl('li', { text: 'Body only (omnifocus block)' });
+  } else if (item.kind === 'omnifocus-note') {
+    el.createDiv({ cls: 'omnifocus-sync-preview-note', text: item.note });
+  }
+}
+
+export class FolderSyncPreviewModal extends Modal {
+  private readonly selected: Set<string>;
+  private readonly checkboxes = new Map<string, HTMLInputElement>();
+  private readonly resolutions: DescriptionResolutions = {};
+  private itemsEl: HTMLElement | null = null;
+  private applyButton: ButtonComponent | null = null;
+
+  constructor(
+    app: App,
+    private prepared: PreparedFolderSync,
+    private readonly onApply: (prepared: PreparedFolderSync, items: SyncPlanItem[]) => Promise<void>,
+  ) {
+    super(app);
+    this.selected = new Set(prepared.plan.items.map((item) => item.key));
+  }
+
+  onOpen(): void {
+    this.containerEl.addClass('omnifocus-sync-preview-modal');
+    const { contentEl } = this;
+    const { items, conflicts } = this.prepared.plan;
+    contentEl.createEl('h2', { text: 'Sync folders from OmniFocus' });
+    if (items.length === 0 && conflicts.length === 0) {
+      contentEl.createEl('p', { text: 'Everything is in sync; nothing to change.' });
+      new Setting(contentEl).addButton((btn) => btn.setButtonText('Close').onClick(() => this.close()));
+      return;
+    }
+    if (conflicts.length > 0) this.renderConflicts();
+    this.itemsEl = contentEl.createDiv();
+    new Setting(contentEl)
+      .addButton((btn) => btn.setButtonText('Cancel').onClick(() => this.close()))
+      .addButton((btn) => {
+        this.applyButton = btn;
+        btn.setCta().onClick(() => void this.apply());
+      });
+    this.renderItems();
+  }
+
+  onClose(): void {
+    this.containerEl.removeClass('omnifocus-sync-preview-modal');
+    this.contentEl.empty();
+  }
+
+  /** Description conflicts; each choice plans the sync again, and changes it adds start checked. */
+  private renderConflicts(): void {
+    const section = this.contentEl.createDiv({ cls: 'omnifocus-sync-preview-section' });
+    section.createEl('h3', { text: `Description conflicts (${this.prepared.plan.conflicts.length})` });
+    renderDescriptionConflicts(section, this.prepared.plan.conflicts, this.resolutions, () => {
+      const before = new Set(this.prepared.plan.items.map((item) => item.key));
+      this.prepared = replanFolderSync(this.prepared, { ...this.resolutions });
+      for (const { key } of this.prepared.plan.items) if (!before.has(key)) this.selected.add(key);
+      this.renderItems();
+    });
+  }
+
+  private renderItems(): void {
+    if (!this.itemsEl) return;
+    this.itemsEl.empty();
+    this.checkboxes.clear();
+    for (const { kind, title } of SECTIONS) {
+      const sectionItems = this.prepared.plan.items.filter((item) => item.kind === kind);
+      if (sectionItems.length > 0) this.renderSection(this.itemsEl, title, sectionItems);
+    }
+    this.update();
+  }
+
+  private renderSection(el: HTMLElement, title: string, items: SyncPlanItem[]): void {
+    const section = el.createDiv({ cls: 'omnifocus-sync-preview-section' });
+    section.createEl('h3', { text: `${title} (${items.length})` });
+    for (const item of items) {
+      const row = section.createDiv({ cls: 'omnifocus-sync-preview-item' });
+      const label = row.createEl('label');
+      const checkbox = label.createEl('input', { type: 'checkbox' });
+      checkbox.checked = this.selected.has(item.key);
+      checkbox.addEventListener('change', () => {
+        if (checkbox.checked) this.selected.add(item.key);
+        else this.selected.delete(item.key);
+        this.update();
+      });
+      label.appendText(` ${planItemLabel(item)}`);
+      renderItemDetails(row, item);
+      this.checkboxes.set(item.key, checkbox);
+    }
+  }
+
+  /** Grey out items whose prerequisites are unchecked and show how many will be applied. */
+  private update(): void {
+    const applied = new Set(selectPlanItems(this.prepared.plan, this.selected).map((item) => item.key));
+    for (const item of this.prepared.plan.items) {
+      const blocked = this.selected.has(item.key) && !applied.has(item.key);
+      this.checkboxes.get(item.key)?.parentElement?.toggleClass('omnifocus-sync-preview-blocked', blocked);
+    }
+    this.applyButton?.setButtonText(`Apply ${applied.size} change(s)`);
+    this.applyButton?.setDisabled(applied.size === 0);
+  }
+
+  private async apply(): Promise<void> {
+    const items = selectPlanItems(this.prepared.plan, this.selected);
+    this.close();
+    await this.onApply(this.prepared, items);
+  }
+}
+
+/**
+ * Plan a folder sync without writing anything and open the preview; the
+ * checked changes are applied when confirmed.
+ *
+ * @param llmContext - Optional. When provided and configured, projects with no note get an LLM-suggested description to review.
+ * @param store - Optional store for the id → note path index used to follow renamed and moved projects, and for agreed descriptions.
+ */
+export async function previewFolderSync(
+  app: App,
+  settings: PluginSettings,
+  llmContext?: LLMPluginContext,
+  store?: FolderSyncStore,
+): Promise<void> {
+  try {
+    const prepared = await prepareFolderSync(app, settings, llmContext, store);
+    new FolderSyncPreviewModal(app, prepared, async (planned, items) => {
+      try {
+        notifyFolderSyncResult(await applyFolderSync(app, planned, items, store));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        new Notice(`OmniFocus sync error: ${message}`);
+        console.error('[omnifocus-sync] sync folders failed:', err);
+      }
+    }).open();
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    new Notice(`OmniFocus sync error: ${message}`);
+    console.error('[omnifocus-sync] sync folders preview failed:', err);
+  }
+}
@@ -0,0 +1,130 @@
+import type { OmniFocusProjectMetadata, ProjectPathWithNote } from './omnifocus';
+import {
+  defaultProjectPropertyKeys,
+  needsProjectMetadata,
+  projectProperties,
+  propertyDateTime,
+} from './sync-folders-properties';
+import { localDate } from './omnifocus-task-meta';
+import { buildNewFileContent, buildNewFrontmatter, updateContentFrontmatter } from './sync-folders-frontmatter';
+
+const project: ProjectPathWithNote = { path: 'Work/Clients/Website', note: '', id: 'pWeb1', status: 'active' };
+
+const local = (y: number, m: number, d: number, h = 0, min = 0) => new Date(y, m - 1, d, h, min).toISOString();
+
+const metadata: OmniFocusProjectMetadata = {
+  id: 'pWeb1',
+  dueDate: local(2026, 11, 1, 17, 30),
+  deferDate: null,
+  flagged: true,
+  tags: ['Work'],
+  remainingTasks: 7,
+  completedTasks: 12,
+  lastReviewDate: local(2026, 10, 12, 9),
+};
+
+describe('localDate / propertyDateTime', () => {
+  it('formats ISO dates in local time and returns null for missing or invalid dates', () => {
+    expect(localDate(local(2026, 3, 5, 23, 59))).toBe('2026-03-05');
+    expect(propertyDateTime(local(2026, 3, 5, 8, 4))).toBe('2026-03-05T08:04');
+    expect(localDate(null)).toBeNull();
+    expect(propertyDateTime('not a date')).toBeNull();
+  });
+});
+
+describe('projectProperties', () => {
+  const now = new Date(2026, 9, 19, 12, 0);
+
+  it('writes the default properties with typed values in order', () => {
+    expect(projectProperties(project, metadata, defaultProjectPropertyKeys(), now)).toEqual([
+      { key: 'omnifocus-id', value: 'pWeb1' },
+      { key: 'omnifocus-url', value: 'omnifocus:///task/pWeb1' },
+      { key: 'status', value: 'active' },
+      { key: 'folder', value: 'Work/Clients' },
+      { key: 'due', value: '2026-11-01T17:30' },
+      { key: 'defer', value: null },
+      { key: 'flagged', value: true },
+      { key: 'tags', value: ['Work'] },
+      { key: 'remaining-tasks', value: 7 },
+      { key: 'completed-tasks', value: 12 },
+      { key: 'last-reviewed', value: '2026-10-12' },
+    ]);
+  });
+
+  it('uses renamed keys, leaves out cleared ones and fills in keys missing from saved settings', () => {
+    const keys = { 'omnifocus-id': 'of-id', status: '', 'last-synced': 'synced' };
+    expect(projectProperties({ ...project, path: 'Website' }, undefined, keys, now)).toEqual([
+      { key: 'of-id', value: 'pWeb1' },
+      { key: 'omnifocus-url', value: 'omnifocus:///task/pWeb1' },
+      { key: 'folder', value: null },
+      { key: 'synced', value: '2026-10-19T12:00' },
+    ]);
+  });
+});
+
+describe('needsProjectMetadata', () => {
+  it('is true only while a metadata property is enabled', () => {
+    expect(needsProjectMetadata(defaultProjectPropertyKeys())).toBe(true);
+    const keys = defaultProjectPropertyKeys();
+    for (const id of ['due', 'defer', 'flagged', 'tags', 'remaining-tasks', 'completed-tasks', 'last-reviewed'] as const) keys[id] = '';
+    expect(needsProjectMetadata(keys)).toBe(false);
+  });
+});
+
+describe('typed project properties', () => {
+  it('writes dates and plain words unquoted, numbers, booleans and lists typed', () => {
+    const out = buildNewFrontmatter('D', [
+      { key: 'due', value: '2026-11-01T17:00' },
+      { key: 'folder', value: 'Work/Clients' },
+      { key: 'remaining-tasks', value: 7 },
+      { key: 'flagged', value: false },
+      { key: 'tags', value: ['Work', 'Waiting For'] },
+      { key: 'empty', value: [] },
+    ]);
+    expect(out).toContain(
+      'due: 2026-11-01T17:00\nfolder: Work/Clients\nremaining-tasks: 7\nflagged: false\ntags:\n  - Work\n  - "Waiting For"\nempty: []\n',
+    );
+  });
+
+  it('quotes strings YAML would read as something else', () => {
+    const out = buildNewFrontmatter('D', [
+      { key: 'a', value: 'true' },
+      { key: 'b', value: '42' },
+      { key: 'c', value: 'Home: "garden"' },
+    ]);
+    expect(out).toContain('a: "true"\nb: "42"\nc: "Home: \\"garden\\""\n');
+  });
+
+  it('removes properties whose value is null and keeps keys it does not own', () => {
+    const content = '---\ndescription: old\ndue: 2026-11-01T17:00\ncustom: yes\n---\nbody';
+    expect(updateContentFrontmatter(content, 'D', undefined, [{ key: 'due', value: null }])).toBe(
+      '---\nsticker: emoji//1f4c1\ndescription: "D"\ncustom: yes\n---\nbody',
+    );
+  });
+});
+
+describe('project id and status frontmatter', () => {
+  const id = (value: string) => ({ key: 'omnifocus-id', value });
+
+  it('writes the project id and status into new notes', () => {
+    expect(buildNewFileContent('Desc', 'Website', [id('p1'), { key: 'status', value: 'active' }])).toContain(
+      'description: "Desc"\nomnifocus-id: p1\nstatus: active\n---',
+    );
+    expect(buildNewFrontmatter('Desc')).not.toContain('omnifocus-id');
+  });
+
+  it('sets the id when given and keeps an existing one otherwise', () => {
+    const content = '---\nsticker: emoji//1f4a1\nomnifocus-id: old\ncustom: yes\n---\nbody';
+    expect(updateContentFrontmatter(content, 'D', undefined, [id('p1')])).toBe(
+      '---\nsticker: emoji//1f4a1\ndescription: "D"\nomnifocus-id: p1\ncustom: yes\n---\nbody',
+    );
+    expect(updateContentFrontmatter(content, 'D')).toContain('omnifocus-id: old\ncustom: yes');
+  });
+
+  it('replaces the status of an existing note', () => {
+    const content = '---\ndescription: old\nstatus: active\n---\nbody';
+    expect(updateContentFrontmatter(content, 'D', undefined, [id('p1'), { key: 'status', value: 'completed' }])).toContain(
+      'omnifocus-id: p1\nstatus: completed\n---',
+    );
+  });
+});
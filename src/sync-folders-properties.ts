@@ -0,0 +1,141 @@
+/**
+ * Project note properties written by folder sync (no Obsidian dependency).
+ *
+ * Each property has a fixed id and a frontmatter key the user can rename or
+ * clear (to stop writing it). Values keep their YAML types so Obsidian shows
+ * them as date, number, checkbox and list properties and Dataview and Bases
+ * can query them: dates are unquoted `YYYY-MM-DD` / `YYYY-MM-DDTHH:mm` in
+ * local time, counts are numbers, `flagged` is a boolean and tags a list.
+ */
+
+import type { OmniFocusProjectMetadata, ProjectPathWithNote } from './omnifocus';
+import type { ProjectProperty } from './sync-folders-frontmatter';
+import { localDate, pad2 } from './omnifocus-task-meta';
+import { parentPath } from './sync-folders-paths';
+
+/** Properties in the order they are written after `description`. Single source of truth for settings and defaults. */
+export const PROJECT_PROPERTIES = [
+  { id: 'omnifocus-id' as const, label: 'OmniFocus id', desc: 'Project id; folder sync uses it to follow renamed and moved projects.' },
+  { id: 'omnifocus-url' as const, label: 'OmniFocus link', desc: 'omnifocus:/// link that opens the project.' },
+  { id: 'status' as const, label: 'Status', desc: 'active, on-hold, completed or dropped.' },
+  { id: 'folder' as const, label: 'Folder', desc: 'OmniFocus folder path of the project; left out at top level.' },
+  { id: 'due' as const, label: 'Due date', desc: 'Date and time.' },
+  { id: 'defer' as const, label: 'Defer date', desc: 'Date and time.' },
+  { id: 'flagged' as const, label: 'Flagged', desc: 'Checkbox.' },
+  { id: 'tags' as const, label: 'Tags', desc: 'List of the project\'s OmniFocus tags.' },
+  { id: 'remaining-tasks' as const, label: 'Remaining tasks', desc: 'Number of tasks not yet completed or dropped.' },
+  { id: 'completed-tasks' as const, label: 'Completed tasks', desc: 'Number of completed tasks.' },
+  { id: 'last-reviewed' as const, label: 'Last reviewed', desc: 'Date.' },
+  { id: 'last-synced' as const, label: 'Last synced', desc: 'Date and time of the sync that wrote the note. Changes the note on every sync.' },
+] as const;
+
+export type ProjectPropertyId = (typeof PROJECT_PROPERTIES)[number]['id'];
+
+/** Frontmatter key of each property; an empty key turns the property off. */
+export type ProjectPropertyKeys = Record<ProjectPropertyId, string>;
+
+/** Properties whose values come from `fetchProjectMetadata`. */
+const METADATA_PROPERTIES: readonly ProjectPropertyId[] = [
+  'due',
+  'defer',
+  'flagged',
+  'tags',
+  'remaining-tasks',
+  'completed-tasks',
+  'last-reviewed',
+];
+
+/** Every property under its own id as key, except `last-synced`, which is off. */
+export function defaultProjectPropertyKeys(): ProjectPropertyKeys {
+  const out = {} as ProjectPropertyKeys;
+  for (const { id } of PROJECT_PROPERTIES) {
+    out[id] = id === 'last-synced' ? '' : id;
+  }
+  return out;
+}
+
+/** The trimmed key of a property; properties missing from saved settings get their default. */
+export function projectPropertyKey(keys: Partial<ProjectPropertyKeys> | undefined, id: ProjectPropertyId): string {
+  const key = keys?.[id];
+  return (typeof key === 'string' ? key : defaultProjectPropertyKeys()[id]).trim();
+}
+
+/** True when an enabled property needs `fetchProjectMetadata`. */
+export function needsProjectMetadata(keys: Partial<ProjectPropertyKeys> | undefined): boolean {
+  return METADATA_PROPERTIES.some((id) => projectPropertyKey(keys, id) !== '');
+}
+
+/** Local `YYYY-MM-DDTHH:mm` of an ISO date, the format of Obsidian's date & time properties. */
+export function propertyDateTime(iso: string | null): string | null {
+  const date = localDate(iso);
+  if (!date || !iso) return null;
+  const d = new Date(iso);
+  return `${date}T${pad2(d.getHours())}:${pad2(d.getMinutes())}`;
+}
+
+type PropertyValue = ProjectProperty['value'] | undefined;
+
+/** Value of a property that comes from the project itself; undefined for metadata properties. */
+function projectValue(id: ProjectPropertyId, project: ProjectPathWithNote, now: Date): PropertyValue {
+  switch (id) {
+    case 'omnifocus-id':
+      return project.id || null;
+    case 'omnifocus-url':
+      return project.id ? `omnifocus:///task/${project.id}` : null;
+    case 'status':
+      return project.status;
+    case 'folder':
+      return parentPath(project.path) || null;
+    case 'last-synced':
+      return propertyDateTime(now.toISOString());
+    default:
+      return undefined;
+  }
+}
+
+function metadataValue(id: ProjectPropertyId, metadata: OmniFocusProjectMetadata): PropertyValue {
+  switch (id) {
+    case 'due':
+      return propertyDateTime(metadata.dueDate);
+    case 'defer':
+      return propertyDateTime(metadata.deferDate);
+    case 'flagged':
+      return metadata.flagged;
+    case 'tags':
+      return metadata.tags;
+    case 'remaining-tasks':
+      return metadata.remainingTasks;
+    case 'completed-tasks':
+      return metadata.completedTasks;
+    case 'last-reviewed':
+      return localDate(metadata.lastReviewDate);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * The enabled properties of a project, in `PROJECT_PROPERTIES` order. A null
+ * value removes the key (a due date that was cleared, say); metadata
+ * properties are left out entirely when the project has no metadata.
+ *
+ * @param metadata - From `fetchProjectMetadata`; undefined when not fetched.
+ * @param now - Time of the sync, for `last-synced`.
+ */
+export function projectProperties(
+  project: ProjectPathWithNote,
+  metadata: OmniFocusProjectMetadata | undefined,
+  keys: Partial<ProjectPropertyKeys> | undefined,
+  now: Date,
+): ProjectProperty[] {
+  const out: ProjectProperty[] = [];
+  for (const { id } of PROJECT_PROPERTIES) {
+    const key = projectPropertyKey(keys, id);
+    if (!key) continue;
+    const value = METADATA_PROPERTIES.includes(id)
+      ? metadata && metadataValue(id, metadata)
+      : projectValue(id, project, now);
+    if (value !== undefined) out.push({ key, value });
+  }
+  return out;
+}
@@ -0,0 +1,88 @@
+/**
+ * LLM descriptions for folder sync: projects without an OmniFocus note get a
+ * one-sentence description suggested from their tasks, which the sync writes
+ * to OmniFocus and to the project note.
+ */
+
+import { getLLMModel } from './settings';
+import type { PluginSettings } from './settings';
+import { fetchTasks } from './omnifocus';
+import type { SyncedProject } from './sync-folders-plan';
+import { lastSegment } from './sync-folders-paths';
+import { simpleChat } from './llm';
+import type { LLMPluginContext } from './llm';
+
+const PROJECT_DESCRIPTION_SYSTEM = `You are a productivity assistant. Given a project name and its tasks (with optional notes), suggest a single short sentence that describes the project's purpose or outcome. Return only that sentence, no quotes, no prefix like "Description:".`;
+
+/** Max task lines to send to the LLM to avoid token overflow. */
+const MAX_TASKS_FOR_DESCRIPTION = 50;
+
+/** Max characters of each task note to include. */
+const MAX_NOTE_PREVIEW = 200;
+
+/**
+ * Use LLM to suggest a project description from project name and tasks.
+ * Returns trimmed reply or null on failure/empty.
+ */
+async function suggestProjectDescription(
+  ctx: LLMPluginContext,
+  projectName: string,
+  tasks: { name: string; note: string }[],
+  model?: string,
+): Promise<string | null> {
+  const lines = tasks.slice(0, MAX_TASKS_FOR_DESCRIPTION).map((t) => {
+    const notePreview =
+      (t.note ?? '').trim().slice(0, MAX_NOTE_PREVIEW) ||
+      '';
+    return notePreview ? `- ${t.name}\n  ${notePreview}` : `- ${t.name}`;
+  });
+  const userMessage = `Project: ${projectName}\n\nTasks:\n${lines.join('\n')}`;
+  const reply = await simpleChat(ctx, userMessage, {
+    systemPrompt: PROJECT_DESCRIPTION_SYSTEM,
+    model,
+    max_tokens: 120,
+    temperature: 0.3,
+  });
+  const trimmed = typeof reply === 'string' ? reply.trim() : '';
+  if (trimmed.length === 0 && (reply !== undefined && reply !== '')) {
+    console.log(
+      '[omnifocus-sync] LLM raw reply (not a string or empty):',
+      typeof reply,
+      JSON.stringify(reply).slice(0, 200),
+    );
+  }
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+/**
+ * LLM descriptions for active projects without an OmniFocus note, suggested
+ * from their tasks. Projects whose suggestion fails are left out.
+ */
+export async function suggestDescriptions(
+  projects: SyncedProject[],
+  llmContext: LLMPluginContext,
+  settings: PluginSettings,
+): Promise<Record<string, string>> {
+  const suggestions: Record<string, string> = {};
+  for (const project of projects) {
+    if (project.archived || (project.note ?? '').trim().length > 0) continue;
+    const projectName = lastSegment(project.path);
+    console.log('[omnifocus-sync] Project has no note, asking LLM:', project.path);
+    try {
+      const tasks = await fetchTasks(
+        { kind: 'project', name: projectName },
+        { includeCompleted: true },
+      );
+      const suggested = await suggestProjectDescription(
+        llmContext,
+        projectName,
+        tasks.map((t) => ({ name: t.name, note: t.note ?? '' })),
+        getLLMModel(settings, 'syncFolders') || undefined,
+      );
+      if (suggested) suggestions[project.id] = suggested;
+    } catch (err) {
+      console.warn('[omnifocus-sync] LLM description for project failed:', project.path, err);
+    }
+  }
+  return suggestions;
+}
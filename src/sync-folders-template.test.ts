@@ -0,0 +1,140 @@
+import { parseDocument } from 'yaml';
+import {
+  insertMissingSections,
+  parseFolderTemplates,
+  projectTemplatePath,
+  projectTemplateValues,
+  renderProjectTemplate,
+  templateNeedsMetadata,
+} from './sync-folders-template';
+import { syncFoldersFromOmniFocus } from './sync-folders';
+import { DEFAULT_SETTINGS } from './settings';
+import { getTaskBackend, setTaskBackend } from './omnifocus-backend';
+import { createMemoryBackend } from './omnifocus-memory-backend';
+import { createFakeApp } from './__fixtures__/fake-vault';
+
+const project = { path: 'Work/Website', note: ' Relaunch the site\n', id: 'pWeb1', status: 'active' as const };
+
+describe('project note templates', () => {
+  it('picks the template of the top-level folder, else the default', () => {
+    const settings = { defaultPath: 'Templates/Project', folderPaths: 'Work: Templates/Work.md\nbad line\n: x\nHome:' };
+    expect(parseFolderTemplates(settings.folderPaths)).toEqual({ Work: 'Templates/Work.md' });
+    expect(projectTemplatePath(settings, 'Work/Clients/Website')).toBe('Templates/Work.md');
+    expect(projectTemplatePath(settings, 'Home/Garden')).toBe('Templates/Project.md');
+    expect(projectTemplatePath(settings, 'Work')).toBe('Templates/Project.md');
+    expect(projectTemplatePath({ defaultPath: ' ', folderPaths: '' }, 'Work/Website')).toBeNull();
+  });
+
+  it('fills in placeholders and leaves unknown ones as written', () => {
+    const now = new Date(2026, 9, 19, 8, 0);
+    const metadata = {
+      id: 'pWeb1',
+      dueDate: null,
+      deferDate: null,
+      flagged: false,
+      tags: [],
+      remainingTasks: 4,
+      completedTasks: 2,
+      lastReviewDate: null,
+    };
+    const values = projectTemplateValues(project, metadata, now);
+    const template = '# {{project.name}}\n{{ project.path }} ({{project.id}}), {{tasks.count}} left on {{date}}\n{{project.note}}\n{{title}}';
+    expect(renderProjectTemplate(template, values)).toBe(
+      '# Website\nWork/Website (pWeb1), 4 left on 2026-10-19\nRelaunch the site\n{{title}}',
+    );
+    expect(projectTemplateValues(project, undefined, now)['tasks.count']).toBe('');
+    expect(templateNeedsMetadata('{{ tasks.count }}')).toBe(true);
+    expect(templateNeedsMetadata('{{project.name}}')).toBe(false);
+  });
+
+  it('inserts only the missing sections, rendered and in template order', () => {
+    const source = '---\ntags: [project]\n---\nIntro\n\n## Goal of {{project.name}}\n\nWhy\n\n## Tasks\n\n```omnifocus\nproject: Website\n```\n\n## Log\n';
+    const template = { source, values: { 'project.name': 'Website' } };
+    const note = '---\ndescription: "x"\n---\nMy text\n\n## tasks\n\nmine\n';
+    expect(insertMissingSections(note, template)).toBe(
+      '---\ndescription: "x"\n---\nMy text\n\n## Goal of Website\n\nWhy\n\n## tasks\n\nmine\n\n## Log\n',
+    );
+    const complete = insertMissingSections(note, template);
+    expect(insertMissingSections(complete, template)).toBe(complete);
+  });
+
+  it('finds headings whose placeholder values changed', () => {
+    const template = { source: '## Tasks ({{tasks.count}})\n\n## Log\n', values: { 'tasks.count': '5' } };
+    expect(insertMissingSections('## Tasks (3)\n', template)).toBe('## Tasks (3)\n\n## Log\n');
+    expect(insertMissingSections('### Tasks (3)\n', template)).toBe('### Tasks (3)\n\n## Tasks (5)\n\n## Log\n');
+  });
+});
+
+describe('project note templates with code and YAML', () => {
+  it('ignores headings inside fenced code blocks', () => {
+    const template = { source: '## Tasks\n\n```md\n## Not a section\n```\n\n## Log\n', values: {} };
+    expect(insertMissingSections('```\n## Tasks\n```\n', template)).toBe('```\n## Tasks\n```\n\n## Tasks\n\n```md\n## Not a section\n```\n\n## Log\n');
+  });
+
+  it('keeps template frontmatter valid YAML whatever the values are', () => {
+    const values = { 'project.name': 'Q3: plan', 'project.note': 'Line "one"\nLine two', 'tasks.count': '4', 'project.id': "It's" };
+    const source = [
+      '---',
+      'title: {{project.name}}',
+      'heading: "Project {{project.name}}"',
+      "quoted: '{{project.id}}'",
+      'open: {{tasks.count}}',
+      'aliases:',
+      '  - {{project.name}} notes',
+      'summary: |',
+      '  {{project.note}}',
+      '---',
+      '{{project.name}}',
+    ].join('\n');
+    const rendered = renderProjectTemplate(source, values);
+    const frontmatter = rendered.slice(4, rendered.indexOf('\n---\n'));
+    expect(parseDocument(frontmatter).toJS()).toEqual({
+      title: 'Q3: plan',
+      heading: 'Project Q3: plan',
+      quoted: "It's",
+      open: 4,
+      aliases: ['Q3: plan notes'],
+      summary: 'Line "one"\nLine two\n',
+    });
+    expect(rendered.endsWith('---\nQ3: plan')).toBe(true);
+  });
+});
+
+describe('syncFoldersFromOmniFocus with note templates', () => {
+  const original = getTaskBackend();
+  afterEach(() => setTaskBackend(original));
+
+  it('creates notes from the template and adds its missing sections to existing notes', async () => {
+    setTaskBackend(
+      createMemoryBackend({
+        folders: [{ id: 'f1', name: 'Work', parentId: null }],
+        projects: [{ id: 'p1', name: 'Website', note: 'Relaunch', folderId: 'f1' }],
+        tags: [],
+        tasks: [{ id: 't1', name: 'Draft', note: '', completed: false, projectId: 'p1', tagIds: [] }],
+      }),
+    );
+    const { app, files } = createFakeApp();
+    files.set('Templates/Work.md', '---\ntype: project\n---\n# {{project.name}}\n\n## Tasks ({{tasks.count}})\n\n```omnifocus\nproject: {{project.name}}\n```\n');
+    const settings = { ...DEFAULT_SETTINGS, folderSyncFolderTemplates: 'Work: Templates/Work' };
+
+    await syncFoldersFromOmniFocus(app, settings);
+    const created = files.get('Work/Website/Website.md') ?? '';
+    expect(created).toContain('description: "Relaunch"\n');
+    expect(created).toContain('completed-tasks: 0\ntype: project\n---\n');
+    expect(created).toContain('# Website\n\n## Tasks (1)\n\n```omnifocus\nproject: Website\n```\n');
+    expect(created.match(/```omnifocus/g)).toHaveLength(1);
+
+    files.set('Templates/Work.md', `${files.get('Templates/Work.md') ?? ''}\n## Review\n`);
+    await syncFoldersFromOmniFocus(app, settings);
+    expect(files.get('Work/Website/Website.md')).toBe(`${created}\n## Review\n`);
+  });
+
+  it('stops the sync when a template note does not exist', async () => {
+    setTaskBackend(createMemoryBackend({ folders: [], projects: [{ id: 'p1', name: 'Garden', note: '', folderId: null }], tags: [], tasks: [] }));
+    const { app, files } = createFakeApp();
+    await expect(syncFoldersFromOmniFocus(app, { ...DEFAULT_SETTINGS, folderSyncTemplatePath: 'Missing' })).rejects.toThrow(
+      'Project note template not found: Missing.md',
+    );
+    expect(files.size).toBe(0);
+  });
+});
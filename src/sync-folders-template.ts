@@ -0,0 +1,224 @@
+/**
+ * User templates for project notes written by folder sync (no Obsidian
+ * dependency).
+ *
+ * A template is a vault note with placeholders such as `{{project.name}}`;
+ * each top-level OmniFocus folder can have its own. New project notes are
+ * created from the rendered template (frontmatter sync owns is set on top of
+ * the template's). Existing notes only get the template sections they are
+ * missing: a section is a heading and the text up to the next heading, and a
+ * heading that is already in the note (same level, ignoring case) counts as
+ * present. Placeholders in headings match any text, so a heading such as
+ * `## Tasks ({{tasks.count}})` is still found after the count changes.
+ * Headings inside fenced code blocks do not count, in the template or the note.
+ */
+
+import type { OmniFocusProjectMetadata, ProjectPathWithNote } from './omnifocus';
+import { localDate } from './omnifocus-task-meta';
+import { lastSegment } from './sync-folders-paths';
+
+/** Placeholders a template can use, with what they stand for (shown in settings). */
+export const TEMPLATE_PLACEHOLDERS = [
+  { name: 'project.name', desc: 'project name' },
+  { name: 'project.path', desc: 'OmniFocus folder path and name' },
+  { name: 'project.note', desc: 'OmniFocus project note' },
+  { name: 'project.id', desc: 'project id' },
+  { name: 'tasks.count', desc: 'number of remaining tasks' },
+  { name: 'date', desc: 'date of the sync' },
+] as const;
+
+/** A project's template note as written and the values of its placeholders. */
+export interface ProjectTemplate {
+  source: string;
+  values: Record<string, string>;
+}
+
+/** Where templates are set in settings. */
+export interface ProjectTemplateSettings {
+  /** Vault path of the template for every project; empty for the built-in note. */
+  defaultPath: string;
+  /** Template paths by top-level OmniFocus folder, one `Folder: path` per line. */
+  folderPaths: string;
+}
+
+const PLACEHOLDER_RE = /\{\{\s*([\w.]+)\s*\}\}/g;
+const HEADING_RE = /^#{1,6}\s+\S/;
+const FRONTMATTER_RE = /^---\r?\n[\s\S]*?\r?\n---\r?\n?/;
+const FENCE = /^\s*(```|~~~)/;
+/** Indentation, list marker and key of a frontmatter line; the rest is its value. */
+const FRONTMATTER_VALUE_RE = /^(\s*(?:-\s+)?(?:[^\s"'#{}:-][^:]*:\s+)?)(.*)$/;
+/** A block scalar header (`key: |`, `key: >-`), whose more indented lines are its text. */
+const BLOCK_SCALAR_RE = /:\s*[|>][+-]?\d*\s*(#.*)?$/;
+/** Values that read back as the same text (or number) without quotes. */
+const PLAIN_VALUE_RE = /^(?:[\w./+][\w ./+-]*)?$/;
+
+/** Read `Folder: path` lines; lines without a folder or a path are skipped. */
+export function parseFolderTemplates(text: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const i = line.indexOf(':');
+    const folder = line.slice(0, i).trim();
+    const path = line.slice(i + 1).trim();
+    if (i > 0 && folder && path) out[folder] = path;
+  }
+  return out;
+}
+
+/** Vault path of a template note: `.md` is added when the path has no extension. */
+function templateNotePath(path: string): string {
+  const trimmed = path.trim().replace(/^\/+/, '');
+  return /\.\w+$/.test(trimmed) ? trimmed : `${trimmed}.md`;
+}
+
+/**
+ * Template note of a project: the template of its top-level folder, else the
+ * default template; null for the built-in note. Top-level projects use the default.
+ */
+export function projectTemplatePath(settings: ProjectTemplateSettings, projectPath: string): string | null {
+  const slash = projectPath.indexOf('/');
+  const folder = slash < 0 ? '' : projectPath.slice(0, slash);
+  const path = (folder && parseFolderTemplates(settings.folderPaths)[folder]) || settings.defaultPath.trim();
+  return path ? templateNotePath(path) : null;
+}
+
+/** True when a template needs `fetchProjectMetadata` (for `{{tasks.count}}`). */
+export function templateNeedsMetadata(template: string): boolean {
+  return /\{\{\s*tasks\.count\s*\}\}/.test(template);
+}
+
+/**
+ * Values of the placeholders for a project.
+ *
+ * @param metadata - From `fetchProjectMetadata`; `tasks.count` is empty without it.
+ * @param now - Time of the sync, for `date`.
+ */
+export function projectTemplateValues(
+  project: ProjectPathWithNote,
+  metadata: OmniFocusProjectMetadata | undefined,
+  now: Date,
+): Record<string, string> {
+  return {
+    'project.name': lastSegment(project.path),
+    'project.path': project.path,
+    'project.note': project.note.trim(),
+    'project.id': project.id,
+    'tasks.count': metadata ? String(metadata.remainingTasks) : '',
+    date: localDate(now.toISOString()) ?? '',
+  };
+}
+
+function replacePlaceholders(text: string, values: Record<string, string>, format: (value: string) => string): string {
+  return text.replace(PLACEHOLDER_RE, (match, name: string) => (name in values ? format(values[name]) : match));
+}
+
+/**
+ * One frontmatter line with its placeholders replaced so the YAML still reads
+ * the values as written: escaped inside quotes, the whole value quoted when a
+ * plain value would not read back, and indented inside block scalars.
+ */
+function renderFrontmatterLine(line: string, values: Record<string, string>, inBlock: boolean): string {
+  const [, prefix, rest] = FRONTMATTER_VALUE_RE.exec(line) as RegExpExecArray;
+  if (inBlock) return replacePlaceholders(line, values, (value) => value.replace(/\r?\n/g, `\n${/^\s*/.exec(line)?.[0]}`));
+  if (rest.startsWith('"')) return prefix + replacePlaceholders(rest, values, (value) => JSON.stringify(value).slice(1, -1));
+  if (rest.startsWith("'")) return prefix + replacePlaceholders(rest, values, (value) => value.replace(/'/g, "''").replace(/\s*\n\s*/g, ' '));
+  const rendered = replacePlaceholders(rest, values, (value) => value);
+  if (rendered === rest) return line;
+  return prefix + (PLAIN_VALUE_RE.test(rendered) && !rendered.endsWith(' ') ? rendered : JSON.stringify(rendered));
+}
+
+/** Frontmatter lines with placeholders rendered (see `renderFrontmatterLine`). */
+function renderFrontmatter(frontmatter: string, values: Record<string, string>): string {
+  let blockIndent: number | null = null;
+  return frontmatter
+    .split('\n')
+    .map((line) => {
+      const text = line.replace(/\r$/, '');
+      const indent = /^\s*/.exec(text)?.[0].length ?? 0;
+      if (blockIndent !== null && text.trim() !== '' && indent <= blockIndent) blockIndent = null;
+      const rendered = renderFrontmatterLine(text, values, blockIndent !== null);
+      if (blockIndent === null && BLOCK_SCALAR_RE.test(text)) blockIndent = indent;
+      return rendered + line.slice(text.length);
+    })
+    .join('\n');
+}
+
+/**
+ * Replace placeholders with their values; unknown placeholders are left as
+ * written. In the template's frontmatter, values are quoted or escaped as
+ * the YAML around them needs (so `Q3: plan` or a multi-line note stay valid).
+ */
+export function renderProjectTemplate(template: string, values: Record<string, string>): string {
+  const frontmatter = FRONTMATTER_RE.exec(template)?.[0] ?? '';
+  const body = template.slice(frontmatter.length);
+  return renderFrontmatter(frontmatter, values) + replacePlaceholders(body, values, (value) => value);
+}
+
+interface TemplateSection {
+  heading: string;
+  text: string;
+}
+
+function headingKey(line: string): string {
+  return line.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/** Matches the note headings a template heading stands for; placeholders match any text. */
+function headingMatcher(heading: string): RegExp {
+  const parts = headingKey(heading).split(/\{\{\s*[\w.]+\s*\}\}/);
+  return new RegExp(`^${parts.map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+}
+
+/** Whether each line is a heading, skipping fenced code blocks. */
+function headingFlags(lines: string[]): boolean[] {
+  let inFence = false;
+  return lines.map((line) => {
+    if (FENCE.test(line)) inFence = !inFence;
+    return !inFence && HEADING_RE.test(line);
+  });
+}
+
+/** Headed sections of a template body; text before the first heading is not a section. */
+function templateSections(template: string): TemplateSection[] {
+  const lines = template.replace(FRONTMATTER_RE, '').split('\n');
+  const headings = headingFlags(lines);
+  const sections: TemplateSection[] = [];
+  let current: { heading: string; lines: string[] } | null = null;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (headings[i]) {
+      if (current) sections.push({ heading: current.heading, text: current.lines.join('\n').trimEnd() });
+      current = { heading: line, lines: [line] };
+    } else if (current) {
+      current.lines.push(line);
+    }
+  }
+  if (current) sections.push({ heading: current.heading, text: current.lines.join('\n').trimEnd() });
+  return sections;
+}
+
+/**
+ * Insert the template sections the note is missing, rendered, each before
+ * the next template section the note has, or at the end, so they keep the
+ * template's order. Everything else in the note stays as it is.
+ */
+export function insertMissingSections(content: string, template: ProjectTemplate): string {
+  const sections = templateSections(template.source);
+  const headingLine = (lines: string[], heading: string) => {
+    const matcher = headingMatcher(heading);
+    const headings = headingFlags(lines);
+    return lines.findIndex((line, i) => headings[i] && matcher.test(headingKey(line)));
+  };
+  let lines = content.split('\n');
+  sections.forEach((section, i) => {
+    if (headingLine(lines, section.heading) >= 0) return;
+    const text = renderProjectTemplate(section.text, template.values);
+    const next = sections.slice(i + 1).map((s) => headingLine(lines, s.heading)).find((at) => at >= 0);
+    if (next === undefined) {
+      const body = lines.join('\n').replace(/\n*$/, '');
+      lines = `${body}\n\n${text}\n`.split('\n');
+    } else {
+      lines.splice(next, 0, ...text.split('\n'), '');
+    }
+  });
+  return lines.join('\n');
+}
@@ -4,9 +4,15 @@ import {
   buildNewFrontmatter,
   escapeDescriptionForYaml,
   formatOmnifocusBlock,
+  renameOmnifocusBlockProject,
   updateContentFrontmatter,
 } from './sync-folders-frontmatter';
-import { deriveFolderPathsToCreate } from './sync-folders-paths';
+import { deriveFolderPathsToCreate, isArchivedStatus, projectFilePath, projectNoteTarget } from './sync-folders-paths';
+import { applyFolderSync, prepareFolderSync, syncFoldersFromOmniFocus } from './sync-folders';
+import { DEFAULT_SETTINGS } from './settings';
+import { getTaskBackend, setTaskBackend } from './omnifocus-backend';
+import { createMemoryBackend } from './omnifocus-memory-backend';
+import { createFakeApp } from './__fixtures__/fake-vault';
 
 describe('escapeDescriptionForYaml', () => {
   it('escapes backslash and double quote', () => {
@@ -135,6 +141,19 @@ describe('formatOmnifocusBlock', () => {
   });
 });
 
+describe('renameOmnifocusBlockProject', () => {
+  it('renames the project of omnifocus blocks showing the old name only', () => {
+    const content = 'project: Website\n```omnifocus\nproject: Website\nshow: completed\n```\n```omnifocus\nproject: Garden\n```';
+    expect(renameOmnifocusBlockProject(content, 'Website', 'Site relaunch')).toBe(
+      'project: Website\n```omnifocus\nproject: Site relaunch\nshow: completed\n```\n```omnifocus\nproject: Garden\n```',
+    );
+  });
+
+  it('keeps the line break after a project line that ends the block', () => {
+    expect(renameOmnifocusBlockProject('```omnifocus\nproject: Website\n```\n', 'Website', 'Site')).toBe('```omnifocus\nproject: Site\n```\n');
+  });
+});
+
 describe('bodyHasOmnifocusBlock', () => {
   it('returns true when body contains omnifocus block', () => {
     expect(bodyHasOmnifocusBlock('```omnifocus\nproject: X\n```')).toBe(true);
@@ -215,3 +234,196 @@ describe('deriveFolderPathsToCreate', () => {
     ).toEqual(['A', 'A/B', 'A/B/C']);
   });
 });
+
+describe('projectFilePath', () => {
+  it('names the note after the project inside its folder', () => {
+    expect(projectFilePath('', 'Work/Clients/Website')).toBe('Work/Clients/Website/Website.md');
+    expect(projectFilePath('OmniFocus', 'Garden')).toBe('OmniFocus/Garden/Garden.md');
+  });
+});
+
+describe('projectNoteTarget', () => {
+  const layout = { base: 'OmniFocus', archive: 'Archive', archiveOnHold: false };
+
+  it('puts completed and dropped projects in the archive, keeping their folders', () => {
+    expect(projectNoteTarget({ path: 'Work/Website', status: 'completed' }, layout)).toBe('Archive/Work/Website/Website.md');
+    expect(projectNoteTarget({ path: 'Work/Website', status: 'active' }, layout)).toBe('OmniFocus/Work/Website/Website.md');
+  });
+
+  it('archives on-hold projects only when asked to, and nothing when archiving is off', () => {
+    expect(isArchivedStatus('on-hold', layout)).toBe(false);
+    expect(isArchivedStatus('on-hold', { ...layout, archiveOnHold: true })).toBe(true);
+    expect(isArchivedStatus('dropped', { ...layout, archive: null })).toBe(false);
+  });
+});
+
+describe('syncFoldersFromOmniFocus with the memory backend', () => {
+  const original = getTaskBackend();
+  afterEach(() => setTaskBackend(original));
+
+  it('creates folders and project notes, then is idempotent', async () => {
+    setTaskBackend(
+      createMemoryBackend({
+        folders: [{ id: 'f1', name: 'Work', parentId: null }],
+        projects: [
+          { id: 'p1', name: 'Website', note: 'Relaunch the site', folderId: 'f1' },
+          { id: 'p2', name: 'Garden', note: '', folderId: null },
+        ],
+        tags: [],
+        tasks: [],
+      }),
+    );
+    const { app, files, folders } = createFakeApp();
+    const settings = { ...DEFAULT_SETTINGS, folderSyncBasePath: '/OmniFocus/' };
+
+    expect(await syncFoldersFromOmniFocus(app, settings)).toEqual({ created: 3, skipped: 0, moved: 0, failed: [] });
+    expect([...folders]).toEqual(['OmniFocus/Work', 'OmniFocus/Garden', 'OmniFocus/Work/Website']);
+    expect(files.get('OmniFocus/Work/Website/Website.md')).toContain('description: "Relaunch the site"');
+    expect(files.get('OmniFocus/Garden/Garden.md')).toContain('description: "TODO"');
+    expect(files.get('OmniFocus/Garden/Garden.md')).toContain('```omnifocus\nproject: Garden\n```');
+    expect(files.get('OmniFocus/Garden/Garden.md')).toContain('omnifocus-id: p2');
+
+    expect(await syncFoldersFromOmniFocus(app, settings)).toEqual({ created: 0, skipped: 3, moved: 0, failed: [] });
+  });
+
+  it('leaves a note that was edited after the sync was planned', async () => {
+    setTaskBackend(
+      createMemoryBackend({ folders: [], projects: [{ id: 'p1', name: 'Garden', note: 'Grow herbs', folderId: null }], tags: [], tasks: [] }),
+    );
+    const { app, files, folders } = createFakeApp();
+    folders.add('Garden');
+    files.set('Garden/Garden.md', '# Garden\n');
+
+    const prepared = await prepareFolderSync(app, DEFAULT_SETTINGS);
+    expect(prepared.plan.items.map((item) => item.kind)).toEqual(['update-file']);
+    files.set('Garden/Garden.md', '# Garden\n\nEdited meanwhile\n');
+    expect((await applyFolderSync(app, prepared)).failed).toEqual(['Garden/Garden.md: changed since the sync was planned']);
+    expect(files.get('Garden/Garden.md')).toBe('# Garden\n\nEdited meanwhile\n');
+  });
+});
+
+describe('syncFoldersFromOmniFocus with renamed and moved projects', () => {
+  const original = getTaskBackend();
+  afterEach(() => setTaskBackend(original));
+
+  it('moves the folder and note of a renamed and moved project, keeping its content', async () => {
+    const db = {
+      folders: [
+        { id: 'f1', name: 'Work', parentId: null },
+        { id: 'f2', name: 'Someday', parentId: null },
+      ],
+      projects: [{ id: 'p1', name: 'Website', note: 'Relaunch', folderId: 'f1' }],
+      tags: [],
+      tasks: [],
+    };
+    setTaskBackend(createMemoryBackend(db));
+    const { app, files, folders } = createFakeApp();
+    let saved: Record<string, string> = {};
+    const store = {
+      loadProjectNoteIndex: () => saved,
+      saveProjectNoteIndex: (i: Record<string, string>) => void (saved = i),
+      loadProjectDescriptions: () => ({}),
+      saveProjectDescriptions: () => undefined,
+    };
+
+    await syncFoldersFromOmniFocus(app, DEFAULT_SETTINGS, undefined, store);
+    expect(saved).toEqual({ p1: 'Work/Website/Website.md' });
+    files.set('Work/Website/Website.md', `${files.get('Work/Website/Website.md')}\nMy notes`);
+    files.set('Work/Website/Sitemap.md', 'draft');
+
+    setTaskBackend(
+      createMemoryBackend({ ...db, projects: [{ id: 'p1', name: 'Site relaunch', note: 'Relaunch', folderId: 'f2' }] }),
+    );
+    expect(await syncFoldersFromOmniFocus(app, DEFAULT_SETTINGS, undefined, store)).toEqual({
+      created: 0,
+      skipped: 2,
+      moved: 1,
+      failed: [],
+    });
+    expect(files.has('Work/Website/Website.md')).toBe(false);
+    expect(folders.has('Work/Website')).toBe(false);
+    expect(files.get('Someday/Site relaunch/Site relaunch.md')).toContain('My notes');
+    expect(files.get('Someday/Site relaunch/Site relaunch.md')).toContain('project: Site relaunch');
+    expect(files.get('Someday/Site relaunch/Sitemap.md')).toBe('draft');
+    expect(saved).toEqual({ p1: 'Someday/Site relaunch/Site relaunch.md' });
+  });
+
+  it('finds notes by their frontmatter id when the index has no entry', async () => {
+    setTaskBackend(
+      createMemoryBackend({
+        folders: [],
+        projects: [{ id: 'p1', name: 'Garden', note: '', folderId: null }],
+        tags: [],
+        tasks: [],
+      }),
+    );
+    const { app, files } = createFakeApp();
+    files.set('Notes/Vegetables.md', '---\nomnifocus-id: p1\n---\nTomatoes');
+
+    expect((await syncFoldersFromOmniFocus(app, DEFAULT_SETTINGS)).moved).toBe(1);
+    expect(files.has('Notes/Vegetables.md')).toBe(false);
+    expect(files.get('Garden/Garden.md')).toContain('Tomatoes');
+  });
+});
+
+describe('syncFoldersFromOmniFocus with archiving', () => {
+  const original = getTaskBackend();
+  afterEach(() => setTaskBackend(original));
+
+  it('archives finished projects and restores reactivated ones without deleting anything', async () => {
+    const db = {
+      folders: [{ id: 'f1', name: 'Work', parentId: null }],
+      projects: [
+        { id: 'p1', name: 'Website', note: 'Relaunch', folderId: 'f1' },
+        { id: 'p2', name: 'Old launch', note: '', folderId: 'f1', status: 'completed' as const },
+      ],
+      tags: [],
+      tasks: [],
+    };
+    setTaskBackend(createMemoryBackend(db));
+    const { app, files, folders } = createFakeApp();
+    const settings = { ...DEFAULT_SETTINGS, folderSyncArchive: true };
+
+    await syncFoldersFromOmniFocus(app, settings);
+    expect([...files.keys()]).toEqual(['Work/Website/Website.md']);
+    expect(files.get('Work/Website/Website.md')).toContain('status: active');
+
+    setTaskBackend(createMemoryBackend({ ...db, projects: [{ ...db.projects[0], status: 'dropped' as const }] }));
+    expect((await syncFoldersFromOmniFocus(app, settings)).moved).toBe(1);
+    expect([...files.keys()]).toEqual(['Archive/Work/Website/Website.md']);
+    expect(files.get('Archive/Work/Website/Website.md')).toContain('status: dropped');
+    expect(folders.has('Work')).toBe(true);
+
+    setTaskBackend(createMemoryBackend(db));
+    expect((await syncFoldersFromOmniFocus(app, settings)).moved).toBe(1);
+    expect([...files.keys()]).toEqual(['Work/Website/Website.md']);
+    expect(files.get('Work/Website/Website.md')).toContain('status: active');
+  });
+});
+
+describe('syncFoldersFromOmniFocus with project properties', () => {
+  const original = getTaskBackend();
+  afterEach(() => setTaskBackend(original));
+
+  it('writes the configured properties with typed values', async () => {
+    setTaskBackend(
+      createMemoryBackend({
+        folders: [{ id: 'f1', name: 'Work', parentId: null }],
+        projects: [{ id: 'p1', name: 'Website', note: 'Relaunch', folderId: 'f1', flagged: true, tagIds: ['t1'] }],
+        tags: [{ id: 't1', name: 'Waiting For' }],
+        tasks: [true, false].map((completed, i) => ({ id: `t${i}`, name: 'T', note: '', completed, projectId: 'p1', tagIds: [] })),
+      }),
+    );
+    const { app, files } = createFakeApp();
+    const settings = {
+      ...DEFAULT_SETTINGS,
+      folderSyncProperties: { ...DEFAULT_SETTINGS.folderSyncProperties, status: '', 'remaining-tasks': 'open' },
+    };
+
+    await syncFoldersFromOmniFocus(app, settings);
+    expect(files.get('Work/Website/Website.md')).toContain(
+      'description: "Relaunch"\nomnifocus-id: p1\nomnifocus-url: omnifocus:///task/p1\nfolder: Work\n' +
+        'flagged: true\ntags:\n  - "Waiting For"\nopen: 1\ncompleted-tasks: 1\n---',
+    );
+  });
+});
@@ -2,33 +2,78 @@
  * Sync folder structure from OmniFocus to Obsidian vault.
  *
  * One-way sync: creates vault folders to match OmniFocus project hierarchy.
- * Each project folder gets a .md file with frontmatter (sticker, description).
+ * Each project folder gets a .md file with frontmatter (sticker, description
+ * and the project properties chosen in settings, see
+ * sync-folders-properties.ts). Renamed or moved projects have their existing folder and
+ * note moved with `fileManager.renameFile`, so links to them keep working; with
+ * archiving on, finished projects move to the archive folder the same way and
+ * back when reactivated. Nothing is ever deleted.
  * When a project has no note, an LLM can suggest a description from its tasks;
- * that description is written to OmniFocus and to frontmatter.
+ * that description is written to OmniFocus and to frontmatter. With two-way
+ * descriptions on, descriptions edited in notes are written back to OmniFocus
+ * (see sync-folders-descriptions.ts).
+ * New notes can be created from a user template note, per top-level folder
+ * (see sync-folders-template.ts).
+ * Every sync is planned first (sync-folders-plan.ts), so it can be previewed
+ * and applied in part.
  */
 
 import { Notice } from 'obsidian';
 import type { App } from 'obsidian';
-import { getLLMModel } from './settings';
 import type { PluginSettings } from './settings';
 import {
-  fetchProjectPaths,
+  errorMessage,
+  fetchProjectMetadata,
   fetchProjectPathsWithNotes,
-  fetchTasks,
   updateProjectNote,
 } from './omnifocus';
-import { deriveFolderPathsToCreate } from './sync-folders-paths';
-import { buildNewFileContent, updateContentFrontmatter } from './sync-folders-frontmatter';
-import { simpleChat, isLLMConfigured } from './llm';
+import type { OmniFocusProjectMetadata } from './omnifocus';
+import { deriveFolderPathsToCreate, isArchivedStatus, lastSegment, projectFilePath, projectNoteTarget } from './sync-folders-paths';
+import type { FolderSyncLayout } from './sync-folders-paths';
+import { renameOmnifocusBlockProject } from './sync-folders-frontmatter';
+import { planProjectMoves, resolveKnownNotes } from './sync-folders-moves';
+import type { ProjectNoteIndex, ProjectNoteMove } from './sync-folders-moves';
+import { planFolderSync, planItemLabel } from './sync-folders-plan';
+import type { FolderSyncPlanInput, SyncedProject, SyncPlan, SyncPlanItem } from './sync-folders-plan';
+import { agreedText } from './sync-folders-descriptions';
+import type { DescriptionSide, ProjectDescriptionIndex, TwoWayDescriptions } from './sync-folders-descriptions';
+import { DescriptionConflictModal } from './sync-folders-conflicts';
+import { needsProjectMetadata, projectProperties, projectPropertyKey } from './sync-folders-properties';
+import { projectTemplatePath, projectTemplateValues, templateNeedsMetadata } from './sync-folders-template';
+import { isLLMConfigured } from './llm';
+import { suggestDescriptions } from './sync-folders-suggest';
 import type { LLMPluginContext } from './llm';
 
-export { deriveFolderPathsToCreate } from './sync-folders-paths';
+export { deriveFolderPathsToCreate, isArchivedStatus, projectFilePath, projectNoteTarget } from './sync-folders-paths';
+export type { FolderSyncLayout } from './sync-folders-paths';
 export {
   buildNewFrontmatter,
   buildNewFileContent,
   escapeDescriptionForYaml,
+  formatPropertyValue,
+  PROJECT_ID_KEY,
+  renameOmnifocusBlockProject,
   updateContentFrontmatter,
 } from './sync-folders-frontmatter';
+export type { ProjectProperty } from './sync-folders-frontmatter';
+export { defaultProjectPropertyKeys, PROJECT_PROPERTIES, projectProperties } from './sync-folders-properties';
+export type { ProjectPropertyId, ProjectPropertyKeys } from './sync-folders-properties';
+export { parseProjectNoteIndex } from './sync-folders-moves';
+export type { ProjectNoteIndex } from './sync-folders-moves';
+export { frontmatterChanges, planFolderSync, planItemLabel, selectPlanItems } from './sync-folders-plan';
+export type { FrontmatterChange, SyncedProject, SyncPlan, SyncPlanItem } from './sync-folders-plan';
+export { parseProjectDescriptionIndex } from './sync-folders-descriptions';
+export type { DescriptionConflict, DescriptionSide, ProjectDescriptionIndex } from './sync-folders-descriptions';
+
+/** Where folder sync keeps its state between syncs (data.json in the plugin). */
+export interface FolderSyncStore {
+  /** The id → note path index. */
+  loadProjectNoteIndex(): ProjectNoteIndex;
+  saveProjectNoteIndex(index: ProjectNoteIndex): void;
+  /** The descriptions both sides agreed on, for two-way descriptions. */
+  loadProjectDescriptions(): ProjectDescriptionIndex;
+  saveProjectDescriptions(index: ProjectDescriptionIndex): void;
+}
 
 /**
  * Normalize base path: trim, remove leading/trailing slashes, no double slashes.
@@ -41,52 +86,18 @@ function normalizeBasePath(base: string): string {
     .replace(/\/$/, '');
 }
 
-/** Basename of a path (last segment). */
-function pathBasename(path: string): string {
-  const segments = path.replace(/\/$/, '').split('/');
-  return segments[segments.length - 1] ?? 'untitled';
+/** Where folder sync keeps project folders with these settings. */
+export function folderSyncLayout(settings: PluginSettings): FolderSyncLayout {
+  return {
+    base: normalizeBasePath(settings.folderSyncBasePath ?? ''),
+    archive: settings.folderSyncArchive ? normalizeBasePath(settings.folderSyncArchivePath ?? '') || 'Archive' : null,
+    archiveOnHold: settings.folderSyncArchiveOnHold,
+  };
 }
 
-const PROJECT_DESCRIPTION_SYSTEM = `You are a productivity assistant. Given a project name and its tasks (with optional notes), suggest a single short sentence that describes the project's purpose or outcome. Return only that sentence, no quotes, no prefix like "Description:".`;
-
-/** Max task lines to send to the LLM to avoid token overflow. */
-const MAX_TASKS_FOR_DESCRIPTION = 50;
-
-/** Max characters of each task note to include. */
-const MAX_NOTE_PREVIEW = 200;
-
-/**
- * Use LLM to suggest a project description from project name and tasks.
- * Returns trimmed reply or null on failure/empty.
- */
-async function suggestProjectDescription(
-  ctx: LLMPluginContext,
-  projectName: string,
-  tasks: { name: string; note: string }[],
-  model?: string,
-): Promise<string | null> {
-  const lines = tasks.slice(0, MAX_TASKS_FOR_DESCRIPTION).map((t) => {
-    const notePreview =
-      (t.note ?? '').trim().slice(0, MAX_NOTE_PREVIEW) ||
-      '';
-    return notePreview ? `- ${t.name}\n  ${notePreview}` : `- ${t.name}`;
-  });
-  const userMessage = `Project: ${projectName}\n\nTasks:\n${lines.join('\n')}`;
-  const reply = await simpleChat(ctx, userMessage, {
-    systemPrompt: PROJECT_DESCRIPTION_SYSTEM,
-    model,
-    max_tokens: 120,
-    temperature: 0.3,
-  });
-  const trimmed = typeof reply === 'string' ? reply.trim() : '';
-  if (trimmed.length === 0 && (reply !== undefined && reply !== '')) {
-    console.log(
-      '[omnifocus-sync] LLM raw reply (not a string or empty):',
-      typeof reply,
-      JSON.stringify(reply).slice(0, 200),
-    );
-  }
-  return trimmed.length > 0 ? trimmed : null;
+/** Vault path of the note folder sync writes for a project path (e.g. from `fetchProjectReviews`). */
+export function projectNotePath(settings: PluginSettings, projectPath: string): string {
+  return projectFilePath(normalizeBasePath(settings.folderSyncBasePath ?? ''), projectPath);
 }
 
 async function ensureFoldersExist(
@@ -111,89 +122,167 @@ async function ensureFoldersExist(
   return { created, skipped };
 }
 
-async function syncProjectFiles(
+/** Project id → note path for every note with the project id property (`omnifocus-id` by default). */
+function notesByFrontmatterId(app: App, idKey: string): ProjectNoteIndex {
+  const byId: ProjectNoteIndex = {};
+  if (!idKey) return byId;
+  for (const file of app.vault.getMarkdownFiles()) {
+    const id: unknown = app.metadataCache.getFileCache(file)?.frontmatter?.[idKey];
+    if ((typeof id === 'string' || typeof id === 'number') && !(String(id) in byId)) byId[String(id)] = file.path;
+  }
+  return byId;
+}
+
+/** Note title of a vault path: its basename without `.md`. */
+function noteTitle(path: string): string {
+  return lastSegment(path).replace(/\.md$/, '');
+}
+
+/**
+ * Rename the project folder (when it moves) and then the note, and point the
+ * note's omnifocus block at the new project name; false when the move is not possible.
+ */
+async function moveProjectNote(app: App, move: ProjectNoteMove): Promise<boolean> {
+  const { vault, fileManager } = app;
+  if (!vault.getFileByPath(move.from) || vault.getAbstractFileByPath(move.to)) return false;
+  let current = move.from;
+  const folder = move.folder ? vault.getFolderByPath(move.folder.from) : null;
+  if (move.folder && folder && !vault.getAbstractFileByPath(move.folder.to)) {
+    await ensureFoldersExist(app, deriveFolderPathsToCreate([move.folder.to]).slice(0, -1));
+    await fileManager.renameFile(folder, move.folder.to);
+    current = `${move.folder.to}/${current.slice(move.folder.from.length + 1)}`;
+  }
+  const note = vault.getFileByPath(current);
+  if (current !== move.to && note) {
+    await ensureFoldersExist(app, deriveFolderPathsToCreate([move.to]).slice(0, -1));
+    await fileManager.renameFile(note, move.to);
+  }
+  const moved = vault.getFileByPath(move.to);
+  if (moved && noteTitle(move.from) !== noteTitle(move.to)) {
+    const content = await vault.read(moved);
+    await vault.modify(moved, renameOmnifocusBlockProject(content, noteTitle(move.from), noteTitle(move.to)));
+  }
+  return true;
+}
+
+/**
+ * Where each project's note is now: the note index, the project id property
+ * in frontmatter, and for notes written before the project id was recorded,
+ * the project's unarchived path.
+ */
+function knownProjectNotes(
   app: App,
   base: string,
-  projectsWithNotes: { path: string; note: string }[],
-  useLLMForEmptyNote: boolean,
-  llmContext: LLMPluginContext | undefined,
-  settings: PluginSettings,
-): Promise<void> {
-  for (const { path: projectPath, note } of projectsWithNotes) {
-    let description = (note ?? '').trim();
-    if (description.length === 0 && useLLMForEmptyNote && llmContext) {
-      const projectName = pathBasename(projectPath);
-      console.log('[omnifocus-sync] Project has no note, asking LLM:', projectPath);
-      try {
-        const tasks = await fetchTasks(
-          { kind: 'project', name: projectName },
-          { includeCompleted: true },
-        );
-        const suggested = await suggestProjectDescription(
-          llmContext,
-          projectName,
-          tasks.map((t) => ({ name: t.name, note: t.note ?? '' })),
-          getLLMModel(settings, 'syncFolders') || undefined,
-        );
-        if (suggested) {
-          await updateProjectNote(projectName, suggested);
-          description = suggested;
-        }
-      } catch (err) {
-        console.warn('[omnifocus-sync] LLM description for project failed:', projectPath, err);
-      }
-    }
-    if (description.length === 0) {
-      description = 'TODO';
-    }
+  projects: SyncedProject[],
+  index: ProjectNoteIndex,
+  idKey: string,
+): ProjectNoteIndex {
+  const noteExists = (path: string) => app.vault.getFileByPath(path) != null;
+  const found: ProjectNoteIndex = {};
+  for (const { id, path } of projects) {
+    if (noteExists(projectFilePath(base, path))) found[id] = projectFilePath(base, path);
+  }
+  return resolveKnownNotes(index, noteExists, { ...found, ...notesByFrontmatterId(app, idKey) });
+}
 
-    const fullFolderPath = base ? `${base}/${projectPath}` : projectPath;
-    const projectName = pathBasename(projectPath);
-    const fileName = projectName + '.md';
-    const filePath = `${fullFolderPath}/${fileName}`;
-
-    const existingFile = app.vault.getFileByPath(filePath);
-    if (!existingFile) {
-      const content = buildNewFileContent(description, projectName);
-      await app.vault.create(filePath, content);
-    } else {
-      const content = await app.vault.read(existingFile);
-      const updated = updateContentFrontmatter(content, description, projectName);
-      await app.vault.modify(existingFile, updated);
-    }
+async function readTemplateNote(app: App, path: string): Promise<string> {
+  const file = app.vault.getFileByPath(path);
+  if (!file) throw new Error(`Project note template not found: ${path}`);
+  return app.vault.read(file);
+}
+
+/**
+ * Frontmatter properties and note template of each project by id.
+ * Metadata is fetched only when an enabled property or a template needs it.
+ */
+async function projectNoteInputs(
+  app: App,
+  projects: SyncedProject[],
+  settings: PluginSettings,
+): Promise<Pick<FolderSyncPlanInput, 'properties' | 'templates'>> {
+  const keys = settings.folderSyncProperties;
+  const templateSettings = { defaultPath: settings.folderSyncTemplatePath ?? '', folderPaths: settings.folderSyncFolderTemplates ?? '' };
+  const templatePaths: Record<string, string> = {};
+  const templateNotes: Record<string, string> = {};
+  for (const { id, path } of projects) {
+    const templatePath = projectTemplatePath(templateSettings, path);
+    if (!templatePath) continue;
+    templatePaths[id] = templatePath;
+    if (!(templatePath in templateNotes)) templateNotes[templatePath] = await readTemplateNote(app, templatePath);
+  }
+  const metadata: Record<string, OmniFocusProjectMetadata> = {};
+  if (needsProjectMetadata(keys) || Object.keys(templateNotes).some((path) => templateNeedsMetadata(templateNotes[path]))) {
+    for (const m of await fetchProjectMetadata()) metadata[m.id] = m;
   }
+  const now = new Date();
+  const inputs: Pick<FolderSyncPlanInput, 'properties' | 'templates'> = { properties: {}, templates: {} };
+  for (const project of projects) {
+    const { id } = project;
+    inputs.properties[id] = projectProperties(project, metadata[id], keys, now);
+    const path = templatePaths[id];
+    if (path) inputs.templates[id] = { source: templateNotes[path], values: projectTemplateValues(project, metadata[id], now) };
+  }
+  return inputs;
+}
+
+/** What the planner needs for two-way descriptions; undefined when they are off. */
+function twoWayDescriptions(settings: PluginSettings, store: FolderSyncStore | undefined): TwoWayDescriptions | undefined {
+  if (!settings.folderSyncTwoWay) return undefined;
+  return { withNotes: settings.folderSyncNotesSection, base: store?.loadProjectDescriptions() ?? {}, resolutions: {} };
+}
+
+/** A folder sync plan with what applying it needs. */
+export interface PreparedFolderSync {
+  plan: SyncPlan;
+  projects: SyncedProject[];
+  /** Where each project's note was before the sync. */
+  known: ProjectNoteIndex;
+  /** What the plan was made from, to plan again with resolved conflicts. */
+  input: FolderSyncPlanInput;
+}
+
+export interface FolderSyncResult {
+  created: number;
+  skipped: number;
+  moved: number;
+  /** Items that could not be applied, with why; the rest of the sync still ran. */
+  failed: string[];
 }
 
 /**
- * Sync folder structure from OmniFocus to the Obsidian vault.
+ * Plan a folder sync without changing the vault or OmniFocus (a dry run).
  *
- * Fetches project paths from OmniFocus, derives all folder paths (including
- * prefixes), optionally prepends the base path from settings, and creates
- * each folder. Then creates or updates a .md file in each project folder
- * with frontmatter (sticker, description from project note).
- * When a project has no note, if LLM context is provided and configured,
- * tasks for that project are fetched and the LLM suggests a description;
- * that description is written to OmniFocus and to frontmatter.
- * Idempotent: skips folders that already exist; never overwrites existing sticker.
+ * Fetches projects from OmniFocus, finds the notes of projects that were
+ * renamed, moved, archived or reactivated (by id, through the note index and
+ * project id property), derives the folder paths of active projects
+ * (including prefixes, under the base path from settings), and works out each
+ * project note's frontmatter (sticker, description from project note, and the
+ * properties enabled in settings). When a project has no note, if LLM context is provided and
+ * configured, tasks for that project are fetched and the LLM suggests a
+ * description, to be written to OmniFocus and to frontmatter.
  *
- * @param app - Obsidian app (for vault).
- * @param settings - Plugin settings (folderSyncBasePath, LLM model via getLLMModel(settings, 'syncFolders')).
+ * @param app - Obsidian app (for vault and metadata cache).
+ * @param settings - Plugin settings (folderSyncBasePath, archive settings, folderSyncProperties, note templates, LLM model via getLLMModel(settings, 'syncFolders')).
  * @param llmContext - Optional LLM context for generating descriptions when note is empty.
- * @returns Counts of created and skipped folders.
+ * @param store - Optional store for the id → note path index and agreed descriptions; without it notes are found by frontmatter only.
  */
-export async function syncFoldersFromOmniFocus(
+export async function prepareFolderSync(
   app: App,
   settings: PluginSettings,
   llmContext?: LLMPluginContext,
-): Promise<{ created: number; skipped: number }> {
-  const projectPaths = await fetchProjectPaths();
-  const folderPaths = deriveFolderPathsToCreate(projectPaths);
-  const base = normalizeBasePath(settings.folderSyncBasePath ?? '');
-  const fullPaths = base ? folderPaths.map((p) => `${base}/${p}`) : folderPaths;
-
-  const { created, skipped } = await ensureFoldersExist(app, fullPaths);
+  store?: FolderSyncStore,
+): Promise<PreparedFolderSync> {
+  const layout = folderSyncLayout(settings);
+  const { base } = layout;
+  const projects: SyncedProject[] = (await fetchProjectPathsWithNotes()).map((p) => ({
+    ...p,
+    notePath: projectNoteTarget(p, layout),
+    archived: isArchivedStatus(p.status, layout),
+  }));
+  const idKey = projectPropertyKey(settings.folderSyncProperties, 'omnifocus-id');
+  const known = knownProjectNotes(app, base, projects, store?.loadProjectNoteIndex() ?? {}, idKey);
+  const folderPaths = deriveFolderPathsToCreate(projects.filter((p) => !p.archived).map((p) => p.path));
 
-  const projectsWithNotes = await fetchProjectPathsWithNotes();
   const useLLMForEmptyNote =
     llmContext != null && isLLMConfigured(llmContext.getConfig());
   const llmReason =
@@ -204,45 +293,193 @@ export async function syncFoldersFromOmniFocus(
         : 'enabled';
   console.log('[omnifocus-sync] Sync folders: LLM for empty notes', llmReason);
 
-  await syncProjectFiles(
-    app,
-    base,
-    projectsWithNotes,
-    useLLMForEmptyNote,
-    llmContext,
-    settings,
-  );
+  const { vault } = app;
+  const contents: Record<string, string> = {};
+  for (const path of Object.keys(known).map((id) => known[id]).concat(projects.map((p) => p.notePath))) {
+    const file = vault.getFileByPath(path);
+    if (file && !(path in contents)) contents[path] = await vault.read(file);
+  }
+  const input: FolderSyncPlanInput = {
+    projects,
+    moves: planProjectMoves(projects, known),
+    folderPaths: base ? folderPaths.map((p) => `${base}/${p}`) : folderPaths,
+    folderExists: (path) => vault.getFolderByPath(path) != null,
+    noteContent: (path) => contents[path] ?? null,
+    suggestions: useLLMForEmptyNote && llmContext ? await suggestDescriptions(projects, llmContext, settings) : {},
+    ...(await projectNoteInputs(app, projects, settings)),
+    descriptions: twoWayDescriptions(settings, store),
+  };
+  return { plan: planFolderSync(input), projects, known, input };
+}
 
-  return { created, skipped };
+/** Plan a prepared sync again with the side to keep for each description conflict, by project id. */
+export function replanFolderSync(prepared: PreparedFolderSync, resolutions: Record<string, DescriptionSide>): PreparedFolderSync {
+  const { descriptions } = prepared.input;
+  if (!descriptions) return prepared;
+  const input = { ...prepared.input, descriptions: { ...descriptions, resolutions } };
+  return { ...prepared, plan: planFolderSync(input), input };
+}
+
+/** Apply one plan item; returns what it adds to the sync result. Rejects when the item could not be applied. */
+async function applyPlanItem(app: App, item: SyncPlanItem): Promise<Partial<FolderSyncResult>> {
+  const { vault } = app;
+  switch (item.kind) {
+    case 'move':
+      return { moved: (await moveProjectNote(app, item.move)) ? 1 : 0 };
+    case 'folder': {
+      const { created, skipped } = await ensureFoldersExist(app, [item.path]);
+      return { created, skipped };
+    }
+    case 'create-file':
+      if (!vault.getFileByPath(item.path)) await vault.create(item.path, item.content);
+      return {};
+    case 'update-file': {
+      const file = vault.getFileByPath(item.path);
+      if (!file) return {};
+      let changed = false;
+      await vault.process(file, (current) => {
+        changed = current !== item.before;
+        return changed ? current : item.content;
+      });
+      if (changed) throw new Error('changed since the sync was planned');
+      return {};
+    }
+    case 'omnifocus-note':
+      await updateProjectNote(item.projectId, item.note);
+      return {};
+  }
+}
+
+/**
+ * Remember the text both sides of each project agree on after a sync with
+ * two-way descriptions; a note written to OmniFocus counts as its new note.
+ */
+async function saveAgreedDescriptions(
+  app: App,
+  prepared: PreparedFolderSync,
+  items: SyncPlanItem[],
+  index: ProjectNoteIndex,
+  store: FolderSyncStore | undefined,
+): Promise<void> {
+  const sync = prepared.input.descriptions;
+  if (!sync || !store) return;
+  const written: Record<string, string> = {};
+  for (const item of items) if (item.kind === 'omnifocus-note') written[item.projectId] = item.note;
+  const agreed: ProjectDescriptionIndex = {};
+  for (const { id, note } of prepared.projects) {
+    const file = index[id] ? app.vault.getFileByPath(index[id]) : null;
+    const text = agreedText(sync.base[id], written[id] ?? note, file ? await app.vault.read(file) : null, sync.withNotes);
+    if (id && text) agreed[id] = text;
+  }
+  store.saveProjectDescriptions(agreed);
+}
+
+/**
+ * Apply the chosen items of a planned folder sync (all of them by default)
+ * and save where each project's note now is and, with two-way descriptions,
+ * the descriptions both sides now agree on. An item that fails is logged and
+ * reported in the result; the other items are still applied.
+ *
+ * @returns Counts of created and skipped folders and of moved project notes, and the failed items.
+ */
+export async function applyFolderSync(
+  app: App,
+  prepared: PreparedFolderSync,
+  items: SyncPlanItem[] = prepared.plan.items,
+  store?: FolderSyncStore,
+): Promise<FolderSyncResult> {
+  const result: FolderSyncResult = { created: 0, skipped: prepared.plan.existingFolders, moved: 0, failed: [] };
+  const applied: SyncPlanItem[] = [];
+  for (const item of items) {
+    try {
+      const added = await applyPlanItem(app, item);
+      result.created += added.created ?? 0;
+      result.skipped += added.skipped ?? 0;
+      result.moved += added.moved ?? 0;
+      applied.push(item);
+    } catch (err) {
+      console.warn('[omnifocus-sync] sync folders item failed:', planItemLabel(item), err);
+      result.failed.push(`${planItemLabel(item)}: ${errorMessage(err)}`);
+    }
+  }
+  const index: ProjectNoteIndex = {};
+  for (const { id, notePath } of prepared.projects) {
+    const path = app.vault.getFileByPath(notePath) ? notePath : prepared.known[id];
+    if (id && path && app.vault.getFileByPath(path)) index[id] = path;
+  }
+  store?.saveProjectNoteIndex(index);
+  await saveAgreedDescriptions(app, prepared, applied, index, store);
+  return result;
+}
+
+/**
+ * Sync folder structure from OmniFocus to the Obsidian vault: plan the sync
+ * (see `prepareFolderSync`) and apply all of it. Renamed, moved, archived and
+ * reactivated projects have their existing folder and note moved; folders
+ * and notes are created; frontmatter is updated; LLM descriptions are written
+ * to OmniFocus. Idempotent: skips folders that already exist and notes that
+ * would not change; never overwrites existing sticker. Description conflicts
+ * are left unresolved, so neither side of them changes.
+ *
+ * @param app - Obsidian app (for vault, metadata cache and file manager).
+ * @param settings - Plugin settings (folderSyncBasePath, archive settings, LLM model via getLLMModel(settings, 'syncFolders')).
+ * @param llmContext - Optional LLM context for generating descriptions when note is empty.
+ * @param store - Optional store for the id → note path index and agreed descriptions; without it notes are found by frontmatter only.
+ * @returns Counts of created and skipped folders and of moved project notes.
+ */
+export async function syncFoldersFromOmniFocus(
+  app: App,
+  settings: PluginSettings,
+  llmContext?: LLMPluginContext,
+  store?: FolderSyncStore,
+): Promise<FolderSyncResult> {
+  const prepared = await prepareFolderSync(app, settings, llmContext, store);
+  return applyFolderSync(app, prepared, prepared.plan.items, store);
+}
+
+/** Show a Notice with the result of a folder sync. */
+export function notifyFolderSyncResult({ created, skipped, moved, failed }: FolderSyncResult): void {
+  const parts: string[] = [];
+  if (moved > 0) parts.push(`${moved} project(s) moved or renamed`);
+  if (created > 0) parts.push(`${created} folder(s) created`);
+  if (skipped > 0) parts.push(`${skipped} already existed`);
+  if (failed.length > 0) parts.push(`${failed.length} failed: ${failed[0]}`);
+  if (parts.length > 0) {
+    new Notice(`Sync folders: ${parts.join(', ')}.`);
+  } else {
+    new Notice('Sync folders: no folders to create.');
+  }
+}
+
+function reportFolderSyncError(err: unknown): void {
+  const message = err instanceof Error ? err.message : String(err);
+  new Notice(`OmniFocus sync error: ${message}`);
+  console.error('[omnifocus-sync] sync folders failed:', err);
 }
 
 /**
- * Run sync and show a Notice with the result or error.
+ * Run sync and show a Notice with the result or error. When descriptions
+ * changed on both sides, asks which to keep first.
  *
  * @param llmContext - Optional. When provided and configured, projects with no note get an LLM-generated description (written to OmniFocus and frontmatter).
+ * @param store - Optional store for the id → note path index used to follow renamed and moved projects, and for agreed descriptions.
  */
 export async function runSyncFoldersAndNotify(
   app: App,
   settings: PluginSettings,
   llmContext?: LLMPluginContext,
+  store?: FolderSyncStore,
 ): Promise<void> {
+  const apply = async (prepared: PreparedFolderSync) =>
+    notifyFolderSyncResult(await applyFolderSync(app, prepared, prepared.plan.items, store));
   try {
-    const { created, skipped } = await syncFoldersFromOmniFocus(
-      app,
-      settings,
-      llmContext,
-    );
-    const parts: string[] = [];
-    if (created > 0) parts.push(`${created} folder(s) created`);
-    if (skipped > 0) parts.push(`${skipped} already existed`);
-    if (parts.length > 0) {
-      new Notice(`Sync folders: ${parts.join(', ')}.`);
-    } else {
-      new Notice('Sync folders: no folders to create.');
-    }
+    const prepared = await prepareFolderSync(app, settings, llmContext, store);
+    const { conflicts } = prepared.plan;
+    if (conflicts.length === 0) return await apply(prepared);
+    new DescriptionConflictModal(app, conflicts, (resolutions) =>
+      apply(replanFolderSync(prepared, resolutions)).catch(reportFolderSyncError),
+    ).open();
   } catch (err) {
-    const message = err instanceof Error ? err.message : String(err);
-    new Notice(`OmniFocus sync error: ${message}`);
-    console.error('[omnifocus-sync] sync folders failed:', err);
+    reportFolderSyncError(err);
   }
 }
@@ -0,0 +1,28 @@
+/**
+ * Fuzzy picker over OmniFocus tag names, used to add a tag to a task.
+ */
+
+import { App, FuzzySuggestModal } from 'obsidian';
+
+export class TagSuggestModal extends FuzzySuggestModal<string> {
+  constructor(
+    app: App,
+    private readonly tags: string[],
+    private readonly onChoose: (tag: string) => void,
+  ) {
+    super(app);
+    this.setPlaceholder('Add tag…');
+  }
+
+  getItems(): string[] {
+    return this.tags;
+  }
+
+  getItemText(tag: string): string {
+    return tag;
+  }
+
+  onChooseItem(tag: string): void {
+    this.onChoose(tag);
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Modal for setting a task's due or defer date, typed in natural language
+ * ("next fri", "tomorrow 9am") or picked from a calendar.
+ */
+
+import { App, Modal, Setting } from 'obsidian';
+import type { TextComponent } from 'obsidian';
+import type { TaskDateField } from './omnifocus-backend';
+import { DEFAULT_DATE_HOURS, parseNaturalDate } from './omnifocus-date-parse';
+import { formatFullDate, pad2 } from './omnifocus-task-meta';
+
+/** Local calendar day as the value of an `<input type="date">`. */
+function dateInputValue(d: Date): string {
+  return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}`;
+}
+
+export class TaskDateModal extends Modal {
+  private parsed: Date | null = null;
+  private textInput: TextComponent | null = null;
+  private preview: HTMLElement | null = null;
+  private picker: HTMLInputElement | null = null;
+
+  /**
+   * @param current - The task's current date (ISO), offered as Clear when set.
+   * @param onSubmit - Called with the chosen date, or null to clear it.
+   */
+  constructor(
+    app: App,
+    private readonly field: TaskDateField,
+    private readonly current: string | null,
+    private readonly onSubmit: (date: Date | null) => void,
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    this.containerEl.addClass('omnifocus-date-modal');
+    const { contentEl } = this;
+    contentEl.createEl('h2', { text: `Set ${this.field} date` });
+
+    new Setting(contentEl).setName('Date').addText((text) => {
+      this.textInput = text;
+      text.setPlaceholder('e.g. next fri, tomorrow 9am, +3d, oct 23');
+      text.onChange(() => this.update());
+      text.inputEl.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter' && !e.isComposing) {
+          e.preventDefault();
+          this.save();
+        }
+      });
+    });
+    this.preview = contentEl.createDiv({ cls: 'omnifocus-date-preview' });
+
+    const pickerSetting = new Setting(contentEl).setName('Or pick a day');
+    const picker = pickerSetting.controlEl.createEl('input', { type: 'date', cls: 'omnifocus-date-picker' });
+    picker.addEventListener('change', () => {
+      if (!picker.value) return;
+      this.textInput?.setValue(picker.value);
+      this.update();
+    });
+    this.picker = picker;
+
+    const buttons = new Setting(contentEl).addButton((btn) => btn.setButtonText('Cancel').onClick(() => this.close()));
+    if (this.current) {
+      buttons.addButton((btn) => btn.setButtonText(`Clear ${this.field} date`).onClick(() => this.submit(null)));
+      const d = new Date(this.current);
+      picker.value = dateInputValue(d);
+      this.preview.setText(`Currently ${formatFullDate(d)}`);
+    }
+    buttons.addButton((btn) => btn.setButtonText('Save').setCta().onClick(() => this.save()));
+  }
+
+  onClose(): void {
+    this.containerEl.removeClass('omnifocus-date-modal');
+    this.contentEl.empty();
+  }
+
+  /** Re-parse the typed text and show the result (or that it was not understood). */
+  private update(): void {
+    const text = this.textInput?.getValue().trim() ?? '';
+    this.parsed = parseNaturalDate(text, new Date(), DEFAULT_DATE_HOURS[this.field]);
+    this.preview?.setText(this.parsed ? formatFullDate(this.parsed) : text ? 'Not understood' : '');
+    this.preview?.toggleClass('omnifocus-date-preview--invalid', !this.parsed && text !== '');
+    if (this.parsed && this.picker) this.picker.value = dateInputValue(this.parsed);
+  }
+
+  /** Submit the typed date; does nothing until the text is understood. */
+  private save(): void {
+    if (this.parsed) this.submit(this.parsed);
+  }
+
+  private submit(date: Date | null): void {
+    this.onSubmit(date);
+    this.close();
+  }
+}
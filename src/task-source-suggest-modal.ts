@@ -0,0 +1,30 @@
+/**
+ * Fuzzy picker over the inbox and OmniFocus projects, used to choose where
+ * new tasks go.
+ */
+
+import { App, FuzzySuggestModal } from 'obsidian';
+import type { TaskSource } from './omnifocus';
+
+export class TaskSourceSuggestModal extends FuzzySuggestModal<TaskSource> {
+  constructor(
+    app: App,
+    private readonly projectNames: string[],
+    private readonly onChoose: (source: TaskSource) => void,
+  ) {
+    super(app);
+    this.setPlaceholder('Send to inbox or project…');
+  }
+
+  getItems(): TaskSource[] {
+    return [{ kind: 'inbox' }, ...this.projectNames.map((name): TaskSource => ({ kind: 'project', name }))];
+  }
+
+  getItemText(source: TaskSource): string {
+    return source.kind === 'project' ? source.name : 'Inbox';
+  }
+
+  onChooseItem(source: TaskSource): void {
+    this.onChoose(source);
+  }
+}
@@ -0,0 +1,116 @@
+import type { OmniFocusTask } from './omnifocus';
+import {
+  addOmniFocusId,
+  formatTasksLine,
+  formatTasksMarkdown,
+  isoFromTasksDate,
+  parseTasksLine,
+  parseTasksLines,
+  planTasksImport,
+} from './tasks-format';
+import { localDate } from './omnifocus-task-meta';
+
+/** ISO timestamp of a local date and hour in October 2026. */
+const oct = (day: number, hour = 12) => new Date(2026, 9, day, hour).toISOString();
+const task = (id: string, fields: Partial<OmniFocusTask> = {}): OmniFocusTask => ({ id, name: id, note: '', ...fields });
+
+describe('localDate and isoFromTasksDate', () => {
+  it('convert between ISO timestamps and local Tasks dates at the default hours', () => {
+    expect(localDate(oct(3, 23))).toBe('2026-10-03');
+    expect(localDate(null)).toBeNull();
+    expect(isoFromTasksDate('2026-10-23', 'due')).toBe(oct(23, 17));
+    expect(isoFromTasksDate('2026-10-23', 'defer')).toBe(oct(23, 0));
+  });
+});
+
+describe('formatTasksLine', () => {
+  it('writes the id, flag and dates as Tasks fields', () => {
+    const line = formatTasksLine(
+      task('kXy2', { name: 'Call Bob', flagged: true, addedDate: oct(1), deferDate: oct(20), dueDate: oct(23) }),
+    );
+    expect(line).toBe('- [ ] Call Bob [omnifocus:: kXy2] ⏫ ➕ 2026-10-01 🛫 2026-10-20 📅 2026-10-23');
+  });
+
+  it('marks completed tasks with their done date and dropped tasks as cancelled', () => {
+    expect(formatTasksLine(task('a', { completed: true, completionDate: oct(19) }))).toBe('- [x] a [omnifocus:: a] ✅ 2026-10-19');
+    expect(formatTasksLine(task('b', { completed: true, status: 'dropped' }))).toBe('- [-] b [omnifocus:: b]');
+    expect(formatTasksLine(task('c', { name: 'Two\nlines' }))).toBe('- [ ] Two lines [omnifocus:: c]');
+  });
+});
+
+describe('formatTasksMarkdown', () => {
+  it('indents subtasks under their action group unless flat', () => {
+    const tasks = [task('g'), task('c', { parentId: 'g' })];
+    expect(formatTasksMarkdown(tasks)).toBe('- [ ] g [omnifocus:: g]\n\t- [ ] c [omnifocus:: c]');
+    expect(formatTasksMarkdown(tasks, true)).toBe('- [ ] g [omnifocus:: g]\n- [ ] c [omnifocus:: c]');
+  });
+});
+
+describe('parseTasksLine', () => {
+  it('reads fields in any order and keeps tags in the description', () => {
+    const text = '  * [x] Pay #bills rent [omnifocus:: kXy2] 📅 2026-10-23 #home ⏫ 🔁 every month 🆔 dep1 ⛔ a1,b2 ✅ 2026-10-19 ^abc';
+    expect(parseTasksLine(text)).toEqual({
+      status: 'x',
+      description: 'Pay #bills rent #home',
+      omnifocusId: 'kXy2',
+      tasksId: 'dep1',
+      dependsOn: ['a1', 'b2'],
+      priority: 'high',
+      created: null,
+      start: null,
+      scheduled: null,
+      due: '2026-10-23',
+      done: '2026-10-19',
+    });
+  });
+
+  it('round-trips formatted lines and ignores lines that are not checkboxes', () => {
+    const line = parseTasksLine(formatTasksLine(task('a', { name: 'Call', flagged: true, deferDate: oct(20) })));
+    expect(line).toMatchObject({ description: 'Call', omnifocusId: 'a', priority: 'high', start: '2026-10-20', due: null });
+    expect(parseTasksLine('- plain item')).toBeNull();
+    expect(parseTasksLine('- [ ] 📅 2026-10-23')).toBeNull();
+  });
+});
+
+describe('parseTasksLines and addOmniFocusId', () => {
+  it('skips fenced code and adds ids after the description, before the Tasks fields', () => {
+    const content = '- [ ] A\n```\n- [ ] B\n```\n- [ ] C 📅 2026-10-23';
+    expect(parseTasksLines(content).map(({ line, task: t }) => [line, t.description])).toEqual([[0, 'A'], [4, 'C']]);
+    expect(addOmniFocusId('- [ ] C #home 📅 2026-10-23 🆔 dep1 ^blk', 'k1')).toBe('- [ ] C [omnifocus:: k1] #home 📅 2026-10-23 🆔 dep1 ^blk');
+    expect(addOmniFocusId('- [ ] C [omnifocus:: k0]', 'k1')).toBe('- [ ] C [omnifocus:: k0]');
+  });
+
+  it("does not take Tasks' own 🆔 for an OmniFocus id", () => {
+    expect(parseTasksLine('- [ ] C 🆔 dep1')).toMatchObject({ description: 'C', omnifocusId: null, tasksId: 'dep1' });
+  });
+});
+
+describe('planTasksImport', () => {
+  const lines = (content: string) => parseTasksLines(content);
+
+  it('creates open lines without an OmniFocus id with their dates and flag', () => {
+    const { changes } = planTasksImport(lines('- [ ] New 🔺 🛫 2026-10-20 📅 2026-10-23\n- [x] Done already'), []);
+    expect(changes).toEqual([{ kind: 'create', line: 0, name: 'New', due: '2026-10-23', defer: '2026-10-20', flagged: true }]);
+  });
+
+  it('updates linked tasks to match their lines and reports unknown ids', () => {
+    const existing = task('a', { name: 'Old', dueDate: oct(22, 17), deferDate: oct(20, 0), flagged: true });
+    const { changes, unknownIds } = planTasksImport(
+      lines('- [x] New [omnifocus:: a] 📅 2026-10-23\n- [ ] Gone [omnifocus:: zz]\n- [-] Cancelled [omnifocus:: a]'),
+      [existing],
+    );
+    expect(changes).toEqual([
+      { kind: 'rename', taskId: 'a', name: 'New' },
+      { kind: 'date', taskId: 'a', field: 'due', date: oct(23, 17) },
+      { kind: 'date', taskId: 'a', field: 'defer', date: null },
+      { kind: 'flag', taskId: 'a', flagged: false },
+      { kind: 'complete', taskId: 'a' },
+    ]);
+    expect(unknownIds).toEqual(['zz']);
+  });
+
+  it('leaves tasks that already match alone', () => {
+    const existing = task('a', { name: 'Same', dueDate: oct(23, 9), completed: true });
+    expect(planTasksImport(lines('- [x] Same [omnifocus:: a] 📅 2026-10-23'), [existing]).changes).toEqual([]);
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Obsidian Tasks plugin format (no lit or Obsidian dependency).
+ *
+ * Tasks lines carry their fields as emoji after the description:
+ * `- [ ] Call Bob [omnifocus:: kXy2] ⏫ 🛫 2026-10-20 📅 2026-10-23 ✅ 2026-10-24`.
+ * OmniFocus tasks are written in that format, with the OmniFocus id in an
+ * `[omnifocus:: id]` inline field at the end of the description (🆔 and ⛔
+ * are Tasks' own dependency fields). Tasks lines are read back into creates
+ * and updates: 📅 is the due date, 🛫 (start) the defer date, ⏫ or 🔺 the
+ * flag and ✅ or `[x]` completion.
+ */
+
+import type { OmniFocusTask } from './omnifocus';
+import type { TaskDateField } from './omnifocus-backend';
+import { DEFAULT_DATE_HOURS } from './omnifocus-date-parse';
+import { localDate } from './omnifocus-task-meta';
+import { buildTaskTree } from './omnifocus-task-tree';
+import type { TaskNode } from './omnifocus-task-tree';
+
+/** Tasks priorities, highest first. */
+export type TasksPriority = 'highest' | 'high' | 'medium' | 'low' | 'lowest';
+
+const PRIORITY_EMOJI: Record<TasksPriority, string> = {
+  highest: '🔺',
+  high: '⏫',
+  medium: '🔼',
+  low: '🔽',
+  lowest: '⏬',
+};
+
+/** A Tasks-format checkbox line. Dates are `YYYY-MM-DD` in local time. */
+export interface TasksLine {
+  /** `x` done, `-` cancelled, ` ` (or any other status) open. */
+  status: string;
+  description: string;
+  /** OmniFocus id from the `[omnifocus:: id]` field. */
+  omnifocusId: string | null;
+  /** Tasks' own id (🆔) and the ids it depends on (⛔), used for Tasks dependencies. */
+  tasksId: string | null;
+  dependsOn: string[];
+  priority: TasksPriority | null;
+  created: string | null;
+  start: string | null;
+  scheduled: string | null;
+  due: string | null;
+  done: string | null;
+}
+
+const TASK_LINE = /^(\s*[-*+]\s+\[)(.)\]\s+(.*)$/;
+const FENCE = /^\s*(```|~~~)/;
+const DATE_FIELDS: Record<string, 'created' | 'start' | 'scheduled' | 'due' | 'done'> = {
+  '➕': 'created',
+  '🛫': 'start',
+  '⏳': 'scheduled',
+  '📅': 'due',
+  '✅': 'done',
+};
+
+/** Trailing fields, matched from the end of the description one at a time. */
+const TRAILING_DATE = /\s*(➕|🛫|⏳|📅|✅|❌)️?\s*(\d{4}-\d{2}-\d{2})$/u;
+const TRAILING_PRIORITY = /\s*(🔺|⏫|🔼|🔽|⏬)️?$/u;
+const TRAILING_ID = /\s*🆔️?\s*([A-Za-z0-9._-]+)$/u;
+const TRAILING_DEPENDS_ON = /\s*⛔️?\s*([A-Za-z0-9._-]+(?:\s*,\s*[A-Za-z0-9._-]+)*)$/u;
+const OMNIFOCUS_ID_FIELD = /\s*\[omnifocus::\s*([A-Za-z0-9._-]+)\s*\]/;
+const TRAILING_RECURRENCE = /\s*🔁️?\s*([a-zA-Z0-9, !]+)$/u;
+const TRAILING_TAG = /\s+(#[^\s#]+)$/u;
+const TRAILING_BLOCK_LINK = /\s+\^[a-zA-Z0-9-]+$/;
+
+/** ISO timestamp for a Tasks date, at OmniFocus' default hour for the field. */
+export function isoFromTasksDate(date: string, field: TaskDateField): string {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d, DEFAULT_DATE_HOURS[field]).toISOString();
+}
+
+function omnifocusIdField(id: string): string {
+  return `[omnifocus:: ${id}]`;
+}
+
+/** One task as a Tasks line (without indentation). */
+export function formatTasksLine(task: OmniFocusTask): string {
+  const status = task.status === 'dropped' ? '-' : task.completed ? 'x' : ' ';
+  const parts = [`- [${status}] ${task.name.replace(/\s*\n\s*/g, ' ').trim()}`, omnifocusIdField(task.id)];
+  if (task.flagged) parts.push(PRIORITY_EMOJI.high);
+  const fields: [string, string | null][] = [
+    ['➕', localDate(task.addedDate)],
+    ['🛫', localDate(task.deferDate)],
+    ['📅', localDate(task.dueDate)],
+    ['✅', task.completed ? localDate(task.completionDate) : null],
+  ];
+  for (const [emoji, date] of fields) if (date) parts.push(`${emoji} ${date}`);
+  return parts.join(' ');
+}
+
+/**
+ * Tasks as Tasks-format markdown, one line per task in the given order.
+ * Subtasks are indented under their action group unless `flat`.
+ */
+export function formatTasksMarkdown(tasks: OmniFocusTask[], flat = false): string {
+  const lines: string[] = [];
+  const walk = (nodes: TaskNode[], depth: number) => {
+    for (const node of nodes) {
+      lines.push(`${'\t'.repeat(depth)}${formatTasksLine(node.task)}`);
+      walk(node.children, depth + 1);
+    }
+  };
+  walk(flat ? tasks.map((task) => ({ task, children: [] })) : buildTaskTree(tasks), 0);
+  return lines.join('\n');
+}
+
+function priorityOf(emoji: string): TasksPriority | null {
+  return (Object.keys(PRIORITY_EMOJI) as TasksPriority[]).find((p) => PRIORITY_EMOJI[p] === emoji) ?? null;
+}
+
+/** Trailing fields and what they set; the last occurrence of a field wins, as in Tasks. */
+const TRAILING_FIELDS: [RegExp, (line: TasksLine, m: RegExpMatchArray) => void][] = [
+  [TRAILING_DATE, (line, m) => {
+    const field = DATE_FIELDS[m[1]];
+    if (field && line[field] === null) line[field] = m[2];
+  }],
+  [TRAILING_PRIORITY, (line, m) => {
+    if (line.priority === null) line.priority = priorityOf(m[1]);
+  }],
+  [TRAILING_ID, (line, m) => {
+    if (line.tasksId === null) line.tasksId = m[1];
+  }],
+  [TRAILING_DEPENDS_ON, (line, m) => {
+    if (line.dependsOn.length === 0) line.dependsOn = m[1].split(/\s*,\s*/);
+  }],
+  [TRAILING_RECURRENCE, () => undefined],
+  [TRAILING_BLOCK_LINK, () => undefined],
+];
+
+/** Strip one trailing field off `rest` into `line`; false when none is left. */
+function takeTrailingField(line: TasksLine, rest: { text: string; tags: string[] }): boolean {
+  for (const [pattern, apply] of TRAILING_FIELDS) {
+    const m = rest.text.match(pattern);
+    if (!m) continue;
+    apply(line, m);
+    rest.text = rest.text.slice(0, m.index);
+    return true;
+  }
+  // Tags may sit between fields; they stay part of the description.
+  const tag = rest.text.match(TRAILING_TAG);
+  if (!tag) return false;
+  rest.tags.unshift(tag[1]);
+  rest.text = rest.text.slice(0, tag.index);
+  return true;
+}
+
+/** A parsed line and the offset in its text where the description ends. */
+function readTasksLine(text: string): { line: TasksLine; descriptionEnd: number } | null {
+  const m = text.match(TASK_LINE);
+  if (!m) return null;
+  const line: TasksLine = {
+    status: m[2],
+    description: '',
+    omnifocusId: null,
+    tasksId: null,
+    dependsOn: [],
+    priority: null,
+    created: null,
+    start: null,
+    scheduled: null,
+    due: null,
+    done: null,
+  };
+  const idField = m[3].match(OMNIFOCUS_ID_FIELD);
+  if (idField) line.omnifocusId = idField[1];
+  const rest = { text: m[3].replace(OMNIFOCUS_ID_FIELD, '').trimEnd(), tags: [] as string[] };
+  while (takeTrailingField(line, rest)) {
+    // keep taking fields off the end
+  }
+  line.description = [rest.text.trim(), ...rest.tags].filter(Boolean).join(' ');
+  const descriptionEnd = text.length - m[3].length + rest.text.trimEnd().length;
+  return line.description ? { line, descriptionEnd } : null;
+}
+
+/** Parse a checkbox line with its Tasks fields, or null when the line is not a checkbox. */
+export function parseTasksLine(text: string): TasksLine | null {
+  return readTasksLine(text)?.line ?? null;
+}
+
+/** Whether a Tasks line is done (`[x]` or a ✅ date). */
+export function isTasksLineDone(line: TasksLine): boolean {
+  return line.status.toLowerCase() === 'x' || line.done !== null;
+}
+
+/** Whether a Tasks priority maps to a flagged OmniFocus task. */
+export function isFlaggedPriority(priority: TasksPriority | null): boolean {
+  return priority === 'highest' || priority === 'high';
+}
+
+/** Tasks lines of a note with their 0-based line numbers, skipping fenced code blocks. */
+export function parseTasksLines(content: string): { line: number; task: TasksLine }[] {
+  const out: { line: number; task: TasksLine }[] = [];
+  let inFence = false;
+  content.split('\n').forEach((text, i) => {
+    if (FENCE.test(text)) inFence = !inFence;
+    if (inFence) return;
+    const task = parseTasksLine(text);
+    if (task) out.push({ line: i, task });
+  });
+  return out;
+}
+
+/**
+ * Add `[omnifocus:: id]` to a Tasks line, right after the description: Tasks
+ * only reads its emoji fields when nothing else follows them.
+ */
+export function addOmniFocusId(text: string, id: string): string {
+  const read = readTasksLine(text);
+  if (!read || read.line.omnifocusId) return text;
+  return `${text.slice(0, read.descriptionEnd)} ${omnifocusIdField(id)}${text.slice(read.descriptionEnd)}`;
+}
+
+/** A change to OmniFocus planned from a Tasks line. */
+export type TasksImportChange =
+  | { kind: 'create'; line: number; name: string; due: string | null; defer: string | null; flagged: boolean }
+  | { kind: 'rename'; taskId: string; name: string }
+  | { kind: 'date'; taskId: string; field: TaskDateField; date: string | null }
+  | { kind: 'flag'; taskId: string; flagged: boolean }
+  | { kind: 'complete' | 'uncomplete'; taskId: string };
+
+function dateChange(taskId: string, field: TaskDateField, current: string | null | undefined, wanted: string | null): TasksImportChange[] {
+  if (localDate(current) === wanted) return [];
+  return [{ kind: 'date', taskId, field, date: wanted ? isoFromTasksDate(wanted, field) : null }];
+}
+
+/** Changes that make a linked task match its Tasks line. Cancelled lines are left alone. */
+function planUpdate(line: TasksLine, task: OmniFocusTask): TasksImportChange[] {
+  if (line.status === '-') return [];
+  const changes: TasksImportChange[] = [];
+  if (line.description !== task.name) changes.push({ kind: 'rename', taskId: task.id, name: line.description });
+  changes.push(...dateChange(task.id, 'due', task.dueDate, line.due));
+  changes.push(...dateChange(task.id, 'defer', task.deferDate, line.start));
+  const flagged = isFlaggedPriority(line.priority);
+  if (flagged !== (task.flagged === true)) changes.push({ kind: 'flag', taskId: task.id, flagged });
+  const done = isTasksLineDone(line);
+  if (done !== (task.completed === true)) changes.push({ kind: done ? 'complete' : 'uncomplete', taskId: task.id });
+  return changes;
+}
+
+/**
+ * Plan the OmniFocus changes for the Tasks lines of a note: open lines
+ * without an OmniFocus id become new tasks; lines with one update that task.
+ *
+ * @param tasks - The tasks of the lines' ids as fetched by id.
+ * @returns The changes, and the ids no task was found for.
+ */
+export function planTasksImport(
+  lines: { line: number; task: TasksLine }[],
+  tasks: OmniFocusTask[],
+): { changes: TasksImportChange[]; unknownIds: string[] } {
+  const byId = new Map(tasks.map((t) => [t.id, t] as [string, OmniFocusTask]));
+  const changes: TasksImportChange[] = [];
+  const unknownIds: string[] = [];
+  for (const { line, task: parsed } of lines) {
+    if (parsed.omnifocusId) {
+      const task = byId.get(parsed.omnifocusId);
+      if (task) changes.push(...planUpdate(parsed, task));
+      else unknownIds.push(parsed.omnifocusId);
+    } else if (parsed.status === ' ' && !isTasksLineDone(parsed)) {
+      const flagged = isFlaggedPriority(parsed.priority);
+      changes.push({ kind: 'create', line, name: parsed.description, due: parsed.due, defer: parsed.start, flagged });
+    }
+  }
+  return { changes, unknownIds };
+}
@@ -0,0 +1,191 @@
+/**
+ * Obsidian Tasks commands (see tasks-format.ts). "Send Tasks lines in this
+ * note to OmniFocus" reads the Tasks lines of the active note, creates tasks
+ * for open lines without an OmniFocus id and updates the tasks of lines with
+ * one; new tasks' ids are written back as `[omnifocus:: id]` fields. "Insert
+ * OmniFocus tasks as Tasks lines" writes the tasks of the inbox or a project
+ * into the note, where Tasks queries and Dataview index them.
+ */
+
+import { Notice } from 'obsidian';
+import type { App, Command, Editor, TFile } from 'obsidian';
+import {
+  completeTask,
+  createTask,
+  errorMessage,
+  fetchProjectNames,
+  fetchTasks,
+  fetchTasksById,
+  setTaskDate,
+  setTaskFlagged,
+  uncompleteTask,
+  updateTask,
+} from './omnifocus';
+import type { OmniFocusTask, TaskSource } from './omnifocus';
+import { parseCheckboxes } from './checkbox-sync-plan';
+import { omnifocusTaskStore } from './omnifocus-task-store';
+import {
+  addOmniFocusId,
+  formatTasksMarkdown,
+  isoFromTasksDate,
+  parseTasksLine,
+  parseTasksLines,
+  planTasksImport,
+} from './tasks-format';
+import type { TasksImportChange } from './tasks-format';
+import { TaskSourceSuggestModal } from './task-source-suggest-modal';
+
+/** Plugin context required for the Tasks import command. */
+export interface TasksImportPluginContext {
+  app: App;
+  addCommand(command: Command): Command;
+}
+
+type CreateChange = Extract<TasksImportChange, { kind: 'create' }>;
+type UpdateChange = Exclude<TasksImportChange, CreateChange>;
+
+interface ImportResult {
+  created: { line: number; name: string; id: string }[];
+  updated: number;
+  failed: string[];
+}
+
+/** Set the dates and flag of a task just created from a line. */
+async function sendCreatedFields(id: string, change: CreateChange): Promise<void> {
+  if (change.due) await setTaskDate(id, 'due', isoFromTasksDate(change.due, 'due'));
+  if (change.defer) await setTaskDate(id, 'defer', isoFromTasksDate(change.defer, 'defer'));
+  if (change.flagged) await setTaskFlagged(id, true);
+}
+
+function sendUpdate(change: UpdateChange, tasks: Map<string, OmniFocusTask>): Promise<void> {
+  switch (change.kind) {
+    case 'rename':
+      return updateTask(change.taskId, change.name, tasks.get(change.taskId)?.note ?? '');
+    case 'date':
+      return setTaskDate(change.taskId, change.field, change.date);
+    case 'flag':
+      return setTaskFlagged(change.taskId, change.flagged);
+    case 'complete':
+      return completeTask(change.taskId);
+    case 'uncomplete':
+      return uncompleteTask(change.taskId);
+  }
+}
+
+async function sendChanges(changes: TasksImportChange[], tasks: OmniFocusTask[], source: TaskSource | null): Promise<ImportResult> {
+  const byId = new Map(tasks.map((t) => [t.id, t] as [string, OmniFocusTask]));
+  const result: ImportResult = { created: [], updated: 0, failed: [] };
+  for (const change of changes) {
+    try {
+      if (change.kind !== 'create') {
+        await sendUpdate(change, byId);
+        result.updated++;
+      } else if (source) {
+        const id = await createTask(source, change.name);
+        // Recorded before its fields are set, so the id is written back even if they fail.
+        result.created.push({ line: change.line, name: change.name, id });
+        await sendCreatedFields(id, change);
+      }
+    } catch (err) {
+      result.failed.push(errorMessage(err));
+    }
+  }
+  return result;
+}
+
+/** Write the ids of created tasks to their lines, if the lines still describe them. */
+function addCreatedIds(app: App, file: TFile, created: ImportResult['created']): Promise<string> {
+  return app.vault.process(file, (content) => {
+    const lines = content.split('\n');
+    for (const { line, name, id } of created) {
+      if (parseTasksLine(lines[line] ?? '')?.description === name) lines[line] = addOmniFocusId(lines[line], id);
+    }
+    return lines.join('\n');
+  });
+}
+
+function reportImport(result: ImportResult, unknownIds: string[]): void {
+  const parts: string[] = [];
+  if (result.created.length > 0) parts.push(`${result.created.length} created`);
+  if (result.updated > 0) parts.push(`${result.updated} change(s) sent`);
+  if (unknownIds.length > 0) parts.push(`${unknownIds.length} id(s) not found in OmniFocus`);
+  if (result.failed.length > 0) parts.push(`${result.failed.length} failed: ${result.failed[0]}`);
+  new Notice(parts.length > 0 ? `Tasks import: ${parts.join(', ')}.` : 'Tasks import: OmniFocus already matches this note.');
+}
+
+interface NoteImport {
+  file: TFile;
+  tasks: OmniFocusTask[];
+  changes: TasksImportChange[];
+  unknownIds: string[];
+}
+
+/**
+ * Plan sending the Tasks lines of a note to OmniFocus. Checkboxes linked
+ * with `<!-- of:ID -->` are left to checkbox sync.
+ */
+async function planNoteImport(app: App, file: TFile): Promise<NoteImport> {
+  const content = await app.vault.read(file);
+  const linked = new Set(parseCheckboxes(content).filter((b) => b.taskId).map((b) => b.line));
+  const lines = parseTasksLines(content).filter(({ line }) => !linked.has(line));
+  const ids = lines.map(({ task }) => task.omnifocusId).filter((id): id is string => id !== null);
+  const tasks = await fetchTasksById(ids);
+  return { file, tasks, ...planTasksImport(lines, tasks) };
+}
+
+/** Send a planned import; new tasks go to `source` (skipped when null). */
+async function applyNoteImport(app: App, plan: NoteImport, source: TaskSource | null): Promise<void> {
+  const result = await sendChanges(plan.changes, plan.tasks, source);
+  if (result.created.length > 0) await addCreatedIds(app, plan.file, result.created);
+  if (result.created.length > 0 || result.updated > 0) void omnifocusTaskStore.refreshAll();
+  reportImport(result, plan.unknownIds);
+}
+
+/** Send the Tasks lines of a note to OmniFocus, asking where new tasks go when there are any. */
+async function importTasksFromNote(app: App, file: TFile): Promise<void> {
+  const plan = await planNoteImport(app, file);
+  if (!plan.changes.some((c) => c.kind === 'create')) {
+    await applyNoteImport(app, plan, null);
+    return;
+  }
+  const projects = await fetchProjectNames();
+  new TaskSourceSuggestModal(app, projects, (source) => {
+    applyNoteImport(app, plan, source).catch((err) => new Notice(`Failed to send Tasks lines: ${errorMessage(err)}`));
+  }).open();
+}
+
+/** Insert the open tasks of the inbox or a project at the cursor, as Tasks lines. */
+async function insertTasksLines(app: App, editor: Editor): Promise<void> {
+  const projects = await fetchProjectNames();
+  new TaskSourceSuggestModal(app, projects, (source) => {
+    fetchTasks(source)
+      .then((tasks) => {
+        if (tasks.length === 0) new Notice('No open tasks there.');
+        else editor.replaceSelection(`${formatTasksMarkdown(tasks)}\n`);
+      })
+      .catch((err) => new Notice(`Failed to load tasks: ${errorMessage(err)}`));
+  }).open();
+}
+
+/** Register the commands that send the active note's Tasks lines to OmniFocus and insert tasks as Tasks lines. */
+export function registerTasksImport(plugin: TasksImportPluginContext): void {
+  plugin.addCommand({
+    id: 'insert-tasks-format',
+    name: 'Insert OmniFocus tasks as Tasks lines',
+    editorCallback: (editor) => {
+      insertTasksLines(plugin.app, editor).catch((err) => new Notice(`Failed to load projects: ${errorMessage(err)}`));
+    },
+  });
+  plugin.addCommand({
+    id: 'import-tasks-format',
+    name: 'Send Tasks lines in this note to OmniFocus',
+    checkCallback: (checking) => {
+      const file = plugin.app.workspace.getActiveFile();
+      if (!file || file.extension !== 'md') return false;
+      if (!checking) {
+        importTasksFromNote(plugin.app, file).catch((err) => new Notice(`Failed to send Tasks lines: ${errorMessage(err)}`));
+      }
+      return true;
+    },
+  });
+}
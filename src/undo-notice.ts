@@ -0,0 +1,43 @@
+/**
+ * Notices with an Undo button, and the "Undo last OmniFocus change" command
+ * action. The history itself lives in omnifocus-undo.ts.
+ */
+
+import { Notice } from 'obsidian';
+import { errorMessage } from './omnifocus';
+import { omnifocusUndoStack } from './omnifocus-undo';
+import type { UndoEntry } from './omnifocus-undo';
+
+/** How long a notice with an Undo button stays up. */
+const UNDO_NOTICE_MS = 8000;
+
+/** Undo the latest OmniFocus change and report the outcome in a notice. */
+export async function undoLastOmniFocusChange(): Promise<void> {
+  try {
+    const entry = await omnifocusUndoStack.undoLast();
+    new Notice(entry ? `Undone: ${entry.label}` : 'No OmniFocus change to undo.');
+  } catch (err) {
+    new Notice(`Failed to undo: ${errorMessage(err)}`);
+  }
+}
+
+/**
+ * Show `message` with an Undo button for `entry`. The button only undoes
+ * the entry while it is still the latest change.
+ */
+export function noticeWithUndo(message: string, entry: UndoEntry): void {
+  const fragment = createFragment((f) => {
+    f.appendText(`${message} `);
+  });
+  const button = fragment.createEl('button', { text: 'Undo', cls: 'omnifocus-undo-btn' });
+  const notice = new Notice(fragment, UNDO_NOTICE_MS);
+  button.addEventListener('click', (e) => {
+    e.stopPropagation();
+    notice.hide();
+    if (omnifocusUndoStack.peek() !== entry) {
+      new Notice('Only the latest OmniFocus change can be undone from here. Use the "Undo last OmniFocus change" command.');
+      return;
+    }
+    void undoLastOmniFocusChange();
+  });
+}